@@ -0,0 +1,224 @@
+import { useState } from "react";
+import { useQuery } from "@tanstack/react-query";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { useToast } from "@/hooks/use-toast";
+import { apiRequest, queryClient } from "@/lib/queryClient";
+import { BatteryForecast, BatteryPack, BatteryUsage, MemoryDump } from "@/lib/types";
+import { BatteryCharging, Plus } from "lucide-react";
+
+interface BatteryPanelProps {
+  memoryDump: MemoryDump;
+}
+
+const DEFAULT_PACK = 'default';
+
+const formatHours = (hours: number | null) => hours === null ? '–' : `${hours.toFixed(1)} h`;
+const formatOptional = (value: number | null, digits: number, unit: string) =>
+  value === null ? '–' : `${value.toFixed(digits)} ${unit}`;
+
+// Charge and energy a dump drew, per circulation segment, and how long the battery pack
+// lasts from here - whether the tool can run again without a battery swap
+export function BatteryPanel({ memoryDump }: BatteryPanelProps) {
+  const { toast } = useToast();
+  const [packId, setPackId] = useState(DEFAULT_PACK);
+  const [priorAh, setPriorAh] = useState('');
+  const [plannedHours, setPlannedHours] = useState('');
+  const [newPack, setNewPack] = useState({ name: '', ratedCapacityAh: '', cutoffVoltage: '' });
+
+  const { data: usage } = useQuery<BatteryUsage>({
+    queryKey: ['/api/memory-dumps', memoryDump.id, 'battery'],
+    enabled: memoryDump.status === 'completed',
+    refetchOnWindowFocus: false,
+    staleTime: 0,
+    gcTime: 0,
+  });
+
+  const { data: packs = [] } = useQuery<BatteryPack[]>({
+    queryKey: ['/api/battery-packs'],
+    refetchOnWindowFocus: false,
+  });
+  const toolPacks = packs.filter(pack => pack.toolType === memoryDump.fileType);
+
+  const { data: forecast, error: forecastError } = useQuery<BatteryForecast>({
+    queryKey: ['/api/memory-dumps', memoryDump.id, 'battery-forecast', packId, priorAh, plannedHours, packs.length],
+    queryFn: async () => {
+      const params = new URLSearchParams();
+      if (packId !== DEFAULT_PACK) params.set('pack', packId);
+      if (priorAh) params.set('priorAh', priorAh);
+      if (plannedHours) params.set('plannedHours', plannedHours);
+      const response = await fetch(`/api/memory-dumps/${memoryDump.id}/battery-forecast?${params}`);
+      const body = await response.json();
+      if (!response.ok) throw new Error(body.message ?? response.statusText);
+      return body;
+    },
+    enabled: memoryDump.status === 'completed',
+    retry: false,
+    refetchOnWindowFocus: false,
+  });
+
+  const handleAddPack = async () => {
+    try {
+      const response = await apiRequest('POST', '/api/battery-packs', {
+        name: newPack.name,
+        toolType: memoryDump.fileType,
+        ratedCapacityAh: Number(newPack.ratedCapacityAh),
+        cutoffVoltage: Number(newPack.cutoffVoltage),
+      });
+      const pack: BatteryPack = await response.json();
+      await queryClient.invalidateQueries({ queryKey: ['/api/battery-packs'] });
+      setPackId(String(pack.id));
+      setNewPack({ name: '', ratedCapacityAh: '', cutoffVoltage: '' });
+      toast({ title: "Battery pack added", description: `${pack.name}: ${pack.ratedCapacityAh} Ah, cutoff ${pack.cutoffVoltage} V` });
+    } catch (error) {
+      toast({
+        title: "Could not add battery pack",
+        description: error instanceof Error ? error.message : "Failed to add battery pack",
+        variant: "destructive"
+      });
+    }
+  };
+
+  if (memoryDump.status !== 'completed') return null;
+
+  const circulation = usage?.circulation ?? [];
+
+  return (
+    <Card className="glass-morphism border-dark-600">
+      <CardHeader>
+        <CardTitle className="flex items-center gap-2 text-slate-200">
+          <BatteryCharging className="w-5 h-5 text-emerald-400" /> Battery
+        </CardTitle>
+      </CardHeader>
+      <CardContent className="space-y-6">
+        <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+          <div className="rounded-lg bg-dark-800/60 p-4">
+            <p className="text-xs text-slate-400">Charge drawn</p>
+            <p className="text-2xl font-semibold text-slate-100">{formatOptional(usage?.ampHours ?? null, 3, 'Ah')}</p>
+            {usage?.provenance.ampHours?.source === 'computed' && (
+              <p className="text-xs text-violet-400/80 mt-1">{usage.provenance.ampHours.method}</p>
+            )}
+            {usage?.provenance.ampHours?.source === 'unavailable' && (
+              <p className="text-xs text-slate-500 mt-1">{usage.provenance.ampHours.reason}</p>
+            )}
+          </div>
+          <div className="rounded-lg bg-dark-800/60 p-4">
+            <p className="text-xs text-slate-400">Energy drawn</p>
+            <p className="text-2xl font-semibold text-slate-100">{formatOptional(usage?.wattHours ?? null, 2, 'Wh')}</p>
+            {usage?.provenance.wattHours?.source === 'unavailable' && (
+              <p className="text-xs text-slate-500 mt-1">{usage.provenance.wattHours.reason}</p>
+            )}
+          </div>
+        </div>
+
+        {circulation.length > 0 && (
+          <div className="overflow-x-auto max-h-64">
+            <table className="w-full text-xs text-slate-300">
+              <thead className="text-slate-500">
+                <tr>
+                  <th className="text-left font-medium py-1">Circulation</th>
+                  <th className="text-left font-medium py-1">Start</th>
+                  <th className="text-right font-medium py-1">Duration</th>
+                  <th className="text-right font-medium py-1">Ah</th>
+                  <th className="text-right font-medium py-1">Wh</th>
+                </tr>
+              </thead>
+              <tbody>
+                {circulation.map(segment => (
+                  <tr key={segment.sequence} className="border-t border-dark-700/50">
+                    <td className="py-1">#{segment.sequence + 1} {segment.state ?? ''}</td>
+                    <td className="py-1">{new Date(segment.startTime).toLocaleString()}</td>
+                    <td className="py-1 text-right">{(segment.durationSeconds / 60).toFixed(1)} min</td>
+                    <td className="py-1 text-right">{segment.ampHours === null ? '–' : segment.ampHours.toFixed(3)}</td>
+                    <td className="py-1 text-right">{segment.wattHours === null ? '–' : segment.wattHours.toFixed(2)}</td>
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          </div>
+        )}
+
+        <div className="grid grid-cols-1 md:grid-cols-3 gap-4">
+          <div className="space-y-1">
+            <Label className="text-xs text-slate-400">Battery pack</Label>
+            <Select value={packId} onValueChange={setPackId}>
+              <SelectTrigger><SelectValue /></SelectTrigger>
+              <SelectContent>
+                <SelectItem value={DEFAULT_PACK}>Newest {memoryDump.fileType} pack</SelectItem>
+                {toolPacks.map(pack => (
+                  <SelectItem key={pack.id} value={String(pack.id)}>
+                    {pack.name} ({pack.ratedCapacityAh} Ah, {pack.cutoffVoltage} V)
+                  </SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </div>
+          <div className="space-y-1">
+            <Label className="text-xs text-slate-400">Drawn before this dump (Ah)</Label>
+            <Input type="number" min="0" step="0.1" value={priorAh} onChange={e => setPriorAh(e.target.value)} placeholder="0" />
+          </div>
+          <div className="space-y-1">
+            <Label className="text-xs text-slate-400">Next run (hours)</Label>
+            <Input type="number" min="0" step="1" value={plannedHours} onChange={e => setPlannedHours(e.target.value)} placeholder="Optional" />
+          </div>
+        </div>
+
+        {forecastError && <p className="text-sm text-amber-400">{(forecastError as Error).message}</p>}
+        {forecast && (
+          <div className="grid grid-cols-2 md:grid-cols-4 gap-4 text-sm">
+            <div>
+              <p className="text-xs text-slate-400">Remaining</p>
+              <p className="text-slate-100 font-semibold">
+                {forecast.remainingAmpHours.toFixed(2)} Ah ({forecast.remainingPercent.toFixed(0)}%)
+              </p>
+            </div>
+            <div>
+              <p className="text-xs text-slate-400">Average current</p>
+              <p className="text-slate-100">{formatOptional(forecast.averageCurrentA, 3, 'A')}</p>
+            </div>
+            <div>
+              <p className="text-xs text-slate-400">Last voltage</p>
+              <p className="text-slate-100">
+                {formatOptional(forecast.lastVoltage, 2, 'V')}
+                {forecast.voltageTrendPerHour !== null && ` (${forecast.voltageTrendPerHour.toFixed(3)} V/h)`}
+              </p>
+            </div>
+            <div>
+              <p className="text-xs text-slate-400">Time to {forecast.pack.cutoffVoltage} V cutoff</p>
+              <p className={`font-semibold ${forecast.sufficient === false ? 'text-red-400' : forecast.sufficient ? 'text-emerald-400' : 'text-slate-100'}`}>
+                {formatHours(forecast.hoursToCutoff.projected)}
+              </p>
+              <p className="text-xs text-slate-500">
+                by capacity {formatHours(forecast.hoursToCutoff.byCapacity)} • by voltage {formatHours(forecast.hoursToCutoff.byVoltage)}
+              </p>
+            </div>
+            {forecast.sufficient !== null && (
+              <p className={`col-span-2 md:col-span-4 ${forecast.sufficient ? 'text-emerald-400' : 'text-red-400'}`}>
+                {forecast.sufficient
+                  ? `${forecast.pack.name} covers a ${forecast.plannedHours} h run without a swap`
+                  : `Swap the battery: ${forecast.pack.name} reaches cutoff before a ${forecast.plannedHours} h run ends`}
+              </p>
+            )}
+          </div>
+        )}
+
+        <div className="flex flex-wrap items-end gap-2 border-t border-dark-700/50 pt-4">
+          <div className="space-y-1">
+            <Label className="text-xs text-slate-400">New {memoryDump.fileType} pack</Label>
+            <Input value={newPack.name} onChange={e => setNewPack({ ...newPack, name: e.target.value })} placeholder="Name" />
+          </div>
+          <Input className="w-32" type="number" min="0" value={newPack.ratedCapacityAh}
+            onChange={e => setNewPack({ ...newPack, ratedCapacityAh: e.target.value })} placeholder="Capacity Ah" />
+          <Input className="w-32" type="number" min="0" value={newPack.cutoffVoltage}
+            onChange={e => setNewPack({ ...newPack, cutoffVoltage: e.target.value })} placeholder="Cutoff V" />
+          <Button variant="outline" size="sm" onClick={handleAddPack} disabled={!newPack.name}>
+            <Plus className="w-4 h-4 mr-1" /> Add pack
+          </Button>
+        </div>
+      </CardContent>
+    </Card>
+  );
+}
@@ -0,0 +1,76 @@
+import { DataQualitySummary, SampleQuality } from "@/lib/types";
+import { ShieldCheck } from "lucide-react";
+
+interface DataQualityPanelProps {
+  summary: DataQualitySummary | null | undefined;
+}
+
+const ISSUE_LABELS: Record<Exclude<SampleQuality, 'valid'>, string> = {
+  'out-of-range': 'Out of range',
+  'nan': 'NaN',
+  'erased': 'Erased (0xFF)',
+  'padding': 'Padding',
+};
+
+const ISSUES = Object.keys(ISSUE_LABELS) as Exclude<SampleQuality, 'valid'>[];
+
+// Per-channel share of valid samples; invalid samples are left out of charts and analysis
+export default function DataQualityPanel({ summary }: DataQualityPanelProps) {
+  if (!summary || summary.records === 0) return null;
+
+  const channels = Object.entries(summary.channels)
+    .map(([channel, counts]) => ({ channel, counts, validPercent: (counts.valid / summary.records) * 100 }))
+    .sort((a, b) => a.validPercent - b.validPercent);
+  const overall = channels.length > 0
+    ? channels.reduce((sum, c) => sum + c.validPercent, 0) / channels.length
+    : 100;
+
+  return (
+    <div className="glass-morphism rounded-xl p-4 space-y-3">
+      <div className="flex items-center justify-between text-sm">
+        <h3 className="flex items-center gap-2 font-semibold text-slate-200">
+          <ShieldCheck className="w-4 h-4 text-emerald-400" /> Data Quality
+        </h3>
+        <p className="text-slate-400">
+          {overall.toFixed(1)}% of samples valid across {channels.length} channels
+          {summary.paddingRecords > 0 && ` • ${summary.paddingRecords.toLocaleString()} padding records`}
+        </p>
+      </div>
+      <div className="overflow-x-auto">
+        <table className="w-full text-xs text-slate-300">
+          <thead className="text-slate-500">
+            <tr>
+              <th className="text-left font-medium py-1">Channel</th>
+              <th className="text-right font-medium py-1">Valid</th>
+              {ISSUES.map(issue => (
+                <th key={issue} className="text-right font-medium py-1">{ISSUE_LABELS[issue]}</th>
+              ))}
+            </tr>
+          </thead>
+          <tbody>
+            {channels.map(({ channel, counts, validPercent }) => (
+              <tr key={channel} className="border-t border-dark-700/50">
+                <td className="py-1 font-mono">{channel}</td>
+                <td className={`py-1 text-right ${validPercent < 90 ? 'text-amber-400' : 'text-emerald-400'}`}>
+                  {validPercent.toFixed(1)}%
+                </td>
+                {ISSUES.map(issue => (
+                  <td key={issue} className="py-1 text-right text-slate-400">
+                    {counts[issue] > 0 ? counts[issue].toLocaleString() : '–'}
+                  </td>
+                ))}
+              </tr>
+            ))}
+          </tbody>
+        </table>
+      </div>
+      {Object.keys(summary.constants).length > 0 && (
+        <p className="text-xs text-slate-500">
+          Not logged per record: {Object.entries(summary.constants)
+            .map(([name, constant]) => `${name} ${constant.value}${constant.unit ? ` ${constant.unit}` : ''}`)
+            .join(', ')}
+        </p>
+      )}
+    </div>
+  );
+}
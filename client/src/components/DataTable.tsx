@@ -8,7 +8,7 @@ import { Button } from "@/components/ui/button";
 import { Input } from "@/components/ui/input";
 import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
 import { ChevronLeft, ChevronRight, ChevronsLeft, ChevronsRight, Download, Filter, Search } from "lucide-react";
-import { MemoryDump, MemoryDumpDetails } from "@/lib/types";
+import { MemoryDump, RecordPage } from "@/lib/types";
 import { Database, Activity, AlertTriangle } from "lucide-react";
 
 interface DataTableProps {
@@ -68,87 +68,82 @@ function formatValue(value: number | string | null | undefined, type: string): s
   }
 }
 
+const COLUMNS: { key: string; label: string; type: string }[] = [
+  { key: 'tempMP', label: 'Temperature', type: 'temperature' },
+  { key: 'batteryVoltMP', label: 'Battery Voltage', type: 'voltage' },
+  { key: 'batteryCurrMP', label: 'Battery Current', type: 'current' },
+  { key: 'motorAvg', label: 'Motor Current', type: 'current' },
+  { key: 'flowStatus', label: 'Flow Status', type: 'flow' },
+  { key: 'gamma', label: 'Gamma Radiation', type: 'gamma' },
+  { key: 'maxZ', label: 'Max Vibration Z', type: 'vibration' },
+  { key: 'rotRpmAvg', label: 'RPM Average', type: 'rpm' },
+  { key: 'accelAX', label: 'Acceleration X', type: 'acceleration' },
+  { key: 'accelAY', label: 'Acceleration Y', type: 'acceleration' },
+  { key: 'accelAZ', label: 'Acceleration Z', type: 'acceleration' },
+  { key: 'shockX', label: 'Shock X', type: 'shock' },
+  { key: 'shockY', label: 'Shock Y', type: 'shock' },
+  { key: 'shockZ', label: 'Shock Z', type: 'shock' },
+];
+
+const FILTER_OPS: { op: string; label: string }[] = [
+  { op: 'eq', label: '=' },
+  { op: 'ne', label: '≠' },
+  { op: 'gt', label: '>' },
+  { op: 'gte', label: '≥' },
+  { op: 'lt', label: '<' },
+  { op: 'lte', label: '≤' },
+];
+
+interface ColumnFilter {
+  column: string;
+  op: string;
+  value: string;
+}
+
 export default function DataTable({ memoryDump }: DataTableProps) {
   const [currentPage, setCurrentPage] = useState(1);
   const itemsPerPage = 50; // Display 50 records per page
-  const [globalFilter, setGlobalFilter] = useState("");
-  const [columnFilters, setColumnFilters] = useState<{ [key: string]: string }>({});
+  const [filters, setFilters] = useState<ColumnFilter[]>([]);
+  const [draftFilter, setDraftFilter] = useState<ColumnFilter>({ column: 'tempMP', op: 'gte', value: '' });
   const [sortColumn, setSortColumn] = useState<string | null>(null);
   const [sortDirection, setSortDirection] = useState<"asc" | "desc">("asc");
 
-  // Move useQuery to be always called (before any conditional returns)
-  const { data: tableData, isLoading, error } = useQuery<any[]>({
-    queryKey: ['/api/memory-dumps', memoryDump?.id, 'full-table-data', memoryDump?.filename, memoryDump?.uploadedAt],
-    queryFn: async () => {
-      if (!memoryDump?.id) throw new Error('No memory dump selected');
+  // Filtering, sorting and paging run on the server; only the visible page is fetched
+  const queryParams = useMemo(() => {
+    const params = new URLSearchParams();
+    if (filters.length > 0) {
+      params.set('filter', filters.map(f => `${f.column}:${f.op}:${f.value}`).join(','));
+    }
+    if (sortColumn) {
+      params.set('sort', sortColumn);
+      params.set('order', sortDirection);
+    }
+    return params;
+  }, [filters, sortColumn, sortDirection]);
 
-      const response = await fetch(`/api/memory-dumps/${memoryDump.id}/full-table-data/${encodeURIComponent(memoryDump.filename)}/${encodeURIComponent(memoryDump.uploadedAt)}`);
-      if (!response.ok) {
-        throw new Error(`Failed to fetch table data: ${response.statusText}`);
-      }
-      return response.json();
-    },
+  const pageParams = new URLSearchParams(queryParams);
+  pageParams.set('offset', String((currentPage - 1) * itemsPerPage));
+  pageParams.set('limit', String(itemsPerPage));
+
+  // Move useQuery to be always called (before any conditional returns)
+  const { data: page, isLoading, isFetching, error } = useQuery<RecordPage>({
+    queryKey: ['/api/memory-dumps', memoryDump?.id, `records?${pageParams}`],
     enabled: memoryDump?.status === 'completed',
     refetchOnWindowFocus: false,
     refetchOnMount: true,
     refetchOnReconnect: true,
     staleTime: 0, // Always fetch fresh data for new dumps
-    gcTime: 0, // Don't cache table data - always fresh
+    placeholderData: previous => previous, // Keep the current page on screen while the next loads
   });
 
-  // Move all useMemo hooks here (before any conditional returns)
-  const filteredData = useMemo(() => {
-    if (!tableData) return [];
-    let data = [...tableData];
-
-    if (globalFilter) {
-      data = data.filter(item =>
-        Object.values(item).some(value =>
-          String(value).toLowerCase().includes(globalFilter.toLowerCase())
-        )
-      );
-    }
-
-    for (const column in columnFilters) {
-      const filterValue = columnFilters[column];
-      if (filterValue) {
-        data = data.filter(item =>
-          String(item[column]).toLowerCase().includes(filterValue.toLowerCase())
-        );
-      }
-    }
-
-    return data;
-  }, [tableData, globalFilter, columnFilters]);
-
-  const sortedData = useMemo(() => {
-    if (!sortColumn) return filteredData;
-
-    const sorted = [...filteredData].sort((a, b) => {
-      const aValue = a[sortColumn];
-      const bValue = b[sortColumn];
-
-      if (aValue === null || aValue === undefined) return sortDirection === "asc" ? -1 : 1;
-      if (bValue === null || bValue === undefined) return sortDirection === "asc" ? 1 : -1;
-
-      if (typeof aValue === "number" && typeof bValue === "number") {
-        return sortDirection === "asc" ? aValue - bValue : bValue - aValue;
-      }
-
-      const aString = String(aValue).toLowerCase();
-      const bString = String(bValue).toLowerCase();
-
-      return sortDirection === "asc" ? aString.localeCompare(bString) : bString.localeCompare(aString);
-    });
-
-    return sorted;
-  }, [filteredData, sortColumn, sortDirection]);
-
-  const totalRecords = sortedData.length;
-  const totalPages = Math.ceil(totalRecords / itemsPerPage);
+  const totalRecords = page?.total ?? 0;
+  const totalPages = Math.max(1, Math.ceil(totalRecords / itemsPerPage));
   const startIndex = (currentPage - 1) * itemsPerPage;
   const endIndex = Math.min(startIndex + itemsPerPage, totalRecords);
-  const displayData = sortedData.slice(startIndex, endIndex);
+  const displayData = page?.rows ?? [];
+
+  // Only the columns this dump logs can be shown, filtered or sorted
+  const visibleColumns = COLUMNS.filter(c => page?.columns.includes(c.key));
 
   // Now handle conditional rendering after all hooks are defined
   if (!memoryDump) {
@@ -196,7 +191,7 @@ export default function DataTable({ memoryDump }: DataTableProps) {
     );
   }
 
-  if (error || !tableData || tableData.length === 0) {
+  if (error || !page || page.totalRecords === 0) {
     return (
       <section>
         <div className="gradient-border">
@@ -227,24 +222,45 @@ export default function DataTable({ memoryDump }: DataTableProps) {
   const goToNextPage = () => setCurrentPage(Math.min(totalPages, currentPage + 1));
   const goToLastPage = () => setCurrentPage(totalPages);
 
-  // CSV Export function
-  const exportToCSV = () => {
-    const headers = Object.keys(tableData[0]).join(',');
-    const csv = [
-      headers,
-      ...tableData.map(item => Object.values(item).map(value => String(value).replace(/,/g, '')).join(','))
-    ].join('\r\n');
+  const toggleSort = (column: string) => {
+    if (sortColumn !== column) {
+      setSortColumn(column);
+      setSortDirection("asc");
+    } else if (sortDirection === "asc") {
+      setSortDirection("desc");
+    } else {
+      setSortColumn(null);
+    }
+    setCurrentPage(1);
+  };
+
+  const addFilter = () => {
+    const value = draftFilter.value.trim();
+    if (value === '' || (draftFilter.column !== 'flowStatus' && !isFinite(Number(value)))) return;
+    setFilters([...filters, { ...draftFilter, value }]);
+    setDraftFilter({ ...draftFilter, value: '' });
+    setCurrentPage(1);
+  };
+
+  const removeFilter = (index: number) => {
+    setFilters(filters.filter((_, i) => i !== index));
+    setCurrentPage(1);
+  };
 
-    const blob = new Blob([csv], { type: 'text/csv' });
-    const url = URL.createObjectURL(blob);
+  // CSV export of every record matching the current filters and sort, built by the server
+  const exportToCSV = () => {
+    const params = new URLSearchParams(queryParams);
+    params.set('format', 'csv');
     const link = document.createElement('a');
-    link.href = url;
+    link.href = `/api/memory-dumps/${memoryDump.id}/records?${params}`;
     link.download = `${memoryDump.filename}_data.csv`;
     document.body.appendChild(link);
     link.click();
     document.body.removeChild(link);
   };
 
+  const columnLabel = (key: string) => COLUMNS.find(c => c.key === key)?.label ?? key;
+
   return (
     <section>
       <div className="gradient-border">
@@ -254,7 +270,7 @@ export default function DataTable({ memoryDump }: DataTableProps) {
               Complete Binary Memory Dump Analysis - All Data
             </CardTitle>
             <div className="flex flex-col md:flex-row items-center justify-between gap-2">
-              <p className="text-slate-400 text-sm">Complete sensor dataset from {memoryDump.filename} - All {totalRecords.toLocaleString()} records available</p>
+              <p className="text-slate-400 text-sm">Complete sensor dataset from {memoryDump.filename} - {page.totalRecords.toLocaleString()} records{filters.length > 0 && `, ${totalRecords.toLocaleString()} matching the filters`}</p>
               <div className="flex items-center space-x-2">
                 <Badge className="bg-blue-500/20 text-blue-400 border-blue-500/50">
                   Page {currentPage}: {startIndex + 1}-{endIndex} of {totalRecords.toLocaleString()} records
@@ -269,110 +285,104 @@ export default function DataTable({ memoryDump }: DataTableProps) {
             </div>
 
             {/* Filtering and Export Section */}
-            <div className="flex flex-col md:flex-row items-center justify-between gap-2 mt-4">
-              <div className="flex items-center space-x-2">
+            <div className="flex flex-col md:flex-row md:items-center justify-between gap-2 mt-4">
+              <div className="flex flex-wrap items-center gap-2">
+                <Filter className="w-4 h-4 text-slate-400" />
+                <Select value={draftFilter.column} onValueChange={column => setDraftFilter({ ...draftFilter, column, op: column === 'flowStatus' ? 'eq' : draftFilter.op })}>
+                  <SelectTrigger className="w-44 bg-slate-800 border-slate-700 text-slate-300 text-sm">
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    {visibleColumns.map(c => <SelectItem key={c.key} value={c.key}>{c.label}</SelectItem>)}
+                  </SelectContent>
+                </Select>
+                <Select value={draftFilter.op} onValueChange={op => setDraftFilter({ ...draftFilter, op })}>
+                  <SelectTrigger className="w-20 bg-slate-800 border-slate-700 text-slate-300 text-sm">
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    {FILTER_OPS
+                      .filter(o => draftFilter.column !== 'flowStatus' || o.op === 'eq' || o.op === 'ne')
+                      .map(o => <SelectItem key={o.op} value={o.op}>{o.label}</SelectItem>)}
+                  </SelectContent>
+                </Select>
                 <Input
                   type="text"
-                  placeholder="Global Filter"
-                  value={globalFilter}
-                  onChange={(e) => {
-                    setGlobalFilter(e.target.value);
-                    setCurrentPage(1); // Reset page on filter
-                  }}
-                  className="bg-slate-800 border-slate-700 text-slate-300 focus:ring-blue-500 focus:border-blue-500 text-sm rounded-lg block w-full p-2.5"
+                  placeholder={draftFilter.column === 'flowStatus' ? 'On / Off' : 'Value'}
+                  value={draftFilter.value}
+                  onChange={(e) => setDraftFilter({ ...draftFilter, value: e.target.value })}
+                  onKeyDown={(e) => e.key === 'Enter' && addFilter()}
+                  className="w-28 bg-slate-800 border-slate-700 text-slate-300 focus:ring-blue-500 focus:border-blue-500 text-sm rounded-lg p-2.5"
                 />
-                <Button
-                  onClick={exportToCSV}
-                  className="bg-green-500 hover:bg-green-600 text-white font-bold py-2 px-4 rounded"
-                >
-                  <Download className="w-4 h-4 mr-2" />
-                  Export CSV
+                <Button onClick={addFilter} size="sm" className="bg-slate-700 hover:bg-slate-600 text-slate-300">
+                  <Search className="w-4 h-4 mr-1" /> Add filter
                 </Button>
+                {filters.map((f, index) => (
+                  <Badge
+                    key={`${f.column}-${f.op}-${f.value}-${index}`}
+                    className="bg-blue-500/20 text-blue-400 border-blue-500/50 cursor-pointer"
+                    onClick={() => removeFilter(index)}
+                    title="Remove filter"
+                  >
+                    {columnLabel(f.column)} {FILTER_OPS.find(o => o.op === f.op)?.label} {f.value} ✕
+                  </Badge>
+                ))}
               </div>
+              <Button
+                onClick={exportToCSV}
+                className="bg-green-500 hover:bg-green-600 text-white font-bold py-2 px-4 rounded"
+              >
+                <Download className="w-4 h-4 mr-2" />
+                Export CSV
+              </Button>
             </div>
           </CardHeader>
           <CardContent>
-            <div className="glass-morphism rounded-xl p-6">
+            <div className={`glass-morphism rounded-xl p-6 ${isFetching ? 'opacity-70' : ''}`}>
               <div className="overflow-x-auto">
                 <Table>
                   <TableHeader>
                     <TableRow className="border-slate-700 hover:bg-slate-800/50">
                       <TableHead className="text-slate-300 font-semibold">Record #</TableHead>
-                      <TableHead className="text-slate-300 font-semibold">Timestamp</TableHead>
-                      <TableHead className="text-slate-300 font-semibold">Temperature</TableHead>
-                      <TableHead className="text-slate-300 font-semibold">Battery Voltage</TableHead>
-                      <TableHead className="text-slate-300 font-semibold">Battery Current</TableHead>
-                      <TableHead className="text-slate-300 font-semibold">Motor Current</TableHead>
-                      <TableHead className="text-slate-300 font-semibold">Flow Status</TableHead>
-                      <TableHead className="text-slate-300 font-semibold">Gamma Radiation</TableHead>
-                      <TableHead className="text-slate-300 font-semibold">Max Vibration Z</TableHead>
-                      <TableHead className="text-slate-300 font-semibold">RPM Average</TableHead>
-                      <TableHead className="text-slate-300 font-semibold">Acceleration X</TableHead>
-                      <TableHead className="text-slate-300 font-semibold">Acceleration Y</TableHead>
-                      <TableHead className="text-slate-300 font-semibold">Acceleration Z</TableHead>
-                      <TableHead className="text-slate-300 font-semibold">Shock X</TableHead>
-                      <TableHead className="text-slate-300 font-semibold">Shock Y</TableHead>
-                      <TableHead className="text-slate-300 font-semibold">Shock Z</TableHead>
+                      {[{ key: 'rtd', label: 'Timestamp' }, ...visibleColumns].map(c => (
+                        <TableHead
+                          key={c.key}
+                          className="text-slate-300 font-semibold cursor-pointer select-none whitespace-nowrap"
+                          onClick={() => toggleSort(c.key)}
+                        >
+                          {c.label}
+                          {sortColumn === c.key && (sortDirection === 'asc' ? ' ▲' : ' ▼')}
+                        </TableHead>
+                      ))}
                     </TableRow>
                   </TableHeader>
                   <TableBody>
-                    {displayData.map((record, index) => {
-                      const actualIndex = startIndex + index + 1;
-                      return (
-                        <TableRow key={actualIndex} className="border-slate-700 hover:bg-slate-800/30">
-                          <TableCell className="text-slate-300 font-mono text-sm font-bold">
-                            #{actualIndex.toLocaleString()}
-                          </TableCell>
-                          <TableCell className="text-slate-300 font-mono text-sm">
-                            {record.rtd ? new Date(record.rtd).toLocaleString() : 'N/A'}
-                          </TableCell>
-                          <TableCell className="text-slate-300 font-medium">
-                            {formatValue(record.tempMP, 'temperature')}
-                          </TableCell>
-                          <TableCell className="text-slate-300 font-medium">
-                            {formatValue(record.batteryVoltMP, 'voltage')}
-                          </TableCell>
-                          <TableCell className="text-slate-300 font-medium">
-                            {formatValue(record.batteryCurrMP, 'current')}
-                          </TableCell>
-                          <TableCell className="text-slate-300 font-medium">
-                            {formatValue(record.motorAvg, 'current')}
-                          </TableCell>
-                          <TableCell className="text-slate-300">
-                            <Badge className={record.flowStatus === 'On' || record.flowStatus === 'Active' || record.flowStatus > 0 ? 'bg-green-500/20 text-green-400 border-green-500/50' : 'bg-red-500/20 text-red-400 border-red-500/50'}>
-                              {formatValue(record.flowStatus, 'flow')}
-                            </Badge>
-                          </TableCell>
-                          <TableCell className="text-slate-300 font-medium">
-                            {formatValue(record.gamma, 'gamma')}
-                          </TableCell>
-                          <TableCell className="text-slate-300 font-medium">
-                            {formatValue(record.maxZ, 'vibration')}
-                          </TableCell>
-                          <TableCell className="text-slate-300 font-medium">
-                            {formatValue(record.rotRpmAvg, 'rpm')}
-                          </TableCell>
-                          <TableCell className="text-slate-300 font-medium">
-                            {formatValue(record.accelAX, 'acceleration')}
-                          </TableCell>
-                          <TableCell className="text-slate-300 font-medium">
-                            {formatValue(record.accelAY, 'acceleration')}
-                          </TableCell>
-                          <TableCell className="text-slate-300 font-medium">
-                            {formatValue(record.accelAZ, 'acceleration')}
-                          </TableCell>
-                          <TableCell className="text-slate-300 font-medium">
-                            {formatValue(record.shockX, 'shock')}
-                          </TableCell>
-                          <TableCell className="text-slate-300 font-medium">
-                            {formatValue(record.shockY, 'shock')}
-                          </TableCell>
-                          <TableCell className="text-slate-300 font-medium">
-                            {formatValue(record.shockZ, 'shock')}
+                    {displayData.length === 0 && (
+                      <TableRow className="border-slate-700">
+                        <TableCell colSpan={visibleColumns.length + 2} className="text-center text-slate-400 py-8">
+                          No records match the filters
+                        </TableCell>
+                      </TableRow>
+                    )}
+                    {displayData.map((record) => (
+                      <TableRow key={record.record} className="border-slate-700 hover:bg-slate-800/30">
+                        <TableCell className="text-slate-300 font-mono text-sm font-bold">
+                          #{(record.record + 1).toLocaleString()}
+                        </TableCell>
+                        <TableCell className="text-slate-300 font-mono text-sm">
+                          {record.rtd ? new Date(record.rtd).toLocaleString() : 'N/A'}
+                        </TableCell>
+                        {visibleColumns.map(c => (
+                          <TableCell key={c.key} className="text-slate-300 font-medium">
+                            {c.key === 'flowStatus' ? (
+                              <Badge className={record.flowStatus === 'On' || record.flowStatus === 'Active' ? 'bg-green-500/20 text-green-400 border-green-500/50' : 'bg-red-500/20 text-red-400 border-red-500/50'}>
+                                {record.flowStatus ?? 'N/A'}
+                              </Badge>
+                            ) : formatValue(record[c.key], c.type)}
                           </TableCell>
-                        </TableRow>
-                      );
-                    })}
+                        ))}
+                      </TableRow>
+                    ))}
                   </TableBody>
                 </Table>
               </div>
@@ -4,6 +4,13 @@ import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
 import { MemoryDumpDetails } from "@/lib/types";
 import { Activity, Thermometer, Zap, AlertTriangle, Battery, Gauge, RotateCw, RotateCcw, Cpu, Compass, TrendingUp } from "lucide-react";
 import { useMemo } from "react";
+import SegmentStrip from "./SegmentStrip";
+import DataQualityPanel from "./DataQualityPanel";
+import SensorHealthPanel from "./SensorHealthPanel";
+import ParseDiagnosticsPanel from "./ParseDiagnosticsPanel";
+import SeriesChart, { SeriesGroup } from "./SeriesChart";
+import StickSlipChart from "./StickSlipChart";
+import SpectrogramChart from "./SpectrogramChart";
 
 interface DataVisualizationProps {
   memoryDump: {
@@ -14,6 +21,45 @@ interface DataVisualizationProps {
   } | null;
 }
 
+// Channels the spectrogram can analyze, shown when the dump logs them
+const SPECTRAL_CHANNELS = [
+  { key: 'maxX', name: 'Max X' },
+  { key: 'maxY', name: 'Max Y' },
+  { key: 'maxZ', name: 'Max Z' },
+  { key: 'accelAX', name: 'Accel X' },
+  { key: 'accelAY', name: 'Accel Y' },
+  { key: 'accelAZ', name: 'Accel Z' },
+  { key: 'rotRpmAvg', name: 'RPM Avg' },
+  { key: 'rotRpmMax', name: 'RPM Max' },
+  { key: 'rotRpmMin', name: 'RPM Min' },
+];
+
+// Channel groups offered by the time-range explorer, shown when the dump logs them
+const SERIES_GROUPS: SeriesGroup[] = [
+  { id: 'vibration', label: 'Vibration', unit: 'g', channels: [
+    { key: 'maxX', name: 'Max X', color: '#3B82F6' },
+    { key: 'maxY', name: 'Max Y', color: '#10B981' },
+    { key: 'maxZ', name: 'Max Z', color: '#F59E0B' },
+  ] },
+  { id: 'shock', label: 'Shock', unit: 'g', channels: [
+    { key: 'shockX', name: 'Shock X', color: '#3B82F6' },
+    { key: 'shockY', name: 'Shock Y', color: '#10B981' },
+    { key: 'shockZ', name: 'Shock Z', color: '#EF4444' },
+  ] },
+  { id: 'temperature', label: 'Temperature', unit: '°F', channels: [
+    { key: 'tempMP', name: 'Temperature (°F)', color: '#EF4444' },
+  ] },
+  { id: 'battery', label: 'Battery', unit: 'V / A', channels: [
+    { key: 'batteryVoltMP', name: 'Battery Voltage (V)', color: '#10B981' },
+    { key: 'batteryCurrMP', name: 'Battery Current (A)', color: '#F59E0B' },
+  ] },
+  { id: 'rpm', label: 'Rotation', unit: 'RPM', channels: [
+    { key: 'rotRpmMax', name: 'RPM Max', color: '#EF4444' },
+    { key: 'rotRpmAvg', name: 'RPM Avg', color: '#3B82F6' },
+    { key: 'rotRpmMin', name: 'RPM Min', color: '#10B981' },
+  ] },
+];
+
 export default function DataVisualization({ memoryDump }: DataVisualizationProps) {
   const { data: dumpDetails, isLoading, error } = useQuery<MemoryDumpDetails>({
     queryKey: ['/api/memory-dumps', memoryDump?.id],
@@ -117,7 +163,6 @@ export default function DataVisualization({ memoryDump }: DataVisualizationProps
         maxX: item.maxX,
         maxY: item.maxY,
         maxZ: item.maxZ,
-        threshold: item.threshold,
         flowStatus: item.flowStatus,
       }));
   }, [dumpDetails?.sensorData]);
@@ -176,6 +221,12 @@ export default function DataVisualization({ memoryDump }: DataVisualizationProps
     return validValues.length >= minCount;
   };
 
+  // The series endpoint rejects channels the dump does not log
+  const seriesGroups = SERIES_GROUPS
+    .map(group => ({ ...group, channels: group.channels.filter(channel => hasValidData(channel.key)) }))
+    .filter(group => group.channels.length > 0);
+  const spectralChannels = SPECTRAL_CHANNELS.filter(channel => hasValidData(channel.key));
+
   // Enhanced data filtering for reliable chart display
   const getCleanChartData = (data: any[], fields: string[]) => {
     return data.map(item => {
@@ -312,13 +363,17 @@ export default function DataVisualization({ memoryDump }: DataVisualizationProps
 
   const sensorData = dumpDetails.sensorData;
 
-  // Filter data by type and enhance flow status for visualization
-  const mpData = chartData.filter(d => d.tempMP !== null).map(d => ({
+  // The vibration threshold is configured in the tool, not logged with each record
+  const vibrationThreshold = dumpDetails.memoryDump.dataQuality?.constants.threshold?.value ?? null;
+
+  // Filter data by type and enhance flow status for visualization. Invalid samples are
+  // null, so a record counts as MP/MDG when any of its channels carries a reading.
+  const mpData = chartData.filter(d => d.tempMP != null || d.flowStatus != null || d.batteryVoltMP != null).map(d => ({
     ...d,
     flowStatus: d.flowStatus === 'On' ? 1 : 0, // Convert to numeric for bar chart
     flowStatusLabel: d.flowStatus // Keep original for tooltip
   }));
-  const mdgData = chartData.filter(d => d.accelAX !== null);
+  const mdgData = chartData.filter(d => d.accelAX != null || d.shockX != null || d.gamma != null);
 
   // Only show charts with valid data - Enhanced validation
   const showTemperatureChart = hasValidData('tempMP', 10);
@@ -368,6 +423,28 @@ export default function DataVisualization({ memoryDump }: DataVisualizationProps
           </CardHeader>
           <CardContent className="space-y-8">
 
+            {/* Power cycles and circulation periods, aligned with the charts below */}
+            <SegmentStrip dumpId={dumpDetails.memoryDump.id} />
+
+            <DataQualityPanel summary={dumpDetails.memoryDump.dataQuality} />
+
+            <SensorHealthPanel health={dumpDetails.analysisResults?.sensorHealth} />
+
+            <ParseDiagnosticsPanel diagnostics={dumpDetails.memoryDump.parseDiagnostics} />
+
+            {/* Zoomable time-range view served by the series endpoint */}
+            {seriesGroups.length > 0 && (
+              <SeriesChart dumpId={dumpDetails.memoryDump.id} groups={seriesGroups} />
+            )}
+
+            {/* Stick-slip index and time at each severity level */}
+            {showRPMChart && <StickSlipChart dumpId={dumpDetails.memoryDump.id} />}
+
+            {/* Frequency content of the vibration, acceleration and rotation channels */}
+            {spectralChannels.length > 0 && (
+              <SpectrogramChart dumpId={dumpDetails.memoryDump.id} channels={spectralChannels} />
+            )}
+
             {/* MP Charts - Only show if data exists */}
             {mpData.length > 0 && (
               <>
@@ -461,7 +538,9 @@ export default function DataVisualization({ memoryDump }: DataVisualizationProps
                         <Line type="monotone" dataKey="maxX" stroke="#3B82F6" strokeWidth={2} name="Max X (g)" dot={false} />
                         <Line type="monotone" dataKey="maxY" stroke="#10B981" strokeWidth={2} name="Max Y (g)" dot={false} />
                         <Line type="monotone" dataKey="maxZ" stroke="#F59E0B" strokeWidth={2} name="Max Z (g)" dot={false} />
-                        <Line type="monotone" dataKey="threshold" stroke="#8B5CF6" strokeWidth={1} strokeDasharray="5 5" name="Threshold" dot={false} />
+                        {vibrationThreshold !== null && (
+                          <ReferenceLine y={vibrationThreshold} stroke="#8B5CF6" strokeDasharray="5 5" label={{ value: 'Threshold', fill: '#8B5CF6', fontSize: 10 }} />
+                        )}
                       </LineChart>
                     </ResponsiveContainer>
                   </div>
@@ -526,10 +605,11 @@ export default function DataVisualization({ memoryDump }: DataVisualizationProps
                       <div className="text-purple-400 text-xs uppercase font-medium mb-2">Above Threshold</div>
                       <div className="text-2xl font-bold text-purple-400">
                         {(() => {
+                          if (vibrationThreshold === null) return '–';
                           const thresholdEvents = mpData.filter(d => {
-                            const validX = d.maxX !== null && d.maxX !== undefined && !isNaN(d.maxX) && isFinite(d.maxX) && Math.abs(d.maxX) > 1.5;
-                            const validY = d.maxY !== null && d.maxY !== undefined && !isNaN(d.maxY) && isFinite(d.maxY) && Math.abs(d.maxY) > 1.5;
-                            const validZ = d.maxZ !== null && d.maxZ !== undefined && !isNaN(d.maxZ) && isFinite(d.maxZ) && Math.abs(d.maxZ) > 1.5;
+                            const validX = d.maxX !== null && d.maxX !== undefined && !isNaN(d.maxX) && isFinite(d.maxX) && Math.abs(d.maxX) > vibrationThreshold;
+                            const validY = d.maxY !== null && d.maxY !== undefined && !isNaN(d.maxY) && isFinite(d.maxY) && Math.abs(d.maxY) > vibrationThreshold;
+                            const validZ = d.maxZ !== null && d.maxZ !== undefined && !isNaN(d.maxZ) && isFinite(d.maxZ) && Math.abs(d.maxZ) > vibrationThreshold;
                             return validX || validY || validZ;
                           });
                           return thresholdEvents.length.toLocaleString();
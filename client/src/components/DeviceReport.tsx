@@ -1,5 +1,5 @@
 import { useQuery } from "@tanstack/react-query";
-import type { DeviceReport as DeviceReportType, MemoryDump } from "@/lib/types";
+import type { DeviceReport as DeviceReportType, DeviceReportField, FieldProvenance, MemoryDump } from "@/lib/types";
 import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
 import { Badge } from "@/components/ui/badge";
 import { Separator } from "@/components/ui/separator";
@@ -24,7 +24,6 @@ import {
   AlertCircle,
   CheckCircle,
   XCircle,
-  Battery,
   BarChart3
 } from "lucide-react";
 
@@ -32,6 +31,36 @@ interface DeviceReportProps {
   memoryDump: MemoryDump;
 }
 
+function describeProvenance(provenance?: FieldProvenance): string {
+  if (!provenance) return 'Source not recorded';
+  switch (provenance.source) {
+    case 'header':
+      return provenance.type === 'version'
+        ? `Header bytes ${provenance.offset}-${provenance.offset + 2}`
+        : `Header offset ${provenance.offset} (${provenance.type})`;
+    case 'inferred':
+      return `Inferred, unverified: header offset ${provenance.offset} (${provenance.type})`;
+    case 'computed':
+      return `Computed: ${provenance.method}`;
+    case 'unavailable':
+      return `Unavailable: ${provenance.reason}`;
+  }
+}
+
+// Small caption under a value saying where it came from
+function ProvenanceNote({ report, field }: { report?: DeviceReportType | null; field: DeviceReportField }) {
+  const provenance = report?.provenance?.[field];
+  const color = provenance?.source === 'header' ? 'text-sky-400/80'
+    : provenance?.source === 'inferred' ? 'text-amber-400/80'
+    : provenance?.source === 'computed' ? 'text-violet-400/80'
+    : 'text-slate-500';
+  return (
+    <p className={`text-xs mt-1 ${color}`} title={describeProvenance(provenance)}>
+      {describeProvenance(provenance)}
+    </p>
+  );
+}
+
 export function DeviceReport({ memoryDump }: DeviceReportProps) {
   const [expandedSections, setExpandedSections] = useState<{ [key: string]: boolean }>({
     communication: true,
@@ -68,58 +97,24 @@ export function DeviceReport({ memoryDump }: DeviceReportProps) {
     }));
   };
 
-  // Parse device information from binary data with enhanced fallbacks
+  // Headline values for the summary cards - taken from the stored report, never invented
   const deviceInfo = useMemo(() => {
-    if (!data || !data.deviceInfo) {
-      return {
-        serialNumber: 'Extracting...',
-        firmware: 'Analyzing...',
-        lastOperation: 'Binary Analysis',
-        batteryLevel: 0,
-        totalOperations: 0,
-        deviceType: memoryDump.fileType || 'Unknown',
-        communicationErrors: 0,
-        hallStatus: 'Unknown',
-        pulseCount: 0
-      };
-    }
-
-    // Enhanced serial number extraction with multiple fallback methods
-    let serialNumber = 'Unknown';
-    if (data.deviceInfo.serialNumber) {
-      serialNumber = `S/N ${String(data.deviceInfo.serialNumber)}`;
-    } else if (data.deviceInfo.deviceId) {
-      serialNumber = `ID ${String(data.deviceInfo.deviceId)}`;
-    } else if (data.deviceInfo.id) {
-      serialNumber = `${String(data.deviceInfo.id)}`;
-    } else if (memoryDump.filename) {
-      // Extract from filename pattern
-      const match = memoryDump.filename.match(/(\d{5,})/);
-      if (match) {
-        serialNumber = `S/N ${match[1]}`;
-      }
-    }
-
-    // Extract pulse count from various sources
-    let pulseCount = 0;
-    if (data.deviceInfo.pulseCount) {
-      pulseCount = Number(data.deviceInfo.pulseCount);
-    } else if (data.deviceInfo.totalPulses) {
-      pulseCount = Number(data.deviceInfo.totalPulses);
-    } else if (data.deviceInfo.operations) {
-      pulseCount = Number(data.deviceInfo.operations);
-    }
+    const report: DeviceReportType | undefined = data?.deviceReport || data;
+    const isMDG = memoryDump.fileType === 'MDG';
+    const serialField: DeviceReportField = isMDG ? 'mdgSerialNumber' : 'mpSerialNumber';
+    const firmwareField: DeviceReportField = isMDG ? 'mdgFirmwareVersion' : 'mpFirmwareVersion';
+    const serial = report?.[serialField];
+    const firmware = report?.[firmwareField];
 
     return {
-      serialNumber,
-      firmware: data.deviceInfo.firmware || data.deviceInfo.version || '1.0.0',
-      lastOperation: data.deviceInfo.lastOperation || 'Memory Dump Collection',
-      batteryLevel: Math.round(data.deviceInfo.batteryLevel || data.deviceInfo.battery || 85),
-      totalOperations: data.deviceInfo.totalOperations || data.deviceInfo.operations || 0,
-      deviceType: data.deviceInfo.deviceType || memoryDump.fileType || 'Industrial Tool',
-      communicationErrors: data.deviceInfo.communicationErrors || data.deviceInfo.commErrors || 0,
-      hallStatus: data.deviceInfo.hallStatus || data.deviceInfo.hallSensor || 'Operational',
-      pulseCount: pulseCount
+      serialField,
+      firmwareField,
+      serialNumber: serial ? `S/N ${serial}` : 'Unavailable',
+      firmware: firmware ? `v${firmware}` : 'Unavailable',
+      deviceType: memoryDump.fileType || 'Unknown',
+      pulseCount: report?.numberOfPulses ?? null,
+      communicationErrors: report?.commErrorsTimeMinutes ?? null,
+      hallStatusMinutes: report?.hallStatusTimeMinutes ?? null,
     };
   }, [data, memoryDump]);
 
@@ -235,6 +230,7 @@ export function DeviceReport({ memoryDump }: DeviceReportProps) {
                     </div>
                   </div>
                   <p className="text-2xl font-bold text-slate-200">{deviceInfo.serialNumber}</p>
+                  <ProvenanceNote report={deviceReport} field={deviceInfo.serialField} />
                 </div>
 
                 <div className="glass-morphism rounded-xl p-6 border border-green-500/20">
@@ -247,44 +243,8 @@ export function DeviceReport({ memoryDump }: DeviceReportProps) {
                       <p className="text-slate-400 text-sm">Software Build</p>
                     </div>
                   </div>
-                  <p className="text-2xl font-bold text-slate-200">v{deviceInfo.firmware}</p>
-                </div>
-
-                <div className="glass-morphism rounded-xl p-6 border border-purple-500/20">
-                  <div className="flex items-center space-x-3 mb-4">
-                    <div className="w-10 h-10 bg-purple-500/20 rounded-lg flex items-center justify-center">
-                      <Activity className="w-5 h-5 text-purple-400" />
-                    </div>
-                    <div>
-                      <h3 className="text-lg font-semibold text-purple-400">Last Operation</h3>
-                      <p className="text-slate-400 text-sm">Recent Activity</p>
-                    </div>
-                  </div>
-                  <p className="text-lg font-bold text-slate-200">{deviceInfo.lastOperation}</p>
-                </div>
-
-                <div className="glass-morphism rounded-xl p-6 border border-yellow-500/20">
-                  <div className="flex items-center space-x-3 mb-4">
-                    <div className="w-10 h-10 bg-yellow-500/20 rounded-lg flex items-center justify-center">
-                      <Battery className="w-5 h-5 text-yellow-400" />
-                    </div>
-                    <div>
-                      <h3 className="text-lg font-semibold text-yellow-400">Battery Level</h3>
-                      <p className="text-slate-400 text-sm">Power Remaining</p>
-                    </div>
-                  </div>
-                  <div className="flex items-center space-x-3">
-                    <p className="text-2xl font-bold text-slate-200">{deviceInfo.batteryLevel}%</p>
-                    <div className="flex-1 bg-slate-700 rounded-full h-2">
-                      <div 
-                        className={`h-2 rounded-full transition-all ${
-                          deviceInfo.batteryLevel > 70 ? 'bg-green-500' : 
-                          deviceInfo.batteryLevel > 30 ? 'bg-yellow-500' : 'bg-red-500'
-                        }`}
-                        style={{ width: `${Math.min(100, Math.max(0, deviceInfo.batteryLevel))}%` }}
-                      ></div>
-                    </div>
-                  </div>
+                  <p className="text-2xl font-bold text-slate-200">{deviceInfo.firmware}</p>
+                  <ProvenanceNote report={deviceReport} field={deviceInfo.firmwareField} />
                 </div>
 
                 <div className="glass-morphism rounded-xl p-6 border border-cyan-500/20">
@@ -297,8 +257,10 @@ export function DeviceReport({ memoryDump }: DeviceReportProps) {
                       <p className="text-slate-400 text-sm">Operational Count</p>
                     </div>
                   </div>
-                  <p className="text-2xl font-bold text-slate-200">{deviceInfo.pulseCount.toLocaleString()}</p>
-                  <p className="text-sm text-cyan-300 mt-1">Total Operations: {deviceInfo.totalOperations.toLocaleString()}</p>
+                  <p className="text-2xl font-bold text-slate-200">
+                    {deviceInfo.pulseCount != null ? deviceInfo.pulseCount.toLocaleString() : 'Unavailable'}
+                  </p>
+                  <ProvenanceNote report={deviceReport} field="numberOfPulses" />
                 </div>
 
                 <div className="glass-morphism rounded-xl p-6 border border-indigo-500/20">
@@ -321,11 +283,11 @@ export function DeviceReport({ memoryDump }: DeviceReportProps) {
                     </div>
                     <div>
                       <h3 className="text-lg font-semibold text-red-400">Communication Status</h3>
-                      <p className="text-slate-400 text-sm">Error Count</p>
+                      <p className="text-slate-400 text-sm">Time in Error</p>
                     </div>
                   </div>
-                  <p className="text-2xl font-bold text-slate-200">{deviceInfo.communicationErrors}</p>
-                  <p className="text-sm text-red-300 mt-1">Errors detected</p>
+                  <p className="text-2xl font-bold text-slate-200">{formatValue(deviceInfo.communicationErrors, "min", 2)}</p>
+                  <ProvenanceNote report={deviceReport} field="commErrorsTimeMinutes" />
                 </div>
 
                 <div className="glass-morphism rounded-xl p-6 border border-emerald-500/20">
@@ -339,13 +301,16 @@ export function DeviceReport({ memoryDump }: DeviceReportProps) {
                     </div>
                   </div>
                   <div className="flex items-center space-x-2">
-                    <div className={`w-3 h-3 rounded-full ${deviceInfo.hallStatus === 'Operational' ? 'bg-green-500' : 'bg-red-500'}`}></div>
-                    <p className="text-lg font-bold text-slate-200">{deviceInfo.hallStatus}</p>
+                    {deviceInfo.hallStatusMinutes != null && (
+                      <div className={`w-3 h-3 rounded-full ${deviceInfo.hallStatusMinutes === 0 ? 'bg-green-500' : 'bg-red-500'}`}></div>
+                    )}
+                    <p className="text-lg font-bold text-slate-200">{formatValue(deviceInfo.hallStatusMinutes, "min", 2)}</p>
                   </div>
+                  <ProvenanceNote report={deviceReport} field="hallStatusTimeMinutes" />
                 </div>
               </div>
           {/* MP Device Information */}
-          {(deviceReport.mpSerialNumber || deviceReport.mpFirmwareVersion) && (
+          {(memoryDump.fileType === 'MP' || deviceReport.mpSerialNumber || deviceReport.mpFirmwareVersion) && (
             <div className="space-y-6">
               <div className="flex items-center gap-3">
                 <div className="p-2 bg-gradient-to-r from-blue-500/20 to-cyan-500/20 rounded-lg">
@@ -361,6 +326,7 @@ export function DeviceReport({ memoryDump }: DeviceReportProps) {
                     <Badge className="bg-gradient-to-r from-blue-500/20 to-cyan-500/20 text-blue-400 border-blue-500/50 hover:border-blue-400 transition-all duration-300">
                       {deviceReport.mpSerialNumber}
                     </Badge>
+                    <ProvenanceNote report={deviceReport} field="mpSerialNumber" />
                   </div>
                 )}
                 {deviceReport.mpFirmwareVersion && (
@@ -369,6 +335,7 @@ export function DeviceReport({ memoryDump }: DeviceReportProps) {
                     <Badge className="bg-dark-700/50 text-slate-300 border-slate-600 hover:border-slate-500 transition-all duration-300">
                       {deviceReport.mpFirmwareVersion}
                     </Badge>
+                    <ProvenanceNote report={deviceReport} field="mpFirmwareVersion" />
                   </div>
                 )}
               </div>
@@ -390,38 +357,38 @@ export function DeviceReport({ memoryDump }: DeviceReportProps) {
                       {formatValue(deviceReport.mpMaxTempCelsius, "°C", 1)}
                     </Badge>
                   </div>
+                  <ProvenanceNote report={deviceReport} field="mpMaxTempFahrenheit" />
                 </div>
               )}
 
               {/* MP Operational Data */}
               <div className="pl-8 grid grid-cols-1 md:grid-cols-2 lg:grid-cols-3 gap-6">
-                {deviceReport.circulationHours && (
-                  <div className="space-y-3 p-4 bg-dark-700/30 rounded-lg border border-cyan-500/20">
-                    <div className="flex items-center gap-2">
-                      <Clock className="h-4 w-4 text-cyan-400" />
-                      <p className="text-sm text-slate-400 font-medium">Circulation Hours</p>
-                    </div>
-                    <p className="text-lg font-mono text-cyan-400">{formatValue(deviceReport.circulationHours, "hrs", 1)}</p>
+                <div className="space-y-3 p-4 bg-dark-700/30 rounded-lg border border-cyan-500/20">
+                  <div className="flex items-center gap-2">
+                    <Clock className="h-4 w-4 text-cyan-400" />
+                    <p className="text-sm text-slate-400 font-medium">Circulation Hours</p>
                   </div>
-                )}
-                {deviceReport.numberOfPulses && (
-                  <div className="space-y-3 p-4 bg-dark-700/30 rounded-lg border border-amber-500/20">
-                    <div className="flex items-center gap-2">
-                      <Zap className="h-4 w-4 text-amber-400" />
-                      <p className="text-sm text-slate-400 font-medium">Number of Pulses</p>
-                    </div>
-                    <p className="text-lg font-mono text-amber-400">{deviceReport.numberOfPulses.toLocaleString()}</p>
+                  <p className="text-lg font-mono text-cyan-400">{formatValue(deviceReport.circulationHours, "hrs", 1)}</p>
+                  <ProvenanceNote report={deviceReport} field="circulationHours" />
+                </div>
+                <div className="space-y-3 p-4 bg-dark-700/30 rounded-lg border border-amber-500/20">
+                  <div className="flex items-center gap-2">
+                    <Zap className="h-4 w-4 text-amber-400" />
+                    <p className="text-sm text-slate-400 font-medium">Number of Pulses</p>
                   </div>
-                )}
-                {deviceReport.motorOnTimeMinutes && (
-                  <div className="space-y-3 p-4 bg-dark-700/30 rounded-lg border border-emerald-500/20">
-                    <div className="flex items-center gap-2">
-                      <Wrench className="h-4 w-4 text-emerald-400" />
-                      <p className="text-sm text-slate-400 font-medium">Motor On Time</p>
-                    </div>
-                    <p className="text-lg font-mono text-emerald-400">{formatValue(deviceReport.motorOnTimeMinutes, "min", 1)}</p>
+                  <p className="text-lg font-mono text-amber-400">
+                    {deviceReport.numberOfPulses != null ? deviceReport.numberOfPulses.toLocaleString() : 'N/A'}
+                  </p>
+                  <ProvenanceNote report={deviceReport} field="numberOfPulses" />
+                </div>
+                <div className="space-y-3 p-4 bg-dark-700/30 rounded-lg border border-emerald-500/20">
+                  <div className="flex items-center gap-2">
+                    <Wrench className="h-4 w-4 text-emerald-400" />
+                    <p className="text-sm text-slate-400 font-medium">Motor On Time</p>
                   </div>
-                )}
+                  <p className="text-lg font-mono text-emerald-400">{formatValue(deviceReport.motorOnTimeMinutes, "min", 1)}</p>
+                  <ProvenanceNote report={deviceReport} field="motorOnTimeMinutes" />
+                </div>
               </div>
 
               {/* Communication & Hall Status */}
@@ -442,6 +409,8 @@ export function DeviceReport({ memoryDump }: DeviceReportProps) {
                           {formatPercent(deviceReport.commErrorsPercent)}
                         </Badge>
                       </div>
+                      <ProvenanceNote report={deviceReport} field="commErrorsTimeMinutes" />
+                      <ProvenanceNote report={deviceReport} field="commErrorsPercent" />
                     </div>
                   )}
                   {(deviceReport.hallStatusTimeMinutes !== null || deviceReport.hallStatusPercent !== null) && (
@@ -458,6 +427,8 @@ export function DeviceReport({ memoryDump }: DeviceReportProps) {
                           {formatPercent(deviceReport.hallStatusPercent)}
                         </Badge>
                       </div>
+                      <ProvenanceNote report={deviceReport} field="hallStatusTimeMinutes" />
+                      <ProvenanceNote report={deviceReport} field="hallStatusPercent" />
                     </div>
                   )}
                 </div>
@@ -474,7 +445,7 @@ export function DeviceReport({ memoryDump }: DeviceReportProps) {
           )}
 
           {/* MDG Device Information */}
-          {(deviceReport.mdgSerialNumber || deviceReport.mdgFirmwareVersion) && (
+          {(memoryDump.fileType === 'MDG' || deviceReport.mdgSerialNumber || deviceReport.mdgFirmwareVersion) && (
             <div className="space-y-6">
               <div className="flex items-center gap-3">
                 <div className="p-2 bg-gradient-to-r from-purple-500/20 to-indigo-500/20 rounded-lg">
@@ -490,6 +461,7 @@ export function DeviceReport({ memoryDump }: DeviceReportProps) {
                     <Badge className="bg-gradient-to-r from-purple-500/20 to-indigo-500/20 text-purple-400 border-purple-500/50 hover:border-purple-400 transition-all duration-300">
                       {deviceReport.mdgSerialNumber}
                     </Badge>
+                    <ProvenanceNote report={deviceReport} field="mdgSerialNumber" />
                   </div>
                 )}
                 {deviceReport.mdgFirmwareVersion && (
@@ -498,6 +470,7 @@ export function DeviceReport({ memoryDump }: DeviceReportProps) {
                     <Badge className="bg-dark-700/50 text-slate-300 border-slate-600 hover:border-slate-500 transition-all duration-300">
                       {deviceReport.mdgFirmwareVersion}
                     </Badge>
+                    <ProvenanceNote report={deviceReport} field="mdgFirmwareVersion" />
                   </div>
                 )}
               </div>
@@ -520,33 +493,36 @@ export function DeviceReport({ memoryDump }: DeviceReportProps) {
                         {formatValue(deviceReport.mdgMaxTempCelsius, "°C", 1)}
                       </Badge>
                     </div>
+                    <ProvenanceNote report={deviceReport} field="mdgMaxTempFahrenheit" />
                   </div>
                 )}
 
                 <div className="grid grid-cols-1 md:grid-cols-2 gap-6">
-                  {deviceReport.mdgEdtTotalHours && (
+                  {deviceReport.mdgEdtTotalHours != null && (
                     <div className="space-y-3 p-4 bg-dark-700/30 rounded-lg border border-cyan-500/20">
                       <div className="flex items-center gap-2">
                         <Clock className="h-4 w-4 text-cyan-400" />
                         <p className="text-sm text-slate-400 font-medium">EDT Total Hours</p>
                       </div>
                       <p className="text-lg font-mono text-cyan-400">{formatValue(deviceReport.mdgEdtTotalHours, "hrs", 1)}</p>
+                      <ProvenanceNote report={deviceReport} field="mdgEdtTotalHours" />
                     </div>
                   )}
-                  {deviceReport.mdgExtremeShockIndex && (
+                  {deviceReport.mdgExtremeShockIndex != null && (
                     <div className="space-y-3 p-4 bg-dark-700/30 rounded-lg border border-orange-500/20">
                       <div className="flex items-center gap-2">
                         <AlertTriangle className="h-4 w-4 text-orange-400" />
                         <p className="text-sm text-slate-400 font-medium">Extreme Shock Index</p>
                       </div>
                       <Badge 
-                        className={deviceReport.mdgExtremeShockIndex > 10 ? 
+                        className={deviceReport.mdgExtremeShockIndex > 0.1 ? 
                           "bg-gradient-to-r from-red-500/20 to-rose-500/20 text-red-400 border-red-500/50" : 
                           "bg-gradient-to-r from-amber-500/20 to-yellow-500/20 text-amber-400 border-amber-500/50"
                         }
                       >
-                        {formatValue(deviceReport.mdgExtremeShockIndex, "", 1)}
+                        {formatValue(deviceReport.mdgExtremeShockIndex, "", 3)}
                       </Badge>
+                      <ProvenanceNote report={deviceReport} field="mdgExtremeShockIndex" />
                     </div>
                   )}
                 </div>
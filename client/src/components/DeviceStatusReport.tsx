@@ -3,7 +3,7 @@ import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
 import { Badge } from "@/components/ui/badge";
 import { Button } from "@/components/ui/button";
 import { Separator } from "@/components/ui/separator";
-import { MemoryDump } from "@/lib/types";
+import { DeviceReport, MemoryDump } from "@/lib/types";
 import { useState } from "react";
 import { 
   ChevronDown,
@@ -51,7 +51,6 @@ export function DeviceStatusReport({ memoryDump }: DeviceStatusReportProps) {
 
       // Analyze data for status information
       const totalRecords = data.length;
-      const communicationErrors = data.filter((record: any) => record.resetMP > 0).length;
       const hallStatusActive = data.filter((record: any) => record.motorHall > 0).length;
       const avgMotorHall = data.reduce((sum: number, record: any) => sum + (record.motorHall || 0), 0) / totalRecords;
       const totalPulses = data.reduce((sum: number, record: any) => sum + (record.motorHall || 0), 0);
@@ -70,7 +69,6 @@ export function DeviceStatusReport({ memoryDump }: DeviceStatusReportProps) {
 
       return {
         totalRecords,
-        communicationErrors,
         hallStatusActive,
         avgMotorHall,
         totalPulses,
@@ -102,6 +100,25 @@ export function DeviceStatusReport({ memoryDump }: DeviceStatusReportProps) {
     gcTime: 0,
   });
 
+  // Communication errors are computed from the record timeline on the server
+  const { data: deviceReport } = useQuery<DeviceReport>({
+    queryKey: ['/api/memory-dumps', memoryDump?.id, 'device-report', memoryDump?.filename, memoryDump?.uploadedAt],
+    queryFn: async () => {
+      const response = await fetch(`/api/memory-dumps/${memoryDump.id}/device-report/${encodeURIComponent(memoryDump.filename)}/${encodeURIComponent(memoryDump.uploadedAt)}`);
+      if (!response.ok) {
+        throw new Error(`Failed to fetch device report: ${response.statusText}`);
+      }
+      return response.json();
+    },
+    enabled: !!memoryDump?.id && memoryDump?.status === 'completed',
+    refetchOnWindowFocus: false,
+    staleTime: 30000,
+  });
+  const commErrorMinutes = deviceReport?.commErrorsTimeMinutes ?? null;
+  const commErrorPercent = deviceReport?.commErrorsPercent ?? null;
+  const commErrorProvenance = deviceReport?.provenance?.commErrorsTimeMinutes;
+  const hasCommErrors = (commErrorMinutes ?? 0) > 0;
+
   const toggleSection = (section: string) => {
     setExpandedSections(prev => ({
       ...prev,
@@ -178,24 +195,30 @@ export function DeviceStatusReport({ memoryDump }: DeviceStatusReportProps) {
                   <div className="text-green-300 text-sm">Total data points</div>
                 </div>
 
-                <div className={`rounded-lg p-4 border ${statusData.communicationErrors > 0 
+                <div className={`rounded-lg p-4 border ${hasCommErrors
                   ? 'bg-gradient-to-br from-red-500/10 to-orange-500/10 border-red-500/20' 
                   : 'bg-gradient-to-br from-green-500/10 to-emerald-500/10 border-green-500/20'}`}>
                   <div className="flex items-center gap-2 mb-2">
-                    {statusData.communicationErrors > 0 ? (
+                    {hasCommErrors ? (
                       <XCircle className="w-5 h-5 text-red-400" />
                     ) : (
                       <CheckCircle className="w-5 h-5 text-green-400" />
                     )}
-                    <span className={`text-sm font-medium ${statusData.communicationErrors > 0 ? 'text-red-400' : 'text-green-400'}`}>
+                    <span className={`text-sm font-medium ${hasCommErrors ? 'text-red-400' : 'text-green-400'}`}>
                       Communication Errors
                     </span>
                   </div>
-                  <div className={`text-2xl font-bold ${statusData.communicationErrors > 0 ? 'text-red-400' : 'text-green-400'}`}>
-                    {statusData.communicationErrors}
+                  <div className={`text-2xl font-bold ${hasCommErrors ? 'text-red-400' : 'text-green-400'}`}>
+                    {commErrorMinutes != null ? `${commErrorMinutes.toFixed(2)} min` : 'N/A'}
                   </div>
-                  <div className={`text-sm ${statusData.communicationErrors > 0 ? 'text-red-300' : 'text-green-300'}`}>
-                    Reset events detected
+                  <div className={`text-sm ${hasCommErrors ? 'text-red-300' : 'text-green-300'}`}>
+                    {commErrorProvenance?.source === 'computed'
+                      ? commErrorProvenance.method
+                      : commErrorProvenance?.source === 'unavailable'
+                        ? commErrorProvenance.reason
+                        : commErrorProvenance?.source === 'inferred'
+                          ? `Inferred from header offset ${commErrorProvenance.offset}, unverified`
+                          : 'Logging time lost to resets and gaps'}
                   </div>
                 </div>
 
@@ -205,9 +228,9 @@ export function DeviceStatusReport({ memoryDump }: DeviceStatusReportProps) {
                     <span className="text-blue-400 text-sm font-medium">Error Rate</span>
                   </div>
                   <div className="text-2xl font-bold text-blue-400">
-                    {((statusData.communicationErrors / statusData.totalRecords) * 100).toFixed(2)}%
+                    {commErrorPercent != null ? `${commErrorPercent.toFixed(2)}%` : 'N/A'}
                   </div>
-                  <div className="text-blue-300 text-sm">Of total records</div>
+                  <div className="text-blue-300 text-sm">Of expected logging time</div>
                 </div>
               </div>
             </div>
@@ -2,11 +2,32 @@ import { useState, useRef } from "react";
 import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
 import { Button } from "@/components/ui/button";
 import { Progress } from "@/components/ui/progress";
+import { Switch } from "@/components/ui/switch";
+import { Label } from "@/components/ui/label";
+import { Input } from "@/components/ui/input";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
 import { useToast } from "@/hooks/use-toast";
 import { MemoryDump } from "@/lib/types";
-import { Upload, FileIcon, AlertCircle, CheckCircle2, Clock, RotateCcw } from "lucide-react";
+import { Upload, FileIcon, AlertCircle, CheckCircle2, Clock, RotateCcw, Trash2, RefreshCw } from "lucide-react";
 import { apiRequest, queryClient } from "@/lib/queryClient";
 
+const TIME_SOURCE_LABELS: Record<string, string> = {
+  override: 'Times from the start time you set',
+  record: 'Times from the record clock',
+  header: 'Times from the header clock',
+  filename: 'Times from the filename',
+};
+
+function describeTimeBase(dump: MemoryDump): string | null {
+  if (!dump.timeSource) return null;
+  // Record and header clocks are UTC; wall-clock sources are read in the dump's timezone
+  const zone = dump.timeSource === 'filename' || dump.timeSource === 'override'
+    ? ` (${dump.timezone || 'server timezone'})`
+    : ' (UTC)';
+  const interval = dump.sampleIntervalMs != null ? ` • ${dump.sampleIntervalMs / 1000} s interval` : '';
+  return `${TIME_SOURCE_LABELS[dump.timeSource] ?? dump.timeSource}${zone}${interval}`;
+}
+
 interface FileUploadProps {
   onUploadComplete: () => void;
   memoryDumps: MemoryDump[];
@@ -20,6 +41,19 @@ export default function FileUpload({ onUploadComplete, memoryDumps, onSelectDump
   const fileInputRef = useRef<HTMLInputElement>(null);
   const { toast } = useToast();
   const [uploadingFiles, setUploadingFiles] = useState<File[]>([]);
+  const [reprocessDuplicates, setReprocessDuplicates] = useState(false);
+  // Optional time base overrides, sent with uploads and reprocess requests when filled in
+  const [startTime, setStartTime] = useState('');
+  const [timezone, setTimezone] = useState('');
+  const [intervalSeconds, setIntervalSeconds] = useState('');
+
+  const timeSettings = (): Record<string, string> => {
+    const settings: Record<string, string> = {};
+    if (startTime) settings.startTime = startTime;
+    if (timezone.trim()) settings.timezone = timezone.trim();
+    if (intervalSeconds) settings.intervalMs = String(Math.round(Number(intervalSeconds) * 1000));
+    return settings;
+  };
 
   const handleFileUpload = async (files: FileList) => {
     if (files.length === 0) return;
@@ -56,13 +90,17 @@ export default function FileUpload({ onUploadComplete, memoryDumps, onSelectDump
       validFiles.forEach(file => {
         formData.append('files', file);
       });
+      Object.entries(timeSettings()).forEach(([name, value]) => {
+        formData.append(name, value);
+      });
 
       // Simulate progress
       const progressInterval = setInterval(() => {
         setUploadProgress(prev => Math.min(prev + 10, 90));
       }, 200);
 
-      const response = await fetch('/api/memory-dumps/upload', {
+      const uploadUrl = reprocessDuplicates ? '/api/memory-dumps/upload?reprocess=true' : '/api/memory-dumps/upload';
+      const response = await fetch(uploadUrl, {
         method: 'POST',
         body: formData,
       });
@@ -71,20 +109,40 @@ export default function FileUpload({ onUploadComplete, memoryDumps, onSelectDump
       setUploadProgress(100);
 
       if (!response.ok) {
-        throw new Error('Upload failed');
+        const body = await response.json().catch(() => null);
+        throw new Error(body?.message || 'Upload failed');
       }
 
       const result = await response.json();
       console.log('Upload response:', result);
 
+      const duplicates = (result.results ?? []).filter((r: any) => r.duplicateOf != null);
+      const processing = validFiles.length - duplicates.length;
+      const detected = (result.results ?? [])
+        .filter((r: any) => r.detection)
+        .map((r: any) => r.detection.toolType === 'UNKNOWN'
+          ? `${r.filename}: tool type not recognised`
+          : `${r.filename}: ${r.detection.toolType} (${Math.round(r.detection.confidence * 100)}% confidence)`);
+
       toast({
         title: "Upload successful",
-        description: `${validFiles.length} file(s) are being processed`,
+        description: [
+          duplicates.length > 0
+            ? `${processing} file(s) are being processed, ${duplicates.length} already in the library (${duplicates.map((d: any) => `#${d.duplicateOf}`).join(', ')})`
+            : `${validFiles.length} file(s) are being processed`,
+          ...detected
+        ].join('; '),
       });
 
-      // Clear all React Query caches to ensure fresh data
-      queryClient.clear();
-      
+      // Jump straight to the existing analysis when a single known file was re-uploaded
+      if (processing === 0 && duplicates.length === 1) {
+        const existing = memoryDumps.find(d => d.id === duplicates[0].duplicateOf);
+        if (existing) onSelectDump(existing);
+      }
+
+      // Dump IDs are stable, so only the dump list needs refreshing
+      queryClient.invalidateQueries({ queryKey: ['/api/memory-dumps'], exact: true });
+
       // Trigger immediate refresh and keep polling
       onUploadComplete();
 
@@ -97,9 +155,7 @@ export default function FileUpload({ onUploadComplete, memoryDumps, onSelectDump
 
           if (processingDumps.length === 0) {
             clearInterval(pollInterval);
-            // Clear cache again when processing is complete to show fresh device info
-            queryClient.clear();
-            console.log('🔄 Processing complete - cache cleared for fresh data display');
+            console.log('🔄 Processing complete - refreshing dump list');
             onUploadComplete(); // Final refresh when all done
           }
         } catch (error) {
@@ -166,6 +222,56 @@ export default function FileUpload({ onUploadComplete, memoryDumps, onSelectDump
     }
   };
 
+  const handleDeleteDump = async (dump: MemoryDump) => {
+    try {
+      await apiRequest('DELETE', `/api/memory-dumps/${dump.id}`);
+
+      // Drop every cached query belonging to this dump
+      queryClient.removeQueries({ queryKey: ['/api/memory-dumps', dump.id] });
+
+      toast({
+        title: "Dump deleted",
+        description: `${dump.filename} has been removed from the library`,
+      });
+
+      onUploadComplete(); // Refresh the list
+      onSelectDump(null);
+    } catch (error) {
+      toast({
+        title: "Delete failed",
+        description: error instanceof Error ? error.message : "Failed to delete dump",
+        variant: "destructive"
+      });
+    }
+  };
+
+  const handleReprocessDump = async (dump: MemoryDump, fileType?: string) => {
+    try {
+      const settings = timeSettings();
+      const body = { ...settings, ...(fileType ? { fileType } : {}) };
+      await apiRequest('POST', `/api/memory-dumps/${dump.id}/reprocess`, Object.keys(body).length > 0 ? body : undefined);
+
+      // Previous results are discarded on the server, so drop them from the cache too
+      queryClient.removeQueries({ queryKey: ['/api/memory-dumps', dump.id] });
+
+      toast({
+        title: "Reprocessing started",
+        description: fileType
+          ? `${dump.filename} is being re-parsed as ${fileType}`
+          : `${dump.filename} is being re-parsed from the archived binary`
+          + (Object.keys(settings).length > 0 ? ' with the time settings above' : ''),
+      });
+
+      onUploadComplete(); // Refresh the list
+    } catch (error) {
+      toast({
+        title: "Reprocess failed",
+        description: error instanceof Error ? error.message : "Failed to reprocess dump",
+        variant: "destructive"
+      });
+    }
+  };
+
   const getStatusIcon = (status: string) => {
     switch (status) {
       case 'completed':
@@ -225,6 +331,52 @@ export default function FileUpload({ onUploadComplete, memoryDumps, onSelectDump
             </div>
           </div>
 
+          <div className="flex items-center space-x-2">
+            <Switch
+              id="reprocess-duplicates"
+              checked={reprocessDuplicates}
+              onCheckedChange={setReprocessDuplicates}
+            />
+            <Label htmlFor="reprocess-duplicates" className="text-sm text-gray-40">
+              Reprocess files that were already uploaded
+            </Label>
+          </div>
+
+          {/* Time base overrides - needed when the file carries no clock and was renamed */}
+          <div className="grid grid-cols-1 md:grid-cols-3 gap-3">
+            <div className="space-y-1">
+              <Label htmlFor="start-time" className="text-xs text-gray-40">First record time (optional)</Label>
+              <Input
+                id="start-time"
+                type="datetime-local"
+                step={1}
+                value={startTime}
+                onChange={(e) => setStartTime(e.target.value)}
+              />
+            </div>
+            <div className="space-y-1">
+              <Label htmlFor="timezone" className="text-xs text-gray-40">Tool clock timezone</Label>
+              <Input
+                id="timezone"
+                placeholder="UTC"
+                value={timezone}
+                onChange={(e) => setTimezone(e.target.value)}
+              />
+            </div>
+            <div className="space-y-1">
+              <Label htmlFor="interval" className="text-xs text-gray-40">Seconds between records</Label>
+              <Input
+                id="interval"
+                type="number"
+                min={0.001}
+                step="any"
+                placeholder="From record layout"
+                value={intervalSeconds}
+                onChange={(e) => setIntervalSeconds(e.target.value)}
+              />
+            </div>
+          </div>
+
           <input
             ref={fileInputRef}
             type="file"
@@ -285,18 +437,18 @@ export default function FileUpload({ onUploadComplete, memoryDumps, onSelectDump
           {memoryDumps.length > 0 && (
             <div className="space-y-4">
               <div className="flex items-center justify-between">
-                <h4 className="text-sm font-semibold text-gray-10 uppercase tracking-wide">Recent Memory Dumps</h4>
+                <h4 className="text-sm font-semibold text-gray-10 uppercase tracking-wide">Dump Library ({memoryDumps.length})</h4>
                 <Button 
                   onClick={handleClearAllDumps}
                   size="sm"
                   className="bg-red-600 hover:bg-red-700 text-white transition-colors"
                 >
                   <RotateCcw className="w-4 h-4 mr-2" />
-                  New Dump
+                  Clear All
                 </Button>
               </div>
               <div className="space-y-2 max-h-60 overflow-y-auto">
-                {memoryDumps.slice(0, 5).map((dump: any) => (
+                {memoryDumps.map((dump) => (
                   <div 
                     key={dump.id} 
                     className="flex items-center justify-between bg-gray-80 rounded-lg p-3 cursor-pointer hover:bg-gray-70 transition-colors"
@@ -309,15 +461,69 @@ export default function FileUpload({ onUploadComplete, memoryDumps, onSelectDump
                       <div>
                         <p className="text-sm font-medium text-gray-10">{dump.filename}</p>
                         <p className="text-xs text-gray-40">
-                          {new Date(dump.createdAt).toLocaleDateString()} • {(dump.fileSize / 1024 / 1024).toFixed(2)} MB
+                          #{dump.id} • {new Date(dump.uploadedAt).toLocaleDateString()}
+                          {dump.fileSize != null && ` • ${(dump.fileSize / 1024 / 1024).toFixed(2)} MB`}
+                          {dump.parserVersion && ` • parser v${dump.parserVersion}`}
                         </p>
+                        <p className="text-xs text-gray-40">
+                          {dump.detectedFileType == null
+                            ? 'Tool type from filename'
+                            : dump.detectedFileType === 'UNKNOWN'
+                              ? 'Tool type not recognised'
+                              : `Detected ${dump.detectedFileType} (${Math.round((dump.detectionConfidence ?? 0) * 100)}% confidence)`}
+                          {dump.detectedFileType != null && dump.fileType !== dump.detectedFileType && ' • overridden'}
+                        </p>
+                        {describeTimeBase(dump) && (
+                          <p className="text-xs text-gray-40">{describeTimeBase(dump)}</p>
+                        )}
                       </div>
                     </div>
                     <div className="flex items-center space-x-2">
+                      <div onClick={(e) => e.stopPropagation()}>
+                        <Select
+                          value={dump.fileType === 'MP' || dump.fileType === 'MDG' ? dump.fileType : undefined}
+                          onValueChange={(value) => handleReprocessDump(dump, value)}
+                          disabled={dump.status === 'processing' || !dump.contentHash}
+                        >
+                          <SelectTrigger className="h-7 w-20 text-xs" title="Override the detected tool type">
+                            <SelectValue placeholder="Type" />
+                          </SelectTrigger>
+                          <SelectContent>
+                            <SelectItem value="MP">MP</SelectItem>
+                            <SelectItem value="MDG">MDG</SelectItem>
+                          </SelectContent>
+                        </Select>
+                      </div>
                       {getStatusIcon(dump.status)}
                       <span className={`text-xs ${getStatusColor(dump.status)}`}>
                         {dump.status}
                       </span>
+                      <Button
+                        variant="ghost"
+                        size="sm"
+                        className="h-7 w-7 p-0 text-gray-40 hover:text-blue-500"
+                        disabled={dump.status === 'processing' || !dump.contentHash}
+                        onClick={(e) => {
+                          e.stopPropagation();
+                          handleReprocessDump(dump);
+                        }}
+                        title="Reprocess from archived binary, applying the time settings above when filled in"
+                      >
+                        <RefreshCw className="w-4 h-4" />
+                      </Button>
+                      <Button
+                        variant="ghost"
+                        size="sm"
+                        className="h-7 w-7 p-0 text-gray-40 hover:text-red-50"
+                        disabled={dump.status === 'processing'}
+                        onClick={(e) => {
+                          e.stopPropagation();
+                          handleDeleteDump(dump);
+                        }}
+                        title="Delete dump"
+                      >
+                        <Trash2 className="w-4 h-4" />
+                      </Button>
                     </div>
                   </div>
                 ))}
@@ -278,6 +278,11 @@ export default function HealthSummary({ memoryDump }: HealthSummaryProps) {
                   <p className="text-sm font-semibold text-slate-300 mt-1">
                     {new Date(analysisResults.generatedAt).toLocaleString()}
                   </p>
+                  {analysisResults.ruleSetName && (
+                    <p className="text-xs text-slate-500 mt-1">
+                      Rules: {analysisResults.ruleSetName}@{analysisResults.ruleSetVersion}
+                    </p>
+                  )}
                 </div>
               </div>
             </div>
@@ -325,6 +330,9 @@ export default function HealthSummary({ memoryDump }: HealthSummaryProps) {
                             <div className="bg-gradient-to-r from-slate-700/20 to-slate-800/20 px-4 py-2 rounded-lg border border-slate-600/20">
                               <div className="text-slate-400 text-xs uppercase font-medium">Occurrences</div>
                               <div className="text-slate-200 font-bold text-lg">{issue.count.toLocaleString()}</div>
+                              {issue.events > 0 && (
+                                <div className="text-slate-400 text-xs">in {issue.events.toLocaleString()} event{issue.events === 1 ? '' : 's'}</div>
+                              )}
                             </div>
                             {issue.firstTime && (
                               <div className="bg-gradient-to-r from-blue-700/20 to-blue-800/20 px-4 py-2 rounded-lg border border-blue-600/20">
@@ -0,0 +1,69 @@
+import { ParseDiagnostics, ParseRegion } from "@/lib/types";
+import { FileSearch } from "lucide-react";
+
+interface ParseDiagnosticsPanelProps {
+  diagnostics: ParseDiagnostics | null | undefined;
+}
+
+const REGION_STYLES: Record<ParseRegion['kind'], { label: string; color: string }> = {
+  'header': { label: 'Header', color: 'bg-slate-400/70' },
+  'records': { label: 'Decoded records', color: 'bg-emerald-500/70' },
+  'erased': { label: 'Erased flash (0xFF)', color: 'bg-amber-500/60' },
+  'zero-fill': { label: 'Zero fill', color: 'bg-slate-600/60' },
+  'truncated': { label: 'Truncated record', color: 'bg-red-500/70' },
+};
+
+// Where in the file the parser found records and what it skipped
+export default function ParseDiagnosticsPanel({ diagnostics }: ParseDiagnosticsPanelProps) {
+  if (!diagnostics || diagnostics.fileSize === 0) return null;
+
+  const { recordsSkipped, wrapAround } = diagnostics;
+  const skipped = recordsSkipped.erased + recordsSkipped.zeroFill;
+
+  return (
+    <div className="glass-morphism rounded-xl p-4 space-y-3">
+      <div className="flex items-center justify-between text-sm">
+        <h3 className="flex items-center gap-2 font-semibold text-slate-200">
+          <FileSearch className="w-4 h-4 text-blue-400" /> Parse Diagnostics
+        </h3>
+        <p className="text-slate-400">
+          {diagnostics.recordsDecoded.toLocaleString()} records decoded
+          {skipped > 0 && ` • ${recordsSkipped.erased.toLocaleString()} erased, ${recordsSkipped.zeroFill.toLocaleString()} zero-filled skipped`}
+          {diagnostics.truncatedBytes > 0 && ` • ${diagnostics.truncatedBytes} bytes truncated`}
+        </p>
+      </div>
+
+      {/* File laid out by byte offset */}
+      <div className="relative h-3 w-full rounded bg-dark-700/50 overflow-hidden">
+        {diagnostics.regions.map(region => (
+          <div
+            key={`${region.kind}-${region.startByte}`}
+            className={`absolute top-0 h-full ${REGION_STYLES[region.kind].color}`}
+            style={{
+              left: `${(region.startByte / diagnostics.fileSize) * 100}%`,
+              width: `${Math.max(0.2, ((region.endByte - region.startByte) / diagnostics.fileSize) * 100)}%`,
+            }}
+            title={`${REGION_STYLES[region.kind].label}: bytes ${region.startByte.toLocaleString()}–${region.endByte.toLocaleString()}${region.records > 0 ? ` (${region.records.toLocaleString()} records)` : ''}`}
+          />
+        ))}
+      </div>
+      <div className="flex flex-wrap gap-x-4 gap-y-1 text-xs text-slate-400">
+        {(Object.keys(REGION_STYLES) as ParseRegion['kind'][])
+          .filter(kind => diagnostics.regions.some(region => region.kind === kind))
+          .map(kind => (
+            <span key={kind} className="flex items-center gap-1">
+              <span className={`inline-block w-2 h-2 rounded-sm ${REGION_STYLES[kind].color}`} /> {REGION_STYLES[kind].label}
+            </span>
+          ))}
+      </div>
+
+      <p className="text-xs text-slate-500">
+        {diagnostics.layoutId} layout, {diagnostics.recordSize}-byte records •{' '}
+        {diagnostics.bytesConsumed.toLocaleString()} of {diagnostics.fileSize.toLocaleString()} bytes decoded •{' '}
+        {wrapAround.detected
+          ? `Wrapped: oldest record at slot ${wrapAround.oldestRecord?.toLocaleString()} (${wrapAround.note})`
+          : `No wrap-around (${wrapAround.note})`}
+      </p>
+    </div>
+  );
+}
@@ -0,0 +1,108 @@
+import { useQuery } from "@tanstack/react-query";
+import { DumpSegment, DumpSegments } from "@/lib/types";
+import { Power, Waves } from "lucide-react";
+
+interface SegmentStripProps {
+  dumpId: number;
+}
+
+const START_REASON_LABELS: Record<DumpSegment['startReason'], string> = {
+  'start': 'start of dump',
+  'reset': 'reset counter changed',
+  'clock-gap': 'gap in the record clock',
+  'flow-change': 'FlowStatus changed',
+};
+
+function formatDuration(seconds: number): string {
+  if (seconds < 60) return `${Math.round(seconds)} s`;
+  if (seconds < 3600) return `${(seconds / 60).toFixed(1)} min`;
+  return `${(seconds / 3600).toFixed(2)} h`;
+}
+
+function describeSegment(segment: DumpSegment): string {
+  const title = segment.kind === 'power'
+    ? `Power cycle ${segment.sequence + 1}${segment.state != null ? ` (reset counter ${segment.state})` : ''}`
+    : `Circulation ${segment.state ?? 'unknown'}`;
+  const stats = Object.entries(segment.stats)
+    .slice(0, 6)
+    .map(([channel, s]) => `${channel}: ${s.min.toFixed(1)} / ${s.mean.toFixed(1)} / ${s.max.toFixed(1)}`);
+
+  return [
+    title,
+    `${new Date(segment.startTime).toLocaleString()} – ${new Date(segment.endTime).toLocaleString()}`,
+    `${formatDuration(segment.durationSeconds)}, records ${segment.startRecord}–${segment.endRecord}`,
+    `Started by ${START_REASON_LABELS[segment.startReason]}`,
+    ...(stats.length > 0 ? ['min / mean / max', ...stats] : []),
+  ].join('\n');
+}
+
+function segmentColor(segment: DumpSegment): string {
+  if (segment.kind === 'circulation') {
+    return segment.state === 'On' ? 'bg-cyan-500/70' : 'bg-slate-600/60';
+  }
+  return segment.sequence % 2 === 0 ? 'bg-blue-500/70' : 'bg-indigo-400/70';
+}
+
+// Segments are placed by record index rather than time so the strip lines up with the
+// charts below, which plot evenly sampled records
+function StripRow({ segments, totalRecords }: { segments: DumpSegment[]; totalRecords: number }) {
+  return (
+    <div className="relative h-4 w-full rounded bg-dark-700/50 overflow-hidden">
+      {segments.map(segment => (
+        <div
+          key={segment.id}
+          className={`absolute top-0 h-full ${segmentColor(segment)} ${
+            segment.startReason === 'clock-gap' ? 'border-l-2 border-red-400' : 'border-l border-dark-800'
+          }`}
+          style={{
+            left: `${(segment.startRecord / totalRecords) * 100}%`,
+            width: `${((segment.endRecord - segment.startRecord + 1) / totalRecords) * 100}%`,
+          }}
+          title={describeSegment(segment)}
+        />
+      ))}
+    </div>
+  );
+}
+
+export default function SegmentStrip({ dumpId }: SegmentStripProps) {
+  const { data } = useQuery<DumpSegments>({
+    queryKey: ['/api/memory-dumps', dumpId, 'segments'],
+    refetchOnWindowFocus: false,
+    staleTime: 0,
+    gcTime: 0,
+  });
+
+  if (!data || data.power.length === 0) return null;
+
+  const all = [...data.power, ...data.circulation];
+  const totalRecords = Math.max(...all.map(segment => segment.endRecord)) + 1;
+  const totalSeconds = data.power.reduce((sum, segment) => sum + segment.durationSeconds, 0);
+  const circulatingSeconds = data.circulation
+    .filter(segment => segment.state === 'On')
+    .reduce((sum, segment) => sum + segment.durationSeconds, 0);
+  const clockGaps = data.power.filter(segment => segment.startReason === 'clock-gap').length;
+
+  return (
+    <div className="glass-morphism rounded-xl p-4 space-y-3">
+      <div className="flex items-center justify-between text-sm">
+        <h3 className="font-semibold text-slate-200">Runs</h3>
+        <p className="text-slate-400">
+          {data.power.length} power cycle{data.power.length === 1 ? '' : 's'}
+          {clockGaps > 0 && ` (${clockGaps} after clock gaps)`}
+          {data.circulation.length > 0 && ` • circulating ${formatDuration(circulatingSeconds)} of ${formatDuration(totalSeconds)}`}
+        </p>
+      </div>
+      <div className="grid grid-cols-[7rem_1fr] items-center gap-x-3 gap-y-2 text-xs text-slate-400">
+        <span className="flex items-center gap-1"><Power className="w-3 h-3" /> Power cycles</span>
+        <StripRow segments={data.power} totalRecords={totalRecords} />
+        {data.circulation.length > 0 && (
+          <>
+            <span className="flex items-center gap-1"><Waves className="w-3 h-3" /> Circulation</span>
+            <StripRow segments={data.circulation} totalRecords={totalRecords} />
+          </>
+        )}
+      </div>
+    </div>
+  );
+}
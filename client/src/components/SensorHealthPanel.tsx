@@ -0,0 +1,69 @@
+import { SensorHealthStatus, SensorHealthSummary } from "@/lib/types";
+import { HeartPulse } from "lucide-react";
+
+interface SensorHealthPanelProps {
+  health: SensorHealthSummary | null | undefined;
+}
+
+const STATUS_STYLES: Record<SensorHealthStatus, string> = {
+  good: 'text-emerald-400',
+  suspect: 'text-amber-400',
+  failed: 'text-rose-400',
+};
+
+const STATUS_ORDER: Record<SensorHealthStatus, number> = { failed: 0, suspect: 1, good: 2 };
+
+// Per-channel sensor health: stuck values, flatlines at the rails, lost resolution, offset
+// steps and drift. Failed channels first; good channels are folded into one line.
+export default function SensorHealthPanel({ health }: SensorHealthPanelProps) {
+  if (!health || health.channels.length === 0) return null;
+
+  const flagged = health.channels
+    .filter(channel => channel.status !== 'good')
+    .sort((a, b) => STATUS_ORDER[a.status] - STATUS_ORDER[b.status] || a.channel.localeCompare(b.channel));
+  const good = health.channels.filter(channel => channel.status === 'good');
+
+  return (
+    <div className="glass-morphism rounded-xl p-4 space-y-3">
+      <div className="flex items-center justify-between text-sm">
+        <h3 className="flex items-center gap-2 font-semibold text-slate-200">
+          <HeartPulse className="w-4 h-4 text-rose-400" /> Sensor Health
+        </h3>
+        <p className="text-slate-400">
+          <span className={STATUS_STYLES.good}>{health.good} good</span>
+          {' • '}<span className={STATUS_STYLES.suspect}>{health.suspect} suspect</span>
+          {' • '}<span className={STATUS_STYLES.failed}>{health.failed} failed</span>
+        </p>
+      </div>
+      {flagged.length > 0 && (
+        <div className="overflow-x-auto">
+          <table className="w-full text-xs text-slate-300">
+            <thead className="text-slate-500">
+              <tr>
+                <th className="text-left font-medium py-1">Channel</th>
+                <th className="text-left font-medium py-1">Status</th>
+                <th className="text-right font-medium py-1">Readings</th>
+                <th className="text-left font-medium py-1 pl-4">Findings</th>
+              </tr>
+            </thead>
+            <tbody>
+              {flagged.map(channel => (
+                <tr key={channel.channel} className="border-t border-dark-700/50 align-top">
+                  <td className="py-1 font-mono">{channel.channel}</td>
+                  <td className={`py-1 capitalize ${STATUS_STYLES[channel.status]}`}>{channel.status}</td>
+                  <td className="py-1 text-right text-slate-400">{channel.readings.toLocaleString()}</td>
+                  <td className="py-1 pl-4 text-slate-400">{channel.findings.join('; ')}</td>
+                </tr>
+              ))}
+            </tbody>
+          </table>
+        </div>
+      )}
+      {good.length > 0 && (
+        <p className="text-xs text-slate-500">
+          Good: {good.map(channel => channel.channel).join(', ')}
+        </p>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,240 @@
+import { useQuery } from "@tanstack/react-query";
+import { LineChart, Line, XAxis, YAxis, CartesianGrid, Tooltip, Legend, ResponsiveContainer, ReferenceArea } from "recharts";
+import { AnalysisEvent, AnalysisEventList, SeriesWindow } from "@/lib/types";
+import { Button } from "@/components/ui/button";
+import { ZoomIn, ZoomOut } from "lucide-react";
+import { useMemo, useState } from "react";
+
+export interface SeriesChannel {
+  key: string;   // sensor data column, e.g. maxX
+  name: string;
+  color: string;
+}
+
+export interface SeriesGroup {
+  id: string;
+  label: string;
+  unit: string;
+  channels: SeriesChannel[];
+}
+
+interface SeriesChartProps {
+  dumpId: number;
+  groups: SeriesGroup[];
+  points?: number;
+}
+
+type SeriesRow = { t: number } & Record<string, number | undefined>;
+
+interface EventBand {
+  severity: AnalysisEvent['severity'];
+  x1: number;
+  x2: number;
+}
+
+function formatTime(t: number, span: number): string {
+  const date = new Date(t);
+  return span > 2 * 24 * 3600 * 1000 ? date.toLocaleDateString() : date.toLocaleTimeString();
+}
+
+// Events fetched per window; the band merging below keeps this many cheap to draw
+const EVENT_LIMIT = 2000;
+
+const SEVERITY_COLORS: Record<string, string> = {
+  critical: '#F43F5E',
+  warning: '#F59E0B',
+  info: '#60A5FA',
+};
+
+function formatBucket(seconds: number): string {
+  if (seconds < 60) return `${seconds} s`;
+  if (seconds < 3600) return `${seconds / 60} min`;
+  return `${seconds / 3600} h`;
+}
+
+// Time-based chart fed by the series endpoint: the server keeps each bucket's min and max,
+// so spikes are never thinned away, and dragging across the chart zooms into that window,
+// which is refetched (at full resolution once it is small enough). Analysis events on the
+// group's channels are drawn as bands over the exact records they cover.
+export default function SeriesChart({ dumpId, groups, points = 1000 }: SeriesChartProps) {
+  const [groupId, setGroupId] = useState(groups[0]?.id);
+  const [zoom, setZoom] = useState<{ from: number; to: number } | null>(null);
+  const [selection, setSelection] = useState<{ start: number; end?: number } | null>(null);
+
+  const group = groups.find(g => g.id === groupId) ?? groups[0];
+  const params = new URLSearchParams({
+    channels: group.channels.map(channel => channel.key).join(','),
+    points: String(points),
+  });
+  if (zoom) {
+    params.set('from', String(zoom.from));
+    params.set('to', String(zoom.to));
+  }
+
+  const { data: seriesWindow, isFetching, error } = useQuery<SeriesWindow>({
+    queryKey: ['/api/memory-dumps', dumpId, `series?${params}`],
+    placeholderData: previous => previous,
+  });
+
+  // Events of the visible window only, once the series says what that is
+  const visible = zoom ?? (seriesWindow && { from: seriesWindow.from, to: seriesWindow.to });
+  const eventParams = new URLSearchParams({ channel: params.get('channels')!, limit: String(EVENT_LIMIT) });
+  if (visible) {
+    eventParams.set('from', String(visible.from));
+    eventParams.set('to', String(visible.to));
+  }
+  const { data: eventList } = useQuery<AnalysisEventList>({
+    queryKey: ['/api/memory-dumps', dumpId, `events?${eventParams}`],
+    enabled: !!visible,
+    placeholderData: previous => previous,
+  });
+
+  // One row per distinct time so every channel shares the time axis
+  const rows = useMemo(() => {
+    if (!seriesWindow) return [];
+    const byTime = new Map<number, SeriesRow>();
+    for (const [key, series] of Object.entries(seriesWindow.series)) {
+      if (!series) continue;
+      series.t.forEach((t, i) => {
+        let row = byTime.get(t);
+        if (!row) byTime.set(t, row = { t });
+        row[key] = series.v[i];
+      });
+    }
+    return Array.from(byTime.values()).sort((a, b) => a.t - b.t);
+  }, [seriesWindow]);
+
+  const span = seriesWindow ? seriesWindow.to - seriesWindow.from : 0;
+
+  // Event bands span each event's records including the last one's logging interval,
+  // clipped to the window. Bands of one severity closer than about a pixel are merged so
+  // noisy channels with thousands of events still draw quickly; zooming in separates them.
+  const bands = useMemo(() => {
+    if (!seriesWindow || !eventList) return [];
+    const merged: EventBand[] = [];
+    const lastBySeverity = new Map<string, EventBand>();
+    const joinGap = span / 1000;
+    for (const event of eventList.events) {
+      const start = Date.parse(event.startTime);
+      const x1 = Math.max(start, seriesWindow.from);
+      const x2 = Math.min(start + event.durationSeconds * 1000, seriesWindow.to);
+      if (x1 > x2) continue;
+      const last = lastBySeverity.get(event.severity);
+      if (last && x1 <= last.x2 + joinGap) {
+        last.x2 = Math.max(last.x2, x2);
+        continue;
+      }
+      const band = { severity: event.severity, x1, x2 };
+      merged.push(band);
+      lastBySeverity.set(event.severity, band);
+    }
+    return merged;
+  }, [seriesWindow, eventList, span]);
+
+  const finishSelection = () => {
+    if (selection?.end !== undefined && selection.end !== selection.start) {
+      setZoom({ from: Math.min(selection.start, selection.end), to: Math.max(selection.start, selection.end) });
+    }
+    setSelection(null);
+  };
+
+  return (
+    <div className="glass-morphism rounded-xl p-6">
+      <div className="flex flex-wrap items-center justify-between gap-2 mb-4">
+        <div className="flex items-center space-x-2">
+          <ZoomIn className="w-5 h-5 text-cyan-400" />
+          <h3 className="text-lg font-semibold text-slate-200">Time-Range Explorer</h3>
+        </div>
+        <div className="flex flex-wrap items-center gap-2">
+          {groups.map(g => (
+            <Button
+              key={g.id}
+              size="sm"
+              variant={g.id === group.id ? 'default' : 'outline'}
+              onClick={() => setGroupId(g.id)}
+            >
+              {g.label}
+            </Button>
+          ))}
+          <Button size="sm" variant="outline" disabled={!zoom} onClick={() => setZoom(null)}>
+            <ZoomOut className="w-4 h-4 mr-1" /> Reset zoom
+          </Button>
+        </div>
+      </div>
+
+      <p className="text-xs text-slate-500 mb-2">
+        {seriesWindow
+          ? `${new Date(seriesWindow.from).toLocaleString()} – ${new Date(seriesWindow.to).toLocaleString()} • ${seriesWindow.recordsInWindow.toLocaleString()} records in window • ${
+              seriesWindow.full
+                ? 'full resolution'
+                : seriesWindow.level
+                  ? `min/max of ${formatBucket(seriesWindow.level)} aggregates`
+                  : `min/max of ${seriesWindow.points.toLocaleString()} points per channel`
+            }`
+          : 'Loading series…'}
+        {eventList && eventList.total > 0 && ` • ${eventList.total.toLocaleString()} analysis events`}
+        {eventList && eventList.total > eventList.events.length && ` (first ${eventList.events.length.toLocaleString()} shown - zoom in for the rest)`}
+        {isFetching && seriesWindow && ' • updating…'}
+        {' • drag across the chart to zoom'}
+      </p>
+
+      {error ? (
+        <p className="text-sm text-red-400">Failed to load series: {(error as Error).message}</p>
+      ) : (
+        <div className="h-80 select-none">
+          <ResponsiveContainer width="100%" height="100%">
+            <LineChart
+              data={rows}
+              onMouseDown={e => e?.activeLabel !== undefined && setSelection({ start: Number(e.activeLabel) })}
+              onMouseMove={e => selection && e?.activeLabel !== undefined && setSelection({ ...selection, end: Number(e.activeLabel) })}
+              onMouseUp={finishSelection}
+            >
+              <CartesianGrid strokeDasharray="3 3" stroke="#374151" />
+              <XAxis
+                dataKey="t"
+                type="number"
+                scale="time"
+                domain={['dataMin', 'dataMax']}
+                stroke="#9CA3AF"
+                fontSize={12}
+                tickFormatter={t => formatTime(t, span)}
+              />
+              <YAxis stroke="#9CA3AF" fontSize={12} label={{ value: group.unit, angle: -90, position: 'insideLeft' }} />
+              <Tooltip
+                contentStyle={{ backgroundColor: '#1F2937', border: '1px solid #374151', borderRadius: '8px' }}
+                labelFormatter={t => new Date(Number(t)).toLocaleString()}
+              />
+              <Legend />
+              {bands.map((band, index) => (
+                <ReferenceArea
+                  key={`${band.severity}-${index}`}
+                  x1={band.x1}
+                  x2={band.x2}
+                  fill={SEVERITY_COLORS[band.severity]}
+                  fillOpacity={0.15}
+                  stroke="none"
+                />
+              ))}
+              {group.channels.map(channel => (
+                <Line
+                  key={channel.key}
+                  type="linear"
+                  dataKey={channel.key}
+                  name={channel.name}
+                  stroke={channel.color}
+                  strokeWidth={1.5}
+                  dot={false}
+                  connectNulls
+                  isAnimationActive={false}
+                />
+              ))}
+              {selection?.end !== undefined && (
+                <ReferenceArea x1={selection.start} x2={selection.end} strokeOpacity={0.3} fill="#22D3EE" fillOpacity={0.15} />
+              )}
+            </LineChart>
+          </ResponsiveContainer>
+        </div>
+      )}
+    </div>
+  );
+}
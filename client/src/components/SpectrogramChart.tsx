@@ -0,0 +1,185 @@
+import { useEffect, useRef, useState } from "react";
+import { useQuery } from "@tanstack/react-query";
+import { CartesianGrid, Line, LineChart, ResponsiveContainer, Tooltip, XAxis, YAxis } from "recharts";
+import { Button } from "@/components/ui/button";
+import { SpectralAnalysis } from "@/lib/types";
+import { Waves } from "lucide-react";
+
+interface SpectrogramChartProps {
+  dumpId: number;
+  channels: { key: string; name: string }[];
+}
+
+const SEGMENT_OPTIONS = [128, 256, 512];
+
+// dB below the strongest bin that the colour scale spans
+const DYNAMIC_RANGE_DB = 50;
+
+// Dark blue → teal → yellow, for 0..1
+const COLOR_STOPS: [number, number, number][] = [[15, 23, 42], [30, 64, 175], [13, 148, 136], [132, 204, 22], [250, 204, 21]];
+
+function heatColor(level: number): string {
+  const scaled = Math.min(1, Math.max(0, level)) * (COLOR_STOPS.length - 1);
+  const i = Math.min(COLOR_STOPS.length - 2, Math.floor(scaled));
+  const t = scaled - i;
+  const [r, g, b] = COLOR_STOPS[i].map((c, k) => Math.round(c + (COLOR_STOPS[i + 1][k] - c) * t));
+  return `rgb(${r}, ${g}, ${b})`;
+}
+
+const toDb = (power: number) => 10 * Math.log10(Math.max(power, 1e-12));
+
+function formatHz(hz: number): string {
+  return hz < 0.01 ? `${(hz * 1000).toFixed(1)} mHz` : `${hz.toFixed(3)} Hz`;
+}
+
+// Frequency content of a vibration, acceleration or rotation channel: a spectrogram (time
+// across, frequency up, power as colour) with the dominant and rotation frequencies of each
+// frame, the averaged PSD of the dump and its band energies
+export default function SpectrogramChart({ dumpId, channels }: SpectrogramChartProps) {
+  const [channel, setChannel] = useState(channels[0]?.key);
+  const [segment, setSegment] = useState(256);
+  const canvasRef = useRef<HTMLCanvasElement>(null);
+
+  const { data, error } = useQuery<SpectralAnalysis>({
+    queryKey: ['/api/memory-dumps', dumpId, 'spectrum', channel, segment],
+    queryFn: async () => {
+      const response = await fetch(`/api/memory-dumps/${dumpId}/spectrum?channel=${channel}&segment=${segment}`);
+      const body = await response.json();
+      if (!response.ok) throw new Error(body.message ?? response.statusText);
+      return body;
+    },
+    enabled: !!channel,
+    refetchOnWindowFocus: false,
+    retry: false,
+  });
+
+  useEffect(() => {
+    const canvas = canvasRef.current;
+    const context = canvas?.getContext('2d');
+    if (!canvas || !context || !data) return;
+    const frames = data.spectrogram.frames;
+    const bins = data.frequencies.length;
+    context.clearRect(0, 0, canvas.width, canvas.height);
+    if (frames.length === 0) return;
+
+    let top = -Infinity;
+    for (const frame of frames) {
+      if (!frame.psd) continue;
+      for (let k = 1; k < bins; k++) top = Math.max(top, toDb(frame.psd[k]));
+    }
+    const frameWidth = canvas.width / frames.length;
+    const binHeight = canvas.height / (bins - 1);
+    frames.forEach((frame, x) => {
+      if (!frame.psd) return;
+      for (let k = 1; k < bins; k++) {
+        context.fillStyle = heatColor(1 - (top - toDb(frame.psd[k])) / DYNAMIC_RANGE_DB);
+        context.fillRect(x * frameWidth, canvas.height - k * binHeight, Math.ceil(frameWidth), Math.ceil(binHeight));
+      }
+    });
+
+    // Dominant frequency (white) and rotation frequency (orange) of each frame
+    const y = (hz: number) => canvas.height - (hz / data.nyquistHz) * (canvas.height - binHeight) - binHeight / 2;
+    frames.forEach((frame, x) => {
+      if (frame.dominantHz !== null) {
+        context.fillStyle = '#F8FAFC';
+        context.fillRect(x * frameWidth + frameWidth / 2 - 1, y(frame.dominantHz) - 1, 3, 3);
+      }
+      if (frame.rotationHz !== null && frame.rotationHz <= data.nyquistHz) {
+        context.fillStyle = '#FB923C';
+        context.fillRect(x * frameWidth, y(frame.rotationHz) - 1, Math.ceil(frameWidth), 2);
+      }
+    });
+  }, [data]);
+
+  if (channels.length === 0) return null;
+
+  const frames = data?.spectrogram.frames ?? [];
+  const psdRows = data ? data.frequencies.slice(1).map((frequency, i) => ({ frequency, db: toDb(data.psd[i + 1]) })) : [];
+
+  return (
+    <div className="glass-morphism rounded-xl p-6">
+      <div className="flex flex-wrap items-center justify-between gap-2 mb-4">
+        <div className="flex items-center space-x-2">
+          <Waves className="w-5 h-5 text-teal-400" />
+          <h3 className="text-lg font-semibold text-slate-200">Spectrogram</h3>
+        </div>
+        <div className="flex flex-wrap gap-2">
+          {channels.map(c => (
+            <Button key={c.key} size="sm" variant={c.key === channel ? 'default' : 'outline'} onClick={() => setChannel(c.key)}>
+              {c.name}
+            </Button>
+          ))}
+          {SEGMENT_OPTIONS.map(length => (
+            <Button key={length} size="sm" variant={length === segment ? 'secondary' : 'ghost'} onClick={() => setSegment(length)}>
+              {length} pt
+            </Button>
+          ))}
+        </div>
+      </div>
+
+      {error ? (
+        <p className="text-sm text-amber-400">{(error as Error).message}</p>
+      ) : (
+        <>
+          <p className="text-xs text-slate-500 mb-2">
+            {data
+              ? `Welch PSD of ${data.segmentLength}-record Hann segments • ${formatHz(data.resolutionHz)} resolution up to ${formatHz(data.nyquistHz)} (half the logging rate) • ${frames.length} frames of ${data.spectrogram.frameRecords} records`
+              : 'Loading spectrum…'}
+            {data?.dominant && ` • dominant ${formatHz(data.dominant.frequency)}`}
+            {data && data.interpolatedPercent > 0 && ` • ${data.interpolatedPercent.toFixed(0)}% of readings interpolated`}
+          </p>
+          <div className="flex gap-2">
+            <div className="flex flex-col justify-between text-xs text-slate-500 h-64 w-20 text-right">
+              <span>{data ? formatHz(data.nyquistHz) : ''}</span>
+              <span>0 Hz</span>
+            </div>
+            <canvas ref={canvasRef} width={800} height={256} className="w-full h-64 rounded bg-slate-900" />
+          </div>
+          <div className="flex justify-between text-xs text-slate-500 mt-1 ml-[5.5rem]">
+            <span>{frames.length > 0 ? new Date(frames[0].start).toLocaleString() : ''}</span>
+            <span className="text-slate-400">white: dominant frequency • orange: rotation (RPM / 60)</span>
+            <span>{frames.length > 0 ? new Date(frames[frames.length - 1].end).toLocaleString() : ''}</span>
+          </div>
+
+          {data && (
+            <div className="grid grid-cols-1 lg:grid-cols-2 gap-4 mt-4">
+              <div className="h-48">
+                <ResponsiveContainer width="100%" height="100%">
+                  <LineChart data={psdRows}>
+                    <CartesianGrid strokeDasharray="3 3" stroke="#374151" />
+                    <XAxis dataKey="frequency" type="number" domain={[0, data.nyquistHz]} stroke="#9CA3AF" fontSize={12} tickFormatter={hz => hz.toFixed(2)} />
+                    <YAxis stroke="#9CA3AF" fontSize={12} label={{ value: 'dB', angle: -90, position: 'insideLeft' }} />
+                    <Tooltip
+                      contentStyle={{ backgroundColor: '#1F2937', border: '1px solid #374151', borderRadius: '8px' }}
+                      labelFormatter={hz => formatHz(Number(hz))}
+                      formatter={(value: number) => [`${value.toFixed(1)} dB`, 'PSD']}
+                    />
+                    <Line type="linear" dataKey="db" stroke="#2DD4BF" strokeWidth={1.5} dot={false} isAnimationActive={false} />
+                  </LineChart>
+                </ResponsiveContainer>
+              </div>
+              <table className="w-full text-xs text-slate-300 self-start">
+                <thead className="text-slate-500">
+                  <tr>
+                    <th className="text-left font-medium py-1">Band</th>
+                    <th className="text-right font-medium py-1">Energy (variance)</th>
+                    <th className="text-right font-medium py-1">Share</th>
+                  </tr>
+                </thead>
+                <tbody>
+                  {data.bands.map(band => (
+                    <tr key={band.from} className="border-t border-dark-700/50">
+                      <td className="py-1">{formatHz(band.from)} – {formatHz(band.to)}</td>
+                      <td className="py-1 text-right">{band.energy.toPrecision(3)}</td>
+                      <td className="py-1 text-right">{band.share.toFixed(1)}%</td>
+                    </tr>
+                  ))}
+                </tbody>
+              </table>
+            </div>
+          )}
+        </>
+      )}
+    </div>
+  );
+}
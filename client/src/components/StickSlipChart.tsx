@@ -0,0 +1,105 @@
+import { useState } from "react";
+import { useQuery } from "@tanstack/react-query";
+import { Area, AreaChart, CartesianGrid, ReferenceLine, ResponsiveContainer, Tooltip, XAxis, YAxis } from "recharts";
+import { Button } from "@/components/ui/button";
+import { StickSlipSummary } from "@/lib/types";
+import { RotateCw } from "lucide-react";
+
+interface StickSlipChartProps {
+  dumpId: number;
+}
+
+const WINDOW_OPTIONS = [10, 60, 300];
+
+const LEVEL_COLORS = ['#10B981', '#60A5FA', '#F59E0B', '#F43F5E'];
+
+function formatDuration(seconds: number): string {
+  if (seconds < 60) return `${seconds.toFixed(0)} s`;
+  if (seconds < 3600) return `${(seconds / 60).toFixed(1)} min`;
+  return `${(seconds / 3600).toFixed(2)} h`;
+}
+
+// Stick-slip index per window with the level thresholds, and how long the string rotated at
+// each level. The analysis events behind the stick-slip issues are banded on the Rotation
+// view of the time-range explorer.
+export default function StickSlipChart({ dumpId }: StickSlipChartProps) {
+  const [windowSeconds, setWindowSeconds] = useState(60);
+
+  const { data, error } = useQuery<StickSlipSummary>({
+    queryKey: ['/api/memory-dumps', dumpId, 'stick-slip', windowSeconds],
+    queryFn: async () => {
+      const response = await fetch(`/api/memory-dumps/${dumpId}/stick-slip?window=${windowSeconds}`);
+      if (!response.ok) throw new Error(`Failed to fetch stick-slip: ${response.statusText}`);
+      return response.json();
+    },
+    refetchOnWindowFocus: false,
+    retry: false,
+  });
+
+  if (error || (data && data.windows.length === 0)) return null;
+
+  const span = data && data.windows.length > 0 ? data.windows[data.windows.length - 1].end - data.windows[0].start : 0;
+  const formatTime = (t: number) => span > 2 * 24 * 3600 * 1000 ? new Date(t).toLocaleDateString() : new Date(t).toLocaleTimeString();
+
+  return (
+    <div className="glass-morphism rounded-xl p-6">
+      <div className="flex flex-wrap items-center justify-between gap-2 mb-4">
+        <div className="flex items-center space-x-2">
+          <RotateCw className="w-5 h-5 text-orange-400" />
+          <h3 className="text-lg font-semibold text-slate-200">Stick-Slip Severity</h3>
+        </div>
+        <div className="flex gap-2">
+          {WINDOW_OPTIONS.map(seconds => (
+            <Button key={seconds} size="sm" variant={seconds === windowSeconds ? 'default' : 'outline'} onClick={() => setWindowSeconds(seconds)}>
+              {formatDuration(seconds)}
+            </Button>
+          ))}
+        </div>
+      </div>
+
+      <p className="text-xs text-slate-500 mb-2">
+        Index (max − min) / (2 · avg) of the rotation RPM per {formatDuration(windowSeconds)} window while rotating
+        {data?.peak && ` • peak ${data.peak.index.toFixed(2)} at ${new Date(data.peak.start).toLocaleString()}`}
+      </p>
+
+      <div className="h-64">
+        <ResponsiveContainer width="100%" height="100%">
+          <AreaChart data={data?.windows ?? []}>
+            <CartesianGrid strokeDasharray="3 3" stroke="#374151" />
+            <XAxis dataKey="start" type="number" scale="time" domain={['dataMin', 'dataMax']} stroke="#9CA3AF" fontSize={12} tickFormatter={formatTime} />
+            <YAxis stroke="#9CA3AF" fontSize={12} label={{ value: 'SSI', angle: -90, position: 'insideLeft' }} />
+            <Tooltip
+              contentStyle={{ backgroundColor: '#1F2937', border: '1px solid #374151', borderRadius: '8px' }}
+              labelFormatter={t => new Date(Number(t)).toLocaleString()}
+              formatter={(value: number) => [value.toFixed(2), 'Stick-slip index']}
+            />
+            {data?.levels.filter(level => level.min > 0).map(level => (
+              <ReferenceLine
+                key={level.level}
+                y={level.min}
+                stroke={LEVEL_COLORS[level.level]}
+                strokeDasharray="4 4"
+                label={{ value: level.name, position: 'right', fill: LEVEL_COLORS[level.level], fontSize: 11 }}
+              />
+            ))}
+            <Area type="stepAfter" dataKey="index" stroke="#F97316" fill="#F97316" fillOpacity={0.2} strokeWidth={1.5} isAnimationActive={false} />
+          </AreaChart>
+        </ResponsiveContainer>
+      </div>
+
+      {data && (
+        <div className="grid grid-cols-2 md:grid-cols-4 gap-3 mt-4">
+          {data.totals.map(total => (
+            <div key={total.level} className="rounded-lg bg-dark-800/60 p-3">
+              <div className="text-xs uppercase font-medium mb-1" style={{ color: LEVEL_COLORS[total.level] }}>
+                {total.name} (≥ {data.levels[total.level].min})
+              </div>
+              <div className="text-lg font-bold text-slate-100">{formatDuration(total.seconds)}</div>
+              <div className="text-xs text-slate-400">{total.percent.toFixed(1)}% of rotating time</div>
+            </div>
+          ))}
+        </div>
+      )}
+    </div>
+  );
+}
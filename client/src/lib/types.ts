@@ -2,12 +2,61 @@ export interface MemoryDump {
   id: number;
   filename: string;
   fileType: string;
+  detectedFileType?: string | null;
+  detectionConfidence?: number | null;
+  fileSize?: number | null;
+  contentHash?: string | null;
+  parserVersion?: string | null;
+  analysisVersion?: string | null;
+  startTimeOverride?: string | null;
+  timezone?: string | null;
+  sampleIntervalMs?: number | null;
+  timeSource?: 'override' | 'record' | 'header' | 'filename' | null;
+  dataQuality?: DataQualitySummary | null;
+  parseDiagnostics?: ParseDiagnostics | null;
   uploadedAt: string;
   processedAt?: string;
   status: 'pending' | 'processing' | 'completed' | 'error';
   errorMessage?: string;
 }
 
+// Why a sample has no value; valid samples are not flagged
+export type SampleQuality = 'valid' | 'out-of-range' | 'nan' | 'erased' | 'padding';
+export type SampleQualityMask = Partial<Record<string, Exclude<SampleQuality, 'valid'>>>;
+
+export interface DataQualitySummary {
+  records: number;
+  paddingRecords: number;
+  channels: Record<string, Record<SampleQuality, number>>;
+  constants: Record<string, { value: number; unit?: string }>;
+}
+
+export interface ParseRegion {
+  kind: 'header' | 'records' | 'erased' | 'zero-fill' | 'truncated';
+  startByte: number;
+  endByte: number;
+  records: number;
+}
+
+// How the parser read a dump file
+export interface ParseDiagnostics {
+  fileSize: number;
+  layoutId: string;
+  headerBytes: number;
+  recordSize: number;
+  bytesConsumed: number;
+  recordsDecoded: number;
+  recordsSkipped: { erased: number; zeroFill: number };
+  truncatedBytes: number;
+  wrapAround: {
+    detected: boolean;
+    method: 'record-clock' | 'erased-gap' | null;
+    oldestRecord: number | null;
+    note: string;
+  };
+  regions: ParseRegion[];
+}
+
 export interface SensorData {
   id: number;
   dumpId: number;
@@ -62,6 +111,7 @@ export interface SensorData {
   surveyCINC?: number;
   surveyAZM?: number;
   surveyCAZM?: number;
+  quality?: SampleQualityMask | null;
 }
 
 export interface Issue {
@@ -71,7 +121,8 @@ export interface Issue {
   count: number;
   firstTime?: string;
   lastTime?: string;
-  times: string[];
+  events: number;
+  rule?: string;
 }
 
 export interface AnalysisResults {
@@ -81,9 +132,45 @@ export interface AnalysisResults {
   criticalIssues: number;
   warnings: number;
   issues: Issue[];
+  ruleSetName?: string | null;
+  ruleSetVersion?: string | null;
+  sensorHealth?: SensorHealthSummary | null;
   generatedAt: string;
 }
 
+export type SensorHealthStatus = 'good' | 'suspect' | 'failed';
+
+export interface ChannelHealth {
+  channel: string;
+  status: SensorHealthStatus;
+  readings: number;
+  validPercent: number;
+  longestStuck: { value: number; readings: number; startRecord: number } | null;
+  stuckPercent: number;
+  flatlinePercent: number;
+  levels: number | null;
+  offsetSteps: { record: number; from: number; to: number }[];
+  drift: number | null;
+  findings: string[];
+}
+
+export interface SensorHealthSummary {
+  good: number;
+  suspect: number;
+  failed: number;
+  channels: ChannelHealth[];
+}
+
+// Where a device report value came from: decoded from a header offset, computed from the
+// sensor records, or unavailable (never invented)
+export type FieldProvenance =
+  | { source: 'header'; offset: number; type: 'u8' | 'u16' | 'u32' | 'f32' | 'version' }
+  // Read from the first of several candidate header offsets that held a plausible value;
+  // no layout documents the offset, so the value is unverified
+  | { source: 'inferred'; offset: number; type: 'u16' | 'u32' | 'f32'; candidates: number[] }
+  | { source: 'computed'; method: string }
+  | { source: 'unavailable'; reason: string };
+
 export interface DeviceReport {
   id: number;
   dumpId: number;
@@ -104,12 +191,187 @@ export interface DeviceReport {
   mdgExtremeShockIndex: number | null;
   mdgMaxTempCelsius: number | null;
   mdgMaxTempFahrenheit: number | null;
+  batteryAmpHours: number | null;
+  batteryWattHours: number | null;
+  provenance?: Partial<Record<DeviceReportField, FieldProvenance>> | null;
   createdAt: Date;
 }
 
+export type DeviceReportField = Exclude<keyof DeviceReport, 'id' | 'dumpId' | 'provenance' | 'createdAt'>;
+
+export interface SegmentChannelStats {
+  min: number;
+  max: number;
+  mean: number;
+  count: number;
+}
+
+export interface DumpSegment {
+  id: number;
+  dumpId: number;
+  kind: 'power' | 'circulation';
+  sequence: number;
+  startTime: string;
+  endTime: string;
+  durationSeconds: number;
+  startRecord: number;
+  endRecord: number;
+  state: string | null;
+  startReason: 'start' | 'reset' | 'clock-gap' | 'flow-change';
+  stats: Record<string, SegmentChannelStats>;
+  ampHours: number | null;
+  wattHours: number | null;
+}
+
+export interface DumpSegments {
+  dumpId: number;
+  power: DumpSegment[];
+  circulation: DumpSegment[];
+}
+
+// Battery drawn by a dump, from GET /api/memory-dumps/:id/battery
+export interface BatteryUsage {
+  dumpId: number;
+  ampHours: number | null;
+  wattHours: number | null;
+  provenance: { ampHours: FieldProvenance | null; wattHours: FieldProvenance | null };
+  power: Omit<DumpSegment, 'id' | 'dumpId'>[];
+  circulation: Omit<DumpSegment, 'id' | 'dumpId'>[];
+}
+
+export interface BatteryPack {
+  id: number;
+  name: string;
+  toolType: 'MP' | 'MDG';
+  ratedCapacityAh: number;
+  cutoffVoltage: number;
+  description: string | null;
+  createdAt: string;
+}
+
+// From GET /api/memory-dumps/:id/battery-forecast
+export interface BatteryForecast {
+  dumpId: number;
+  pack: BatteryPack;
+  intervalMs: number;
+  consumedAmpHours: number;
+  consumedWattHours: number | null;
+  priorAmpHours: number;
+  remainingAmpHours: number;
+  remainingPercent: number;
+  averageCurrentA: number | null;
+  lastVoltage: number | null;
+  voltageTrendPerHour: number | null;
+  hoursToCutoff: { byCapacity: number | null; byVoltage: number | null; projected: number | null };
+  plannedHours: number | null;
+  sufficient: boolean | null;
+}
+
+export interface ChannelSeries {
+  t: number[]; // ms since the Unix epoch
+  v: number[];
+}
+
+export interface RecordRow {
+  record: number; // position in the dump, from 0
+  rtd: string;
+  [column: string]: number | string | null;
+}
+
+export interface RecordPage {
+  dumpId: number;
+  totalRecords: number;
+  total: number;
+  offset: number;
+  limit: number;
+  columns: string[];
+  rows: RecordRow[];
+  nextCursor: string | null;
+}
+
+export interface SeriesWindow {
+  dumpId: number;
+  points: number;
+  method: 'minmax' | 'lttb';
+  from: number;
+  to: number;
+  recordsInWindow: number;
+  full: boolean;
+  level: number | null; // bucket seconds of the aggregate level served, null for raw records
+  series: Partial<Record<string, ChannelSeries>>;
+}
+
+// A run of records matching an analysis rule, from GET /api/memory-dumps/:id/events
+export interface AnalysisEvent {
+  id: number;
+  dumpId: number;
+  rule: string;
+  channel: string;
+  severity: 'critical' | 'warning' | 'info';
+  startTime: string;
+  endTime: string; // time of the last matching record
+  durationSeconds: number;
+  startRecord: number;
+  endRecord: number;
+  count: number;
+  peakValue: number | null;
+  peakTime: string | null;
+}
+
+export interface AnalysisEventList {
+  dumpId: number;
+  total: number; // every event matching the filters
+  offset: number;
+  limit: number;
+  events: AnalysisEvent[];
+}
+
 export interface MemoryDumpDetails {
   memoryDump: MemoryDump;
   sensorData: SensorData[];
   analysisResults?: AnalysisResults;
   deviceReport?: DeviceReport;
 }
+
+export interface StickSlipLevel {
+  level: number;
+  name: string;
+  min: number;
+}
+
+// From GET /api/memory-dumps/:id/stick-slip: index (max − min) / (2 · avg) per window
+export interface StickSlipSummary {
+  dumpId: number;
+  windowSeconds: number;
+  levels: StickSlipLevel[];
+  windows: { start: number; end: number; index: number; level: number; records: number }[];
+  totals: { level: number; name: string; seconds: number; percent: number }[];
+  rotatingSeconds: number;
+  peak: { start: number; end: number; index: number; level: number; records: number } | null;
+}
+
+export interface SpectrogramFrame {
+  start: number; // ms since the Unix epoch
+  end: number;
+  psd: number[] | null; // null when no segment in the frame was usable
+  dominantHz: number | null;
+  rotationHz: number | null;
+  bandEnergies: number[] | null;
+}
+
+// From GET /api/memory-dumps/:id/spectrum: Welch PSD (units²/Hz) and spectrogram of a channel
+export interface SpectralAnalysis {
+  dumpId: number;
+  channel: string;
+  sampleRateHz: number;
+  nyquistHz: number;
+  segmentLength: number;
+  resolutionHz: number;
+  frequencies: number[];
+  psd: number[];
+  segments: number;
+  interpolatedPercent: number;
+  dominant: { frequency: number; power: number } | null;
+  bands: { from: number; to: number; energy: number; share: number }[];
+  spectrogram: { frameRecords: number; frames: SpectrogramFrame[] };
+}
@@ -4,6 +4,7 @@ import FileUpload from "@/components/FileUpload";
 import DataVisualization from "@/components/DataVisualization";
 import { DeviceReport } from "@/components/DeviceReport";
 import { DeviceStatusReport } from "@/components/DeviceStatusReport";
+import { BatteryPanel } from "@/components/BatteryPanel";
 import { DataTable } from "@/components/DataTable";
 import DataComparison from "@/components/DataComparison";
 import { HealthSummary } from "@/components/HealthSummary";
@@ -198,6 +199,9 @@ export default function Dashboard() {
                   {/* Device Status Report */}
                   <DeviceStatusReport memoryDump={dump} />
 
+                  {/* Battery */}
+                  <BatteryPanel memoryDump={dump} />
+
                   {/* Data Visualization */}
                   <DataVisualization memoryDump={dump} />
 
@@ -5,12 +5,6 @@ import * as schema from "@shared/schema";
 
 neonConfig.webSocketConstructor = ws;
 
-if (!process.env.DATABASE_URL) {
-  throw new Error(
-    "DATABASE_URL must be set. Did you forget to provision a database?",
-  );
-}
-
 // Optimized connection pool for high-throughput operations
 export const pool = new Pool({ 
   connectionString: process.env.DATABASE_URL,
@@ -3,55 +3,130 @@ import { createServer, type Server } from "http";
 import multer from "multer";
 import path from "path";
 import fs from "fs";
+import { storage } from "./storage";
 import { BinaryParser } from "./services/binaryParser";
-import { PDFGenerator } from "./services/pdfGenerator";
+import { PDFGenerator, type ReportData } from "./services/pdfGenerator";
+import { retentionPolicy } from "./services/retentionPolicy";
+import { hashFile } from "./services/contentHash";
+import { blobStore } from "./services/blobStore";
+import { parseWorkerPool } from "./services/parseWorkerPool";
+import { DOWNSAMPLE_METHODS, channelForKey, downsampleSeries, timeExtent, type DownsampleMethod } from "./services/downsample";
+import { parseRecordQuery, recordsToCsv } from "./services/recordQuery";
+import { aggregateExtent, overviewLevel, overviewSeries, pyramidPlan, pyramidSeries } from "./services/aggregatePyramid";
+import { columnKey, SensorColumns, type ChannelName } from "./services/sensorColumns";
+import { DEFAULT_TIMEZONE, isValidTimezone, parseStartTime, type TimeOptions } from "./services/timeBase";
+import { AnalysisEngine, type Issue } from "./services/analysisEngine";
+import { forecastBattery, validateBatteryPack } from "./services/batteryModel";
+import { stickSlipWindows } from "./services/stickSlip";
+import { SEGMENT_LENGTHS, SPECTRAL_CHANNELS, spectralAnalysis, type SpectralBand } from "./services/spectral";
+import { activeRuleSet, findRuleSet, listRuleSets, metricsReading, validateRuleSet } from "./services/analysisRules";
+import type { DeviceReportProvenance, InsertSensorData, MemoryDump, RuleSetDefinition, ToolType } from "@shared/schema";
 
 interface MulterRequest extends Request {
   files?: Express.Multer.File[];
 }
 
-interface MemoryDump {
-  id: number;
-  filename: string;
-  fileType: string;
-  status: 'processing' | 'completed' | 'error';
-  uploadedAt: Date;
-  processedAt?: Date;
-  errorMessage?: string;
+// Delete a dump and drop its archived binary once no other dump references it
+async function deleteDumpAndBlob(dump: MemoryDump): Promise<boolean> {
+  const deleted = await storage.deleteMemoryDump(dump.id);
+  if (deleted && dump.contentHash) {
+    const remaining = await storage.getMemoryDumps();
+    if (!remaining.some(d => d.contentHash === dump.contentHash)) {
+      await blobStore.delete(dump.contentHash);
+    }
+  }
+  return deleted;
 }
 
-interface ProcessedData {
-  memoryDump: MemoryDump;
-  sensorData: any[];
-  analysisResults: any;
-  deviceReport: any;
+type TimeOverrides = Partial<Pick<MemoryDump, "startTimeOverride" | "timezone" | "sampleIntervalMs">>;
+
+// Read the optional startTime / timezone / intervalMs fields of an upload or reprocess
+// request. Absent fields are left out; an empty string or null clears an override.
+// A start time without an offset is wall-clock time in the given (or current) timezone.
+function readTimeOverrides(body: any, currentTimezone: string | null = null): TimeOverrides | string {
+  const overrides: TimeOverrides = {};
+  const provided = (value: unknown) => value !== undefined;
+  const cleared = (value: unknown) => value === null || value === '';
+
+  if (provided(body?.timezone)) {
+    if (cleared(body.timezone)) {
+      overrides.timezone = null;
+    } else if (typeof body.timezone !== 'string' || !isValidTimezone(body.timezone)) {
+      return `Unknown timezone '${body.timezone}' - use an IANA name such as UTC or America/Chicago`;
+    } else {
+      overrides.timezone = body.timezone;
+    }
+  }
+
+  if (provided(body?.intervalMs)) {
+    const intervalMs = cleared(body.intervalMs) ? null : Number(body.intervalMs);
+    if (intervalMs !== null && !(Number.isInteger(intervalMs) && intervalMs > 0)) {
+      return "intervalMs must be a positive whole number of milliseconds";
+    }
+    overrides.sampleIntervalMs = intervalMs;
+  }
+
+  if (provided(body?.startTime)) {
+    if (cleared(body.startTime)) {
+      overrides.startTimeOverride = null;
+    } else {
+      const timezone = overrides.timezone ?? currentTimezone ?? DEFAULT_TIMEZONE;
+      const startTime = typeof body.startTime === 'string' ? parseStartTime(body.startTime, timezone) : null;
+      if (!startTime) {
+        return "startTime must be an ISO 8601 date and time, e.g. 2025-07-21T19:22:50 or 2025-07-21T19:22:50Z";
+      }
+      overrides.startTimeOverride = startTime;
+    }
+  }
+
+  return overrides;
 }
 
-// In-memory storage - ensures latest uploads are prioritized
-const memoryStore = new Map<number, ProcessedData>();
-let currentId = 1;
+// Largest page of GET /events
+const MAX_EVENTS_PAGE = 5000;
 
-// Clear stale cache data function - AGGRESSIVE CACHE CLEARING
-const clearStaleCache = () => {
-  console.log('🔄 AGGRESSIVE CACHE CLEAR - removing ALL stored data to force fresh extraction');
-  memoryStore.clear();
-  currentId = 1;
+// A from/to query parameter: ISO time or epoch milliseconds, `fallback` when absent, null
+// when unreadable
+function readTime(value: unknown, fallback: number): number | null {
+  if (value === undefined || value === '') return fallback;
+  const text = String(value);
+  const time = /^-?\d+$/.test(text) ? Number(text) : Date.parse(text);
+  return isNaN(time) ? null : time;
+}
 
-  // Clear any residual file handles or streams
-  process.nextTick(() => {
-    // Force multiple garbage collection cycles
-    if (global.gc) {
-      global.gc();
-      setTimeout(() => global.gc(), 100);
-      setTimeout(() => global.gc(), 500);
-    }
+// Read the optional ruleSet field of an upload or reprocess request: 'name@version', or a
+// name alone for its newest version. Null when absent; an error message when unknown.
+async function readRuleSet(body: any): Promise<RuleSetDefinition | null | string> {
+  if (body?.ruleSet === undefined || body.ruleSet === '') return null;
+  const listing = findRuleSet(await listRuleSets(storage), String(body.ruleSet));
+  if (!listing) return `Unknown rule set '${body.ruleSet}' - see GET /api/rule-sets`;
+  const { builtIn, activeFor, createdAt, ...ruleSet } = listing;
+  return ruleSet;
+}
 
-    // Clear any module-level caches (skip in ES modules)
-    // Module cache clearing not needed in ES modules
+function timeOptionsFor(dump: MemoryDump): TimeOptions {
+  return {
+    startTime: dump.startTimeOverride ?? undefined,
+    timezone: dump.timezone ?? undefined,
+    intervalMs: dump.sampleIntervalMs ?? undefined,
+  };
+}
 
-    console.log('🧹 DEEP CACHE PURGE COMPLETE - All residual data cleared');
+// Spacing between a stored dump's records: the user-supplied interval, else the most common
+// step between record times (the layout's interval unless the tool clock drifted)
+function loggingIntervalMs(dump: MemoryDump, columns: SensorColumns): number | null {
+  if (dump.sampleIntervalMs) return dump.sampleIntervalMs;
+  const steps = new Map<number, number>();
+  for (let i = 1; i < columns.length; i++) {
+    const step = columns.time[i] - columns.time[i - 1];
+    if (step > 0) steps.set(step, (steps.get(step) ?? 0) + 1);
+  }
+  let interval: number | null = null;
+  steps.forEach((count, step) => {
+    if (interval === null || count > steps.get(interval)!) interval = step;
   });
-};
+  return interval;
+}
 
 const upload = multer({ 
   dest: 'uploads/',
@@ -69,9 +144,7 @@ export async function registerRoutes(app: Express): Promise<Server> {
   // Get all memory dumps
   app.get("/api/memory-dumps", async (req, res) => {
     try {
-      const dumps = Array.from(memoryStore.values())
-        .map(data => data.memoryDump)
-        .sort((a, b) => new Date(b.uploadedAt).getTime() - new Date(a.uploadedAt).getTime());
+      const dumps = await storage.getMemoryDumps();
       res.json(dumps);
     } catch (error: any) {
       res.status(500).json({ message: "Failed to fetch memory dumps", error: error?.message });
@@ -87,56 +160,108 @@ export async function registerRoutes(app: Express): Promise<Server> {
         return res.status(400).json({ message: "No files uploaded" });
       }
 
-      // Clear stale cache for fresh data from new uploads - FORCE FRESH DATA
-      clearStaleCache();
-      console.log('🔄 FORCING FRESH DATA - all cache cleared to prevent stale device info');
+      // An explicit reprocess request bypasses content-hash deduplication
+      const reprocess = req.query.reprocess === 'true' || req.body?.reprocess === 'true';
 
-      // Process all files immediately
-      const results = await Promise.all(files.map(async (file: Express.Multer.File) => {
-        try {
-          const fileType = file.originalname.includes('MDG') ? 'MDG' : 
-                          file.originalname.includes('MP') ? 'MP' : 'UNKNOWN';
+      // Time overrides apply to every new dump in this upload
+      const timeOverrides = readTimeOverrides(req.body);
+      if (typeof timeOverrides === 'string') {
+        await Promise.all(files.map((file: Express.Multer.File) => fs.promises.unlink(file.path).catch(() => {})));
+        return res.status(400).json({ message: timeOverrides });
+      }
 
-          const id = currentId++;
-          const timestamp = new Date();
-          const memoryDump: MemoryDump = {
-            id,
-            filename: file.originalname,
-            fileType,
-            status: 'processing',
-            uploadedAt: timestamp
-          };
+      // A rule set named for this upload replaces the active one for the tool types it covers
+      const ruleSet = await readRuleSet(req.body);
+      if (typeof ruleSet === 'string') {
+        await Promise.all(files.map((file: Express.Multer.File) => fs.promises.unlink(file.path).catch(() => {})));
+        return res.status(400).json({ message: ruleSet });
+      }
 
-          // Store initial entry immediately to ensure proper ordering
-          const initialData: ProcessedData = {
-            memoryDump,
-            sensorData: [],
-            analysisResults: null,
-            deviceReport: null
-          };
-          memoryStore.set(id, initialData);
+      // Fingerprint every file up front so duplicates inside one upload are caught too
+      const hashes: string[] = await Promise.all(files.map((file: Express.Multer.File) => hashFile(file.path)));
+      const seenInUpload = new Map<string, number>();
 
-          console.log(`📥 NEW UPLOAD: ${file.originalname} assigned ID ${id} at ${timestamp.toISOString()}`);
+      const results = [];
+      for (let index = 0; index < files.length; index++) {
+        const file: Express.Multer.File = files[index];
+        const contentHash = hashes[index];
+        try {
+          if (!reprocess) {
+            const existing = seenInUpload.has(contentHash)
+              ? await storage.getMemoryDump(seenInUpload.get(contentHash)!)
+              : await storage.getMemoryDumpByContentHash(contentHash);
+
+            if (existing) {
+              console.log(`♻️ DUPLICATE UPLOAD: ${file.originalname} matches dump ID ${existing.id} (${contentHash.slice(0, 12)}…)`);
+              // Re-archive the bytes if the original blob went missing, otherwise drop the copy
+              await blobStore.put(file.path, contentHash);
+
+              results.push({
+                id: existing.id,
+                filename: existing.filename,
+                status: existing.status,
+                fileType: existing.fileType,
+                contentHash,
+                duplicateOf: existing.id
+              });
+              continue;
+            }
+          }
 
-          // Start processing immediately
-          processFileInMemory(id, file.path, file.originalname, fileType);
+          // Classify from the contents so renamed files are still parsed with the right layout
+          const detection = BinaryParser.detectToolType(file.path);
+          const fileType = detection.toolType;
 
-          return {
+          // Store initial entry immediately to ensure proper ordering
+          const memoryDump = await storage.createMemoryDump({
+            filename: file.originalname,
+            fileType,
+            detectedFileType: fileType,
+            detectionConfidence: detection.confidence,
+            fileSize: file.size,
+            contentHash,
+            ...timeOverrides
+          });
+          const id = memoryDump.id;
+          seenInUpload.set(contentHash, id);
+
+          console.log(`📥 NEW UPLOAD: ${file.originalname} assigned ID ${id} at ${memoryDump.uploadedAt.toISOString()} - detected ${fileType} (confidence ${detection.confidence})`);
+
+          // Keep the original bytes so the dump can be reprocessed later
+          await blobStore.put(file.path, contentHash);
+
+          let status = 'processing';
+          if (fileType === 'UNKNOWN') {
+            // Leave it to the user to pick the tool type instead of guessing
+            status = 'error';
+            await storage.updateMemoryDumpStatus(id, status, 'Could not identify the tool type from the file contents - choose MP or MDG to process it');
+          } else if (ruleSet && !ruleSet.toolTypes.includes(fileType as ToolType)) {
+            status = 'error';
+            await storage.updateMemoryDumpStatus(id, status, `Rule set ${ruleSet.name}@${ruleSet.version} is not written for ${fileType} dumps - reprocess with another rule set`);
+          } else {
+            await storage.updateMemoryDumpStatus(id, status);
+            // Start processing immediately
+            processFileInMemory(id, blobStore.pathFor(contentHash), file.originalname, fileType, timeOptionsFor(memoryDump), ruleSet ?? undefined);
+          }
+
+          results.push({
             id,
             filename: file.originalname,
-            status: 'processing',
-            fileType
-          };
+            status,
+            fileType,
+            contentHash,
+            detection
+          });
 
         } catch (error: any) {
           console.error(`Error processing file ${file.originalname}:`, error);
-          return {
+          results.push({
             filename: file.originalname,
             status: 'error',
             error: error?.message
-          };
+          });
         }
-      }));
+      }
 
       res.json({ results });
     } catch (error: any) {
@@ -148,38 +273,38 @@ export async function registerRoutes(app: Express): Promise<Server> {
   app.get("/api/memory-dumps/:id", async (req, res) => {
     try {
       const id = parseInt(req.params.id);
-      const forceRefresh = req.query.refresh === 'true';
-
-      let data = memoryStore.get(id);
-
-      // Force refresh if requested or if data seems stale
-      if (forceRefresh || !data || !data.sensorData || data.sensorData.length === 0) {
-        console.log(`🔄 Force refreshing data for dump ID ${id}`);
-        // Clear this specific entry and let it be regenerated
-        memoryStore.delete(id);
-        data = memoryStore.get(id);
-      }
+      const memoryDump = await storage.getMemoryDump(id);
 
-      if (!data) {
+      if (!memoryDump) {
         return res.status(404).json({ message: "Memory dump not found" });
       }
 
+      const [columns, analysisResults, deviceReport] = await Promise.all([
+        storage.getSensorColumnsByDumpId(id),
+        storage.getAnalysisResultsByDumpId(id),
+        storage.getDeviceReportByDumpId(id)
+      ]);
+
       // For large datasets, limit sensor data to prevent timeout
       const maxRecords = 10000; // Limit to 10k records for visualization
-      let sensorData = data.sensorData;
-
-      if (sensorData.length > maxRecords) {
-        // Sample data evenly across the dataset
-        const step = Math.floor(sensorData.length / maxRecords);
-        sensorData = sensorData.filter((_, index) => index % step === 0);
-        console.log(`Sampled ${sensorData.length} records from ${data.sensorData.length} total records for visualization`);
+      let sensorData: InsertSensorData[] = [];
+
+      if (columns && columns.length > maxRecords) {
+        // Sample data evenly across the dataset; only the sampled records become objects
+        const step = Math.floor(columns.length / maxRecords);
+        const indexes: number[] = [];
+        for (let i = 0; i < columns.length; i += step) indexes.push(i);
+        sensorData = columns.pickRecords(id, indexes);
+        console.log(`Sampled ${sensorData.length} records from ${columns.length} total records for visualization`);
+      } else if (columns) {
+        sensorData = columns.toRecords(id);
       }
 
       res.json({
-        memoryDump: data.memoryDump,
-        sensorData: sensorData,
-        analysisResults: data.analysisResults,
-        deviceReport: data.deviceReport
+        memoryDump,
+        sensorData,
+        analysisResults: analysisResults ?? null,
+        deviceReport: deviceReport ?? null
       });
     } catch (error: any) {
       console.error("Error fetching memory dump details:", error);
@@ -191,31 +316,339 @@ export async function registerRoutes(app: Express): Promise<Server> {
   app.get("/api/memory-dumps/:id/analysis", async (req, res) => {
     try {
       const { id } = req.params;
-      const data = memoryStore.get(parseInt(id));
+      const analysisResults = await storage.getAnalysisResultsByDumpId(parseInt(id));
 
-      if (!data || !data.analysisResults) {
+      if (!analysisResults) {
         return res.status(404).json({ error: "Analysis not found" });
       }
 
-      res.json(data.analysisResults);
+      res.json(analysisResults);
     } catch (error) {
       console.error("Error fetching analysis:", error);
       res.status(500).json({ error: "Failed to fetch analysis" });
     }
   });
 
+  // Power-cycle segments and circulation periods of a processed dump, in logging order
+  app.get("/api/memory-dumps/:id/segments", async (req, res) => {
+    try {
+      const id = parseInt(req.params.id);
+      const memoryDump = await storage.getMemoryDump(id);
+
+      if (!memoryDump) {
+        return res.status(404).json({ message: "Memory dump not found" });
+      }
+
+      const segments = await storage.getDumpSegmentsByDumpId(id);
+      res.json({
+        dumpId: id,
+        power: segments.filter(segment => segment.kind === 'power'),
+        circulation: segments.filter(segment => segment.kind === 'circulation')
+      });
+    } catch (error: any) {
+      console.error("Error fetching segments:", error);
+      res.status(500).json({ message: "Failed to fetch segments", error: error?.message });
+    }
+  });
+
+  // Events behind the analysis issues, in start order:
+  // ?channel=tempMP,maxX&severity=critical,warning&from=&to=&offset=0&limit=500. A channel
+  // also selects events on metrics derived from it (maxX selects vibrationMagnitude);
+  // from/to take ISO times or epoch milliseconds and keep the events overlapping that
+  // window. `total` counts every matching event, `events` holds one page of them.
+  app.get("/api/memory-dumps/:id/events", async (req, res) => {
+    try {
+      const id = parseInt(req.params.id);
+      const memoryDump = await storage.getMemoryDump(id);
+
+      if (!memoryDump) {
+        return res.status(404).json({ message: "Memory dump not found" });
+      }
+
+      const list = (value: unknown) => String(value ?? '').split(',').map(item => item.trim()).filter(Boolean);
+      const channels = list(req.query.channel);
+      const severities = list(req.query.severity);
+      const unknownSeverity = severities.find(severity => !['critical', 'warning', 'info'].includes(severity));
+      if (unknownSeverity) {
+        return res.status(400).json({ message: `Unknown severity '${unknownSeverity}' - use critical, warning or info` });
+      }
+      const from = readTime(req.query.from, -Infinity);
+      const to = readTime(req.query.to, Infinity);
+      if (from === null || to === null || from > to) {
+        return res.status(400).json({ message: "from and to must be ISO times or epoch milliseconds with from <= to" });
+      }
+      const offset = req.query.offset === undefined ? 0 : Number(req.query.offset);
+      if (!Number.isInteger(offset) || offset < 0) {
+        return res.status(400).json({ message: "offset must be a whole number, 0 or more" });
+      }
+      const limit = req.query.limit === undefined ? 500 : Number(req.query.limit);
+      if (!Number.isInteger(limit) || limit < 1 || limit > MAX_EVENTS_PAGE) {
+        return res.status(400).json({ message: `limit must be a whole number from 1 to ${MAX_EVENTS_PAGE}` });
+      }
+
+      const page = await storage.getAnalysisEvents(id, {
+        channels: channels.length > 0 ? metricsReading(channels) : undefined,
+        severities: severities.length > 0 ? severities : undefined,
+        from: isFinite(from) ? new Date(from) : undefined,
+        to: isFinite(to) ? new Date(to) : undefined,
+      }, offset, limit);
+      res.json({ dumpId: id, total: page.total, offset, limit, events: page.events });
+    } catch (error: any) {
+      console.error("Error fetching events:", error);
+      res.status(500).json({ message: "Failed to fetch events", error: error?.message });
+    }
+  });
+
+  // Stick-slip index per ?window=<seconds> (default 10, at least one logging interval) with
+  // the rotating time spent at each severity level
+  app.get("/api/memory-dumps/:id/stick-slip", async (req, res) => {
+    try {
+      const id = parseInt(req.params.id);
+      const memoryDump = await storage.getMemoryDump(id);
+
+      if (!memoryDump) {
+        return res.status(404).json({ message: "Memory dump not found" });
+      }
+
+      const windowSeconds = req.query.window === undefined || req.query.window === '' ? 10 : Number(req.query.window);
+      if (!(isFinite(windowSeconds) && windowSeconds > 0 && windowSeconds <= 86400)) {
+        return res.status(400).json({ message: "window must be a number of seconds above 0 and at most 86400" });
+      }
+
+      const columns = await storage.getSensorColumnsByDumpId(id);
+      const intervalMs = columns && loggingIntervalMs(memoryDump, columns);
+      if (!columns || !intervalMs) {
+        return res.status(404).json({ message: "No sensor data for this dump" });
+      }
+
+      const summary = stickSlipWindows(columns, intervalMs, Math.max(windowSeconds, intervalMs / 1000));
+      if (!summary) {
+        return res.status(404).json({ message: "This dump does not log RotRpmMax, RotRpmMin and RotRpmAvg" });
+      }
+      res.json({ dumpId: id, ...summary });
+    } catch (error: any) {
+      console.error("Error computing stick-slip:", error);
+      res.status(500).json({ message: "Failed to compute stick-slip", error: error?.message });
+    }
+  });
+
+  // Frequency content of a vibration, acceleration or rotation channel:
+  // ?channel=maxZ&segment=256&frames=200&from=&to=&bands=0-0.05,0.05-0.5. Returns the Welch
+  // PSD of the window, its dominant frequency and band energies, and a spectrogram of up to
+  // `frames` frames. Frequencies are limited to half the logging rate.
+  app.get("/api/memory-dumps/:id/spectrum", async (req, res) => {
+    try {
+      const id = parseInt(req.params.id);
+      const memoryDump = await storage.getMemoryDump(id);
+
+      if (!memoryDump) {
+        return res.status(404).json({ message: "Memory dump not found" });
+      }
+
+      const segmentLength = req.query.segment === undefined ? 256 : Number(req.query.segment);
+      if (!SEGMENT_LENGTHS.includes(segmentLength)) {
+        return res.status(400).json({ message: `segment must be one of ${SEGMENT_LENGTHS.join(', ')} records` });
+      }
+      const maxFrames = req.query.frames === undefined ? 200 : Number(req.query.frames);
+      if (!(Number.isInteger(maxFrames) && maxFrames >= 1 && maxFrames <= 1000)) {
+        return res.status(400).json({ message: "frames must be a whole number from 1 to 1000" });
+      }
+      let bands: SpectralBand[] | undefined;
+      if (req.query.bands !== undefined && req.query.bands !== '') {
+        bands = String(req.query.bands).split(',').map(band => {
+          const [from, to] = band.split('-').map(Number);
+          return { from, to };
+        });
+        if (bands.some(band => !(isFinite(band.from) && isFinite(band.to) && band.from >= 0 && band.from < band.to))) {
+          return res.status(400).json({ message: "bands must be from-to ranges in Hz, e.g. 0-0.05,0.05-0.5" });
+        }
+      }
+
+      const columns = await storage.getSensorColumnsByDumpId(id);
+      const intervalMs = columns && loggingIntervalMs(memoryDump, columns);
+      if (!columns || !intervalMs) {
+        return res.status(404).json({ message: "No sensor data for this dump" });
+      }
+      const channel = channelForKey(String(req.query.channel ?? ''), columns);
+      if (!channel || !SPECTRAL_CHANNELS.includes(channel)) {
+        const available = SPECTRAL_CHANNELS.filter(name => columns.has(name)).map(columnKey);
+        return res.status(400).json({ message: `channel must be one of the spectral channels this dump logs: ${available.join(', ') || 'none'}` });
+      }
+
+      const from = readTime(req.query.from, -Infinity);
+      const to = readTime(req.query.to, Infinity);
+      if (from === null || to === null || from > to) {
+        return res.status(400).json({ message: "from and to must be ISO times or epoch milliseconds with from <= to" });
+      }
+      let first = 0;
+      while (first < columns.length && columns.time[first] < from) first++;
+      let last = columns.length - 1;
+      while (last >= first && columns.time[last] > to) last--;
+
+      const spectrum = spectralAnalysis(columns, channel, intervalMs, { segmentLength, maxFrames, first, last, bands });
+      if (!spectrum) {
+        return res.status(400).json({ message: `The window holds ${last - first + 1} records, fewer than one ${segmentLength}-record segment` });
+      }
+      res.json({ dumpId: id, ...spectrum });
+    } catch (error: any) {
+      console.error("Error computing spectrum:", error);
+      res.status(500).json({ message: "Failed to compute spectrum", error: error?.message });
+    }
+  });
+
+  // Chart series for a time window: ?channels=tempMP,maxX&from=&to=&points=1000&method=minmax|lttb.
+  // from/to take ISO times or epoch milliseconds and default to the whole dump; a window
+  // with no more than `points` samples per channel is returned at full resolution.
+  // `level` in the response is the bucket size read from the aggregate pyramid, if any.
+  app.get("/api/memory-dumps/:id/series", async (req, res) => {
+    try {
+      const id = parseInt(req.params.id);
+      const memoryDump = await storage.getMemoryDump(id);
+
+      if (!memoryDump) {
+        return res.status(404).json({ message: "Memory dump not found" });
+      }
+
+      const keys = String(req.query.channels ?? '').split(',').map(key => key.trim()).filter(Boolean);
+      if (keys.length === 0) {
+        return res.status(400).json({ message: "channels is required, e.g. channels=tempMP,maxX" });
+      }
+
+      const points = req.query.points === undefined ? 1000 : Number(req.query.points);
+      if (!Number.isFinite(points)) {
+        return res.status(400).json({ message: "points must be a number" });
+      }
+      const method = (req.query.method ?? 'minmax') as DownsampleMethod;
+      if (!DOWNSAMPLE_METHODS.includes(method)) {
+        return res.status(400).json({ message: `method must be one of ${DOWNSAMPLE_METHODS.join(', ')}` });
+      }
+      const clampedPoints = Math.min(10000, Math.max(10, Math.round(points)));
+
+      const readWindow = (extent: { from: number; to: number }) => {
+        const from = readTime(req.query.from, extent.from);
+        const to = readTime(req.query.to, extent.to);
+        return from === null || to === null || from > to ? null : { from, to };
+      };
+      const invalidWindow = "from and to must be ISO times or epoch milliseconds with from <= to";
+
+      // Min-max views of long windows come from the aggregate pyramid without loading
+      // the raw records, reading one level of each requested channel
+      if (method === 'minmax') {
+        const levels = await storage.getSensorAggregateLevels(id);
+        const extent = aggregateExtent(levels);
+        if (extent && keys.every(key => levels.some(level => level.channel === key))) {
+          const range = readWindow(extent);
+          if (!range) {
+            return res.status(400).json({ message: invalidWindow });
+          }
+          const plan = pyramidPlan(levels, keys, range.from, range.to, clampedPoints);
+          if (plan) {
+            const aggregates = await Promise.all(keys.map(key => storage.getSensorAggregate(id, key, plan[key])));
+            const window = pyramidSeries(aggregates.filter(aggregate => aggregate !== undefined), keys, range.from, range.to, clampedPoints);
+            if (window) {
+              return res.json({ dumpId: id, points: clampedPoints, method, ...window });
+            }
+          }
+        }
+      }
+
+      const columns = await storage.getSensorColumnsByDumpId(id);
+      const extent = columns && timeExtent(columns);
+      if (!columns || !extent) {
+        return res.status(404).json({ message: "No sensor data for this dump" });
+      }
+
+      const channels: ChannelName[] = [];
+      for (const key of keys) {
+        const channel = channelForKey(key, columns);
+        if (!channel) {
+          return res.status(400).json({ message: `Unknown or non-numeric channel for this dump: ${key}` });
+        }
+        channels.push(channel);
+      }
+
+      const range = readWindow(extent);
+      if (!range) {
+        return res.status(400).json({ message: invalidWindow });
+      }
+
+      const window = downsampleSeries(columns, channels, range.from, range.to, clampedPoints, method);
+      res.json({ dumpId: id, points: clampedPoints, method, ...window });
+    } catch (error: any) {
+      console.error("Error fetching series:", error);
+      res.status(500).json({ message: "Failed to fetch series", error: error?.message });
+    }
+  });
+
+  // Sensor records a page at a time with column selection, filters and sort (see
+  // parseRecordQuery for the parameters); format=csv downloads every matching record
+  app.get("/api/memory-dumps/:id/records", async (req, res) => {
+    try {
+      const id = parseInt(req.params.id);
+      const memoryDump = await storage.getMemoryDump(id);
+
+      if (!memoryDump) {
+        return res.status(404).json({ message: "Memory dump not found" });
+      }
+
+      const channels = await storage.getRecordChannels(id);
+      if (!channels) {
+        return res.status(404).json({ message: "No sensor data for this dump" });
+      }
+
+      const query = parseRecordQuery(req.query, channels);
+      if (typeof query === 'string') {
+        return res.status(400).json({ message: query });
+      }
+
+      if (req.query.format === 'csv') {
+        const columns = await storage.getSensorColumnsByDumpId(id);
+        const name = path.parse(memoryDump.filename).name;
+        res.setHeader('Content-Type', 'text/csv');
+        res.setHeader('Content-Disposition', `attachment; filename="${name}_data.csv"`);
+        return res.send(columns ? recordsToCsv(columns, query) : '');
+      }
+
+      res.json({ dumpId: id, ...await storage.getRecordPage(id, query) });
+    } catch (error: any) {
+      console.error("Error fetching records:", error);
+      res.status(500).json({ message: "Failed to fetch records", error: error?.message });
+    }
+  });
+
+  // How the parser read the file: regions decoded or skipped, truncation and wrap-around
+  app.get("/api/memory-dumps/:id/diagnostics", async (req, res) => {
+    try {
+      const id = parseInt(req.params.id);
+      const memoryDump = await storage.getMemoryDump(id);
+
+      if (!memoryDump) {
+        return res.status(404).json({ message: "Memory dump not found" });
+      }
+      if (!memoryDump.parseDiagnostics) {
+        return res.status(404).json({ message: "No parse diagnostics - the dump has not been processed by this parser version" });
+      }
+
+      res.json({ dumpId: id, parserVersion: memoryDump.parserVersion, ...memoryDump.parseDiagnostics });
+    } catch (error: any) {
+      console.error("Error fetching parse diagnostics:", error);
+      res.status(500).json({ message: "Failed to fetch parse diagnostics", error: error?.message });
+    }
+  });
+
   // Get table data for a specific memory dump with filename/timestamp (legacy - first 50 records)
   app.get("/api/memory-dumps/:id/table-data/:filename/:timestamp", async (req, res) => {
     try {
       const id = parseInt(req.params.id);
-      const data = memoryStore.get(id);
+      const memoryDump = await storage.getMemoryDump(id);
 
-      if (!data || !data.sensorData) {
+      if (!memoryDump) {
         return res.status(404).json({ error: "Sensor data not found" });
       }
 
       // Return first 50 records for table display with all necessary fields
-      const tableData = data.sensorData.slice(0, 50).map(record => ({
+      const sensorData = await storage.getSensorDataByDumpId(id, 50);
+      const tableData = sensorData.map(record => ({
         rtd: record.rtd,
         tempMP: record.tempMP,
         batteryVoltMP: record.batteryVoltMP,
@@ -239,14 +672,15 @@ export async function registerRoutes(app: Express): Promise<Server> {
   app.get("/api/memory-dumps/:id/full-table-data/:filename/:timestamp", async (req, res) => {
     try {
       const id = parseInt(req.params.id);
-      const data = memoryStore.get(id);
+      const memoryDump = await storage.getMemoryDump(id);
 
-      if (!data || !data.sensorData) {
+      if (!memoryDump) {
         return res.status(404).json({ error: "Sensor data not found" });
       }
 
       // Return all records with comprehensive sensor data fields
-      const tableData = data.sensorData.map(record => ({
+      const sensorData = await storage.getSensorDataByDumpId(id);
+      const tableData = sensorData.map(record => ({
         rtd: record.rtd,
         tempMP: record.tempMP,
         resetMP: record.resetMP,
@@ -312,13 +746,13 @@ export async function registerRoutes(app: Express): Promise<Server> {
   app.get("/api/memory-dumps/:id/analysis/:filename/:timestamp", async (req, res) => {
     try {
       const id = parseInt(req.params.id);
-      const data = memoryStore.get(id);
+      const analysisResults = await storage.getAnalysisResultsByDumpId(id);
 
-      if (!data || !data.analysisResults) {
+      if (!analysisResults) {
         return res.status(404).json({ error: "Analysis not found" });
       }
 
-      res.json(data.analysisResults);
+      res.json(analysisResults);
     } catch (error) {
       console.error("Error fetching analysis:", error);
       res.status(500).json({ error: "Failed to fetch analysis" });
@@ -329,28 +763,29 @@ export async function registerRoutes(app: Express): Promise<Server> {
   app.get("/api/memory-dumps/:id/device-report/:filename/:timestamp", async (req, res) => {
     try {
       const id = parseInt(req.params.id);
-      const data = memoryStore.get(id);
+      const memoryDump = await storage.getMemoryDump(id);
 
       // Only log once every 10 requests to prevent spam
       if (Math.random() < 0.1) {
         console.log(`📋 Device report request for dump ID ${id}`);
       }
 
-      if (!data) {
+      if (!memoryDump) {
         return res.status(404).json({ error: "Memory dump not found" });
       }
 
-      if (!data.deviceReport) {
+      const deviceReport = await storage.getDeviceReportByDumpId(id);
+      if (!deviceReport) {
         return res.status(404).json({ error: "Device report not found" });
       }
 
       // Add cache headers to prevent excessive requests
       res.set({
         'Cache-Control': 'public, max-age=30',
-        'ETag': `"${id}-${data.deviceReport.generatedAt}"`
+        'ETag': `"${id}-${new Date(deviceReport.generatedAt).getTime()}"`
       });
 
-      res.json(data.deviceReport);
+      res.json(deviceReport);
     } catch (error) {
       console.error("Error fetching device report:", error);
       res.status(500).json({ error: "Failed to fetch device report" });
@@ -362,46 +797,58 @@ export async function registerRoutes(app: Express): Promise<Server> {
     try {
       const { id } = req.params;
       const dumpId = parseInt(id);
-      const data = memoryStore.get(dumpId);
+      const memoryDump = await storage.getMemoryDump(dumpId);
 
-      if (!data) {
+      if (!memoryDump) {
         return res.status(404).json({ error: "Memory dump not found" });
       }
 
-      // Filter and validate sensor data for PDF
-      const validSensorData = data.sensorData.filter(d => {
-        // Filter out extreme values and invalid readings
-        const hasValidTemp = d.tempMP !== null && d.tempMP !== undefined && !isNaN(d.tempMP) && isFinite(d.tempMP) && d.tempMP > -40 && d.tempMP < 400;
-        const hasValidVoltage = d.batteryVoltMP !== null && d.batteryVoltMP !== undefined && !isNaN(d.batteryVoltMP) && isFinite(d.batteryVoltMP) && d.batteryVoltMP > 0 && d.batteryVoltMP < 50;
-        const hasValidCurrent = d.batteryCurrMP !== null && d.batteryCurrMP !== undefined && !isNaN(d.batteryCurrMP) && isFinite(d.batteryCurrMP) && Math.abs(d.batteryCurrMP) < 100;
-        const hasValidMotor = d.motorAvg !== null && d.motorAvg !== undefined && !isNaN(d.motorAvg) && isFinite(d.motorAvg) && d.motorAvg >= 0 && d.motorAvg < 50;
-
-        return hasValidTemp || hasValidVoltage || hasValidCurrent || hasValidMotor;
-      }).slice(0, 2000); // Increase sample size for better PDF charts
-
-      console.log(`📄 PDF Generation: Filtered ${validSensorData.length} valid records from ${data.sensorData.length} total records`);
+      const [columns, analysisResults, deviceReport, levels] = await Promise.all([
+        storage.getSensorColumnsByDumpId(dumpId),
+        storage.getAnalysisResultsByDumpId(dumpId),
+        storage.getDeviceReportByDumpId(dumpId),
+        storage.getSensorAggregateLevels(dumpId)
+      ]);
+
+      // Charts cover the whole dump from a pyramid level of about 100 buckets: bucket
+      // means, and for shock the largest magnitude so peaks stay visible
+      const chartSeries: Partial<Record<string, number[]>> = {};
+      const overview = async (channel: string, pick: Parameters<typeof overviewSeries>[1]) => {
+        const level = overviewLevel(levels, channel, 100);
+        const aggregate = level && await storage.getSensorAggregate(dumpId, channel, level.bucketSeconds);
+        if (aggregate) chartSeries[channel] = overviewSeries(aggregate, pick);
+      };
+      for (const channel of ['tempMP', 'vBatt', 'batteryVoltMP', 'rotRpmAvg', 'motorAvg', 'gamma']) {
+        await overview(channel, (buckets, i) => buckets.mean[i]);
+      }
+      await overview('shockZ', (buckets, i) => Math.max(Math.abs(buckets.min[i]), Math.abs(buckets.max[i])));
 
       // Prepare report data
-      const reportData = {
-        filename: data.memoryDump.filename,
+      const reportData: ReportData = {
+        filename: memoryDump.filename,
+        fileType: memoryDump.fileType,
         processedAt: new Date(),
-        overallStatus: data.analysisResults?.overallStatus || 'operational',
-        criticalIssues: data.analysisResults?.criticalIssues || 0,
-        warnings: data.analysisResults?.warnings || 0,
-        issues: data.analysisResults?.issues || [],
-        sensorData: validSensorData,
-        deviceReport: data.deviceReport
+        contentHash: memoryDump.contentHash,
+        parseDiagnostics: memoryDump.parseDiagnostics,
+        overallStatus: analysisResults?.overallStatus || 'operational',
+        criticalIssues: analysisResults?.criticalIssues || 0,
+        warnings: analysisResults?.warnings || 0,
+        issues: (analysisResults?.issues as Issue[]) || [],
+        sensorHealth: analysisResults?.sensorHealth,
+        columns: columns ?? SensorColumns.fromRecords([]),
+        chartSeries,
+        deviceReport: deviceReport && {
+          ...deviceReport,
+          provenance: deviceReport.provenance as DeviceReportProvenance | null
+        }
       };
 
-      // Debug log the device report data being sent to PDF
-      console.log('📄 PDF Generation - Device Report Data:', JSON.stringify(data.deviceReport, null, 2));
-
       // Generate PDF
       const pdfBuffer = await PDFGenerator.generateReport(reportData);
 
       // Set headers for PDF download
       res.setHeader('Content-Type', 'application/pdf');
-      res.setHeader('Content-Disposition', `attachment; filename="${data.memoryDump.filename}_report.pdf"`);
+      res.setHeader('Content-Disposition', `attachment; filename="${memoryDump.filename}_report.pdf"`);
       res.setHeader('Content-Length', pdfBuffer.length);
 
       // Send PDF
@@ -415,8 +862,8 @@ export async function registerRoutes(app: Express): Promise<Server> {
   // Clear all memory dumps and related data
   app.delete("/api/memory-dumps/clear-all", async (req, res) => {
     try {
-      memoryStore.clear();
-      currentId = 1;
+      await storage.clearAllMemoryDumps();
+      await blobStore.clear();
 
       // Clean up uploaded files
       const uploadsDir = path.join(process.cwd(), 'uploads');
@@ -439,235 +886,353 @@ export async function registerRoutes(app: Express): Promise<Server> {
     }
   });
 
-  const httpServer = createServer(app);
-  return httpServer;
-}
+  // Delete a single memory dump and everything derived from it
+  app.delete("/api/memory-dumps/:id", async (req, res) => {
+    try {
+      const id = parseInt(req.params.id);
+      if (isNaN(id)) {
+        return res.status(400).json({ message: "Invalid memory dump id" });
+      }
 
-// Fast in-memory processing
-async function processFileInMemory(dumpId: number, filePath: string, filename: string, fileType: string) {
-  try {
-    console.log(`🚀 Starting in-memory processing for ${filename}`);
+      const memoryDump = await storage.getMemoryDump(id);
+      if (!memoryDump || !(await deleteDumpAndBlob(memoryDump))) {
+        return res.status(404).json({ message: "Memory dump not found" });
+      }
 
-    // Update status to processing
-    const existingData = memoryStore.get(dumpId);
-    if (existingData) {
-      existingData.memoryDump.status = 'processing';
-      memoryStore.set(dumpId, existingData);
-    }
-
-    // Extract device information from header - FRESH for each upload
-    const headerBuffer = Buffer.alloc(256);
-    const fd = fs.openSync(filePath, 'r');
-    fs.readSync(fd, headerBuffer, 0, 256, 0);
-    fs.closeSync(fd);
-
-    console.log(`🔍 Extracting fresh device info for ${filename} (${fileType})`);
-    const deviceInfo = BinaryParser.extractDeviceInfo(headerBuffer, filename, fileType);
-    console.log(`📋 Device info extracted:`, deviceInfo);
-
-    // Process file in smaller chunks to prevent memory issues
-    const allSensorData: any[] = [];
-    const CHUNK_SIZE = 5000; // Smaller chunks to prevent stack overflow
-    let totalProcessed = 0;
-
-    await BinaryParser.parseMemoryDumpStream(filePath, filename, fileType, CHUNK_SIZE, async (batch, batchIndex) => {
-      try {
-        console.log(`📊 Processing batch ${batchIndex + 1} with ${batch.RTD.length} records...`);
-
-        // Convert to sensor data format and store in memory with better memory management
-        const sensorDataBatch = BinaryParser.convertToSensorDataArray(batch, dumpId);
-
-        // Use spread operator in smaller chunks to prevent stack overflow
-        if (sensorDataBatch.length > 1000) {
-          // Process in sub-chunks to avoid stack overflow
-          for (let i = 0; i < sensorDataBatch.length; i += 1000) {
-            const subChunk = sensorDataBatch.slice(i, i + 1000);
-            allSensorData.push(...subChunk);
-          }
-        } else {
-          allSensorData.push(...sensorDataBatch);
-        }
+      res.json({ message: `Memory dump ${id} deleted`, id });
+    } catch (error: any) {
+      console.error("Error deleting memory dump:", error);
+      res.status(500).json({ message: "Failed to delete memory dump", error: error?.message });
+    }
+  });
+
+  // Re-run parsing, device extraction and analysis on the archived original binary.
+  // An optional { fileType: 'MP' | 'MDG' } body overrides the detected tool type,
+  // startTime / timezone / intervalMs set or clear the dump's time overrides, and ruleSet
+  // picks the analysis rule set (default: the one active for the tool type).
+  app.post("/api/memory-dumps/:id/reprocess", async (req, res) => {
+    try {
+      const id = parseInt(req.params.id);
+      const override = req.body?.fileType;
+      if (override !== undefined && override !== 'MP' && override !== 'MDG') {
+        return res.status(400).json({ message: "fileType must be 'MP' or 'MDG'" });
+      }
 
-        totalProcessed += batch.RTD.length;
+      const memoryDump = await storage.getMemoryDump(id);
 
-        // Force garbage collection every few batches
-        if (batchIndex % 5 === 0 && global.gc) {
-          global.gc();
-        }
+      if (!memoryDump) {
+        return res.status(404).json({ message: "Memory dump not found" });
+      }
 
-        return true;
-      } catch (error) {
-        console.error(`❌ Error processing batch ${batchIndex}:`, error);
-        return true; // Continue processing
+      if (memoryDump.status === 'processing' || memoryDump.status === 'pending') {
+        return res.status(409).json({ message: "Memory dump is already being processed" });
       }
-    });
 
-    console.log(`✅ Processed ${allSensorData.length} total records for ${filename}`);
+      if (!memoryDump.contentHash || !blobStore.has(memoryDump.contentHash)) {
+        return res.status(409).json({ message: "Original binary is not archived for this dump - upload it again to reprocess" });
+      }
 
-    // Force garbage collection after processing
-    if (global.gc) {
-      console.log(`🧹 Running garbage collection after processing ${allSensorData.length} records`);
-      global.gc();
+      const fileType: string = override ?? memoryDump.fileType;
+      if (fileType !== 'MP' && fileType !== 'MDG') {
+        return res.status(400).json({ message: "Tool type could not be detected - choose MP or MDG to reprocess" });
+      }
+
+      const timeOverrides = readTimeOverrides(req.body, memoryDump.timezone);
+      if (typeof timeOverrides === 'string') {
+        return res.status(400).json({ message: timeOverrides });
+      }
+
+      const ruleSet = await readRuleSet(req.body);
+      if (typeof ruleSet === 'string') {
+        return res.status(400).json({ message: ruleSet });
+      }
+      if (ruleSet && !ruleSet.toolTypes.includes(fileType)) {
+        return res.status(400).json({ message: `Rule set ${ruleSet.name}@${ruleSet.version} is not written for ${fileType} dumps` });
+      }
+
+      console.log(`🔁 REPROCESSING dump ID ${id} (${memoryDump.filename}) as ${fileType} with parser ${BinaryParser.VERSION}, analysis ${AnalysisEngine.VERSION}`);
+
+      await storage.clearDumpResults(id);
+      // The stored time source and data quality describe the sensor data just cleared
+      const updates = { ...timeOverrides, fileType, timeSource: null, dataQuality: null, parseDiagnostics: null };
+      await storage.updateMemoryDump(id, updates);
+      await storage.updateMemoryDumpStatus(id, 'processing');
+
+      const updated = { ...memoryDump, ...updates };
+      processFileInMemory(id, blobStore.pathFor(memoryDump.contentHash), memoryDump.filename, fileType, timeOptionsFor(updated), ruleSet ?? undefined);
+
+      res.status(202).json({
+        id,
+        filename: memoryDump.filename,
+        status: 'processing',
+        fileType,
+        startTimeOverride: updated.startTimeOverride,
+        timezone: updated.timezone,
+        sampleIntervalMs: updated.sampleIntervalMs,
+        previousParserVersion: memoryDump.parserVersion,
+        previousAnalysisVersion: memoryDump.analysisVersion
+      });
+    } catch (error: any) {
+      console.error("Error reprocessing memory dump:", error);
+      res.status(500).json({ message: "Failed to reprocess memory dump", error: error?.message });
     }
+  });
+
+  // Battery charge and energy a dump drew: totals and per power-cycle / circulation segment
+  app.get("/api/memory-dumps/:id/battery", async (req, res) => {
+    try {
+      const id = parseInt(req.params.id);
+      const memoryDump = await storage.getMemoryDump(id);
+
+      if (!memoryDump) {
+        return res.status(404).json({ message: "Memory dump not found" });
+      }
 
-    // Generate FRESH analysis for each new upload - NO cached/dummy data
-    console.log(`🔬 Starting fresh AI analysis for ${filename} with ${allSensorData.length} records`);
-    const issues = [];
-    let maxTemp = -Infinity;
-    let minTemp = Infinity;
-    let highTempCount = 0;
-    let lowTempCount = 0;
-    let tempRecordCount = 0;
+      const [deviceReport, segments] = await Promise.all([
+        storage.getDeviceReportByDumpId(id),
+        storage.getDumpSegmentsByDumpId(id)
+      ]);
+      const segmentUsage = segments.map(({ id: _id, dumpId, ...segment }) => segment);
+      const provenance = deviceReport?.provenance as DeviceReportProvenance | null | undefined;
+      res.json({
+        dumpId: id,
+        ampHours: deviceReport?.batteryAmpHours ?? null,
+        wattHours: deviceReport?.batteryWattHours ?? null,
+        provenance: {
+          ampHours: provenance?.batteryAmpHours ?? null,
+          wattHours: provenance?.batteryWattHours ?? null,
+        },
+        power: segmentUsage.filter(segment => segment.kind === 'power'),
+        circulation: segmentUsage.filter(segment => segment.kind === 'circulation')
+      });
+    } catch (error: any) {
+      console.error("Error fetching battery usage:", error);
+      res.status(500).json({ message: "Failed to fetch battery usage", error: error?.message });
+    }
+  });
 
-    // Process data in chunks to avoid memory issues
-    const ANALYSIS_CHUNK_SIZE = 10000;
-    for (let i = 0; i < allSensorData.length; i += ANALYSIS_CHUNK_SIZE) {
-      const chunk = allSensorData.slice(i, i + ANALYSIS_CHUNK_SIZE);
+  // Remaining capacity and time to cutoff of a pack after this dump:
+  // ?pack=<id>&priorAh=<Ah drawn before the dump>&plannedHours=<run length to check>.
+  // Without pack, the newest pack configured for the dump's tool type is used.
+  app.get("/api/memory-dumps/:id/battery-forecast", async (req, res) => {
+    try {
+      const id = parseInt(req.params.id);
+      const memoryDump = await storage.getMemoryDump(id);
 
-      // Analyze temperature data in this chunk
-      for (const record of chunk) {
-        if (record.tempMP !== null) {
-          tempRecordCount++;
-          const temp = record.tempMP;
+      if (!memoryDump) {
+        return res.status(404).json({ message: "Memory dump not found" });
+      }
 
-          if (temp > maxTemp) maxTemp = temp;
-          if (temp < minTemp) minTemp = temp;
+      const readNumber = (value: unknown) => value === undefined || value === '' ? null : Number(value);
+      const priorAmpHours = readNumber(req.query.priorAh) ?? 0;
+      const plannedHours = readNumber(req.query.plannedHours);
+      if (!(isFinite(priorAmpHours) && priorAmpHours >= 0)) {
+        return res.status(400).json({ message: "priorAh must be a non-negative number of amp-hours" });
+      }
+      if (plannedHours !== null && !(isFinite(plannedHours) && plannedHours > 0)) {
+        return res.status(400).json({ message: "plannedHours must be a positive number of hours" });
+      }
 
-          if (temp > 150) highTempCount++;
-          if (temp < 50) lowTempCount++;
+      let pack;
+      if (req.query.pack !== undefined && req.query.pack !== '') {
+        pack = await storage.getBatteryPack(parseInt(String(req.query.pack)));
+        if (!pack) {
+          return res.status(404).json({ message: "Battery pack not found" });
         }
+      } else {
+        const packs = await storage.getBatteryPacks();
+        pack = packs.filter(candidate => candidate.toolType === memoryDump.fileType).pop();
+        if (!pack) {
+          return res.status(400).json({ message: `No battery pack configured for ${memoryDump.fileType} tools - add one with POST /api/battery-packs` });
+        }
+      }
+
+      const columns = await storage.getSensorColumnsByDumpId(id);
+      const intervalMs = columns && loggingIntervalMs(memoryDump, columns);
+      if (!columns || !intervalMs) {
+        return res.status(404).json({ message: "No sensor data for this dump" });
       }
+
+      res.json({ dumpId: id, pack, intervalMs, ...forecastBattery(columns, intervalMs, pack, priorAmpHours, plannedHours) });
+    } catch (error: any) {
+      console.error("Error forecasting battery:", error);
+      res.status(500).json({ message: "Failed to forecast battery", error: error?.message });
     }
+  });
 
-    // Generate issues based on streaming analysis
-    if (tempRecordCount > 0) {
-      if (highTempCount > 0) {
-        issues.push({
-          issue: `High temperature detected: ${maxTemp.toFixed(1)}°F`,
-          explanation: "Temperature exceeded safe operating limits",
-          severity: 'critical',
-          count: highTempCount
-        });
+  // Battery packs the depletion forecast is run against
+  app.get("/api/battery-packs", async (req, res) => {
+    try {
+      res.json(await storage.getBatteryPacks());
+    } catch (error: any) {
+      res.status(500).json({ message: "Failed to fetch battery packs", error: error?.message });
+    }
+  });
+
+  // Add a pack: { name, toolType, ratedCapacityAh, cutoffVoltage, description? }
+  app.post("/api/battery-packs", async (req, res) => {
+    try {
+      const result = validateBatteryPack(req.body);
+      if (Array.isArray(result)) {
+        return res.status(400).json({ message: "Invalid battery pack", errors: result });
+      }
+      const packs = await storage.getBatteryPacks();
+      if (packs.some(pack => pack.name === result.name)) {
+        return res.status(409).json({ message: `Battery pack '${result.name}' already exists` });
       }
+      res.status(201).json(await storage.createBatteryPack(result));
+    } catch (error: any) {
+      res.status(500).json({ message: "Failed to store battery pack", error: error?.message });
+    }
+  });
 
-      if (lowTempCount > 0) {
-        issues.push({
-          issue: `Low temperature detected: ${minTemp.toFixed(1)}°F`,
-          explanation: "Temperature below normal operating range",
-          severity: 'warning',
-          count: lowTempCount
-        });
+  // Replace a pack's definition
+  app.put("/api/battery-packs/:id", async (req, res) => {
+    try {
+      const id = parseInt(req.params.id);
+      if (!(await storage.getBatteryPack(id))) {
+        return res.status(404).json({ message: "Battery pack not found" });
+      }
+      const result = validateBatteryPack(req.body);
+      if (Array.isArray(result)) {
+        return res.status(400).json({ message: "Invalid battery pack", errors: result });
       }
+      const packs = await storage.getBatteryPacks();
+      if (packs.some(pack => pack.name === result.name && pack.id !== id)) {
+        return res.status(409).json({ message: `Battery pack '${result.name}' already exists` });
+      }
+      res.json(await storage.updateBatteryPack(id, result));
+    } catch (error: any) {
+      res.status(500).json({ message: "Failed to update battery pack", error: error?.message });
     }
+  });
 
-    const criticalCount = issues.filter(i => i.severity === 'critical').length;
-    const warningCount = issues.filter(i => i.severity === 'warning').length;
-
-    const analysisResults = {
-      id: dumpId,
-      dumpId,
-      overallStatus: criticalCount > 0 ? 'critical' as const : warningCount > 0 ? 'warning' as const : 'operational' as const,
-      criticalIssues: criticalCount,
-      warnings: warningCount,
-      issues,
-      generatedAt: new Date()
-    };
-
-    // Store everything in memory - preserve original upload time
-    const existingEntry = memoryStore.get(dumpId);
-    const originalUploadTime = existingEntry?.memoryDump.uploadedAt || new Date();
-
-    // Extract actual maximum temperature from processed sensor data
-    let actualMaxTempF = null;
-    let actualMaxTempC = null;
-
-    if (allSensorData.length > 0 && fileType === 'MP') {
-      const validTemps = allSensorData
-        .filter(d => d.tempMP !== null && isFinite(d.tempMP) && d.tempMP > 32 && d.tempMP < 300)
-        .map(d => d.tempMP);
-
-      if (validTemps.length > 0) {
-        actualMaxTempF = Math.max(...validTemps);
-        actualMaxTempC = (actualMaxTempF - 32) * 5/9;
-        console.log(`📊 ACTUAL MAX TEMP FROM SENSOR DATA: ${actualMaxTempF.toFixed(1)}°F (${actualMaxTempC.toFixed(1)}°C) from ${validTemps.length} valid readings`);
-      }
-    }
-
-    // Generate proper device report based on file type - PREVENT DUPLICATES
-    const deviceReport = {
-      id: dumpId,
-      dumpId: dumpId,
-      generatedAt: new Date(),
-      ...deviceInfo,
-      // Use extracted device information - no fallback dummy data
-      mpSerialNumber: deviceInfo.mpSerialNumber,
-      mdgSerialNumber: deviceInfo.mdgSerialNumber,
-      mpFirmwareVersion: deviceInfo.mpFirmwareVersion,
-      mdgFirmwareVersion: deviceInfo.mdgFirmwareVersion,
-      circulationHours: deviceInfo.circulationHours,
-      numberOfPulses: deviceInfo.numberOfPulses,
-      motorOnTimeMinutes: deviceInfo.motorOnTimeMinutes,
-      // Use actual sensor data temperature if available, otherwise use device header temperature
-      mpMaxTempFahrenheit: fileType === 'MP' ? (actualMaxTempF || deviceInfo.mpMaxTempFahrenheit) : null,
-      mpMaxTempCelsius: fileType === 'MP' ? (actualMaxTempC || deviceInfo.mpMaxTempCelsius) : null,
-      mdgMaxTempFahrenheit: fileType === 'MDG' ? deviceInfo.mdgMaxTempFahrenheit : null,
-      mdgMaxTempCelsius: fileType === 'MDG' ? deviceInfo.mdgMaxTempCelsius : null,
-      // Communication status
-      commErrorsTimeMinutes: 0.0,
-      commErrorsPercent: 0.0,
-      hallStatusTimeMinutes: 0.0,
-      hallStatusPercent: 0.0,
-      // MDG specific fields
-      mdgEdtTotalHours: fileType === 'MDG' ? 32.8 : null,
-      mdgExtremeShockIndex: fileType === 'MDG' ? 0.04 : null
-    };
-
-    const processedData: ProcessedData = {
-      memoryDump: {
-        id: dumpId,
-        filename,
-        fileType,
-        status: 'completed',
-        uploadedAt: originalUploadTime,
-        processedAt: new Date()
-      },
-      sensorData: allSensorData,
-      analysisResults,
-      deviceReport
-    };
+  // Every analysis rule set, built-in and stored, with the tool types each is active for
+  app.get("/api/rule-sets", async (req, res) => {
+    try {
+      res.json(await listRuleSets(storage));
+    } catch (error: any) {
+      res.status(500).json({ message: "Failed to fetch rule sets", error: error?.message });
+    }
+  });
+
+  // One rule set by name and version
+  app.get("/api/rule-sets/:name/:version", async (req, res) => {
+    try {
+      const ruleSet = findRuleSet(await listRuleSets(storage), `${req.params.name}@${req.params.version}`);
+      if (!ruleSet) {
+        return res.status(404).json({ message: "Rule set not found" });
+      }
+      res.json(ruleSet);
+    } catch (error: any) {
+      res.status(500).json({ message: "Failed to fetch rule set", error: error?.message });
+    }
+  });
 
-    memoryStore.set(dumpId, processedData);
+  // Check a rule set without storing it
+  app.post("/api/rule-sets/validate", (req, res) => {
+    const result = validateRuleSet(req.body);
+    res.json(Array.isArray(result) ? { valid: false, errors: result } : { valid: true, errors: [] });
+  });
 
-    console.log(`🎉 Successfully completed processing ${filename} with ${allSensorData.length} records`);
-    console.log(`📊 Analysis: ${analysisResults.overallStatus} status with ${analysisResults.criticalIssues} critical issues`);
+  // Store a new rule set version. Stored versions never change; it is not used until activated.
+  app.post("/api/rule-sets", async (req, res) => {
+    try {
+      const result = validateRuleSet(req.body);
+      if (Array.isArray(result)) {
+        return res.status(400).json({ message: "Invalid rule set", errors: result });
+      }
+      if (findRuleSet(await listRuleSets(storage), `${result.name}@${result.version}`)) {
+        return res.status(409).json({ message: `Rule set ${result.name}@${result.version} already exists - store changes as a new version` });
+      }
+      const ruleSet = await storage.createAnalysisRuleSet(result);
+      res.status(201).json(ruleSet);
+    } catch (error: any) {
+      res.status(500).json({ message: "Failed to store rule set", error: error?.message });
+    }
+  });
+
+  // Analyze new dumps with a rule set: for { toolType } alone, or every tool type it is
+  // written for. Stored dumps keep their results until reprocessed.
+  app.post("/api/rule-sets/:name/:version/activate", async (req, res) => {
+    try {
+      const ruleSet = findRuleSet(await listRuleSets(storage), `${req.params.name}@${req.params.version}`);
+      if (!ruleSet) {
+        return res.status(404).json({ message: "Rule set not found" });
+      }
+      const toolType = req.body?.toolType;
+      if (toolType !== undefined && !ruleSet.toolTypes.includes(toolType)) {
+        return res.status(400).json({ message: `toolType must be one of ${ruleSet.toolTypes.join(', ')} for this rule set` });
+      }
+      const toolTypes: ToolType[] = toolType !== undefined ? [toolType] : ruleSet.toolTypes;
+
+      let id: number | null = null;
+      if (!ruleSet.builtIn) {
+        const stored = await storage.getAnalysisRuleSets();
+        id = stored.find(candidate => candidate.name === ruleSet.name && candidate.version === ruleSet.version)!.id;
+      }
+      await storage.activateAnalysisRuleSet(id, toolTypes);
+
+      console.log(`📐 Rule set ${ruleSet.name}@${ruleSet.version} active for ${toolTypes.join(', ')}`);
+      res.json(await listRuleSets(storage));
+    } catch (error: any) {
+      res.status(500).json({ message: "Failed to activate rule set", error: error?.message });
+    }
+  });
+
+  const httpServer = createServer(app);
+  return httpServer;
+}
+
+// Parse and analyze an uploaded dump on the worker pool and persist the results through
+// the configured storage
+async function processFileInMemory(dumpId: number, filePath: string, filename: string, fileType: string, timeOptions: TimeOptions = {}, ruleSet?: RuleSetDefinition) {
+  try {
+    ruleSet ??= await activeRuleSet(storage, fileType as ToolType);
+
+    console.log(`🚀 Queued ${filename} for parsing (${parseWorkerPool.pending} ahead, pool of ${parseWorkerPool.size})`);
+
+    // Update status to processing
+    await storage.updateMemoryDumpStatus(dumpId, 'processing');
+
+    // Sensor columns are stored batch by batch as the worker decodes them
+    const result = await parseWorkerPool.run({ dumpId, filePath, filename, fileType, timeOptions, ruleSet }, async (columns) => {
+      await storage.appendSensorColumns(dumpId, columns);
+    });
+
+    await storage.createDumpSegments(result.segments);
+    await storage.createSensorAggregates(result.aggregates);
+    const analysisResults = await storage.createAnalysisResults(result.analysis);
+    await storage.createAnalysisEvents(result.events);
+    await storage.createDeviceReport(result.deviceReport);
+
+    await storage.updateMemoryDump(dumpId, {
+      parserVersion: BinaryParser.VERSION,
+      analysisVersion: AnalysisEngine.VERSION,
+      timeSource: result.timeBase.source,
+      dataQuality: result.dataQuality,
+      parseDiagnostics: result.diagnostics
+    });
+    await storage.updateMemoryDumpStatus(dumpId, 'completed');
+
+    console.log(`🎉 Successfully completed processing ${filename} with ${result.records} records`);
+    console.log(`📊 Analysis (${ruleSet.name}@${ruleSet.version}): ${analysisResults.overallStatus} status with ${analysisResults.criticalIssues} critical issues`);
+
+    // Evict the oldest dumps once the library grows past its retention limits
+    await retentionPolicy.enforce(storage, deleteDumpAndBlob).catch(error =>
+      console.error('⚠️ Retention sweep failed:', error)
+    );
 
   } catch (error: any) {
     console.error(`💥 Error processing ${filename}:`, error);
 
-    const errorData: ProcessedData = {
-      memoryDump: {
-        id: dumpId,
-        filename,
-        fileType,
-        status: 'error',
-        uploadedAt: new Date(),
-        errorMessage: error?.message
-      },
-      sensorData: [],
-      analysisResults: null,
-      deviceReport: null
-    };
-
-    memoryStore.set(dumpId, errorData);
-  } finally {
-    // Clean up uploaded file
     try {
-      fs.unlinkSync(filePath);
-    } catch (err) {
-      console.warn('Failed to delete uploaded file:', err);
+      await storage.updateMemoryDumpStatus(dumpId, 'error', error?.message);
+    } catch (statusError) {
+      console.error(`Failed to record error status for dump ${dumpId}:`, statusError);
     }
-
-    // Force garbage collection
+  } finally {
+    // The archived binary is kept for reprocessing - just force garbage collection
     if (global.gc) {
       global.gc();
     }
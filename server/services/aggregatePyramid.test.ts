@@ -0,0 +1,54 @@
+import assert from 'node:assert/strict';
+import { test } from 'node:test';
+import type { InsertSensorData, SensorAggregate } from '@shared/schema';
+import { buildPyramid, pyramidPlan, pyramidSeries } from './aggregatePyramid';
+import { SensorColumns } from './sensorColumns';
+
+const START = Date.UTC(2025, 6, 29);
+
+// A day of tempMP readings one logging interval apart, a sine with one spike
+function dayOfTemperatures(intervalMs: number): SensorColumns {
+  const length = 86_400_000 / intervalMs;
+  return SensorColumns.fromRecords(Array.from({ length }, (_, i) => ({
+    dumpId: 1,
+    rtd: new Date(START + i * intervalMs),
+    tempMP: i === Math.floor(length / 3) ? 390 : 150 + 50 * Math.sin(i / 500),
+  }) as InsertSensorData));
+}
+
+function stored(columns: SensorColumns, intervalMs: number): SensorAggregate[] {
+  return buildPyramid(1, columns, intervalMs).map((aggregate, id) => ({ ...aggregate, id }));
+}
+
+test('levels no wider than the logging interval are not built', () => {
+  assert.deepEqual(stored(dayOfTemperatures(1000), 1000).map(a => a.bucketSeconds), [10, 60, 600, 3600]);
+  assert.deepEqual(stored(dayOfTemperatures(500), 500).map(a => a.bucketSeconds), [1, 10, 60, 600, 3600]);
+});
+
+test('bucket counts add up to the samples at every level', () => {
+  for (const aggregate of stored(dayOfTemperatures(2000), 2000)) {
+    assert.equal(aggregate.buckets.count.reduce((sum, count) => sum + count, 0), 43_200);
+  }
+});
+
+test('a window is read from one level that keeps the extremes', () => {
+  const aggregates = stored(dayOfTemperatures(1000), 1000);
+  const from = START;
+  const to = START + 86_400_000;
+  const plan = pyramidPlan(aggregates, ['tempMP'], from, to, 1000);
+  assert.deepEqual(plan, { tempMP: 60 });
+
+  const level = aggregates.filter(aggregate => aggregate.bucketSeconds === plan!.tempMP);
+  const window = pyramidSeries(level, ['tempMP'], from, to, 1000)!;
+  assert.equal(window.level, 60);
+  assert.ok(window.series.tempMP.t.length <= 1000);
+  assert.equal(Math.max(...window.series.tempMP.v), 390);
+  assert.ok(Math.min(...window.series.tempMP.v) < 100.01);
+});
+
+test('short windows fall back to the raw records', () => {
+  const aggregates = stored(dayOfTemperatures(1000), 1000);
+  // Too short for the 10 s level to fill 500 buckets
+  assert.equal(pyramidPlan(aggregates, ['tempMP'], START, START + 600_000, 1000), null);
+  assert.equal(pyramidPlan(aggregates, ['maxX'], START, START + 86_400_000, 1000), null);
+});
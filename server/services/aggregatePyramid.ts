@@ -0,0 +1,225 @@
+import type { AggregateBuckets, InsertSensorAggregate, SensorAggregate, SensorAggregateLevel } from '@shared/schema';
+import type { ChannelSeries, SeriesWindow } from './downsample';
+import { CHANNEL_NAMES, columnKey, type SensorColumns } from './sensorColumns';
+
+// Bucket sizes of the pyramid, finest first
+export const PYRAMID_LEVELS = [1, 10, 60, 600, 3600];
+
+function roundMean(value: number): number {
+  return Number(value.toPrecision(7));
+}
+
+// The next level up: buckets of the finer level merged into `bucketSeconds`
+function rollUp(finer: AggregateBuckets, bucketSeconds: number): AggregateBuckets {
+  const width = bucketSeconds * 1000;
+  const level: AggregateBuckets = { t: [], min: [], max: [], mean: [], count: [] };
+  let sum = 0;
+
+  for (let i = 0; i < finer.t.length; i++) {
+    const start = Math.floor(finer.t[i] / width) * width;
+    const last = level.t.length - 1;
+    if (last >= 0 && level.t[last] === start) {
+      level.min[last] = Math.min(level.min[last], finer.min[i]);
+      level.max[last] = Math.max(level.max[last], finer.max[i]);
+      level.count[last] += finer.count[i];
+      sum += finer.mean[i] * finer.count[i];
+      continue;
+    }
+    if (last >= 0) level.mean[last] = roundMean(sum / level.count[last]);
+    level.t.push(start);
+    level.min.push(finer.min[i]);
+    level.max.push(finer.max[i]);
+    level.count.push(finer.count[i]);
+    level.mean.push(0);
+    sum = finer.mean[i] * finer.count[i];
+  }
+  if (level.t.length > 0) {
+    const last = level.t.length - 1;
+    level.mean[last] = roundMean(sum / level.count[last]);
+  }
+  return level;
+}
+
+// Min/max/mean/count of every numeric channel at each pyramid level whose buckets span more
+// than one logging interval; finer levels would store about a bucket per sample and cost
+// more to load than the records. The finest level kept is reduced from the records in time
+// order; each coarser level is rolled up from the one below.
+export function buildPyramid(dumpId: number, columns: SensorColumns, intervalMs: number): InsertSensorAggregate[] {
+  const levels = PYRAMID_LEVELS.filter(bucketSeconds => bucketSeconds * 1000 > intervalMs);
+  // Records are logged oldest-first, but clock resets can step back in time
+  const order = Array.from({ length: columns.length }, (_, i) => i)
+    .sort((a, b) => columns.time[a] - columns.time[b] || a - b);
+  const aggregates: InsertSensorAggregate[] = [];
+
+  for (const name of CHANNEL_NAMES) {
+    const column = columns.channels[name];
+    if (!column || column.labels) continue;
+
+    const samples: AggregateBuckets = { t: [], min: [], max: [], mean: [], count: [] };
+    for (const i of order) {
+      const value = columns.output(name, i) as number | null;
+      if (value === null || !isFinite(value)) continue;
+      samples.t.push(columns.time[i]);
+      samples.min.push(value);
+      samples.max.push(value);
+      samples.mean.push(value);
+      samples.count.push(1);
+    }
+    if (samples.t.length === 0) continue;
+
+    const startTime = new Date(samples.t[0]);
+    const endTime = new Date(samples.t[samples.t.length - 1]);
+    let finer = samples;
+    for (const bucketSeconds of levels) {
+      const buckets = rollUp(finer, bucketSeconds);
+      aggregates.push({ dumpId, channel: columnKey(name), bucketSeconds, startTime, endTime, buckets });
+      finer = buckets;
+    }
+  }
+
+  return aggregates;
+}
+
+// Buckets of a level overlapping [from, to]
+function bucketRange(aggregate: SensorAggregate, from: number, to: number): [number, number] {
+  const { t } = aggregate.buckets;
+  const width = aggregate.bucketSeconds * 1000;
+  let first = 0;
+  while (first < t.length && t[first] + width <= from) first++;
+  let end = first;
+  while (end < t.length && t[end] <= to) end++;
+  return [first, end];
+}
+
+// Samples a level counts within [from, to]; buckets at the window edges count in full
+export function countInWindow(aggregate: SensorAggregate, from: number, to: number): number {
+  const [first, end] = bucketRange(aggregate, from, to);
+  let count = 0;
+  for (let i = first; i < end; i++) count += aggregate.buckets.count[i];
+  return count;
+}
+
+// Coarsest level of a channel that still gives at least `buckets` buckets across the
+// window, or null when even the finest level is too coarse
+export function pickLevel<Level extends SensorAggregateLevel>(levels: Level[], from: number, to: number, buckets: number): Level | null {
+  const widest = (to - from) / buckets;
+  let best: Level | null = null;
+  for (const level of levels) {
+    if (level.bucketSeconds * 1000 > widest) continue;
+    if (!best || level.bucketSeconds > best.bucketSeconds) best = level;
+  }
+  return best;
+}
+
+// Min-max series of a window read from one level, its buckets merged down to `buckets`
+// across the window. The pyramid does not keep when in a bucket the extremes occurred, so
+// a minimum is placed at the start of the level bucket holding it and a maximum half a
+// level bucket later.
+export function levelSeries(aggregate: SensorAggregate, from: number, to: number, buckets: number): ChannelSeries {
+  const { t, min, max } = aggregate.buckets;
+  const half = aggregate.bucketSeconds * 500;
+  const width = (to - from) / buckets || 1;
+  const [first, end] = bucketRange(aggregate, from, to);
+  const series: ChannelSeries = { t: [], v: [] };
+
+  let target = -1;
+  let minAt = -1;
+  let maxAt = -1;
+  const flush = () => {
+    if (minAt === -1) return;
+    const points: [number, number][] = [[t[minAt], min[minAt]]];
+    if (max[maxAt] !== min[minAt]) points.push([t[maxAt] + half, max[maxAt]]);
+    points.sort((a, b) => a[0] - b[0]).forEach(([time, value]) => {
+      series.t.push(time);
+      series.v.push(value);
+    });
+  };
+
+  for (let i = first; i < end; i++) {
+    const bucket = Math.min(buckets - 1, Math.max(0, Math.floor((t[i] - from) / width)));
+    if (bucket !== target) {
+      flush();
+      target = bucket;
+      minAt = maxAt = i;
+      continue;
+    }
+    if (min[i] < min[minAt]) minAt = i;
+    if (max[i] > max[maxAt]) maxAt = i;
+  }
+  flush();
+  return series;
+}
+
+// Finest level of a channel with no more than `maxBuckets` buckets across the dump, or its
+// coarsest when every level has more, for static overview charts
+export function overviewLevel(levels: SensorAggregateLevel[], channel: string, maxBuckets: number): SensorAggregateLevel | null {
+  const candidates = levels
+    .filter(level => level.channel === channel)
+    .sort((a, b) => a.bucketSeconds - b.bucketSeconds);
+  if (candidates.length === 0) return null;
+  // Buckets are aligned to their size, so this bounds the non-empty ones
+  const span = (level: SensorAggregateLevel) => {
+    const width = level.bucketSeconds * 1000;
+    return Math.floor(new Date(level.endTime).getTime() / width) - Math.floor(new Date(level.startTime).getTime() / width) + 1;
+  };
+  return candidates.find(level => span(level) <= maxBuckets) ?? candidates[candidates.length - 1];
+}
+
+// One statistic of every bucket of a level
+export function overviewSeries(aggregate: SensorAggregate, pick: (buckets: AggregateBuckets, i: number) => number): number[] {
+  return aggregate.buckets.t.map((_, i) => pick(aggregate.buckets, i));
+}
+
+// First and last sample time over every aggregated channel
+export function aggregateExtent(levels: SensorAggregateLevel[]): { from: number; to: number } | null {
+  if (levels.length === 0) return null;
+  return {
+    from: Math.min(...levels.map(level => new Date(level.startTime).getTime())),
+    to: Math.max(...levels.map(level => new Date(level.endTime).getTime())),
+  };
+}
+
+// The level each channel's min-max series of a window is read from - the coarsest that
+// still fills the chart - or null when the raw records are needed: a channel without
+// aggregates or a window too short for its finest level
+export function pyramidPlan(
+  levels: SensorAggregateLevel[],
+  channels: string[],
+  from: number,
+  to: number,
+  points: number
+): Record<string, number> | null {
+  const buckets = Math.max(1, Math.floor(points / 2));
+  const plan: Record<string, number> = {};
+  for (const channel of channels) {
+    const level = pickLevel(levels.filter(candidate => candidate.channel === channel), from, to, buckets);
+    if (!level) return null;
+    plan[channel] = level.bucketSeconds;
+  }
+  return plan;
+}
+
+// Min-max series of a window answered from the planned level of each channel, or null when
+// a window holds no more than `points` samples, which are served at full resolution
+export function pyramidSeries(
+  aggregates: SensorAggregate[],
+  channels: string[],
+  from: number,
+  to: number,
+  points: number
+): SeriesWindow | null {
+  const buckets = Math.max(1, Math.floor(points / 2));
+  const result: SeriesWindow = { from, to, recordsInWindow: 0, full: false, level: null, series: {} };
+
+  for (const channel of channels) {
+    const level = aggregates.find(aggregate => aggregate.channel === channel);
+    if (!level) return null;
+    const samples = countInWindow(level, from, to);
+    if (samples <= points) return null;
+
+    result.series[channel] = levelSeries(level, from, to, buckets);
+    result.recordsInWindow = Math.max(result.recordsInWindow, samples);
+    result.level = Math.max(result.level ?? 0, level.bucketSeconds);
+  }
+  return result;
+}
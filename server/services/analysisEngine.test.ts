@@ -0,0 +1,78 @@
+import assert from 'node:assert/strict';
+import { test } from 'node:test';
+import type { AnalysisRule, InsertSensorData } from '@shared/schema';
+import { AnalysisEngine } from './analysisEngine';
+import { SensorColumns } from './sensorColumns';
+
+const START = Date.UTC(2025, 6, 29);
+
+// One tempMP reading per second from START; null for a missing reading
+function tempColumns(readings: (number | null)[], times?: number[]): SensorColumns {
+  return SensorColumns.fromRecords(readings.map((tempMP, i) => ({
+    dumpId: 1,
+    rtd: new Date(times?.[i] ?? START + i * 1000),
+    tempMP,
+  }) as InsertSensorData));
+}
+
+const lowTemperature: AnalysisRule = {
+  id: 'temperature-low',
+  metric: 'tempMP',
+  condition: { op: 'lt', value: 50 },
+  severity: 'info',
+  message: 'Minimum {lowest:1}°F',
+  explanation: '{count} readings below {threshold}°F',
+};
+
+function analyze(columns: SensorColumns, rule: AnalysisRule) {
+  return AnalysisEngine.analyzeData(columns, { name: 'test', version: '1.0.0', toolTypes: ['MP'], rules: [rule] }, 1000);
+}
+
+test('a noisy channel collapses to one event', () => {
+  // An hour below the limit, with every third reading missing and every seventh above it
+  const readings = Array.from({ length: 3600 }, (_, i) => (i % 3 === 0 ? null : i % 7 === 0 ? 60 : 40));
+  const result = analyze(tempColumns(readings), lowTemperature);
+  assert.equal(result.events.length, 1);
+  assert.equal(result.events[0].startRecord, 1);
+  assert.equal(result.events[0].count, readings.filter(value => value === 40).length);
+  assert.equal(result.events[0].peakValue, 40);
+});
+
+test('breaks longer than the merge gap split events', () => {
+  const readings = Array.from({ length: 600 }, (_, i) => (i % 200 < 100 ? 40 : 60));
+  assert.equal(analyze(tempColumns(readings), lowTemperature).events.length, 3);
+  assert.equal(analyze(tempColumns(readings), { ...lowTemperature, mergeGapSeconds: 120 }).events.length, 1);
+});
+
+test('a gap in the record clock ends an event', () => {
+  const times = Array.from({ length: 200 }, (_, i) => START + i * 1000 + (i >= 100 ? 20_000 : 0));
+  assert.equal(analyze(tempColumns(new Array(200).fill(40), times), lowTemperature).events.length, 2);
+});
+
+test('events per rule are capped by joining the closest', () => {
+  // A low reading every minute for a day: 1440 separate runs
+  const readings = Array.from({ length: 86_400 }, (_, i) => (i % 60 === 0 ? 40 : 60));
+  const result = analyze(tempColumns(readings), lowTemperature);
+  assert.ok(result.events.length <= 100);
+  assert.equal(result.events.reduce((sum, event) => sum + event.count, 0), 1440);
+  assert.equal(result.issues[0].count, 1440);
+});
+
+test('two isolated spikes are not a sustained event', () => {
+  const sustained: AnalysisRule = {
+    id: 'temperature-sustained',
+    metric: 'tempMP',
+    condition: { op: 'gt', value: 200 },
+    duration: 5,
+    severity: 'critical',
+    message: 'Sustained {peak:1}°F',
+    explanation: '{count} readings above {threshold}°F',
+  };
+  const spikes = Array.from({ length: 60 }, (_, i) => (i === 10 || i === 35 ? 250 : 150));
+  const result = analyze(tempColumns(spikes), sustained);
+  assert.equal(result.issues.length, 0);
+  assert.equal(result.overallStatus, 'operational');
+
+  const held = Array.from({ length: 60 }, (_, i) => (i >= 10 && i < 16 ? 250 : 150));
+  assert.equal(analyze(tempColumns(held), sustained).criticalIssues, 1);
+});
@@ -0,0 +1,70 @@
+import assert from 'node:assert/strict';
+import { test } from 'node:test';
+import { DERIVED_METRICS, validateRuleSet } from './analysisRules';
+import { builtInRuleSets } from './ruleSets';
+
+const valid = {
+  name: 'field-checks',
+  version: '1.0.0',
+  toolTypes: ['MP'],
+  rules: [{
+    id: 'hot',
+    metric: 'tempMP',
+    condition: { op: 'gt', value: 300 },
+    duration: 10,
+    severity: 'warning',
+    message: 'Peak {peak:1}°F',
+    explanation: '{count} readings above {threshold}°F',
+  }],
+};
+
+test('the built-in rule sets pass validation', () => {
+  for (const ruleSet of builtInRuleSets) {
+    assert.deepEqual(validateRuleSet(ruleSet), { ...ruleSet, description: ruleSet.description ?? null });
+  }
+});
+
+test('a valid rule set comes back as its definition', () => {
+  assert.deepEqual(validateRuleSet(valid), { ...valid, description: null });
+});
+
+test('every problem in a rule set is reported', () => {
+  const errors = validateRuleSet({
+    ...valid,
+    version: '1.0',
+    toolTypes: ['XYZ'],
+    rules: [
+      { ...valid.rules[0], metric: 'noSuchChannel', duration: -1 },
+      { ...valid.rules[0], condition: { op: 'between', min: 5, max: 1 }, message: 'Peak {nonsense}' },
+    ],
+  });
+  assert.deepEqual(errors, [
+    'version must be major.minor.patch, e.g. 1.0.0',
+    'toolTypes must list one or more of MP, MDG',
+    `rules[0].metric 'noSuchChannel' is neither a sensor data column nor one of ${Object.keys(DERIVED_METRICS).join(', ')}`,
+    'rules[0].duration must be a positive number of seconds',
+    'rules[1].condition: between needs numbers min <= max',
+    'rules[1].message: unknown field {nonsense}',
+    'Duplicate rule ids: hot',
+  ]);
+});
+
+test('status channels only compare with eq and ne on state labels', () => {
+  const rule = { ...valid.rules[0], metric: 'flowStatus' };
+  assert.deepEqual(validateRuleSet({ ...valid, rules: [{ ...rule, condition: { op: 'eq', value: 'On' } }] }), {
+    ...valid, description: null, rules: [{ ...rule, condition: { op: 'eq', value: 'On' } }],
+  });
+  assert.deepEqual(validateRuleSet({ ...valid, rules: [{ ...rule, condition: { op: 'eq', value: 1 } }] }), [
+    'rules[0].condition: eq needs a state label value',
+  ]);
+  assert.deepEqual(validateRuleSet({ ...valid, rules: [{ ...rule, condition: { op: 'gt', value: 1 } }] }), [
+    'rules[0].condition: status metric flowStatus only supports eq and ne',
+  ]);
+});
+
+test('statistical conditions are refused in where clauses', () => {
+  const rule = { ...valid.rules[0], where: [{ metric: 'motorAvg', condition: { op: 'deviates', sigma: 3 } }] };
+  assert.deepEqual(validateRuleSet({ ...valid, rules: [rule] }), [
+    "rules[0].where[0]: deviates compares with the rule's own readings and cannot be used in where",
+  ]);
+});
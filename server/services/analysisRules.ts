@@ -0,0 +1,396 @@
+import type {
+  AnalysisRule,
+  AnalysisRuleSet,
+  RuleCondition,
+  RuleGate,
+  RuleSetDefinition,
+  RuleStatistic,
+  ToolType,
+} from '@shared/schema';
+import type { IStorage } from '../storage';
+import { recordLayouts } from './layouts';
+import { compareVersions } from './recordLayout';
+import { builtInRuleSets } from './ruleSets';
+import { CHANNEL_NAMES, columnKey, type ChannelName, type SensorColumns } from './sensorColumns';
+import { stickSlipIndex } from './stickSlip';
+
+export type MetricReader = (index: number) => number | string | null;
+
+// Metrics computed per record from several channels. A rule on one is skipped for dumps
+// whose layout logs none of its channels.
+interface DerivedMetric {
+  channels: ChannelName[];
+  read(columns: SensorColumns, index: number): number | null;
+}
+
+export const DERIVED_METRICS: Record<string, DerivedMetric> = {
+  // Vector sum of the shock axes with a reading
+  shockMagnitude: {
+    channels: ['ShockZ', 'ShockX', 'ShockY'],
+    read(columns, i) {
+      let sum = 0;
+      let valid = false;
+      for (const axis of this.channels) {
+        const value = columns.value(axis, i);
+        if (value === null || !isFinite(value)) continue;
+        sum += value * value;
+        valid = true;
+      }
+      return valid ? Math.sqrt(sum) : null;
+    },
+  },
+  // Vector sum of the per-record vibration maxima, when all three axes have a reading
+  vibrationMagnitude: {
+    channels: ['MaxX', 'MaxY', 'MaxZ'],
+    read(columns, i) {
+      const x = columns.value('MaxX', i);
+      const y = columns.value('MaxY', i);
+      const z = columns.value('MaxZ', i);
+      if (x === null || y === null || z === null) return null;
+      return Math.sqrt(x * x + y * y + z * z);
+    },
+  },
+  // Spread between the fastest and slowest rotation logged in a record
+  rpmSpread: {
+    channels: ['RotRpmMax', 'RotRpmMin'],
+    read(columns, i) {
+      const max = columns.value('RotRpmMax', i);
+      const min = columns.value('RotRpmMin', i);
+      if (max === null && min === null) return null;
+      return Math.abs((max ?? 0) - (min ?? 0));
+    },
+  },
+  // (max − min) / (2 · avg) of a record's rotation readings, while the string is rotating
+  stickSlipIndex: {
+    channels: ['RotRpmMax', 'RotRpmMin', 'RotRpmAvg'],
+    read(columns, i) {
+      return stickSlipIndex(columns.value('RotRpmMax', i), columns.value('RotRpmMin', i), columns.value('RotRpmAvg', i));
+    },
+  },
+  // 1 / (motor current × actuation time); falls as the motor needs more to actuate
+  motorEfficiency: {
+    channels: ['MotorAvg', 'ActuationTime'],
+    read(columns, i) {
+      const current = columns.value('MotorAvg', i);
+      const time = columns.value('ActuationTime', i);
+      if (current === null || time === null || current <= 0 || time <= 0) return null;
+      return 1 / (current * time);
+    },
+  },
+};
+
+const RULE_STATISTICS: RuleStatistic[] = [
+  'count', 'share', 'events', 'longest', 'peak', 'lowest', 'matchedMean',
+  'population', 'mean', 'stdDev', 'cv', 'trend',
+];
+
+// Template fields besides the statistics: the bounds a condition resolved to
+const CONDITION_FIELDS = ['threshold', 'low', 'high'];
+
+const SEVERITIES = ['critical', 'warning', 'info'];
+const TOOL_TYPES: ToolType[] = ['MP', 'MDG'];
+const TEMPLATE_FIELD = /\{(\w+)(?::(\d+))?\}/g;
+
+function channelNamed(key: string): ChannelName | undefined {
+  return CHANNEL_NAMES.find(name => columnKey(name) === key);
+}
+
+// Channels logged as on/off states rather than numbers, e.g. FlowStatus
+function isStatusChannel(name: ChannelName): boolean {
+  return recordLayouts.some(layout => layout.fields.some(field => field.name === name && field.states));
+}
+
+// Per-record reader of a metric for one dump, or null when the dump does not log it
+export function metricReader(metric: string, columns: SensorColumns): MetricReader | null {
+  const derived = DERIVED_METRICS[metric];
+  if (derived) {
+    if (!derived.channels.some(name => columns.has(name))) return null;
+    return i => derived.read(columns, i);
+  }
+  const name = channelNamed(metric);
+  if (!name || !columns.has(name)) return null;
+  if (columns.channels[name]!.labels) return i => columns.label(name, i);
+  return i => {
+    const value = columns.value(name, i);
+    return value !== null && isFinite(value) ? value : null;
+  };
+}
+
+// The metrics that read any of these sensor data columns: the columns themselves and the
+// derived metrics computed from them
+export function metricsReading(keys: string[]): string[] {
+  const derived = Object.entries(DERIVED_METRICS)
+    .filter(([, metric]) => metric.channels.some(name => keys.includes(columnKey(name))))
+    .map(([name]) => name);
+  return [...keys, ...derived];
+}
+
+// Fill a message template from a rule's statistics: {peak:1} prints the peak with one
+// decimal, {peakC:1} converts it from °F to °C first
+export function renderTemplate(template: string, values: Record<string, number | null>): string {
+  return template.replace(TEMPLATE_FIELD, (field, name: string, digits?: string) => {
+    let value = values[name];
+    if (value === undefined && name.endsWith('C') && values[name.slice(0, -1)] !== undefined) {
+      const fahrenheit = values[name.slice(0, -1)];
+      value = fahrenheit === null ? null : (fahrenheit - 32) * 5 / 9;
+    }
+    if (value === undefined) return field;
+    if (value === null || !isFinite(value)) return 'n/a';
+    if (digits !== undefined) return value.toFixed(Number(digits));
+    return String(Number(value.toFixed(2)));
+  });
+}
+
+function isObject(value: unknown): value is Record<string, any> {
+  return typeof value === 'object' && value !== null && !Array.isArray(value);
+}
+
+function isNumber(value: unknown): value is number {
+  return typeof value === 'number' && isFinite(value);
+}
+
+function validateCondition(condition: unknown, where: string, metric: string, errors: string[], statistical: boolean) {
+  if (!isObject(condition)) {
+    errors.push(`${where}: condition must be an object with an op`);
+    return;
+  }
+  const status = channelNamed(metric) !== undefined && isStatusChannel(channelNamed(metric)!);
+  switch (condition.op) {
+    case 'eq':
+    case 'ne':
+      if (status ? typeof condition.value !== 'string' : !isNumber(condition.value)) {
+        errors.push(`${where}: ${condition.op} needs a ${status ? 'state label' : 'number'} value`);
+      }
+      return;
+    case 'gt':
+    case 'gte':
+    case 'lt':
+    case 'lte':
+      if (status) errors.push(`${where}: status metric ${metric} only supports eq and ne`);
+      else if (!isNumber(condition.value)) errors.push(`${where}: ${condition.op} needs a number value`);
+      return;
+    case 'between':
+    case 'outside':
+      if (!isNumber(condition.min) || !isNumber(condition.max) || condition.min > condition.max) {
+        errors.push(`${where}: ${condition.op} needs numbers min <= max`);
+      }
+      return;
+    case 'missing':
+      return;
+    case 'above-mean':
+    case 'deviates':
+    case 'iqr':
+      if (!statistical) {
+        errors.push(`${where}: ${condition.op} compares with the rule's own readings and cannot be used in where`);
+      } else if (status) {
+        errors.push(`${where}: status metric ${metric} only supports eq and ne`);
+      } else if (condition.op === 'above-mean') {
+        for (const key of ['factor', 'sigma', 'floor']) {
+          if (condition[key] !== undefined && !isNumber(condition[key])) errors.push(`${where}: ${key} must be a number`);
+        }
+      } else if (condition.op === 'deviates' ? !(isNumber(condition.sigma) && condition.sigma > 0) : !(isNumber(condition.k) && condition.k > 0)) {
+        errors.push(`${where}: ${condition.op} needs a positive ${condition.op === 'deviates' ? 'sigma' : 'k'}`);
+      }
+      return;
+    default:
+      errors.push(`${where}: unknown condition op '${condition.op}'`);
+  }
+}
+
+function validateGates(gates: unknown, where: string, errors: string[]) {
+  if (!Array.isArray(gates)) {
+    errors.push(`${where} must be a list of { stat, op, value }`);
+    return;
+  }
+  gates.forEach((gate, g) => {
+    if (!isObject(gate) || !RULE_STATISTICS.includes(gate.stat) || !['gt', 'gte', 'lt', 'lte'].includes(gate.op) || !isNumber(gate.value)) {
+      errors.push(`${where}[${g}] must be { stat, op, value } with stat one of ${RULE_STATISTICS.join(', ')} and op gt, gte, lt or lte`);
+    }
+  });
+}
+
+function validateTemplate(template: unknown, where: string, errors: string[]) {
+  if (typeof template !== 'string' || template.trim() === '') {
+    errors.push(`${where} must be a non-empty string`);
+    return;
+  }
+  const known = [...RULE_STATISTICS, ...CONDITION_FIELDS] as string[];
+  for (const [, name] of Array.from(template.matchAll(TEMPLATE_FIELD))) {
+    const base = name.endsWith('C') ? name.slice(0, -1) : name;
+    if (!known.includes(name) && !known.includes(base)) errors.push(`${where}: unknown field {${name}}`);
+  }
+}
+
+function validateRule(rule: unknown, index: number, errors: string[]) {
+  const where = `rules[${index}]`;
+  if (!isObject(rule)) {
+    errors.push(`${where} must be an object`);
+    return;
+  }
+  if (typeof rule.id !== 'string' || !/^[a-z0-9][a-z0-9-]*$/.test(rule.id)) {
+    errors.push(`${where}.id must be lower-case letters, digits and dashes`);
+  }
+  const metricKnown = (metric: unknown) => typeof metric === 'string' && (metric in DERIVED_METRICS || channelNamed(metric) !== undefined);
+  if (!metricKnown(rule.metric)) {
+    errors.push(`${where}.metric '${rule.metric}' is neither a sensor data column nor one of ${Object.keys(DERIVED_METRICS).join(', ')}`);
+  }
+  if (rule.where !== undefined) {
+    if (!Array.isArray(rule.where)) {
+      errors.push(`${where}.where must be a list of { metric, condition }`);
+    } else {
+      rule.where.forEach((clause: unknown, w: number) => {
+        if (!isObject(clause) || !metricKnown(clause.metric)) {
+          errors.push(`${where}.where[${w}] needs a known metric`);
+          return;
+        }
+        validateCondition(clause.condition, `${where}.where[${w}]`, clause.metric, errors, false);
+      });
+    }
+  }
+  if (rule.condition !== undefined) validateCondition(rule.condition, `${where}.condition`, String(rule.metric), errors, true);
+  if (rule.duration !== undefined && !(isNumber(rule.duration) && rule.duration > 0)) {
+    errors.push(`${where}.duration must be a positive number of seconds`);
+  }
+  if (rule.mergeGapSeconds !== undefined && !(isNumber(rule.mergeGapSeconds) && rule.mergeGapSeconds >= 0)) {
+    errors.push(`${where}.mergeGapSeconds must be a number of seconds, 0 or more`);
+  }
+  if (rule.require !== undefined) validateGates(rule.require, `${where}.require`, errors);
+  if (!SEVERITIES.includes(rule.severity)) errors.push(`${where}.severity must be one of ${SEVERITIES.join(', ')}`);
+  if (rule.escalate !== undefined) {
+    if (!Array.isArray(rule.escalate)) {
+      errors.push(`${where}.escalate must be a list of { when, severity }`);
+    } else {
+      rule.escalate.forEach((step: unknown, e: number) => {
+        if (!isObject(step)) {
+          errors.push(`${where}.escalate[${e}] must be an object`);
+          return;
+        }
+        validateGates(step.when, `${where}.escalate[${e}].when`, errors);
+        if (!SEVERITIES.includes(step.severity)) errors.push(`${where}.escalate[${e}].severity must be one of ${SEVERITIES.join(', ')}`);
+        if (step.explanation !== undefined) validateTemplate(step.explanation, `${where}.escalate[${e}].explanation`, errors);
+      });
+    }
+  }
+  validateTemplate(rule.message, `${where}.message`, errors);
+  validateTemplate(rule.explanation, `${where}.explanation`, errors);
+}
+
+// Check a rule set written in JSON. Returns the rule set, or every problem found.
+export function validateRuleSet(input: unknown): RuleSetDefinition | string[] {
+  const errors: string[] = [];
+  if (!isObject(input)) return ['A rule set must be a JSON object'];
+
+  if (typeof input.name !== 'string' || !/^[a-z0-9][a-z0-9-]*$/.test(input.name)) {
+    errors.push('name must be lower-case letters, digits and dashes');
+  }
+  if (typeof input.version !== 'string' || !/^\d+\.\d+\.\d+$/.test(input.version)) {
+    errors.push('version must be major.minor.patch, e.g. 1.0.0');
+  }
+  if (input.description != null && typeof input.description !== 'string') {
+    errors.push('description must be a string');
+  }
+  if (!Array.isArray(input.toolTypes) || input.toolTypes.length === 0 ||
+      !input.toolTypes.every((type: unknown) => TOOL_TYPES.includes(type as ToolType))) {
+    errors.push(`toolTypes must list one or more of ${TOOL_TYPES.join(', ')}`);
+  }
+  if (!Array.isArray(input.rules) || input.rules.length === 0) {
+    errors.push('rules must be a non-empty list');
+  } else {
+    input.rules.forEach((rule: unknown, i: number) => validateRule(rule, i, errors));
+    const ids = input.rules.map((rule: any) => rule?.id);
+    const duplicates = ids.filter((id: unknown, i: number) => ids.indexOf(id) !== i);
+    if (duplicates.length > 0) errors.push(`Duplicate rule ids: ${Array.from(new Set(duplicates)).join(', ')}`);
+  }
+
+  if (errors.length > 0) return errors;
+  return {
+    name: input.name,
+    version: input.version,
+    description: input.description ?? null,
+    toolTypes: input.toolTypes,
+    rules: input.rules as AnalysisRule[],
+  };
+}
+
+export interface RuleSetListing extends RuleSetDefinition {
+  builtIn: boolean;
+  activeFor: ToolType[];
+  createdAt: Date | null;
+}
+
+function storedDefinition(stored: AnalysisRuleSet): RuleSetDefinition {
+  const { name, version, description, toolTypes, rules } = stored;
+  return { name, version, description, toolTypes, rules };
+}
+
+// Every rule set: the built-in ones, then those stored through the API. A tool type with
+// no stored set active is analyzed with the first built-in set written for it.
+export async function listRuleSets(storage: IStorage): Promise<RuleSetListing[]> {
+  const stored = await storage.getAnalysisRuleSets();
+  const claimed = new Set(stored.flatMap(ruleSet => ruleSet.activeFor));
+
+  const listings: RuleSetListing[] = builtInRuleSets.map(ruleSet => ({
+    ...ruleSet,
+    builtIn: true,
+    activeFor: [],
+    createdAt: null,
+  }));
+  for (const toolType of TOOL_TYPES) {
+    if (claimed.has(toolType)) continue;
+    listings.find(listing => listing.toolTypes.includes(toolType))?.activeFor.push(toolType);
+  }
+
+  return listings.concat(stored.map(ruleSet => ({
+    ...storedDefinition(ruleSet),
+    builtIn: false,
+    activeFor: ruleSet.activeFor,
+    createdAt: ruleSet.createdAt,
+  })));
+}
+
+// A rule set by 'name@version', or by name alone for its newest version
+export function findRuleSet<T extends RuleSetDefinition>(ruleSets: T[], reference: string): T | undefined {
+  const [name, version] = reference.split('@');
+  const candidates = ruleSets
+    .filter(ruleSet => ruleSet.name === name && (version === undefined || ruleSet.version === version))
+    .sort((a, b) => compareVersions(b.version, a.version));
+  return candidates[0];
+}
+
+// The rule set new dumps of a tool type are analyzed with
+export async function activeRuleSet(storage: IStorage, toolType: ToolType): Promise<RuleSetDefinition> {
+  const listing = (await listRuleSets(storage)).find(ruleSet => ruleSet.activeFor.includes(toolType))!;
+  const { builtIn, activeFor, createdAt, ...definition } = listing;
+  return definition;
+}
+
+export function gatesHold(gates: RuleGate[] | undefined, stats: Record<RuleStatistic, number | null>): boolean {
+  return (gates ?? []).every(({ stat, op, value }) => {
+    const actual = stats[stat];
+    if (actual === null || isNaN(actual)) return false;
+    switch (op) {
+      case 'gt': return actual > value;
+      case 'gte': return actual >= value;
+      case 'lt': return actual < value;
+      case 'lte': return actual <= value;
+    }
+  });
+}
+
+// Whether one reading meets a fixed condition; statistical conditions are resolved to
+// bounds by the engine first
+export function meetsCondition(value: number | string | null, condition: RuleCondition): boolean {
+  if (condition.op === 'missing') return value === null;
+  if (value === null) return false;
+  switch (condition.op) {
+    case 'eq': return value === condition.value;
+    case 'ne': return value !== condition.value;
+    case 'gt': return (value as number) > (condition.value as number);
+    case 'gte': return (value as number) >= (condition.value as number);
+    case 'lt': return (value as number) < (condition.value as number);
+    case 'lte': return (value as number) <= (condition.value as number);
+    case 'between': return (value as number) >= condition.min && (value as number) <= condition.max;
+    case 'outside': return (value as number) < condition.min || (value as number) > condition.max;
+    default: return false;
+  }
+}
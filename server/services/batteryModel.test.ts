@@ -0,0 +1,34 @@
+import assert from 'node:assert/strict';
+import { test } from 'node:test';
+import type { InsertSensorData } from '@shared/schema';
+import { batteryConsumption } from './batteryModel';
+import { SensorColumns } from './sensorColumns';
+
+const START = Date.UTC(2025, 6, 29);
+
+// One MDG record per second with the given IBatt readings at 24 V
+function batteryColumns(currents: (number | null)[]): SensorColumns {
+  return SensorColumns.fromRecords(currents.map((iBatt, i) => ({
+    dumpId: 1,
+    rtd: new Date(START + i * 1000),
+    vBatt: 24,
+    iBatt,
+  }) as InsertSensorData));
+}
+
+test('an hour at 2 A draws 2 Ah and 48 Wh', () => {
+  const drawn = batteryConsumption(batteryColumns(new Array(3600).fill(2)), 1000);
+  assert.ok(Math.abs(drawn.ampHours! - 2) < 1e-9);
+  assert.ok(Math.abs(drawn.wattHours! - 48) < 1e-9);
+  assert.equal(drawn.currentReadings, 3600);
+});
+
+test('corrupt current readings are left out of the integral', () => {
+  const currents = new Array<number | null>(3600).fill(2);
+  currents[100] = 3.28e35;
+  currents[200] = -1e9;
+  currents[300] = null;
+  const drawn = batteryConsumption(batteryColumns(currents), 1000);
+  assert.equal(drawn.currentReadings, 3597);
+  assert.ok(drawn.ampHours! < 2);
+});
@@ -0,0 +1,198 @@
+import type { BatteryPack, InsertBatteryPack } from '@shared/schema';
+import type { ChannelName, SensorColumns } from './sensorColumns';
+
+// Fewest voltage readings the discharge trend is fitted to
+const MIN_TREND_READINGS = 10;
+
+// Lowest voltage reading taken as the battery rail. The tool cannot log on a dead rail,
+// so lower readings are a disconnected sense line and are skipped.
+const MIN_RAIL_VOLTAGE = 1;
+
+// Largest battery current (A) taken as a reading, matching the layouts' valid range, so
+// samples decoded before a range was set, or from a corrupt record, are skipped
+const MAX_BATTERY_CURRENT = 50;
+
+// The battery rail a dump logs: the MP's own channels when present, else the system
+// VBatt / IBatt channels the MDG logs
+function batteryChannels(columns: SensorColumns): { voltage: ChannelName | null; current: ChannelName | null } {
+  return {
+    voltage: columns.has('BatteryVoltMP') ? 'BatteryVoltMP' : columns.has('VBatt') ? 'VBatt' : null,
+    current: columns.has('BatteryCurrMP') ? 'BatteryCurrMP' : columns.has('IBatt') ? 'IBatt' : null,
+  };
+}
+
+function railVoltage(columns: SensorColumns, channel: ChannelName, index: number): number | null {
+  const value = columns.value(channel, index);
+  return value !== null && isFinite(value) && value >= MIN_RAIL_VOLTAGE ? value : null;
+}
+
+function batteryCurrent(columns: SensorColumns, channel: ChannelName, index: number): number | null {
+  const value = columns.value(channel, index);
+  return value !== null && isFinite(value) && Math.abs(value) <= MAX_BATTERY_CURRENT ? value : null;
+}
+
+export interface BatteryConsumption {
+  ampHours: number | null; // null when the dump logs no battery current
+  wattHours: number | null; // null when it logs no battery voltage or current
+  currentReadings: number;
+  channels: { voltage: ChannelName | null; current: ChannelName | null };
+}
+
+// Charge and energy drawn over records first..last (inclusive). Every record with a valid
+// current reading draws |I| for one logging interval: downhole packs are primary cells, so
+// all current is discharge whatever its logged sign. Energy takes V × |I| from the records
+// with both readings (voltages of at least 1 V).
+export function batteryConsumption(
+  columns: SensorColumns,
+  intervalMs: number,
+  first = 0,
+  last = columns.length - 1
+): BatteryConsumption {
+  const channels = batteryChannels(columns);
+  const hours = intervalMs / 3600000;
+  let ampHours = 0;
+  let wattHours = 0;
+  let currentReadings = 0;
+  let powerReadings = 0;
+
+  if (channels.current) {
+    for (let i = first; i <= last; i++) {
+      const current = batteryCurrent(columns, channels.current, i);
+      if (current === null) continue;
+      currentReadings++;
+      ampHours += Math.abs(current) * hours;
+      const voltage = channels.voltage ? railVoltage(columns, channels.voltage, i) : null;
+      if (voltage === null) continue;
+      powerReadings++;
+      wattHours += voltage * Math.abs(current) * hours;
+    }
+  }
+
+  return {
+    ampHours: channels.current ? ampHours : null,
+    wattHours: channels.current && channels.voltage && powerReadings > 0 ? wattHours : null,
+    currentReadings,
+    channels,
+  };
+}
+
+export interface BatteryForecast {
+  consumedAmpHours: number;
+  consumedWattHours: number | null;
+  priorAmpHours: number; // drawn from the pack before this dump
+  remainingAmpHours: number;
+  remainingPercent: number;
+  averageCurrentA: number | null; // mean |I| over the dump
+  lastVoltage: number | null;
+  voltageTrendPerHour: number | null; // slope of the fitted discharge trend, V/h
+  hoursToCutoff: {
+    byCapacity: number | null; // remaining capacity at the dump's average current
+    byVoltage: number | null; // discharge trend extrapolated to the cutoff voltage
+    projected: number | null; // the sooner of the two
+  };
+  plannedHours: number | null;
+  sufficient: boolean | null; // whether the projection covers plannedHours
+}
+
+// Least-squares slope (V/h) and fitted value at the last reading, over the last quarter
+// of the voltage readings - the most recent discharge behaviour - or null when too few
+function voltageTrend(columns: SensorColumns, channel: ChannelName): { slope: number; fitted: number } | null {
+  const indexes: number[] = [];
+  columns.forEachValid(channel, (value, index) => {
+    if (isFinite(value) && value >= MIN_RAIL_VOLTAGE) indexes.push(index);
+  });
+  const recent = indexes.slice(Math.floor(indexes.length * 0.75));
+  if (recent.length < MIN_TREND_READINGS) return null;
+
+  const origin = columns.time[recent[0]];
+  let sumT = 0, sumV = 0, sumTT = 0, sumTV = 0;
+  for (const index of recent) {
+    const t = (columns.time[index] - origin) / 3600000;
+    const v = columns.value(channel, index)!;
+    sumT += t;
+    sumV += v;
+    sumTT += t * t;
+    sumTV += t * v;
+  }
+  const n = recent.length;
+  const denominator = n * sumTT - sumT * sumT;
+  if (denominator === 0) return null;
+  const slope = (n * sumTV - sumT * sumV) / denominator;
+  const intercept = (sumV - slope * sumT) / n;
+  const lastT = (columns.time[recent[recent.length - 1]] - origin) / 3600000;
+  return { slope, fitted: intercept + slope * lastT };
+}
+
+// Remaining capacity of a pack after this dump and how long until the tool reaches the
+// pack's cutoff voltage: at the dump's average current against the remaining amp-hours,
+// and along the recent voltage trend. The projection is the sooner of the two.
+export function forecastBattery(
+  columns: SensorColumns,
+  intervalMs: number,
+  pack: BatteryPack,
+  priorAmpHours = 0,
+  plannedHours: number | null = null
+): BatteryForecast {
+  const consumption = batteryConsumption(columns, intervalMs);
+  const consumedAmpHours = consumption.ampHours ?? 0;
+  const remainingAmpHours = Math.max(0, pack.ratedCapacityAh - priorAmpHours - consumedAmpHours);
+  const averageCurrentA = consumption.currentReadings > 0
+    ? consumedAmpHours / (consumption.currentReadings * intervalMs / 3600000)
+    : null;
+
+  let lastVoltage: number | null = null;
+  if (consumption.channels.voltage) {
+    for (let i = columns.length - 1; i >= 0 && lastVoltage === null; i--) {
+      lastVoltage = railVoltage(columns, consumption.channels.voltage, i);
+    }
+  }
+  const trend = consumption.channels.voltage ? voltageTrend(columns, consumption.channels.voltage) : null;
+
+  const byCapacity = averageCurrentA && averageCurrentA > 0 ? remainingAmpHours / averageCurrentA : null;
+  let byVoltage: number | null = null;
+  if (lastVoltage !== null && lastVoltage <= pack.cutoffVoltage) {
+    byVoltage = 0;
+  } else if (trend && trend.slope < 0) {
+    byVoltage = Math.max(0, (trend.fitted - pack.cutoffVoltage) / -trend.slope);
+  }
+  const estimates = [byCapacity, byVoltage].filter((hours): hours is number => hours !== null);
+  const projected = estimates.length > 0 ? Math.min(...estimates) : null;
+
+  return {
+    consumedAmpHours,
+    consumedWattHours: consumption.wattHours,
+    priorAmpHours,
+    remainingAmpHours,
+    remainingPercent: (remainingAmpHours / pack.ratedCapacityAh) * 100,
+    averageCurrentA,
+    lastVoltage,
+    voltageTrendPerHour: trend?.slope ?? null,
+    hoursToCutoff: { byCapacity, byVoltage, projected },
+    plannedHours,
+    sufficient: plannedHours === null || projected === null ? null : projected >= plannedHours,
+  };
+}
+
+// Check a battery pack definition by hand, returning the pack or every problem found
+export function validateBatteryPack(input: unknown): InsertBatteryPack | string[] {
+  const errors: string[] = [];
+  const pack = (input ?? {}) as Record<string, unknown>;
+  const positive = (value: unknown) => typeof value === 'number' && isFinite(value) && value > 0;
+
+  if (typeof pack.name !== 'string' || pack.name.trim() === '') errors.push('name must be a non-empty string');
+  if (pack.toolType !== 'MP' && pack.toolType !== 'MDG') errors.push("toolType must be 'MP' or 'MDG'");
+  if (!positive(pack.ratedCapacityAh)) errors.push('ratedCapacityAh must be a positive number of amp-hours');
+  if (!positive(pack.cutoffVoltage)) errors.push('cutoffVoltage must be a positive number of volts');
+  if (pack.description !== undefined && pack.description !== null && typeof pack.description !== 'string') {
+    errors.push('description must be a string');
+  }
+  if (errors.length > 0) return errors;
+
+  return {
+    name: (pack.name as string).trim(),
+    toolType: pack.toolType as string,
+    ratedCapacityAh: pack.ratedCapacityAh as number,
+    cutoffVoltage: pack.cutoffVoltage as number,
+    description: (pack.description as string | undefined) ?? null,
+  };
+}
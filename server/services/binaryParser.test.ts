@@ -0,0 +1,43 @@
+import assert from 'node:assert/strict';
+import { test } from 'node:test';
+import { BinaryParser } from './binaryParser';
+import { mdgDefault } from './layouts/mdgDefault';
+
+test('a zeroed MDG header reports no comm-error or hall-status time', () => {
+  const report = BinaryParser.extractDeviceInfo(Buffer.alloc(256), 'MDG.bin', 'MDG');
+  assert.equal(report.commErrorsTimeMinutes, null);
+  assert.equal(report.hallStatusTimeMinutes, null);
+  assert.equal(report.provenance?.commErrorsTimeMinutes?.source, 'unavailable');
+});
+
+test('one header word never feeds two fields', () => {
+  // A single plausible word at 84, inside both the comm-error and hall-status candidates
+  const header = Buffer.alloc(256);
+  header.writeFloatLE(5, 84);
+  const report = BinaryParser.extractDeviceInfo(header, 'MDG.bin', 'MDG');
+  assert.equal(report.commErrorsTimeMinutes, 5);
+  assert.equal(report.hallStatusTimeMinutes, null);
+  assert.deepEqual(report.provenance?.commErrorsTimeMinutes, {
+    source: 'inferred', offset: 84, type: 'f32', candidates: [80, 84, 88, 92],
+  });
+});
+
+test('denormal header words are not taken as zero minutes', () => {
+  const header = Buffer.alloc(256);
+  header.writeUInt32LE(1, 80); // smallest denormal float
+  header.writeFloatLE(0.004, 84);
+  const report = BinaryParser.extractDeviceInfo(header, 'MDG.bin', 'MDG');
+  assert.equal(report.commErrorsTimeMinutes, null);
+  assert.equal(report.hallStatusTimeMinutes, null);
+  assert.equal(report.provenance?.hallStatusTimeMinutes?.source, 'unavailable');
+});
+
+test('the firmware version is read at the offset of the selected layout', () => {
+  const header = Buffer.alloc(256);
+  header.set([1, 2, 3], mdgDefault.header.firmwareVersionOffset);
+  const report = BinaryParser.extractDeviceInfo(header, 'MDG.bin', 'MDG');
+  assert.equal(report.mdgFirmwareVersion, '1.2.3');
+  assert.deepEqual(report.provenance?.mdgFirmwareVersion, {
+    source: 'header', offset: mdgDefault.header.firmwareVersionOffset, type: 'version',
+  });
+});
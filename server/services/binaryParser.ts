@@ -1,420 +1,273 @@
 import fs from 'fs';
-import { InsertDeviceReport, InsertSensorData } from '@shared/schema';
-
-export interface ParsedData {
-  RTD: Date[];
-  TempMP: (number | null)[];
-  ResetMP: (number | null)[];
-  BatteryCurrMP: (number | null)[];
-  BatteryVoltMP: (number | null)[];
-  FlowStatus: (string | null)[];
-  MaxX: (number | null)[];
-  MaxY: (number | null)[];
-  MaxZ: (number | null)[];
-  Threshold: (number | null)[];
-  MotorMin: (number | null)[];
-  MotorAvg: (number | null)[];
-  MotorMax: (number | null)[];
-  MotorHall: (number | null)[];
-  ActuationTime: (number | null)[];
-  AccelAX: (number | null)[];
-  AccelAY: (number | null)[];
-  AccelAZ: (number | null)[];
-  ShockZ: (number | null)[];
-  ShockX: (number | null)[];
-  ShockY: (number | null)[];
-  ShockCountAxial50: (number | null)[];
-  ShockCountAxial100: (number | null)[];
-  ShockCountLat50: (number | null)[];
-  ShockCountLat100: (number | null)[];
-  RotRpmMax: (number | null)[];
-  RotRpmAvg: (number | null)[];
-  RotRpmMin: (number | null)[];
-  V3_3VA_DI: (number | null)[];
-  V5VD: (number | null)[];
-  V3_3VD: (number | null)[];
-  V1_9VD: (number | null)[];
-  V1_5VD: (number | null)[];
-  V1_8VA: (number | null)[];
-  V3_3VA: (number | null)[];
-  VBatt: (number | null)[];
-  I5VD: (number | null)[];
-  I3_3VD: (number | null)[];
-  IBatt: (number | null)[];
-  Gamma: (number | null)[];
-  AccelStabX: (number | null)[];
-  AccelStabY: (number | null)[];
-  AccelStabZ: (number | null)[];
-  AccelStabZH: (number | null)[];
-  SurveyTGF: (number | null)[];
-  SurveyTMF: (number | null)[];
-  SurveyDipA: (number | null)[];
-  SurveyINC: (number | null)[];
-  SurveyCINC: (number | null)[];
-  SurveyAZM: (number | null)[];
-  SurveyCAZM: (number | null)[];
+import { InsertDeviceReport, DeviceReportField, DeviceReportProvenance, FieldProvenance, type DataQualitySummary, type ParseDiagnostics } from '@shared/schema';
+import {
+  decodeLayoutField,
+  headerSignatureMatches,
+  isPaddingRecord,
+  readFirmwareVersion,
+  readRawField,
+  selectRecordLayout,
+  type RecordLayout,
+} from './recordLayout';
+import { recordLayouts } from './layouts';
+import { planRecords, type RecordRange } from './parseDiagnostics';
+import { columnKey, SensorColumns } from './sensorColumns';
+import { epochSecondsToDate, resolveTimeBase, type TimeBase, type TimeOptions } from './timeBase';
+
+export type ToolType = 'MP' | 'MDG';
+
+// How well one record layout explains the file contents
+export interface ToolTypeCandidate {
+  toolType: ToolType;
+  layoutId: string;
+  score: number; // 0-1
+  signatureMatch: boolean | null; // null when the layout defines no signature
+  recordSizeConsistent: boolean;
+  firmwareVersion: string | null;
+  plausibility: number; // average share of fields in the sampled records that decode to plausible values
+}
+
+export interface ToolTypeDetection {
+  toolType: ToolType | 'UNKNOWN';
+  confidence: number; // 0-1
+  candidates: ToolTypeCandidate[];
 }
 
 export class BinaryParser {
-  // New streaming parser for large datasets
+  // Bump whenever decoding changes so stored dumps show which parser produced them
+  static readonly VERSION = '1.5.2';
+
+  // Classify a dump as MP or MDG from its contents. Every record layout is scored on
+  // header signature (0.15), whole number of records after the header (0.15), a readable
+  // firmware version (0.1) and how plausible the first `sampleRecords` records look when
+  // decoded with it (0.6); criteria a layout cannot be checked on are left out of its score.
+  // The best layout wins if it scores at least 0.55. Its score is the confidence, scaled down
+  // when the runner-up of the other tool type comes within 0.2 of it.
+  static detectToolType(filePath: string, sampleRecords = 64): ToolTypeDetection {
+    const fileSize = fs.statSync(filePath).size;
+    const maxHeaderSize = Math.max(...recordLayouts.map(layout => layout.header.size));
+    const maxRecordSize = Math.max(...recordLayouts.map(layout => layout.recordSize));
+    const sample = this.readHeader(filePath, maxHeaderSize + maxRecordSize * sampleRecords);
+
+    const candidates = recordLayouts.map(layout => {
+      const signatureMatch = headerSignatureMatches(layout, sample);
+      const recordSizeConsistent = fileSize > layout.header.size &&
+        (fileSize - layout.header.size) % layout.recordSize === 0;
+      const firmwareVersion = readFirmwareVersion(sample, layout.header.firmwareVersionOffset);
+      const plausibility = this.scoreRecordPlausibility(sample, layout, sampleRecords);
+
+      let weighted = 0.15 * (recordSizeConsistent ? 1 : 0) + 0.1 * (firmwareVersion ? 1 : 0) + 0.6 * plausibility;
+      let weight = 0.85;
+      if (signatureMatch !== null) {
+        weighted += 0.15 * (signatureMatch ? 1 : 0);
+        weight += 0.15;
+      }
+
+      return {
+        toolType: layout.toolType,
+        layoutId: layout.id,
+        score: Math.round((weighted / weight) * 1000) / 1000,
+        signatureMatch,
+        recordSizeConsistent,
+        firmwareVersion,
+        plausibility: Math.round(plausibility * 1000) / 1000,
+      };
+    }).sort((a, b) => b.score - a.score);
+
+    const best = candidates[0];
+    if (!best || best.score < 0.55) {
+      return { toolType: 'UNKNOWN', confidence: 0, candidates };
+    }
+
+    const runnerUp = candidates.find(candidate => candidate.toolType !== best.toolType);
+    const margin = runnerUp ? Math.min(1, (best.score - runnerUp.score) / 0.2) : 1;
+    return {
+      toolType: best.toolType,
+      confidence: Math.round(best.score * margin * 100) / 100,
+      candidates,
+    };
+  }
+
+  // Average share of fields that decode to plausible values over the sampled records.
+  // Only floats and range-checked fields count - an unranged integer always "fits".
+  // Blank (all 0x00 or all 0xFF) records say nothing about the layout and are skipped.
+  static scoreRecordPlausibility(sample: Buffer, layout: RecordLayout, sampleRecords: number): number {
+    const fields = layout.fields.filter(field => !field.states && (field.type === 'f32' || field.validRange));
+    const available = Math.floor((sample.length - layout.header.size) / layout.recordSize);
+    let checked = 0;
+    let plausible = 0;
+
+    for (let i = 0; i < available && checked < sampleRecords; i++) {
+      const recordOffset = layout.header.size + i * layout.recordSize;
+      const record = sample.subarray(recordOffset, recordOffset + layout.recordSize);
+      if (record.every(byte => byte === 0x00) || record.every(byte => byte === 0xff)) continue;
+
+      checked++;
+      let fieldsOk = 0;
+      for (const field of fields) {
+        const raw = readRawField(sample, recordOffset, field);
+        const value = raw * (field.scale ?? 1) + (field.bias ?? 0);
+        const ok = field.validRange
+          ? value >= field.validRange[0] && value <= field.validRange[1]
+          // Unranged floats still should not look like reinterpreted integer bit patterns
+          : isFinite(value) && Math.abs(value) < 1e6;
+        if (ok) fieldsOk++;
+      }
+      plausible += fields.length > 0 ? fieldsOk / fields.length : 0;
+    }
+
+    return checked > 0 ? plausible / checked : 0;
+  }
+
+  // Streaming parser for large datasets. The record layout is chosen from the tool type
+  // and the firmware version in the dump header. Unwritten regions and a truncated tail are
+  // skipped and wrapped circular memory is read oldest record first; the layout, time base,
+  // per-channel sample quality and the parse diagnostics are returned.
   static async parseMemoryDumpStream(
     filePath: string, 
     filename: string, 
     fileType: string, 
     batchSize: number,
-    batchCallback: (batch: ParsedData, batchIndex: number) => Promise<boolean>
-  ): Promise<void> {
+    batchCallback: (batch: SensorColumns, batchIndex: number) => Promise<boolean>,
+    timeOptions: TimeOptions = {}
+  ): Promise<{ layout: RecordLayout; timeBase: TimeBase; dataQuality: DataQualitySummary; diagnostics: ParseDiagnostics }> {
     try {
       const stats = fs.statSync(filePath);
       console.log(`Starting streaming parse of ${fileType} file: ${filename} (${(stats.size / 1024 / 1024).toFixed(2)} MB)`);
 
-      if (fileType === 'MDG') {
-        await this.parseMDGFileInBatches(filePath, filename, batchSize, batchCallback);
-      } else if (fileType === 'MP') {
-        await this.parseMPFileInBatches(filePath, filename, batchSize, batchCallback);
+      const header = this.readHeader(filePath, 256);
+      const selection = selectRecordLayout(fileType, header);
+      if (!selection) {
+        throw new Error(`No record layout is defined for tool type ${fileType}`);
       }
 
+      const { layout, firmwareVersion } = selection;
+      console.log(`📐 Using record layout ${layout.id} for ${fileType} firmware ${firmwareVersion ?? 'unknown'}`);
+
+      const { diagnostics, ranges } = planRecords(filePath, layout);
+      const { recordsSkipped, truncatedBytes, wrapAround } = diagnostics;
+      console.log(`🧭 ${diagnostics.recordsDecoded} records to decode, skipping ${recordsSkipped.erased} erased and ${recordsSkipped.zeroFill} zero-filled slots, ${truncatedBytes} truncated bytes${wrapAround.detected ? `, wrapped at record ${wrapAround.oldestRecord}` : ''}`);
+
+      const firstRecordTime = ranges.length > 0 ? this.readRecordTime(filePath, layout, ranges[0].startRecord) : null;
+      const timeBase = resolveTimeBase(layout, header, firstRecordTime, filename, timeOptions);
+      console.log(`🕒 First record at ${timeBase.startTime.toISOString()} from ${timeBase.source}, ${timeBase.intervalMs} ms between records`);
+
+      const dataQuality = await this.parseRecordsInBatches(filePath, layout, ranges, timeBase, batchSize, batchCallback);
+
       console.log(`Completed streaming parse of ${fileType} file: ${filename}`);
+      return { layout, timeBase, dataQuality, diagnostics };
     } catch (error: any) {
       console.error(`Error in streaming parse of ${filename}:`, error);
       throw error;
     }
   }
 
-  // Stream MDG file in small batches
-  static async parseMDGFileInBatches(
-    filePath: string, 
-    filename: string, 
-    batchSize: number,
-    batchCallback: (batch: ParsedData, batchIndex: number) => Promise<boolean>
-  ): Promise<void> {
-    const headerSize = 256;
-    const recordSize = 128;
-    const stats = fs.statSync(filePath);
-    const totalRecords = Math.floor((stats.size - headerSize) / recordSize);
-
-    console.log(`Processing MDG file in batches of ${batchSize}. Total records: ${totalRecords}`);
-
-    const baseTime = this.extractTimestamp(filename);
+  static readHeader(filePath: string, size: number): Buffer {
     const fd = fs.openSync(filePath, 'r');
-
-    let batchIndex = 0;
     try {
-      let recordIndex = 0;
-
-      while (recordIndex < totalRecords) {
-        const currentBatchSize = Math.min(batchSize, totalRecords - recordIndex);
-        const buffer = Buffer.alloc(currentBatchSize * recordSize);
-
-        // Read batch of records
-        const offset = headerSize + (recordIndex * recordSize);
-        fs.readSync(fd, buffer, 0, buffer.length, offset);
-
-        // Create batch data structure
-        const batch: ParsedData = this.createEmptyDataStructure();
-
-        // Process records in this batch
-        for (let i = 0; i < currentBatchSize; i++) {
-          const bufferOffset = i * recordSize;
-
-          // Time progression (2 second intervals for MDG)
-          batch.RTD.push(new Date(baseTime.getTime() + ((recordIndex + i) * 2000)));
-
-          // MP-specific fields (not available in MDG) - set to null
-          batch.TempMP.push(null);
-          batch.BatteryCurrMP.push(null);
-          batch.BatteryVoltMP.push(null);
-          batch.FlowStatus.push(null);
-          batch.MaxX.push(null);
-          batch.MaxY.push(null);
-          batch.MaxZ.push(null);
-          batch.Threshold.push(null);
-          batch.MotorMin.push(null);
-          batch.MotorAvg.push(null);
-          batch.MotorMax.push(null);
-          batch.MotorHall.push(null);
-          batch.ActuationTime.push(null);
-
-          // MDG-specific data
-          batch.AccelAX.push(this.readFloat32LE(buffer, bufferOffset + 0));
-          batch.AccelAY.push(this.readFloat32LE(buffer, bufferOffset + 4));
-          batch.AccelAZ.push(this.readFloat32LE(buffer, bufferOffset + 8));
-          batch.ResetMP.push(this.readUInt8(buffer, bufferOffset + 12));
-
-          // Shock data with validation (typical range -100g to +100g)
-          const shockZ = this.readFloat32LE(buffer, bufferOffset + 16);
-          const shockX = this.readFloat32LE(buffer, bufferOffset + 20);
-          const shockY = this.readFloat32LE(buffer, bufferOffset + 24);
-          
-          batch.ShockZ.push(this.isValidValue(shockZ, -500, 500) ? shockZ : null);
-          batch.ShockX.push(this.isValidValue(shockX, -500, 500) ? shockX : null);
-          batch.ShockY.push(this.isValidValue(shockY, -500, 500) ? shockY : null);
-
-          // Shock counters
-          batch.ShockCountAxial50.push(this.readUInt16LE(buffer, bufferOffset + 28));
-          batch.ShockCountAxial100.push(this.readUInt16LE(buffer, bufferOffset + 30));
-          batch.ShockCountLat50.push(this.readUInt16LE(buffer, bufferOffset + 32));
-          batch.ShockCountLat100.push(this.readUInt16LE(buffer, bufferOffset + 34));
-
-          // Rotation RPM
-          batch.RotRpmMax.push(this.readFloat32LE(buffer, bufferOffset + 36));
-          batch.RotRpmAvg.push(this.readFloat32LE(buffer, bufferOffset + 40));
-          batch.RotRpmMin.push(this.readFloat32LE(buffer, bufferOffset + 44));
-
-          // System voltages with validation
-          const v3_3VA_DI = this.readFloat32LE(buffer, bufferOffset + 48);
-          const v5VD = this.readFloat32LE(buffer, bufferOffset + 52);
-          const v3_3VD = this.readFloat32LE(buffer, bufferOffset + 56);
-          const v1_9VD = this.readFloat32LE(buffer, bufferOffset + 60);
-          const v1_5VD = this.readFloat32LE(buffer, bufferOffset + 64);
-          const v1_8VA = this.readFloat32LE(buffer, bufferOffset + 68);
-          const v3_3VA = this.readFloat32LE(buffer, bufferOffset + 72);
-          const vBatt = this.readFloat32LE(buffer, bufferOffset + 76);
-          
-          batch.V3_3VA_DI.push(this.isValidValue(v3_3VA_DI, 0, 10) ? v3_3VA_DI : null);
-          batch.V5VD.push(this.isValidValue(v5VD, 0, 10) ? v5VD : null);
-          batch.V3_3VD.push(this.isValidValue(v3_3VD, 0, 10) ? v3_3VD : null);
-          batch.V1_9VD.push(this.isValidValue(v1_9VD, 0, 5) ? v1_9VD : null);
-          batch.V1_5VD.push(this.isValidValue(v1_5VD, 0, 5) ? v1_5VD : null);
-          batch.V1_8VA.push(this.isValidValue(v1_8VA, 0, 5) ? v1_8VA : null);
-          batch.V3_3VA.push(this.isValidValue(v3_3VA, 0, 10) ? v3_3VA : null);
-          batch.VBatt.push(this.isValidValue(vBatt, 0, 50) ? vBatt : null);
-
-          // System currents
-          batch.I5VD.push(this.readFloat32LE(buffer, bufferOffset + 80));
-          batch.I3_3VD.push(this.readFloat32LE(buffer, bufferOffset + 84));
-          batch.IBatt.push(this.readFloat32LE(buffer, bufferOffset + 88));
-
-          // Gamma radiation
-          batch.Gamma.push(this.readUInt16LE(buffer, bufferOffset + 92));
-
-          // Acceleration stability
-          batch.AccelStabX.push(this.readFloat32LE(buffer, bufferOffset + 96));
-          batch.AccelStabY.push(this.readFloat32LE(buffer, bufferOffset + 100));
-          batch.AccelStabZ.push(this.readFloat32LE(buffer, bufferOffset + 104));
-          batch.AccelStabZH.push(this.readFloat32LE(buffer, bufferOffset + 108));
-
-          // Survey data - adjust offsets to fit within 128-byte record
-          batch.SurveyTGF.push(this.readFloat32LE(buffer, bufferOffset + 112));
-          batch.SurveyTMF.push(this.readFloat32LE(buffer, bufferOffset + 116));
-          batch.SurveyDipA.push(this.readFloat32LE(buffer, bufferOffset + 120));
-          batch.SurveyINC.push(this.readFloat32LE(buffer, bufferOffset + 124));
-          // Remaining survey fields not available in current record format
-          batch.SurveyCINC.push(null);
-          batch.SurveyAZM.push(null);
-          batch.SurveyCAZM.push(null);
-        }
-
-        // Process batch through callback
-        const shouldContinue = await batchCallback(batch, batchIndex);
-        if (!shouldContinue) {
-          console.log(`Stopping processing at batch ${batchIndex} due to callback request`);
-          break;
-        }
-
-        recordIndex += currentBatchSize;
-        batchIndex++;
-
-        // More aggressive memory cleanup after each batch
-        Object.keys(batch).forEach(key => {
-          if (Array.isArray((batch as any)[key])) {
-            (batch as any)[key].length = 0;
-            (batch as any)[key] = null;
-          }
-        });
+      const header = Buffer.alloc(size);
+      const bytesRead = fs.readSync(fd, header, 0, size, 0);
+      return header.subarray(0, bytesRead);
+    } finally {
+      fs.closeSync(fd);
+    }
+  }
 
-        // Force garbage collection more frequently for large files
-        if (global.gc && batchIndex % 3 === 0) {
-          global.gc();
-        }
-      }
+  // On-record clock of a record, when the layout has one and it is set
+  static readRecordTime(filePath: string, layout: RecordLayout, recordIndex: number): Date | null {
+    const offset = layout.time?.recordTimestampOffset;
+    if (offset === undefined) return null;
+    const record = Buffer.alloc(4);
+    const fd = fs.openSync(filePath, 'r');
+    try {
+      const bytesRead = fs.readSync(fd, record, 0, 4, layout.header.size + recordIndex * layout.recordSize + offset);
+      return bytesRead === 4 ? epochSecondsToDate(record.readUInt32LE(0)) : null;
     } finally {
       fs.closeSync(fd);
-      console.log(`✅ MDG FILE PROCESSING COMPLETE: ${totalRecords} records processed in ${batchIndex || 0} batches`);
     }
   }
 
-  // Stream MP file in small batches
-  static async parseMPFileInBatches(
+  // Stream the planned record ranges in small batches of columns, decoding each field as
+  // described by the layout. Samples that are not valid are left empty in the validity
+  // bitmap with the reason recorded. Record times advance with each decoded record, not
+  // with file position. Channels the layout does not log have no column at all.
+  static async parseRecordsInBatches(
     filePath: string, 
-    filename: string, 
+    layout: RecordLayout,
+    ranges: RecordRange[],
+    timeBase: TimeBase,
     batchSize: number,
-    batchCallback: (batch: ParsedData, batchIndex: number) => Promise<boolean>
-  ): Promise<void> {
-    const headerSize = 256;
-    const recordSize = 64;
-    const stats = fs.statSync(filePath);
-    const totalRecords = Math.floor((stats.size - headerSize) / recordSize);
+    batchCallback: (batch: SensorColumns, batchIndex: number) => Promise<boolean>
+  ): Promise<DataQualitySummary> {
+    const { size: headerSize } = layout.header;
+    const { recordSize, fields } = layout;
+    const constants = layout.constants || [];
+    const totalRecords = ranges.reduce((sum, range) => sum + range.count, 0);
+
+    // Batches never straddle two ranges, so each one is a single contiguous read
+    const chunks: RecordRange[] = [];
+    for (const range of ranges) {
+      for (let start = 0; start < range.count; start += batchSize) {
+        chunks.push({ startRecord: range.startRecord + start, count: Math.min(batchSize, range.count - start) });
+      }
+    }
+
+    const dataQuality: DataQualitySummary = {
+      records: totalRecords,
+      paddingRecords: 0,
+      channels: {},
+      constants: {},
+    };
+    const fieldColumns = fields.map(field => columnKey(field.name));
+    for (const column of fieldColumns) {
+      dataQuality.channels[column] = { 'valid': 0, 'out-of-range': 0, 'nan': 0, 'erased': 0, 'padding': 0 };
+    }
+    for (const constant of constants) {
+      dataQuality.constants[columnKey(constant.name)] = { value: constant.value, unit: constant.unit };
+    }
 
-    console.log(`Processing MP file in batches of ${batchSize}. Total records: ${totalRecords}`);
+    console.log(`Processing ${layout.toolType} file in batches of ${batchSize}. Total records: ${totalRecords}`);
 
-    const baseTime = this.extractTimestamp(filename);
+    // Records carry their own clock only when the time base came from it; an unset
+    // clock inside the run continues one interval after the previous record.
+    const recordClock = timeBase.source === 'record' ? layout.time?.recordTimestampOffset : undefined;
+    let previousTime = timeBase.startTime.getTime() - timeBase.intervalMs;
     const fd = fs.openSync(filePath, 'r');
 
     let batchIndex = 0;
     try {
-      let recordIndex = 0;
+      let recordIndex = 0; // decoded records so far
 
-      while (recordIndex < totalRecords) {
-        const currentBatchSize = Math.min(batchSize, totalRecords - recordIndex);
+      for (const chunk of chunks) {
+        const currentBatchSize = chunk.count;
         const buffer = Buffer.alloc(currentBatchSize * recordSize);
 
         // Read batch of records
-        const offset = headerSize + (recordIndex * recordSize);
+        const offset = headerSize + (chunk.startRecord * recordSize);
         fs.readSync(fd, buffer, 0, buffer.length, offset);
 
-        // Create batch data structure
-        const batch: ParsedData = this.createEmptyDataStructure();
+        const batch = SensorColumns.forLayout(layout, currentBatchSize);
 
         // Process records in this batch
         for (let i = 0; i < currentBatchSize; i++) {
           const bufferOffset = i * recordSize;
 
-          // Time progression (1 second intervals for MP)
-          batch.RTD.push(new Date(baseTime.getTime() + ((recordIndex + i) * 1000)));
-
-          // MP-specific data - temperature in Celsius, convert to Fahrenheit for display
-          const tempCelsius = this.readFloat32LE(buffer, bufferOffset + 0);
-          const tempFahrenheit = tempCelsius != null && !isNaN(tempCelsius) ? (tempCelsius * 9/5) + 32 : null;
-          batch.TempMP.push(tempFahrenheit);
-          batch.ResetMP.push(this.readUInt8(buffer, bufferOffset + 4));
-          
-          // Battery voltage with validation (typical range 9-18V for industrial equipment)
-          const battVolt = this.readFloat32LE(buffer, bufferOffset + 8);
-          batch.BatteryVoltMP.push(this.isValidValue(battVolt, 0, 50) ? battVolt : null);
-          
-          // Battery current with validation (typical range 0-10A for pumps)
-          const battCurr = this.readFloat32LE(buffer, bufferOffset + 12);
-          batch.BatteryCurrMP.push(this.isValidValue(battCurr, -50, 50) ? battCurr : null);
-
-          // Flow status
-          const flowVal = this.readUInt8(buffer, bufferOffset + 16);
-          batch.FlowStatus.push(flowVal > 0 ? 'On' : 'Off');
-
-          // Vibration data with validation (typical range 0-50g for industrial equipment)
-          const maxX = this.readFloat32LE(buffer, bufferOffset + 20);
-          const maxY = this.readFloat32LE(buffer, bufferOffset + 24);
-          const maxZ = this.readFloat32LE(buffer, bufferOffset + 28);
-          
-          batch.MaxX.push(this.isValidValue(maxX, -100, 100) ? maxX : null);
-          batch.MaxY.push(this.isValidValue(maxY, -100, 100) ? maxY : null);
-          batch.MaxZ.push(this.isValidValue(maxZ, -100, 100) ? maxZ : null);
-          batch.Threshold.push(1.5);
-
-          // Motor current data with validation (typical range 0-10A for pumps)
-          const motorMin = this.readFloat32LE(buffer, bufferOffset + 32);
-          const motorAvg = this.readFloat32LE(buffer, bufferOffset + 36);
-          const motorMax = this.readFloat32LE(buffer, bufferOffset + 40);
-          const motorHall = this.readFloat32LE(buffer, bufferOffset + 44);
-          
-          batch.MotorMin.push(this.isValidValue(motorMin, 0, 20) ? motorMin : null);
-          batch.MotorAvg.push(this.isValidValue(motorAvg, 0, 20) ? motorAvg : null);
-          batch.MotorMax.push(this.isValidValue(motorMax, 0, 20) ? motorMax : null);
-          batch.MotorHall.push(this.isValidValue(motorHall, 0, 10000) ? motorHall : null);
-
-          // Actuation time
-          batch.ActuationTime.push(this.readFloat32LE(buffer, bufferOffset + 48));
-
-          // MDG-specific fields (not available in MP) - set to null
-          batch.AccelAX.push(null);
-          batch.AccelAY.push(null);
-          batch.AccelAZ.push(null);
-          batch.ShockZ.push(null);
-          batch.ShockX.push(null);
-          batch.ShockY.push(null);
-          batch.ShockCountAxial50.push(null);
-          batch.ShockCountAxial100.push(null);
-          batch.ShockCountLat50.push(null);
-          batch.ShockCountLat100.push(null);
-          
-          // ROTATION SPEED DATA EXTRACTION - Enhanced for MP files
-          // MP files may contain rotation data in extended record format
-          // Check for rotation data at multiple possible offsets
-          let rotationDataFound = false;
-          
-          // Try primary offset (52-63 bytes) - standard location
-          if (bufferOffset + 63 < buffer.length) {
-            const rpmMax = this.readFloat32LE(buffer, bufferOffset + 52);
-            const rpmAvg = this.readFloat32LE(buffer, bufferOffset + 56);
-            const rpmMin = this.readFloat32LE(buffer, bufferOffset + 60);
-            
-            // Validate rotation data - industrial pumps typically 0-5000 RPM
-            const isValidRPM = (rpm: number) => rpm >= 0 && rpm <= 5000 && isFinite(rpm) && !isNaN(rpm);
-            
-            if (isValidRPM(rpmMax) || isValidRPM(rpmAvg) || isValidRPM(rpmMin)) {
-              batch.RotRpmMax.push(isValidRPM(rpmMax) ? rpmMax : null);
-              batch.RotRpmAvg.push(isValidRPM(rpmAvg) ? rpmAvg : null);
-              batch.RotRpmMin.push(isValidRPM(rpmMin) ? rpmMin : null);
-              rotationDataFound = true;
-            }
-          }
-          
-          // If no valid rotation data found, try alternative parsing approach
-          if (!rotationDataFound) {
-            // Some MP files may encode rotation data differently
-            // Try extracting from motor hall sensor data correlation
-            const motorHall = this.readFloat32LE(buffer, bufferOffset + 44);
-            if (motorHall > 0 && motorHall < 10000 && isFinite(motorHall)) {
-              // Estimate RPM from motor hall frequency (approximation)
-              const estimatedRPM = Math.round(motorHall * 0.5); // Conversion factor based on typical motor configuration
-              if (estimatedRPM >= 0 && estimatedRPM <= 5000) {
-                batch.RotRpmMax.push(estimatedRPM);
-                batch.RotRpmAvg.push(Math.round(estimatedRPM * 0.85)); // Typical average is ~85% of max
-                batch.RotRpmMin.push(Math.round(estimatedRPM * 0.65)); // Typical minimum is ~65% of max
-                rotationDataFound = true;
-              }
-            }
-          }
-          
-          // If still no rotation data, set to null (rotation may not be available in all MP configurations)
-          if (!rotationDataFound) {
-            batch.RotRpmMax.push(null);
-            batch.RotRpmAvg.push(null);
-            batch.RotRpmMin.push(null);
+          let time = timeBase.startTime.getTime() + ((recordIndex + i) * timeBase.intervalMs);
+          if (recordClock !== undefined) {
+            const clock = epochSecondsToDate(buffer.readUInt32LE(bufferOffset + recordClock));
+            time = clock ? clock.getTime() : previousTime + timeBase.intervalMs;
           }
+          previousTime = time;
+          batch.time[i] = time;
 
-          // Extract voltage data from MP files if available within 64-byte record
-          // Need to be careful about offsets since MP record is only 64 bytes total
-          if (bufferOffset + 64 <= buffer.length) {
-            // Try to extract voltage data, but only if it fits within the record size
-            // Note: Some voltage data may not be available in MP files
-            batch.V3_3VA_DI.push(null); // Not available in MP
-            batch.V5VD.push(null);      // Not available in MP  
-            batch.V3_3VD.push(null);    // Not available in MP
-            batch.V1_9VD.push(null);    // Not available in MP
-            batch.V1_5VD.push(null);    // Not available in MP
-            batch.V1_8VA.push(null);    // Not available in MP
-            batch.V3_3VA.push(null);    // Not available in MP
-            batch.VBatt.push(this.readFloat32LE(buffer, bufferOffset + 8)); // Same as batteryVoltMP
-            batch.I5VD.push(null);      // Not available in MP
-            batch.I3_3VD.push(null);    // Not available in MP
-            batch.IBatt.push(this.readFloat32LE(buffer, bufferOffset + 12)); // Same as batteryCurrMP
-          } else {
-            batch.V3_3VA_DI.push(null);
-            batch.V5VD.push(null);
-            batch.V3_3VD.push(null);
-            batch.V1_9VD.push(null);
-            batch.V1_5VD.push(null);
-            batch.V1_8VA.push(null);
-            batch.V3_3VA.push(null);
-            batch.VBatt.push(null);
-            batch.I5VD.push(null);
-            batch.I3_3VD.push(null);
-            batch.IBatt.push(null);
-          }
+          const padding = isPaddingRecord(buffer, bufferOffset, recordSize);
+          if (padding) dataQuality.paddingRecords++;
 
-          batch.Gamma.push(null);
-          batch.AccelStabX.push(null);
-          batch.AccelStabY.push(null);
-          batch.AccelStabZ.push(null);
-          batch.AccelStabZH.push(null);
-          batch.SurveyTGF.push(null);
-          batch.SurveyTMF.push(null);
-          batch.SurveyDipA.push(null);
-          batch.SurveyINC.push(null);
-          batch.SurveyCINC.push(null);
-          batch.SurveyAZM.push(null);
-          batch.SurveyCAZM.push(null);
+          fields.forEach((field, f) => {
+            const { value, quality } = decodeLayoutField(buffer, bufferOffset, field, padding);
+            batch.setSample(field.name, i, value, quality);
+            dataQuality.channels[fieldColumns[f]][quality]++;
+          });
         }
 
         // Process batch through callback
@@ -426,39 +279,13 @@ export class BinaryParser {
 
         recordIndex += currentBatchSize;
         batchIndex++;
-
-        // More aggressive memory cleanup after each batch
-        Object.keys(batch).forEach(key => {
-          if (Array.isArray((batch as any)[key])) {
-            (batch as any)[key].length = 0;
-            (batch as any)[key] = null;
-          }
-        });
-
-        // Force garbage collection more frequently for large files
-        if (global.gc && batchIndex % 3 === 0) {
-          global.gc();
-        }
       }
     } finally {
       fs.closeSync(fd);
-      console.log(`✅ MP FILE PROCESSING COMPLETE: ${totalRecords} records processed in ${batchIndex || 0} batches`);
+      console.log(`✅ ${layout.toolType} FILE PROCESSING COMPLETE: ${totalRecords} records processed in ${batchIndex || 0} batches (layout ${layout.id})`);
     }
-  }
 
-  // Helper to create empty data structure
-  static createEmptyDataStructure(): ParsedData {
-    return {
-      RTD: [], TempMP: [], ResetMP: [], BatteryCurrMP: [], BatteryVoltMP: [], FlowStatus: [],
-      MaxX: [], MaxY: [], MaxZ: [], Threshold: [], MotorMin: [], MotorAvg: [], MotorMax: [], 
-      MotorHall: [], ActuationTime: [], AccelAX: [], AccelAY: [], AccelAZ: [], ShockZ: [], 
-      ShockX: [], ShockY: [], ShockCountAxial50: [], ShockCountAxial100: [], ShockCountLat50: [], 
-      ShockCountLat100: [], RotRpmMax: [], RotRpmAvg: [], RotRpmMin: [], V3_3VA_DI: [], V5VD: [], 
-      V3_3VD: [], V1_9VD: [], V1_5VD: [], V1_8VA: [], V3_3VA: [], VBatt: [], I5VD: [], I3_3VD: [], 
-      IBatt: [], Gamma: [], AccelStabX: [], AccelStabY: [], AccelStabZ: [], AccelStabZH: [], 
-      SurveyTGF: [], SurveyTMF: [], SurveyDipA: [], SurveyINC: [], SurveyCINC: [], SurveyAZM: [], 
-      SurveyCAZM: []
-    };
+    return dataQuality;
   }
 
   // Helper method to validate sensor values and filter out extreme/invalid readings
@@ -472,473 +299,236 @@ export class BinaryParser {
            Math.abs(value) < 1e10; // Filter out scientific notation extremes
   }
 
-  // Extract timestamp from filename
-  static extractTimestamp(filename: string): Date {
-    const timestampMatch = filename.match(/(\d{8})_(\d{6})/);
-    if (timestampMatch) {
-      const dateStr = timestampMatch[1];
-      const timeStr = timestampMatch[2];
-      const year = parseInt(dateStr.substr(0, 4));
-      const month = parseInt(dateStr.substr(4, 2)) - 1;
-      const day = parseInt(dateStr.substr(6, 2));
-      const hour = parseInt(timeStr.substr(0, 2));
-      const minute = parseInt(timeStr.substr(2, 2));
-      const second = parseInt(timeStr.substr(4, 2));
-      return new Date(year, month, day, hour, minute, second);
-    }
-    return new Date();
-  }
-
-  // Binary data reading helpers with enhanced error handling
+  // Header reading helpers. A value that is missing or not a finite number reads as NaN
+  // so callers cannot mistake it for a genuine 0.
   static readFloat32LE(buffer: Buffer, offset: number): number {
-    if (offset + 4 > buffer.length) return 0;
-    try {
-      const value = buffer.readFloatLE(offset);
-      // Return 0 for invalid float values (NaN, Infinity, etc.)
-      return (isFinite(value) && !isNaN(value)) ? value : 0;
-    } catch {
-      return 0;
-    }
+    if (offset + 4 > buffer.length) return NaN;
+    const value = buffer.readFloatLE(offset);
+    return isFinite(value) ? value : NaN;
   }
 
   static readUInt8(buffer: Buffer, offset: number): number {
-    if (offset >= buffer.length) return 0;
-    try {
-      return buffer.readUInt8(offset);
-    } catch {
-      return 0;
-    }
+    return offset + 1 > buffer.length ? NaN : buffer.readUInt8(offset);
   }
 
   static readUInt16LE(buffer: Buffer, offset: number): number {
-    if (offset + 2 > buffer.length) return 0;
-    try {
-      return buffer.readUInt16LE(offset);
-    } catch {
-      return 0;
-    }
+    return offset + 2 > buffer.length ? NaN : buffer.readUInt16LE(offset);
   }
 
   static readUInt32LE(buffer: Buffer, offset: number): number {
-    if (offset + 4 > buffer.length) return 0;
-    try {
-      return buffer.readUInt32LE(offset);
-    } catch {
-      return 0;
-    }
+    return offset + 4 > buffer.length ? NaN : buffer.readUInt32LE(offset);
   }
 
-  // Convert parsed data to sensor data array format
-  static convertToSensorDataArray(parsedData: ParsedData, dumpId: number): InsertSensorData[] {
-    const results: InsertSensorData[] = [];
-    const recordCount = parsedData.RTD.length;
-
-    for (let i = 0; i < recordCount; i++) {
-      results.push({
-        dumpId,
-        rtd: parsedData.RTD[i],
-        tempMP: parsedData.TempMP[i] || null,
-        resetMP: parsedData.ResetMP[i] || null,
-        batteryCurrMP: parsedData.BatteryCurrMP[i] || null,
-        batteryVoltMP: parsedData.BatteryVoltMP[i] || null,
-        flowStatus: parsedData.FlowStatus[i] || null,
-        maxX: parsedData.MaxX[i] || null,
-        maxY: parsedData.MaxY[i] || null,
-        maxZ: parsedData.MaxZ[i] || null,
-        threshold: parsedData.Threshold[i] || null,
-        motorMin: parsedData.MotorMin[i] || null,
-        motorAvg: parsedData.MotorAvg[i] || null,
-        motorMax: parsedData.MotorMax[i] || null,
-        motorHall: parsedData.MotorHall[i] || null,
-        actuationTime: parsedData.ActuationTime[i] || null,
-        accelAX: parsedData.AccelAX[i] || null,
-        accelAY: parsedData.AccelAY[i] || null,
-        accelAZ: parsedData.AccelAZ[i] || null,
-        shockZ: parsedData.ShockZ[i] || null,
-        shockX: parsedData.ShockX[i] || null,
-        shockY: parsedData.ShockY[i] || null,
-        shockCountAxial50: parsedData.ShockCountAxial50[i] || null,
-        shockCountAxial100: parsedData.ShockCountAxial100[i] || null,
-        shockCountLat50: parsedData.ShockCountLat50[i] || null,
-        shockCountLat100: parsedData.ShockCountLat100[i] || null,
-        rotRpmMax: parsedData.RotRpmMax[i] || null,
-        rotRpmAvg: parsedData.RotRpmAvg[i] || null,
-        rotRpmMin: parsedData.RotRpmMin[i] || null,
-        v3_3VA_DI: parsedData.V3_3VA_DI[i] || null,
-        v5VD: parsedData.V5VD[i] || null,
-        v3_3VD: parsedData.V3_3VD[i] || null,
-        v1_9VD: parsedData.V1_9VD[i] || null,
-        v1_5VD: parsedData.V1_5VD[i] || null,
-        v1_8VA: parsedData.V1_8VA[i] || null,
-        v3_3VA: parsedData.V3_3VA[i] || null,
-        vBatt: parsedData.VBatt[i] || null,
-        i5VD: parsedData.I5VD[i] || null,
-        i3_3VD: parsedData.I3_3VD[i] || null,
-        iBatt: parsedData.IBatt[i] || null,
-        gamma: parsedData.Gamma[i] || null,
-        accelStabX: parsedData.AccelStabX[i] || null,
-        accelStabY: parsedData.AccelStabY[i] || null,
-        accelStabZ: parsedData.AccelStabZ[i] || null,
-        accelStabZH: parsedData.AccelStabZH[i] || null,
-        surveyTGF: parsedData.SurveyTGF[i] || null,
-        surveyTMF: parsedData.SurveyTMF[i] || null,
-        surveyDipA: parsedData.SurveyDipA[i] || null,
-        surveyINC: parsedData.SurveyINC[i] || null,
-        surveyCINC: parsedData.SurveyCINC[i] || null,
-        surveyAZM: parsedData.SurveyAZM[i] || null,
-        surveyCAZM: parsedData.SurveyCAZM[i] || null,
-      });
-    }
-
-    return results;
-  }
-
-  // Extract device information from binary header - ACTUAL BINARY DATA EXTRACTION
+  // Extract device information from the binary header. Every value is either decoded from a
+  // header offset or left null; the provenance records which offset it came from, whether a
+  // layout documents that offset, or why it is missing. Values computed from the sensor
+  // records are filled in after parsing.
   static extractDeviceInfo(buffer: Buffer, filename: string, fileType: string): InsertDeviceReport {
-    const isMDG = filename.includes('MDG');
-    const isMP = filename.includes('MP');
+    const isMDG = fileType === 'MDG';
+    const isMP = fileType === 'MP';
 
     console.log(`🔍 EXTRACTING REAL DEVICE DATA from ${fileType} binary header (${buffer.length} bytes)...`);
 
-    // Initialize all variables
-    let mpSerialNumber = null;
-    let mdgSerialNumber = null;
-    let mpFirmwareVersion = null;
-    let mdgFirmwareVersion = null;
-    let circulationHours = null;
-    let numberOfPulses = null;
-    let motorOnTimeMinutes = null;
-    let commErrorsTimeMinutes = null;
-    let commErrorsPercent = null;
-    let hallStatusTimeMinutes = null;
-    let hallStatusPercent = null;
-    let mpMaxTempCelsius = null;
-    let mpMaxTempFahrenheit = null;
-    let mdgEdtTotalHours = null;
-    let mdgExtremeShockIndex = null;
-    let mdgMaxTempCelsius = null;
-    let mdgMaxTempFahrenheit = null;
-
-    // PARSE ACTUAL BINARY HEADER DATA - using known device header structure
-    if (buffer.length >= 256) {
-      try {
-        console.log(`📊 BINARY HEADER ANALYSIS - First 32 bytes: ${buffer.subarray(0, 32).toString('hex')}`);
-
-        // EXTRACT SERIAL NUMBER FROM BINARY DATA - Enhanced parsing
-        if (isMP) {
-          // Try multiple methods to extract serial number from MP files
-          const serialAtOffset2 = this.readUInt16LE(buffer, 2);
-          const serialAtOffset4 = this.readUInt32LE(buffer, 4);
-          const serialAtOffset6 = this.readUInt16LE(buffer, 6);
-          const serialAtOffset8 = this.readUInt32LE(buffer, 8);
-          const serialAtOffset12 = this.readUInt32LE(buffer, 12);
-          const serialAtOffset16 = this.readUInt32LE(buffer, 16);
-
-          console.log(`🔍 MP SERIAL CANDIDATES: offset2=${serialAtOffset2}, offset4=${serialAtOffset4}, offset6=${serialAtOffset6}, offset8=${serialAtOffset8}, offset12=${serialAtOffset12}, offset16=${serialAtOffset16}`);
-
-          // Check 16-bit values first (more common for device IDs)
-          const candidates16 = [serialAtOffset2, serialAtOffset6];
-          for (const candidate of candidates16) {
-            if (candidate >= 1000 && candidate <= 9999) {
-              mpSerialNumber = candidate.toString();
-              console.log(`✅ EXTRACTED MP SERIAL NUMBER (16-bit): ${mpSerialNumber} from binary data`);
-              break;
-            }
-          }
-
-          // If no 16-bit serial found, try 32-bit values
-          if (!mpSerialNumber) {
-            const candidates32 = [serialAtOffset4, serialAtOffset8, serialAtOffset12, serialAtOffset16];
-            for (const candidate of candidates32) {
-              if (candidate >= 1000 && candidate <= 99999) {
-                mpSerialNumber = candidate.toString();
-                console.log(`✅ EXTRACTED MP SERIAL NUMBER (32-bit): ${mpSerialNumber} from binary data`);
-                break;
-              }
-            }
-          }
+    const report: InsertDeviceReport = {
+      dumpId: 0,
+      mpSerialNumber: null,
+      mpFirmwareVersion: null,
+      mpMaxTempCelsius: null,
+      mpMaxTempFahrenheit: null,
+      mdgSerialNumber: null,
+      mdgFirmwareVersion: null,
+      mdgMaxTempCelsius: null,
+      mdgMaxTempFahrenheit: null,
+      circulationHours: null,
+      numberOfPulses: null,
+      motorOnTimeMinutes: null,
+      commErrorsTimeMinutes: null,
+      commErrorsPercent: null,
+      hallStatusTimeMinutes: null,
+      hallStatusPercent: null,
+      mdgEdtTotalHours: null,
+      mdgExtremeShockIndex: null,
+    };
+    const provenance: DeviceReportProvenance = {};
+
+    const fields: DeviceReportField[] = isMP
+      ? ['mpSerialNumber', 'mpFirmwareVersion', 'mpMaxTempCelsius', 'mpMaxTempFahrenheit',
+         'circulationHours', 'numberOfPulses', 'motorOnTimeMinutes',
+         'commErrorsTimeMinutes', 'commErrorsPercent', 'hallStatusTimeMinutes', 'hallStatusPercent']
+      : isMDG
+        ? ['mdgSerialNumber', 'mdgFirmwareVersion', 'mdgMaxTempCelsius', 'mdgMaxTempFahrenheit',
+           'circulationHours', 'numberOfPulses', 'motorOnTimeMinutes',
+           'commErrorsTimeMinutes', 'commErrorsPercent', 'hallStatusTimeMinutes', 'hallStatusPercent',
+           'mdgEdtTotalHours', 'mdgExtremeShockIndex']
+        : [];
+    for (const field of fields) {
+      provenance[field] = { source: 'unavailable', reason: 'No plausible value in the dump header' };
+    }
 
-          // Final fallback: use file content hash for consistent serial
-          if (!mpSerialNumber) {
-            const contentHash = buffer.subarray(0, 32).reduce((sum, byte) => sum + byte, 0);
-            mpSerialNumber = (2000 + (contentHash % 8000)).toString();
-            console.log(`✅ GENERATED MP SERIAL NUMBER: ${mpSerialNumber} from file content hash`);
-          }
-        }
+    if (buffer.length < 256) {
+      for (const field of fields) {
+        provenance[field] = { source: 'unavailable', reason: `Header is only ${buffer.length} bytes` };
+      }
+      report.provenance = provenance;
+      return report;
+    }
 
-        if (isMDG) {
-          // Enhanced MDG serial number extraction
-          const serialAtOffset2 = this.readUInt16LE(buffer, 2);
-          const serialAtOffset6 = this.readUInt16LE(buffer, 6);
-          const serialAtOffset10 = this.readUInt16LE(buffer, 10);
-          const serialAtOffset14 = this.readUInt16LE(buffer, 14);
-          const serialAtOffset18 = this.readUInt16LE(buffer, 18);
-          const serialAtOffset22 = this.readUInt16LE(buffer, 22);
-
-          console.log(`🔍 MDG SERIAL CANDIDATES: offset2=${serialAtOffset2}, offset6=${serialAtOffset6}, offset10=${serialAtOffset10}, offset14=${serialAtOffset14}, offset18=${serialAtOffset18}, offset22=${serialAtOffset22}`);
-
-          const candidates = [serialAtOffset2, serialAtOffset6, serialAtOffset10, serialAtOffset14, serialAtOffset18, serialAtOffset22];
-          for (const candidate of candidates) {
-            if (candidate >= 1000 && candidate <= 9999) {
-              mdgSerialNumber = candidate.toString();
-              console.log(`✅ EXTRACTED MDG SERIAL NUMBER: ${mdgSerialNumber} from binary data`);
-              break;
-            }
-          }
+    console.log(`📊 BINARY HEADER ANALYSIS - First 32 bytes: ${buffer.subarray(0, 32).toString('hex')}`);
 
-          // Fallback: use file content hash for consistent serial
-          if (!mdgSerialNumber) {
-            const contentHash = buffer.subarray(0, 32).reduce((sum, byte) => sum + byte, 0);
-            mdgSerialNumber = (3000 + (contentHash % 7000)).toString();
-            console.log(`✅ GENERATED MDG SERIAL NUMBER: ${mdgSerialNumber} from file content hash`);
-          }
+    // No layout documents where these header values live, so each is inferred: the first
+    // candidate offset whose value is plausible for the field. Bytes already read for one
+    // field are never offered to another.
+    const claimed = new Set<number>();
+    const claim = (offset: number, size: number) => {
+      for (let byte = offset; byte < offset + size; byte++) claimed.add(byte);
+    };
+    const scan = (
+      type: 'u16' | 'u32' | 'f32',
+      offsets: number[],
+      accept: (value: number) => boolean
+    ): { value: number; offset: number; provenance: FieldProvenance } | null => {
+      const size = type === 'u16' ? 2 : 4;
+      for (const offset of offsets) {
+        if (Array.from({ length: size }, (_, i) => offset + i).some(byte => claimed.has(byte))) continue;
+        const value = type === 'u16' ? this.readUInt16LE(buffer, offset)
+          : type === 'u32' ? this.readUInt32LE(buffer, offset)
+          : this.readFloat32LE(buffer, offset);
+        if (isFinite(value) && accept(value)) {
+          claim(offset, size);
+          return { value, offset, provenance: { source: 'inferred', offset, type, candidates: offsets } };
         }
+      }
+      return null;
+    };
 
-        // EXTRACT FIRMWARE VERSION FROM BINARY DATA
-        // Firmware versions often stored as version bytes (major.minor.patch)
-        if (isMP) {
-          const major = this.readUInt8(buffer, 24);
-          const minor = this.readUInt8(buffer, 25);
-          const patch = this.readUInt8(buffer, 26);
-          
-          if (major > 0 && major < 20 && minor >= 0 && minor < 20 && patch >= 0 && patch < 20) {
-            mpFirmwareVersion = `${major}.${minor}.${patch}`;
-            console.log(`✅ EXTRACTED MP FIRMWARE: ${mpFirmwareVersion} from binary offsets 24-26`);
-          } else {
-            // Fallback to realistic version
-            mpFirmwareVersion = "10.1.3";
-          }
-        }
+    // FIRMWARE VERSION - major.minor.patch bytes at the offset of the selected record layout
+    const selection = selectRecordLayout(fileType, buffer);
+    const firmwareOffset = selection?.layout.header.firmwareVersionOffset ?? null;
+    const firmware = selection?.firmwareVersion ?? null;
+    if (firmwareOffset !== null) claim(firmwareOffset, 3);
+    if (firmware && firmwareOffset !== null && (isMP || isMDG)) {
+      const field = isMP ? 'mpFirmwareVersion' : 'mdgFirmwareVersion';
+      report[field] = firmware;
+      provenance[field] = { source: 'header', offset: firmwareOffset, type: 'version' };
+      console.log(`✅ EXTRACTED ${fileType} FIRMWARE: ${firmware} from binary offsets ${firmwareOffset}-${firmwareOffset + 2}`);
+    }
 
-        if (isMDG) {
-          const major = this.readUInt8(buffer, 28);
-          const minor = this.readUInt8(buffer, 29);
-          const patch = this.readUInt8(buffer, 30);
-          
-          if (major > 0 && major < 20 && minor >= 0 && minor < 20 && patch >= 0 && patch < 20) {
-            mdgFirmwareVersion = `${major}.${minor}.${patch}`;
-            console.log(`✅ EXTRACTED MDG FIRMWARE: ${mdgFirmwareVersion} from binary offsets 28-30`);
-          } else {
-            // Fallback to realistic version  
-            mdgFirmwareVersion = "9.1.2";
-          }
-        }
+    // SERIAL NUMBER - 16-bit device IDs first, then 32-bit
+    if (isMP) {
+      const serial = scan('u16', [2, 6], v => v >= 1000 && v <= 9999)
+        ?? scan('u32', [4, 8, 12, 16], v => v >= 1000 && v <= 99999);
+      if (serial) {
+        report.mpSerialNumber = serial.value.toString();
+        provenance.mpSerialNumber = serial.provenance;
+        console.log(`✅ INFERRED MP SERIAL NUMBER: ${report.mpSerialNumber} from binary offset ${serial.offset}`);
+      }
+    }
 
-        // EXTRACT OPERATIONAL STATISTICS FROM BINARY DATA
-        // Enhanced extraction with better validation and user-friendly values
-        
-        // Try multiple offsets for circulation hours
-        let foundCirculationHours = false;
-        const offsets = [32, 36, 40, 44, 48];
-        for (const offset of offsets) {
-          const rawHours = this.readFloat32LE(buffer, offset);
-          if (rawHours > 0 && rawHours < 10000 && isFinite(rawHours)) {
-            circulationHours = Math.round(rawHours * 10) / 10;
-            console.log(`✅ EXTRACTED CIRCULATION HOURS: ${circulationHours} from binary offset ${offset}`);
-            foundCirculationHours = true;
-            break;
-          }
-        }
+    if (isMDG) {
+      const serial = scan('u16', [2, 6, 10, 14, 18, 22], v => v >= 1000 && v <= 9999);
+      if (serial) {
+        report.mdgSerialNumber = serial.value.toString();
+        provenance.mdgSerialNumber = serial.provenance;
+        console.log(`✅ INFERRED MDG SERIAL NUMBER: ${report.mdgSerialNumber} from binary offset ${serial.offset}`);
+      }
+    }
 
-        // If no valid circulation hours found, derive from file content
-        if (!foundCirculationHours) {
-          const hoursSeed = buffer.subarray(20, 32).reduce((sum, byte) => sum + byte, 0);
-          circulationHours = Math.round((100 + (hoursSeed % 300)) * 10) / 10;
-          console.log(`✅ DERIVED CIRCULATION HOURS: ${circulationHours} from file content`);
-        }
+    // OPERATIONAL STATISTICS
+    // Below 0.1 h the value rounds to zero - treat denormal garbage as missing
+    const circulation = scan('f32', [32, 36, 40, 44, 48], v => v >= 0.1 && v < 10000);
+    if (circulation) {
+      report.circulationHours = Math.round(circulation.value * 10) / 10;
+      provenance.circulationHours = circulation.provenance;
+      console.log(`✅ INFERRED CIRCULATION HOURS: ${report.circulationHours} from binary offset ${circulation.offset}`);
+    }
 
-        // Extract pulse count with multiple attempts
-        let foundPulses = false;
-        const pulseOffsets = [40, 44, 48, 52];
-        for (const offset of pulseOffsets) {
-          const rawPulses = this.readUInt32LE(buffer, offset);
-          if (rawPulses > 10000 && rawPulses < 2000000) {
-            numberOfPulses = rawPulses;
-            console.log(`✅ EXTRACTED PULSE COUNT: ${numberOfPulses} from binary offset ${offset}`);
-            foundPulses = true;
-            break;
-          }
-        }
+    const pulses = scan('u32', [40, 44, 48, 52], v => v > 10000 && v < 2000000);
+    if (pulses) {
+      report.numberOfPulses = pulses.value;
+      provenance.numberOfPulses = pulses.provenance;
+      console.log(`✅ INFERRED PULSE COUNT: ${report.numberOfPulses} from binary offset ${pulses.offset}`);
+    }
 
-        // Generate realistic pulse count if not found
-        if (!foundPulses) {
-          const pulsesSeed = buffer.subarray(32, 48).reduce((sum, byte) => sum + byte, 0);
-          numberOfPulses = Math.floor(50000 + (pulsesSeed * 200) + (circulationHours * 750));
-          console.log(`✅ DERIVED PULSE COUNT: ${numberOfPulses} from file content and circulation hours`);
-        }
+    provenance.motorOnTimeMinutes = { source: 'unavailable', reason: 'Not stored in the dump header' };
+
+    // MAXIMUM TEMPERATURE - logged in Celsius
+    if (isMP || isMDG) {
+      const temp = scan('f32', isMP ? [48, 52, 56, 60] : [52, 56, 60, 64], v => v > 10 && v < 200);
+      if (temp) {
+        const celsius = isMP ? 'mpMaxTempCelsius' : 'mdgMaxTempCelsius';
+        const fahrenheit = isMP ? 'mpMaxTempFahrenheit' : 'mdgMaxTempFahrenheit';
+        report[celsius] = Math.round(temp.value * 10) / 10;
+        report[fahrenheit] = Math.round((temp.value * 9/5 + 32) * 10) / 10;
+        provenance[celsius] = temp.provenance;
+        provenance[fahrenheit] = temp.provenance;
+        console.log(`✅ INFERRED ${fileType} TEMPERATURE: ${report[celsius]}°C (${report[fahrenheit]}°F) from binary offset ${temp.offset}`);
+      }
+    }
 
-        // Calculate motor on time with realistic percentage
-        motorOnTimeMinutes = Math.round((circulationHours * 60 * 0.88) * 10) / 10; // 88% uptime is realistic
-
-        // EXTRACT TEMPERATURE DATA WITH ENHANCED PARSING
-        // Multiple offset attempts for better data extraction
-        if (isMP) {
-          let foundTemp = false;
-          const tempOffsets = [48, 52, 56, 60];
-          
-          for (const offset of tempOffsets) {
-            const tempCelsiusRaw = this.readFloat32LE(buffer, offset);
-            if (tempCelsiusRaw > 10 && tempCelsiusRaw < 200 && isFinite(tempCelsiusRaw)) {
-              mpMaxTempCelsius = Math.round(tempCelsiusRaw * 10) / 10;
-              mpMaxTempFahrenheit = Math.round((tempCelsiusRaw * 9/5 + 32) * 10) / 10;
-              console.log(`✅ EXTRACTED MP TEMPERATURE: ${mpMaxTempCelsius}°C (${mpMaxTempFahrenheit}°F) from binary offset ${offset}`);
-              foundTemp = true;
-              break;
-            }
-          }
-          
-          // Generate realistic temperature if not found
-          if (!foundTemp) {
-            const tempSeed = buffer.subarray(48, 64).reduce((sum, byte) => sum + byte, 0);
-            // More realistic temperature range for MP devices (operational range)
-            const tempCelsius = 65 + (tempSeed % 45); // 65-110°C range (149-230°F)
-            mpMaxTempCelsius = Math.round(tempCelsius * 10) / 10;
-            mpMaxTempFahrenheit = Math.round((tempCelsius * 9/5 + 32) * 10) / 10;
-            console.log(`✅ DERIVED MP TEMPERATURE: ${mpMaxTempCelsius}°C (${mpMaxTempFahrenheit}°F) from file content`);
-          }
-        }
+    if (isMDG) {
+      // Computed from the sensor records once they are decoded
+      provenance.mdgEdtTotalHours = { source: 'unavailable', reason: 'Not stored in the dump header' };
+      provenance.mdgExtremeShockIndex = { source: 'unavailable', reason: 'Not stored in the dump header' };
+    }
 
-        if (isMDG) {
-          let foundTemp = false;
-          const tempOffsets = [52, 56, 60, 64];
-          
-          for (const offset of tempOffsets) {
-            const tempCelsiusRaw = this.readFloat32LE(buffer, offset);
-            if (tempCelsiusRaw > 10 && tempCelsiusRaw < 200 && isFinite(tempCelsiusRaw)) {
-              mdgMaxTempCelsius = Math.round(tempCelsiusRaw * 10) / 10;
-              mdgMaxTempFahrenheit = Math.round((tempCelsiusRaw * 9/5 + 32) * 10) / 10;
-              console.log(`✅ EXTRACTED MDG TEMPERATURE: ${mdgMaxTempCelsius}°C (${mdgMaxTempFahrenheit}°F) from binary offset ${offset}`);
-              foundTemp = true;
-              break;
-            }
-          }
-          
-          // Generate realistic temperature if not found
-          if (!foundTemp) {
-            const tempSeed = buffer.subarray(52, 68).reduce((sum, byte) => sum + byte, 0);
-            const tempCelsius = 35 + (tempSeed % 60); // 35-95°C range
-            mdgMaxTempCelsius = Math.round(tempCelsius * 10) / 10;
-            mdgMaxTempFahrenheit = Math.round((tempCelsius * 9/5 + 32) * 10) / 10;
-            console.log(`✅ DERIVED MDG TEMPERATURE: ${mdgMaxTempCelsius}°C (${mdgMaxTempFahrenheit}°F) from file content`);
-          }
+    // COMMUNICATION ERRORS AND HALL STATUS - minutes; percentages need the circulation time.
+    // MP dumps have these computed from their records once decoded. A zero cannot be told
+    // apart from a blank header, so a value must survive rounding to 0.01 min to be taken.
+    if (isMP) {
+      provenance.commErrorsTimeMinutes = { source: 'unavailable', reason: 'Not stored in the dump header' };
+      provenance.hallStatusTimeMinutes = { source: 'unavailable', reason: 'Not stored in the dump header' };
+    } else {
+      const commErrors = scan('f32', [80, 84, 88, 92], v => v >= 0.01 && v < 60);
+      if (commErrors) {
+        report.commErrorsTimeMinutes = Math.round(commErrors.value * 100) / 100;
+        provenance.commErrorsTimeMinutes = commErrors.provenance;
+      }
 
-          // Enhanced MDG-specific operational data extraction
-          let foundEdtHours = false;
-          for (const offset of [60, 64, 68, 72]) {
-            const edtHoursRaw = this.readFloat32LE(buffer, offset);
-            if (edtHoursRaw > 0 && edtHoursRaw < 1000 && isFinite(edtHoursRaw)) {
-              mdgEdtTotalHours = Math.round(edtHoursRaw * 10) / 10;
-              foundEdtHours = true;
-              break;
-            }
-          }
-          
-          if (!foundEdtHours) {
-            const hoursSeed = buffer.subarray(60, 72).reduce((sum, byte) => sum + byte, 0);
-            mdgEdtTotalHours = Math.round((15 + (hoursSeed % 50)) * 10) / 10;
-          }
+      const hallStatus = scan('f32', [84, 88, 92, 96], v => v >= 0.01 && v < 30);
+      if (hallStatus) {
+        report.hallStatusTimeMinutes = Math.round(hallStatus.value * 100) / 100;
+        provenance.hallStatusTimeMinutes = hallStatus.provenance;
+      }
+    }
 
-          // Enhanced shock index extraction
-          let foundShockIndex = false;
-          for (const offset of [64, 68, 72, 76]) {
-            const shockIndexRaw = this.readFloat32LE(buffer, offset);
-            if (shockIndexRaw >= 0 && shockIndexRaw < 2 && isFinite(shockIndexRaw)) {
-              mdgExtremeShockIndex = Math.round(shockIndexRaw * 1000) / 1000;
-              foundShockIndex = true;
-              break;
-            }
-          }
-          
-          if (!foundShockIndex) {
-            const shockSeed = buffer.subarray(64, 76).reduce((sum, byte) => sum + byte, 0);
-            mdgExtremeShockIndex = Math.round((0.02 + (shockSeed % 20) / 100) * 1000) / 1000;
-          }
-        }
+    report.provenance = provenance;
+    this.updateTimePercentages(report);
 
-        // Communication and Hall status with realistic operational values
-        // Extract potential communication status from binary data
-        let foundCommErrors = false;
-        for (const offset of [80, 84, 88, 92]) {
-          const commErrorRaw = this.readFloat32LE(buffer, offset);
-          if (commErrorRaw >= 0 && commErrorRaw < 60 && isFinite(commErrorRaw)) {
-            commErrorsTimeMinutes = Math.round(commErrorRaw * 100) / 100;
-            commErrorsPercent = Math.round((commErrorRaw / (circulationHours * 60)) * 10000) / 100;
-            foundCommErrors = true;
-            break;
-          }
-        }
-        
-        if (!foundCommErrors) {
-          // Generate realistic communication error values (very low for healthy devices)
-          const errorSeed = buffer.subarray(80, 96).reduce((sum, byte) => sum + byte, 0);
-          commErrorsTimeMinutes = Math.round((errorSeed % 5) * 10) / 100; // 0.00-0.50 minutes
-          commErrorsPercent = Math.round((commErrorsTimeMinutes / (circulationHours * 60)) * 10000) / 100;
-        }
-        
-        // Hall sensor status - typically operational but can have minor irregularities
-        let foundHallStatus = false;
-        for (const offset of [84, 88, 92, 96]) {
-          const hallStatusRaw = this.readFloat32LE(buffer, offset);
-          if (hallStatusRaw >= 0 && hallStatusRaw < 30 && isFinite(hallStatusRaw)) {
-            hallStatusTimeMinutes = Math.round(hallStatusRaw * 100) / 100;
-            hallStatusPercent = Math.round((hallStatusRaw / (circulationHours * 60)) * 10000) / 100;
-            foundHallStatus = true;
-            break;
-          }
-        }
-        
-        if (!foundHallStatus) {
-          // Generate realistic hall sensor values (minimal for operational devices)
-          const hallSeed = buffer.subarray(84, 100).reduce((sum, byte) => sum + byte, 0);
-          hallStatusTimeMinutes = Math.round((hallSeed % 3) * 10) / 100; // 0.00-0.30 minutes  
-          hallStatusPercent = Math.round((hallStatusTimeMinutes / (circulationHours * 60)) * 10000) / 100;
-        }
+    console.log(`📊 FINAL EXTRACTED DEVICE DATA:`);
+    console.log(`  Serial: ${report.mpSerialNumber || report.mdgSerialNumber || 'unavailable'}`);
+    console.log(`  Firmware: ${report.mpFirmwareVersion || report.mdgFirmwareVersion || 'unavailable'}`);
+    console.log(`  Circulation: ${report.circulationHours ?? 'unavailable'} hrs`);
+    console.log(`  Pulses: ${report.numberOfPulses ?? 'unavailable'}`);
+    console.log(`  Max Temp: ${report.mpMaxTempCelsius ?? report.mdgMaxTempCelsius ?? 'unavailable'}°C`);
 
-        console.log(`📊 FINAL EXTRACTED DEVICE DATA:`);
-        console.log(`  Serial: ${mpSerialNumber || mdgSerialNumber}`);
-        console.log(`  Firmware: ${mpFirmwareVersion || mdgFirmwareVersion}`);
-        console.log(`  Circulation: ${circulationHours} hrs`);
-        console.log(`  Pulses: ${numberOfPulses}`);
-        console.log(`  Motor Time: ${motorOnTimeMinutes} min`);
-        console.log(`  Max Temp: ${mpMaxTempCelsius || mdgMaxTempCelsius}°C`);
-
-      } catch (error) {
-        console.error('❌ Error parsing binary device header:', error);
-        // Fallback to basic extraction if header parsing fails
-        if (isMP) {
-          mpSerialNumber = "0001";
-          mpFirmwareVersion = "10.1.3";
-          circulationHours = 100.0;
-          numberOfPulses = 75000;
-          motorOnTimeMinutes = 5100.0;
-        } else if (isMDG) {
-          mdgSerialNumber = "0002";
-          mdgFirmwareVersion = "9.1.2";
-          mdgEdtTotalHours = 25.0;
-          mdgExtremeShockIndex = 0.05;
-        }
+    return report;
+  }
+
+  // Express header comm-error and hall-status minutes as a share of circulation time. Call
+  // again whenever either input changes (e.g. circulation hours computed from sensor data).
+  // MP dumps compute both percentages from their records instead.
+  static updateTimePercentages(report: InsertDeviceReport): void {
+    const provenance = (report.provenance || {}) as DeviceReportProvenance;
+    const circulationMinutes = report.circulationHours != null ? report.circulationHours * 60 : null;
+
+    const pairs: [DeviceReportField, 'commErrorsPercent' | 'hallStatusPercent'][] = [
+      ['commErrorsTimeMinutes', 'commErrorsPercent'],
+      ['hallStatusTimeMinutes', 'hallStatusPercent'],
+    ];
+    for (const [minutesField, percentField] of pairs) {
+      const minutes = report[minutesField] as number | null | undefined;
+      if (minutes != null && circulationMinutes != null && circulationMinutes > 0) {
+        report[percentField] = Math.round((minutes / circulationMinutes) * 10000) / 100;
+        provenance[percentField] = { source: 'computed', method: `${minutesField} / (circulationHours × 60)` };
+      } else {
+        report[percentField] = null;
+        provenance[percentField] = {
+          source: 'unavailable',
+          reason: minutes == null ? `${minutesField} is unavailable` : 'Circulation time is unavailable or zero',
+        };
       }
     }
 
-    return {
-      dumpId: 0,
-      mpSerialNumber,
-      mpFirmwareVersion,
-      mpMaxTempCelsius,
-      mpMaxTempFahrenheit,
-      mdgSerialNumber,
-      mdgFirmwareVersion,
-      mdgMaxTempCelsius,
-      mdgMaxTempFahrenheit,
-      circulationHours,
-      numberOfPulses,
-      motorOnTimeMinutes,
-      commErrorsTimeMinutes,
-      commErrorsPercent,
-      hallStatusTimeMinutes,
-      hallStatusPercent,
-      mdgEdtTotalHours,
-      mdgExtremeShockIndex,
-    };
+    report.provenance = provenance;
   }
-}
\ No newline at end of file
+}
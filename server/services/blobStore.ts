@@ -0,0 +1,66 @@
+import fs from 'fs';
+import path from 'path';
+import { hashFile } from './contentHash';
+
+// Content-addressed archive of the original .bin uploads. Blobs are stored as
+// <root>/<first two hex chars>/<sha256> so identical uploads share one file and
+// old dumps can be re-parsed whenever the parser or analysis improves.
+export class BlobStore {
+  constructor(readonly rootDir: string) {}
+
+  // BLOB_STORE_DIR overrides the default data/blobs directory
+  static fromEnv(env: NodeJS.ProcessEnv = process.env): BlobStore {
+    return new BlobStore(path.resolve(env.BLOB_STORE_DIR || path.join('data', 'blobs')));
+  }
+
+  pathFor(hash: string): string {
+    if (!/^[0-9a-f]{64}$/.test(hash)) {
+      throw new Error(`Invalid blob hash: ${hash}`);
+    }
+    return path.join(this.rootDir, hash.slice(0, 2), hash);
+  }
+
+  has(hash: string): boolean {
+    return fs.existsSync(this.pathFor(hash));
+  }
+
+  // Move a file into the store and return its hash. The source file is consumed.
+  async put(filePath: string, hash?: string): Promise<string> {
+    const contentHash = hash ?? await hashFile(filePath);
+    const target = this.pathFor(contentHash);
+
+    if (fs.existsSync(target)) {
+      await fs.promises.unlink(filePath);
+      return contentHash;
+    }
+
+    await fs.promises.mkdir(path.dirname(target), { recursive: true });
+    // Write under a temporary name first so a crash never leaves a truncated blob behind
+    const temp = `${target}.${process.pid}.tmp`;
+    try {
+      await fs.promises.rename(filePath, temp);
+    } catch (error: any) {
+      if (error?.code !== 'EXDEV') throw error;
+      // Upload directory lives on another device - fall back to copy + unlink
+      await fs.promises.copyFile(filePath, temp);
+      await fs.promises.unlink(filePath);
+    }
+    await fs.promises.rename(temp, target);
+
+    return contentHash;
+  }
+
+  async delete(hash: string): Promise<void> {
+    try {
+      await fs.promises.unlink(this.pathFor(hash));
+    } catch (error: any) {
+      if (error?.code !== 'ENOENT') throw error;
+    }
+  }
+
+  async clear(): Promise<void> {
+    await fs.promises.rm(this.rootDir, { recursive: true, force: true });
+  }
+}
+
+export const blobStore = BlobStore.fromEnv();
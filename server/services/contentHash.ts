@@ -0,0 +1,13 @@
+import crypto from 'crypto';
+import fs from 'fs';
+
+// Stream a file through SHA-256 so large dumps are fingerprinted without buffering them
+export function hashFile(filePath: string): Promise<string> {
+  return new Promise((resolve, reject) => {
+    const hash = crypto.createHash('sha256');
+    fs.createReadStream(filePath)
+      .on('error', reject)
+      .on('data', chunk => hash.update(chunk))
+      .on('end', () => resolve(hash.digest('hex')));
+  });
+}
@@ -0,0 +1,142 @@
+import type { InsertDumpSegment } from '@shared/schema';
+import type { ChannelName, SensorColumns } from './sensorColumns';
+
+// Shock levels the MDG counters are binned at, in g
+const EXTREME_SHOCK_G = 50;
+const SEVERE_SHOCK_G = 100;
+
+// Electronics downhole time: how long the tool logged, the sum of its power-cycle segments.
+// Each segment runs from its first to its last record plus one logging interval, and clock
+// gaps split segments, so time spent switched off between cycles is not counted.
+export function edtHours(segments: InsertDumpSegment[]): { hours: number; cycles: number } {
+  const power = segments.filter(segment => segment.kind === 'power');
+  const seconds = power.reduce((sum, segment) => sum + segment.durationSeconds, 0);
+  return { hours: seconds / 3600, cycles: power.length };
+}
+
+export interface ExtremeShockIndex {
+  index: number;
+  records: number; // records with a shock reading or counter
+  extreme: number; // records with a shock of 50 g or more, but under 100 g
+  severe: number; // records with a shock of 100 g or more
+}
+
+// Extreme-shock index of an MDG dump, between 0 and 1: the mean per-record shock level,
+// where a record scores 1 when it saw a shock of 100 g or more, 0.5 for 50 g or more and 0
+// otherwise. A record saw such a shock when its axial (|ShockZ|) or lateral
+// (√(ShockX² + ShockY²)) peak reached the level, or when the matching ShockCountAxial /
+// ShockCountLat counter for that level is non-zero (the counters count shocks per record).
+// Null when the dump logs no shock channels.
+export function extremeShockIndex(columns: SensorColumns): ExtremeShockIndex | null {
+  let records = 0;
+  let extreme = 0;
+  let severe = 0;
+
+  const reading = (name: ChannelName, i: number) => {
+    const value = columns.value(name, i);
+    return value !== null && isFinite(value) ? value : null;
+  };
+
+  for (let i = 0; i < columns.length; i++) {
+    const z = reading('ShockZ', i);
+    const x = reading('ShockX', i);
+    const y = reading('ShockY', i);
+    const axial50 = reading('ShockCountAxial50', i);
+    const axial100 = reading('ShockCountAxial100', i);
+    const lateral50 = reading('ShockCountLat50', i);
+    const lateral100 = reading('ShockCountLat100', i);
+    if (z === null && x === null && y === null &&
+        axial50 === null && axial100 === null && lateral50 === null && lateral100 === null) continue;
+    records++;
+
+    const axial = Math.abs(z ?? 0);
+    const lateral = Math.hypot(x ?? 0, y ?? 0);
+    const peak = Math.max(axial, lateral);
+    if (peak >= SEVERE_SHOCK_G || (axial100 ?? 0) > 0 || (lateral100 ?? 0) > 0) {
+      severe++;
+    } else if (peak >= EXTREME_SHOCK_G || (axial50 ?? 0) > 0 || (lateral50 ?? 0) > 0) {
+      extreme++;
+    }
+  }
+
+  if (records === 0) return null;
+  return { index: (severe + 0.5 * extreme) / records, records, extreme, severe };
+}
+
+// Motor current above which the MP motor counts as running, in A; lower readings are
+// sensor noise
+const MOTOR_RUNNING_A = 0.1;
+
+export interface HallStatusTime {
+  minutes: number;
+  percent: number | null; // of the time the motor was running
+  stalled: number; // records with motor current but no hall pulses
+  running: number; // records with motor current
+}
+
+// Time the MP motor drew current without turning: records with MotorAvg of at least 0.1 A
+// whose MotorHall reading is under one pulse, times the logging interval. Records without
+// a MotorHall reading are not counted either way. Null when the dump logs no motor current.
+export function hallStatusTime(columns: SensorColumns, intervalMs: number): HallStatusTime | null {
+  if (!columns.has('MotorAvg') || !columns.has('MotorHall')) return null;
+  let running = 0;
+  let stalled = 0;
+  for (let i = 0; i < columns.length; i++) {
+    const current = columns.value('MotorAvg', i);
+    if (current === null || !(current >= MOTOR_RUNNING_A)) continue;
+    running++;
+    const hall = columns.value('MotorHall', i);
+    if (hall !== null && hall < 1) stalled++;
+  }
+  return {
+    minutes: (stalled * intervalMs) / 60000,
+    percent: running > 0 ? (stalled / running) * 100 : null,
+    stalled,
+    running,
+  };
+}
+
+export interface CommErrorTime {
+  minutes: number;
+  percent: number; // of the time the tool should have been logging
+  resets: number;
+  gaps: number;
+}
+
+// Logging time lost to resets and communication gaps. Each reset (a power-cycle segment
+// started by a reset counter change) loses the step from the record before it less one
+// interval, and at least one interval. Within a power cycle every step between records
+// longer than 1.5 intervals loses the step less one interval; longer gaps split power
+// cycles and are time switched off, not errors. The percentage is of the logged time
+// (records × interval) plus the time lost.
+export function commErrorTime(columns: SensorColumns, segments: InsertDumpSegment[], intervalMs: number): CommErrorTime | null {
+  if (columns.length === 0 || !(intervalMs > 0)) return null;
+  const resetStarts = new Set(
+    segments
+      .filter(segment => segment.kind === 'power' && segment.startReason === 'reset')
+      .map(segment => segment.startRecord)
+  );
+  const powerStarts = new Set(
+    segments.filter(segment => segment.kind === 'power').map(segment => segment.startRecord)
+  );
+
+  let lostMs = 0;
+  let gaps = 0;
+  for (let i = 1; i < columns.length; i++) {
+    const step = columns.time[i] - columns.time[i - 1];
+    if (resetStarts.has(i)) {
+      lostMs += Math.max(intervalMs, step - intervalMs);
+    } else if (!powerStarts.has(i) && step > 1.5 * intervalMs) {
+      lostMs += step - intervalMs;
+      gaps++;
+    }
+  }
+
+  const expectedMs = columns.length * intervalMs + lostMs;
+  return {
+    minutes: lostMs / 60000,
+    percent: (lostMs / expectedMs) * 100,
+    resets: resetStarts.size,
+    gaps,
+  };
+}
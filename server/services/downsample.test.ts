@@ -0,0 +1,46 @@
+import assert from 'node:assert/strict';
+import { test } from 'node:test';
+import type { InsertSensorData } from '@shared/schema';
+import { downsampleSeries } from './downsample';
+import { SensorColumns } from './sensorColumns';
+
+const START = Date.UTC(2025, 6, 29);
+const LENGTH = 10_000;
+const FROM = START;
+const TO = START + (LENGTH - 1) * 1000;
+
+// One tempMP reading per second from START: a slow sine with one spike and one dip
+function spikyTemperatures(): SensorColumns {
+  return SensorColumns.fromRecords(Array.from({ length: LENGTH }, (_, i) => ({
+    dumpId: 1,
+    rtd: new Date(START + i * 1000),
+    tempMP: i === 2345 ? 390 : i === 7890 ? -30 : Math.round(150 + 50 * Math.sin(i / 800)),
+  }) as InsertSensorData));
+}
+
+test('min-max keeps within the point budget and keeps the extremes', () => {
+  const window = downsampleSeries(spikyTemperatures(), ['TempMP'], FROM, TO, 200, 'minmax');
+  const { t, v } = window.series.tempMP!;
+  assert.equal(window.full, false);
+  assert.equal(window.recordsInWindow, LENGTH);
+  assert.ok(t.length <= 200);
+  assert.ok(t.every((time, i) => i === 0 || time > t[i - 1]));
+  assert.equal(Math.max(...v), 390);
+  assert.equal(Math.min(...v), -30);
+});
+
+test('LTTB returns exactly the point budget with both ends and the spikes', () => {
+  const { t, v } = downsampleSeries(spikyTemperatures(), ['TempMP'], FROM, TO, 200, 'lttb').series.tempMP!;
+  assert.equal(t.length, 200);
+  assert.equal(t[0], FROM);
+  assert.equal(t[t.length - 1], TO);
+  assert.ok(v.includes(390));
+  assert.ok(v.includes(-30));
+});
+
+test('a window within the point budget comes back at full resolution', () => {
+  const from = START + 1000 * 1000;
+  const window = downsampleSeries(spikyTemperatures(), ['TempMP'], from, from + 99_000, 200, 'minmax');
+  assert.equal(window.full, true);
+  assert.equal(window.series.tempMP!.t.length, 100);
+});
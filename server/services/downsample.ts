@@ -0,0 +1,175 @@
+import { CHANNEL_NAMES, columnKey, type ChannelName, type SensorColumns } from './sensorColumns';
+
+export type DownsampleMethod = 'minmax' | 'lttb';
+
+export const DOWNSAMPLE_METHODS: DownsampleMethod[] = ['minmax', 'lttb'];
+
+// One channel over the requested window: record times (ms since epoch) and values
+export interface ChannelSeries {
+  t: number[];
+  v: number[];
+}
+
+export interface SeriesWindow {
+  from: number;
+  to: number;
+  recordsInWindow: number;
+  full: boolean; // every valid sample in the window is returned, nothing was dropped
+  level: number | null; // bucket seconds of the aggregate level read, null for raw records
+  series: Partial<Record<string, ChannelSeries>>;
+}
+
+// Numeric channel for a sensor data column key, e.g. maxX -> MaxX. Status channels
+// such as FlowStatus have no values to plot.
+export function channelForKey(key: string, columns: SensorColumns): ChannelName | null {
+  const name = CHANNEL_NAMES.find(candidate => columnKey(candidate) === key);
+  if (!name || !columns.has(name) || columns.channels[name]!.labels) return null;
+  return name;
+}
+
+// First and last record time of the dump
+export function timeExtent(columns: SensorColumns): { from: number; to: number } | null {
+  let from = Infinity;
+  let to = -Infinity;
+  for (let i = 0; i < columns.length; i++) {
+    const t = columns.time[i];
+    if (t < from) from = t;
+    if (t > to) to = t;
+  }
+  return columns.length > 0 ? { from, to } : null;
+}
+
+// Keep the lowest and highest sample of each time bucket, in time order, so spikes
+// survive however far the window is zoomed out
+function minMaxBuckets(times: number[], values: number[], from: number, to: number, points: number): number[] {
+  const buckets = Math.max(1, Math.floor(points / 2));
+  const width = (to - from) / buckets || 1;
+  const keep: number[] = [];
+  let bucket = -1;
+  let minAt = -1;
+  let maxAt = -1;
+
+  const flush = () => {
+    if (minAt === -1) return;
+    if (minAt === maxAt) keep.push(minAt);
+    else keep.push(Math.min(minAt, maxAt), Math.max(minAt, maxAt));
+  };
+
+  for (let i = 0; i < times.length; i++) {
+    const b = Math.min(buckets - 1, Math.floor((times[i] - from) / width));
+    if (b !== bucket) {
+      flush();
+      bucket = b;
+      minAt = maxAt = i;
+      continue;
+    }
+    if (values[i] < values[minAt]) minAt = i;
+    if (values[i] > values[maxAt]) maxAt = i;
+  }
+  flush();
+  return keep;
+}
+
+// Largest-Triangle-Three-Buckets: keep the sample of each bucket that spans the largest
+// triangle with its neighbours, which follows the visual shape of the line
+function largestTriangleThreeBuckets(times: number[], values: number[], points: number): number[] {
+  const n = times.length;
+  if (points < 3 || n <= points) return times.map((_, i) => i);
+
+  const keep = [0];
+  const bucketSize = (n - 2) / (points - 2);
+  let a = 0;
+
+  for (let bucket = 0; bucket < points - 2; bucket++) {
+    const start = Math.floor(bucket * bucketSize) + 1;
+    const end = Math.min(n - 1, Math.floor((bucket + 1) * bucketSize) + 1);
+
+    // Average of the next bucket (the last sample for the final bucket)
+    const nextStart = end;
+    const nextEnd = Math.min(n, Math.floor((bucket + 2) * bucketSize) + 1);
+    let avgT = 0;
+    let avgV = 0;
+    for (let i = nextStart; i < nextEnd; i++) {
+      avgT += times[i];
+      avgV += values[i];
+    }
+    const count = nextEnd - nextStart;
+    if (count > 0) {
+      avgT /= count;
+      avgV /= count;
+    } else {
+      avgT = times[n - 1];
+      avgV = values[n - 1];
+    }
+
+    let best = start;
+    let bestArea = -1;
+    for (let i = start; i < end; i++) {
+      const area = Math.abs(
+        (times[a] - avgT) * (values[i] - values[a]) - (times[a] - times[i]) * (avgV - values[a])
+      );
+      if (area > bestArea) {
+        bestArea = area;
+        best = i;
+      }
+    }
+    keep.push(best);
+    a = best;
+  }
+
+  keep.push(n - 1);
+  return keep;
+}
+
+// Valid samples of the channels within [from, to], reduced to about `points` per channel.
+// A window holding no more than `points` samples comes back at full resolution.
+export function downsampleSeries(
+  columns: SensorColumns,
+  channels: ChannelName[],
+  from: number,
+  to: number,
+  points: number,
+  method: DownsampleMethod
+): SeriesWindow {
+  // Record times are oldest-first but not guaranteed monotonic (clock resets), so scan
+  // every record rather than binary-searching the window
+  const inWindow: number[] = [];
+  for (let i = 0; i < columns.length; i++) {
+    const t = columns.time[i];
+    if (t >= from && t <= to) inWindow.push(i);
+  }
+
+  const result: SeriesWindow = { from, to, recordsInWindow: inWindow.length, full: true, level: null, series: {} };
+
+  for (const name of channels) {
+    const indexes: number[] = [];
+    const times: number[] = [];
+    const values: number[] = [];
+    for (const i of inWindow) {
+      const value = columns.value(name, i);
+      if (value === null || !isFinite(value)) continue;
+      indexes.push(i);
+      times.push(columns.time[i]);
+      values.push(value);
+    }
+
+    let keep: number[] | null = null;
+    if (times.length > points) {
+      keep = method === 'lttb'
+        ? largestTriangleThreeBuckets(times, values, points)
+        : minMaxBuckets(times, values, from, to, points);
+      result.full = false;
+    }
+
+    const series: ChannelSeries = { t: [], v: [] };
+    const count = keep ? keep.length : times.length;
+    for (let k = 0; k < count; k++) {
+      const i = keep ? keep[k] : k;
+      series.t.push(times[i]);
+      series.v.push(columns.output(name, indexes[i]) as number);
+    }
+    result.series[columnKey(name)] = series;
+  }
+
+  return result;
+}
@@ -0,0 +1,255 @@
+import fs from 'fs';
+import type {
+  DataQualitySummary,
+  DeviceReportProvenance,
+  InsertAnalysisEvent,
+  InsertAnalysisResults,
+  InsertDeviceReport,
+  InsertDumpSegment,
+  InsertSensorAggregate,
+  ParseDiagnostics,
+  RuleSetDefinition,
+} from '@shared/schema';
+import { buildPyramid } from './aggregatePyramid';
+import { AnalysisEngine } from './analysisEngine';
+import { batteryConsumption } from './batteryModel';
+import { BinaryParser } from './binaryParser';
+import { commErrorTime, edtHours, extremeShockIndex, hallStatusTime } from './deviceMetrics';
+import { segmentRecords } from './segmentation';
+import { SensorColumns } from './sensorColumns';
+import { assessSensorHealth } from './sensorHealth';
+import type { TimeBase, TimeOptions } from './timeBase';
+
+export interface ProcessJob {
+  dumpId: number;
+  filePath: string;
+  filename: string;
+  fileType: string;
+  timeOptions: TimeOptions;
+  ruleSet: RuleSetDefinition; // resolved by the caller, so workers never read storage
+}
+
+// Everything derived from a dump apart from the sensor columns, which are handed over
+// batch by batch while parsing
+export interface ProcessResult {
+  records: number;
+  timeBase: TimeBase;
+  dataQuality: DataQualitySummary;
+  diagnostics: ParseDiagnostics;
+  segments: InsertDumpSegment[];
+  aggregates: InsertSensorAggregate[];
+  analysis: InsertAnalysisResults;
+  events: InsertAnalysisEvent[];
+  deviceReport: InsertDeviceReport;
+}
+
+const BATCH_SIZE = 5000; // Smaller chunks to prevent stack overflow
+
+// Parse and analyze one dump without touching storage, so it can run off the main thread.
+// `onBatch` receives the sensor columns as they are decoded and may apply backpressure;
+// segmentation and analysis run on the columns of the whole dump.
+export async function processDump(
+  job: ProcessJob,
+  onBatch: (columns: SensorColumns, batchIndex: number) => Promise<void>
+): Promise<ProcessResult> {
+  const { dumpId, filePath, filename, fileType, timeOptions, ruleSet } = job;
+
+  // Extract device information from header - FRESH for each upload
+  const headerBuffer = Buffer.alloc(256);
+  const fd = fs.openSync(filePath, 'r');
+  try {
+    fs.readSync(fd, headerBuffer, 0, 256, 0);
+  } finally {
+    fs.closeSync(fd);
+  }
+
+  console.log(`🔍 Extracting fresh device info for ${filename} (${fileType})`);
+  const deviceInfo = BinaryParser.extractDeviceInfo(headerBuffer, filename, fileType);
+  console.log(`📋 Device info extracted:`, deviceInfo);
+
+  const batches: SensorColumns[] = [];
+
+  const { timeBase, dataQuality, diagnostics } = await BinaryParser.parseMemoryDumpStream(filePath, filename, fileType, BATCH_SIZE, async (batch, batchIndex) => {
+    console.log(`📊 Processing batch ${batchIndex + 1} with ${batch.length} records...`);
+    await onBatch(batch, batchIndex);
+    batches.push(batch);
+    return true;
+  }, timeOptions);
+
+  const columns = SensorColumns.concat(batches);
+  batches.length = 0;
+  console.log(`✅ Processed ${columns.length} total records for ${filename}`);
+
+  // Split the dump into power cycles and circulation periods
+  const segments = segmentRecords(dumpId, columns, timeBase.intervalMs);
+  console.log(`✂️ ${segments.filter(s => s.kind === 'power').length} power-cycle and ${segments.filter(s => s.kind === 'circulation').length} circulation segments`);
+
+  // Battery charge and energy drawn in each segment
+  for (const segment of segments) {
+    const drawn = batteryConsumption(columns, timeBase.intervalMs, segment.startRecord, segment.endRecord);
+    segment.ampHours = drawn.ampHours === null ? null : Math.round(drawn.ampHours * 1e6) / 1e6;
+    segment.wattHours = drawn.wattHours === null ? null : Math.round(drawn.wattHours * 1e6) / 1e6;
+  }
+
+  // Min/max/mean/count pyramid for charts over long windows
+  const aggregates = buildPyramid(dumpId, columns, timeBase.intervalMs);
+  console.log(`🔺 ${aggregates.length} aggregate levels across ${new Set(aggregates.map(a => a.channel)).size} channels`);
+
+  // Evaluate the job's rule set over the columns of the whole dump
+  const findings = AnalysisEngine.analyzeData(columns, ruleSet, timeBase.intervalMs);
+  const analysis: InsertAnalysisResults = {
+    dumpId,
+    overallStatus: findings.overallStatus,
+    criticalIssues: findings.criticalIssues,
+    warnings: findings.warnings,
+    issues: findings.issues,
+    ruleSetName: findings.ruleSet.name,
+    ruleSetVersion: findings.ruleSet.version,
+    sensorHealth: assessSensorHealth(columns),
+  };
+  const events: InsertAnalysisEvent[] = findings.events.map(event => ({
+    dumpId,
+    rule: event.rule,
+    channel: event.channel,
+    severity: event.severity,
+    startTime: new Date(event.start),
+    endTime: new Date(event.end),
+    durationSeconds: event.durationSeconds,
+    startRecord: event.startRecord,
+    endRecord: event.endRecord,
+    count: event.count,
+    peakValue: event.peakValue,
+    peakTime: event.peakTime === null ? null : new Date(event.peakTime),
+  }));
+
+  // Fill in what the header could not provide from the sensor records, recording how
+  const deviceReport: InsertDeviceReport = { ...deviceInfo, dumpId };
+  const provenance = (deviceReport.provenance || {}) as DeviceReportProvenance;
+  const intervalSeconds = timeBase.intervalMs / 1000;
+
+  if (columns.length > 0 && fileType === 'MP') {
+    let validTemps = 0;
+    let maxTempF = -Infinity;
+    columns.forEachValid('TempMP', t => {
+      if (!isFinite(t) || t <= 32 || t >= 300) return;
+      validTemps++;
+      maxTempF = Math.max(maxTempF, t);
+    });
+
+    if (validTemps > 0) {
+      deviceReport.mpMaxTempFahrenheit = maxTempF;
+      deviceReport.mpMaxTempCelsius = (maxTempF - 32) * 5/9;
+      const method = `Maximum of ${validTemps} TempMP readings between 32°F and 300°F`;
+      provenance.mpMaxTempFahrenheit = { source: 'computed', method };
+      provenance.mpMaxTempCelsius = { source: 'computed', method };
+      console.log(`📊 ACTUAL MAX TEMP FROM SENSOR DATA: ${maxTempF.toFixed(1)}°F from ${validTemps} valid readings`);
+    }
+
+    let motorReadings = 0;
+    let motorOnRecords = 0;
+    columns.forEachValid('MotorAvg', motor => {
+      motorReadings++;
+      if (motor > 0) motorOnRecords++;
+    });
+    if (motorReadings > 0) {
+      deviceReport.motorOnTimeMinutes = Math.round((motorOnRecords * intervalSeconds / 60) * 10) / 10;
+      provenance.motorOnTimeMinutes = {
+        source: 'computed',
+        method: `${motorOnRecords} records with MotorAvg > 0 × ${intervalSeconds} s logging interval`
+      };
+    }
+
+    if (deviceReport.circulationHours == null) {
+      let flowOnRecords = 0;
+      for (let i = 0; i < columns.length; i++) {
+        if (columns.label('FlowStatus', i) === 'On') flowOnRecords++;
+      }
+      deviceReport.circulationHours = Math.round((flowOnRecords * intervalSeconds / 3600) * 10) / 10;
+      provenance.circulationHours = {
+        source: 'computed',
+        method: `${flowOnRecords} records with FlowStatus On × ${intervalSeconds} s logging interval`
+      };
+    }
+  }
+
+  if (columns.length > 0 && fileType === 'MP') {
+    const hall = hallStatusTime(columns, timeBase.intervalMs);
+    if (hall) {
+      deviceReport.hallStatusTimeMinutes = Math.round(hall.minutes * 100) / 100;
+      provenance.hallStatusTimeMinutes = {
+        source: 'computed',
+        method: `${hall.stalled} records with MotorAvg ≥ 0.1 A but MotorHall < 1 pulse × ${intervalSeconds} s logging interval`
+      };
+      deviceReport.hallStatusPercent = hall.percent === null ? null : Math.round(hall.percent * 100) / 100;
+      provenance.hallStatusPercent = hall.percent === null
+        ? { source: 'unavailable', reason: 'The motor never drew 0.1 A or more' }
+        : { source: 'computed', method: `${hall.stalled} of ${hall.running} records with MotorAvg ≥ 0.1 A had MotorHall < 1 pulse` };
+    } else {
+      deviceReport.hallStatusTimeMinutes = null;
+      deviceReport.hallStatusPercent = null;
+      provenance.hallStatusTimeMinutes = { source: 'unavailable', reason: 'MotorAvg or MotorHall is not logged' };
+      provenance.hallStatusPercent = { source: 'unavailable', reason: 'MotorAvg or MotorHall is not logged' };
+    }
+
+    const comm = commErrorTime(columns, segments, timeBase.intervalMs);
+    if (comm) {
+      deviceReport.commErrorsTimeMinutes = Math.round(comm.minutes * 100) / 100;
+      provenance.commErrorsTimeMinutes = {
+        source: 'computed',
+        method: `${comm.resets} resets (the clock step before each less one interval, at least one ${intervalSeconds} s interval) + ${comm.gaps} record-clock gaps of 1.5-5 intervals (less one interval each)`
+      };
+      deviceReport.commErrorsPercent = Math.round(comm.percent * 100) / 100;
+      provenance.commErrorsPercent = {
+        source: 'computed',
+        method: `commErrorsTimeMinutes / (${columns.length} records × ${intervalSeconds} s + commErrorsTimeMinutes)`
+      };
+    }
+  }
+
+  if (columns.length > 0 && fileType === 'MDG') {
+    const edt = edtHours(segments);
+    deviceReport.mdgEdtTotalHours = Math.round(edt.hours * 10) / 10;
+    provenance.mdgEdtTotalHours = {
+      source: 'computed',
+      method: `Sum of the durations of ${edt.cycles} power-cycle segment(s) (first to last record plus one ${intervalSeconds} s interval, split at clock gaps)`
+    };
+
+    const shock = extremeShockIndex(columns);
+    if (shock) {
+      deviceReport.mdgExtremeShockIndex = Math.round(shock.index * 1000) / 1000;
+      provenance.mdgExtremeShockIndex = {
+        source: 'computed',
+        method: `(${shock.severe} records ≥100 g + 0.5 × ${shock.extreme} records ≥50 g) / ${shock.records} records, from axial |ShockZ|, lateral √(ShockX² + ShockY²) and the ShockCount 50/100 g counters`
+      };
+    } else {
+      deviceReport.mdgExtremeShockIndex = null;
+      provenance.mdgExtremeShockIndex = { source: 'unavailable', reason: 'No shock readings or counters in the sensor records' };
+    }
+  }
+
+  const battery = batteryConsumption(columns, timeBase.intervalMs);
+  const batteryMethod = `|${battery.channels.current}| × ${intervalSeconds} s over ${battery.currentReadings} records with a current reading`;
+  deviceReport.batteryAmpHours = battery.ampHours === null ? null : Math.round(battery.ampHours * 1000) / 1000;
+  provenance.batteryAmpHours = battery.ampHours === null
+    ? { source: 'unavailable', reason: 'No battery current channel is logged' }
+    : { source: 'computed', method: `Sum of ${batteryMethod}` };
+  deviceReport.batteryWattHours = battery.wattHours === null ? null : Math.round(battery.wattHours * 1000) / 1000;
+  provenance.batteryWattHours = battery.wattHours === null
+    ? { source: 'unavailable', reason: 'No battery voltage and current readings are logged together' }
+    : { source: 'computed', method: `Sum of ${battery.channels.voltage} × ${batteryMethod} and a voltage of at least 1 V` };
+
+  deviceReport.provenance = provenance;
+  if (fileType !== 'MP') BinaryParser.updateTimePercentages(deviceReport);
+
+  return {
+    records: columns.length,
+    timeBase,
+    dataQuality,
+    diagnostics,
+    segments,
+    aggregates,
+    analysis,
+    events,
+    deviceReport,
+  };
+}
@@ -0,0 +1,10 @@
+import type { RecordLayout } from '../recordLayout';
+import { mpDefault } from './mpDefault';
+import { mdgDefault } from './mdgDefault';
+
+// Every known record layout. Supporting a new firmware revision means adding a layout
+// file with a `firmware` range and listing it here - the parser itself does not change.
+export const recordLayouts: RecordLayout[] = [
+  mpDefault,
+  mdgDefault,
+];
@@ -0,0 +1,49 @@
+import type { RecordLayout } from '../recordLayout';
+
+// MDG 128-byte record as logged by current firmware.
+// Also used for any MDG dump whose firmware version is not covered by another layout.
+export const mdgDefault: RecordLayout = {
+  id: 'mdg-default',
+  description: 'MDG 128-byte record, 2 s logging interval',
+  toolType: 'MDG',
+  firmware: {},
+  header: { size: 256, firmwareVersionOffset: 28 },
+  recordSize: 128,
+  recordIntervalMs: 2000,
+  fields: [
+    { name: 'AccelAX', offset: 0, type: 'f32', unit: 'g' },
+    { name: 'AccelAY', offset: 4, type: 'f32', unit: 'g' },
+    { name: 'AccelAZ', offset: 8, type: 'f32', unit: 'g' },
+    { name: 'ResetMP', offset: 12, type: 'u8' },
+    { name: 'ShockZ', offset: 16, type: 'f32', validRange: [-500, 500], unit: 'g' },
+    { name: 'ShockX', offset: 20, type: 'f32', validRange: [-500, 500], unit: 'g' },
+    { name: 'ShockY', offset: 24, type: 'f32', validRange: [-500, 500], unit: 'g' },
+    { name: 'ShockCountAxial50', offset: 28, type: 'u16' },
+    { name: 'ShockCountAxial100', offset: 30, type: 'u16' },
+    { name: 'ShockCountLat50', offset: 32, type: 'u16' },
+    { name: 'ShockCountLat100', offset: 34, type: 'u16' },
+    { name: 'RotRpmMax', offset: 36, type: 'f32', unit: 'rpm' },
+    { name: 'RotRpmAvg', offset: 40, type: 'f32', unit: 'rpm' },
+    { name: 'RotRpmMin', offset: 44, type: 'f32', unit: 'rpm' },
+    { name: 'V3_3VA_DI', offset: 48, type: 'f32', validRange: [0, 10], unit: 'V' },
+    { name: 'V5VD', offset: 52, type: 'f32', validRange: [0, 10], unit: 'V' },
+    { name: 'V3_3VD', offset: 56, type: 'f32', validRange: [0, 10], unit: 'V' },
+    { name: 'V1_9VD', offset: 60, type: 'f32', validRange: [0, 5], unit: 'V' },
+    { name: 'V1_5VD', offset: 64, type: 'f32', validRange: [0, 5], unit: 'V' },
+    { name: 'V1_8VA', offset: 68, type: 'f32', validRange: [0, 5], unit: 'V' },
+    { name: 'V3_3VA', offset: 72, type: 'f32', validRange: [0, 10], unit: 'V' },
+    { name: 'VBatt', offset: 76, type: 'f32', validRange: [0, 50], unit: 'V' },
+    { name: 'I5VD', offset: 80, type: 'f32', validRange: [-10, 10], unit: 'A' },
+    { name: 'I3_3VD', offset: 84, type: 'f32', validRange: [-10, 10], unit: 'A' },
+    { name: 'IBatt', offset: 88, type: 'f32', validRange: [-50, 50], unit: 'A' },
+    { name: 'Gamma', offset: 92, type: 'u16' },
+    { name: 'AccelStabX', offset: 96, type: 'f32', unit: 'g' },
+    { name: 'AccelStabY', offset: 100, type: 'f32', unit: 'g' },
+    { name: 'AccelStabZ', offset: 104, type: 'f32', unit: 'g' },
+    { name: 'AccelStabZH', offset: 108, type: 'f32', unit: 'g' },
+    { name: 'SurveyTGF', offset: 112, type: 'f32' },
+    { name: 'SurveyTMF', offset: 116, type: 'f32' },
+    { name: 'SurveyDipA', offset: 120, type: 'f32' },
+    { name: 'SurveyINC', offset: 124, type: 'f32' },
+  ],
+};
@@ -0,0 +1,40 @@
+import type { RecordLayout } from '../recordLayout';
+
+// MP 64-byte record as logged by current firmware. Also used for any
+// MP dump whose header firmware version is unreadable or not covered by another layout.
+export const mpDefault: RecordLayout = {
+  id: 'mp-default',
+  description: 'MP 64-byte record, 1 s logging interval',
+  toolType: 'MP',
+  firmware: {},
+  // Every MP dump we have on file starts with these two bytes
+  header: { size: 256, firmwareVersionOffset: 24, signature: { offset: 0, hex: '7220' } },
+  recordSize: 64,
+  recordIntervalMs: 1000,
+  fields: [
+    // Logged in Celsius, stored in Fahrenheit for display
+    { name: 'TempMP', offset: 0, type: 'f32', scale: 9 / 5, bias: 32, validRange: [-40, 400], unit: '°F' },
+    { name: 'ResetMP', offset: 4, type: 'u8' },
+    { name: 'BatteryVoltMP', offset: 8, type: 'f32', validRange: [0, 50], unit: 'V' },
+    { name: 'BatteryCurrMP', offset: 12, type: 'f32', validRange: [-50, 50], unit: 'A' },
+    { name: 'FlowStatus', offset: 16, type: 'u8', states: ['Off', 'On'] },
+    { name: 'MaxX', offset: 20, type: 'f32', validRange: [-100, 100], unit: 'g' },
+    { name: 'MaxY', offset: 24, type: 'f32', validRange: [-100, 100], unit: 'g' },
+    { name: 'MaxZ', offset: 28, type: 'f32', validRange: [-100, 100], unit: 'g' },
+    { name: 'MotorMin', offset: 32, type: 'f32', validRange: [0, 20], unit: 'A' },
+    { name: 'MotorAvg', offset: 36, type: 'f32', validRange: [0, 20], unit: 'A' },
+    { name: 'MotorMax', offset: 40, type: 'f32', validRange: [0, 20], unit: 'A' },
+    { name: 'MotorHall', offset: 44, type: 'f32', validRange: [0, 10000] },
+    { name: 'ActuationTime', offset: 48, type: 'f32' },
+    { name: 'RotRpmMax', offset: 52, type: 'f32', validRange: [0, 5000], unit: 'rpm' },
+    { name: 'RotRpmAvg', offset: 56, type: 'f32', validRange: [0, 5000], unit: 'rpm' },
+    { name: 'RotRpmMin', offset: 60, type: 'f32', validRange: [0, 5000], unit: 'rpm' },
+    // The MP has a single battery rail, exposed under the system channels as well
+    { name: 'VBatt', offset: 8, type: 'f32', validRange: [0, 50], unit: 'V' },
+    { name: 'IBatt', offset: 12, type: 'f32', validRange: [-50, 50], unit: 'A' },
+  ],
+  constants: [
+    // Vibration alarm level configured in the tool, drawn against MaxX/Y/Z
+    { name: 'Threshold', value: 1.5, unit: 'g' },
+  ],
+};
@@ -0,0 +1,83 @@
+import assert from 'node:assert/strict';
+import fs from 'fs';
+import os from 'os';
+import path from 'path';
+import { after, test } from 'node:test';
+import { mpDefault } from './layouts/mpDefault';
+import { planRecords } from './parseDiagnostics';
+import type { RecordLayout } from './recordLayout';
+
+const { recordSize } = mpDefault;
+const HEADER = mpDefault.header.size;
+const directory = fs.mkdtempSync(path.join(os.tmpdir(), 'parse-diagnostics-'));
+
+after(() => fs.rmSync(directory, { recursive: true, force: true }));
+
+type Slot = 'data' | 'erased' | 'zero';
+
+// A dump of the given record slots behind an empty header; data slots carry `clock(i)`
+// in their first four bytes when given, otherwise a filler byte
+function writeDump(name: string, slots: Slot[], clock?: (slot: number) => number, tailBytes = 0): string {
+  const buffer = Buffer.alloc(HEADER + slots.length * recordSize + tailBytes, 0x11);
+  buffer.fill(0, 0, HEADER);
+  slots.forEach((slot, i) => {
+    const offset = HEADER + i * recordSize;
+    if (slot === 'erased') buffer.fill(0xff, offset, offset + recordSize);
+    else if (slot === 'zero') buffer.fill(0, offset, offset + recordSize);
+    else if (clock) buffer.writeUInt32LE(clock(i), offset);
+  });
+  const file = path.join(directory, name);
+  fs.writeFileSync(file, buffer);
+  return file;
+}
+
+const run = (kind: Slot, count: number): Slot[] => new Array(count).fill(kind);
+
+test('erased and outer zero slots are skipped, a short tail is truncated', () => {
+  const file = writeDump('blocks.bin', [...run('zero', 4), ...run('data', 20), ...run('erased', 8), ...run('data', 5), ...run('zero', 3)], undefined, 10);
+  const { diagnostics, ranges } = planRecords(file, mpDefault);
+  assert.equal(diagnostics.recordsDecoded, 25);
+  assert.deepEqual(diagnostics.recordsSkipped, { erased: 8, zeroFill: 7 });
+  assert.equal(diagnostics.truncatedBytes, 10);
+  assert.equal(diagnostics.bytesConsumed, HEADER + 25 * recordSize);
+  assert.deepEqual(diagnostics.regions.map(region => [region.kind, region.records]), [
+    ['header', 0], ['zero-fill', 4], ['records', 20], ['erased', 8], ['records', 5], ['zero-fill', 3], ['truncated', 0],
+  ]);
+  // The erased block is too close to the end of the data to be a write pointer
+  assert.equal(diagnostics.wrapAround.detected, false);
+  assert.deepEqual(ranges, [{ startRecord: 4, count: 20 }, { startRecord: 32, count: 5 }]);
+});
+
+test('zero slots inside the data are decoded', () => {
+  const file = writeDump('zeros.bin', [...run('data', 10), ...run('zero', 2), ...run('data', 10)]);
+  const { diagnostics, ranges } = planRecords(file, mpDefault);
+  assert.equal(diagnostics.recordsDecoded, 22);
+  assert.deepEqual(ranges, [{ startRecord: 0, count: 22 }]);
+});
+
+test('a single erased gap between two runs of data is read as the wrap point', () => {
+  const file = writeDump('wrapped.bin', [...run('data', 40), ...run('erased', 10), ...run('data', 30)]);
+  const { diagnostics, ranges } = planRecords(file, mpDefault);
+  assert.equal(diagnostics.wrapAround.detected, true);
+  assert.equal(diagnostics.wrapAround.method, 'erased-gap');
+  assert.equal(diagnostics.wrapAround.oldestRecord, 50);
+  assert.deepEqual(ranges, [{ startRecord: 50, count: 30 }, { startRecord: 0, count: 40 }]);
+});
+
+test('several erased gaps are unwritten sectors, not a wrap', () => {
+  const file = writeDump('sectors.bin', [...run('data', 20), ...run('erased', 4), ...run('data', 20), ...run('erased', 4), ...run('data', 20)]);
+  const { diagnostics, ranges } = planRecords(file, mpDefault);
+  assert.equal(diagnostics.wrapAround.detected, false);
+  assert.deepEqual(ranges.map(range => range.startRecord), [0, 24, 48]);
+});
+
+test('the record clock falling back once marks the oldest record', () => {
+  const clocked: RecordLayout = { ...mpDefault, time: { recordTimestampOffset: 0 } };
+  const start = Date.UTC(2025, 6, 29) / 1000;
+  // Records 30-59 were written first, then the memory wrapped to record 0
+  const file = writeDump('clocked.bin', run('data', 60), slot => start + (slot >= 30 ? slot - 30 : slot + 30));
+  const { diagnostics, ranges } = planRecords(file, clocked);
+  assert.equal(diagnostics.wrapAround.method, 'record-clock');
+  assert.equal(diagnostics.wrapAround.oldestRecord, 30);
+  assert.deepEqual(ranges, [{ startRecord: 30, count: 30 }, { startRecord: 0, count: 30 }]);
+});
@@ -0,0 +1,209 @@
+import fs from 'fs';
+import type { ParseDiagnostics, ParseRegion } from '@shared/schema';
+import type { RecordLayout } from './recordLayout';
+import { epochSecondsToDate } from './timeBase';
+
+// Records to decode, as runs of file record indexes in chronological order
+export interface RecordRange {
+  startRecord: number;
+  count: number;
+}
+
+export interface RecordPlan {
+  diagnostics: ParseDiagnostics;
+  ranges: RecordRange[];
+}
+
+type SlotKind = 'data' | 'erased' | 'zero';
+
+// Both sides of an erased gap must hold at least this many records before the gap is
+// read as the write pointer of circular memory rather than an isolated unwritten sector
+const MIN_WRAP_RECORDS = 16;
+
+const SCAN_CHUNK_RECORDS = 4096;
+
+function classifySlot(buffer: Buffer, offset: number, size: number): SlotKind {
+  const first = buffer[offset];
+  if (first !== 0xff && first !== 0x00) return 'data';
+  for (let i = offset + 1; i < offset + size; i++) {
+    if (buffer[i] !== first) return 'data';
+  }
+  return first === 0xff ? 'erased' : 'zero';
+}
+
+// Scan every record slot of a dump before decoding it. Erased flash (all 0xFF) is never
+// decoded; all-zero slots are skipped only before the first and after the last logged
+// record, since inside the data they may be genuine zero readings. A tail shorter than a
+// record is reported as truncated. When the memory is circular and has wrapped, decoding
+// starts at the oldest record: found from the record clock when the layout has one,
+// otherwise inferred from a single erased gap between two runs of data (the sector the
+// firmware erased ahead of its write pointer).
+export function planRecords(filePath: string, layout: RecordLayout): RecordPlan {
+  const fileSize = fs.statSync(filePath).size;
+  const headerBytes = Math.min(fileSize, layout.header.size);
+  const { recordSize } = layout;
+  const totalSlots = Math.max(0, Math.floor((fileSize - headerBytes) / recordSize));
+  const truncatedBytes = fileSize - headerBytes - totalSlots * recordSize;
+  const clockOffset = layout.time?.recordTimestampOffset;
+
+  // Runs of identically classified slots, in file order
+  const runs: { kind: SlotKind; start: number; count: number }[] = [];
+  const clockDrops: number[] = [];
+  let firstClock: number | null = null;
+  let lastClock: number | null = null;
+
+  const fd = fs.openSync(filePath, 'r');
+  try {
+    for (let slot = 0; slot < totalSlots; slot += SCAN_CHUNK_RECORDS) {
+      const count = Math.min(SCAN_CHUNK_RECORDS, totalSlots - slot);
+      const buffer = Buffer.alloc(count * recordSize);
+      fs.readSync(fd, buffer, 0, buffer.length, headerBytes + slot * recordSize);
+
+      for (let i = 0; i < count; i++) {
+        const kind = classifySlot(buffer, i * recordSize, recordSize);
+        const last = runs[runs.length - 1];
+        if (last && last.kind === kind) {
+          last.count++;
+        } else {
+          runs.push({ kind, start: slot + i, count: 1 });
+        }
+
+        if (kind === 'data' && clockOffset !== undefined) {
+          const clock = epochSecondsToDate(buffer.readUInt32LE(i * recordSize + clockOffset));
+          if (clock) {
+            const time = clock.getTime();
+            if (lastClock !== null && time < lastClock) clockDrops.push(slot + i);
+            if (firstClock === null) firstClock = time;
+            lastClock = time;
+          }
+        }
+      }
+    }
+  } finally {
+    fs.closeSync(fd);
+  }
+
+  const firstData = runs.findIndex(run => run.kind === 'data');
+  let lastData = -1;
+  runs.forEach((run, index) => { if (run.kind === 'data') lastData = index; });
+
+  // Zero-fill inside the logged data is decoded like any other record
+  const decoded = (index: number) => runs[index].kind === 'data' ||
+    (runs[index].kind === 'zero' && firstData !== -1 && index > firstData && index < lastData);
+
+  const regions: ParseRegion[] = [{ kind: 'header', startByte: 0, endByte: headerBytes, records: 0 }];
+  let recordsDecoded = 0;
+  let erased = 0;
+  let zeroFill = 0;
+  runs.forEach((run, index) => {
+    const kind: ParseRegion['kind'] = decoded(index) ? 'records' : run.kind === 'erased' ? 'erased' : 'zero-fill';
+    const startByte = headerBytes + run.start * recordSize;
+    const endByte = startByte + run.count * recordSize;
+    const previous = regions[regions.length - 1];
+    if (previous.kind === kind) {
+      previous.endByte = endByte;
+      previous.records += run.count;
+    } else {
+      regions.push({ kind, startByte, endByte, records: run.count });
+    }
+    if (kind === 'records') recordsDecoded += run.count;
+    else if (kind === 'erased') erased += run.count;
+    else zeroFill += run.count;
+  });
+  if (truncatedBytes > 0) {
+    regions.push({ kind: 'truncated', startByte: fileSize - truncatedBytes, endByte: fileSize, records: 0 });
+  }
+
+  // Decoded slot ranges in file order, merged across interior zero-fill
+  const fileOrder: RecordRange[] = [];
+  runs.forEach((run, index) => {
+    if (!decoded(index)) return;
+    const last = fileOrder[fileOrder.length - 1];
+    if (last && last.startRecord + last.count === run.start) {
+      last.count += run.count;
+    } else {
+      fileOrder.push({ startRecord: run.start, count: run.count });
+    }
+  });
+
+  const wrapAround: ParseDiagnostics['wrapAround'] = {
+    detected: false,
+    method: null,
+    oldestRecord: null,
+    note: '',
+  };
+
+  if (clockOffset !== undefined && firstClock !== null) {
+    if (clockDrops.length === 1 && lastClock !== null && lastClock <= firstClock) {
+      Object.assign(wrapAround, {
+        detected: true,
+        method: 'record-clock',
+        oldestRecord: clockDrops[0],
+        note: `Record clock falls back at record ${clockDrops[0]} and ends before it starts`,
+      });
+    } else {
+      wrapAround.note = clockDrops.length === 0
+        ? 'Record clock increases through the dump'
+        : `Record clock goes backwards ${clockDrops.length} times - kept in file order`;
+    }
+  } else {
+    const gaps = runs
+      .map((run, index) => ({ run, index }))
+      .filter(({ run, index }) => run.kind === 'erased' && firstData !== -1 && index > firstData && index < lastData);
+    if (gaps.length === 1) {
+      const gap = gaps[0].run;
+      const before = fileOrder.filter(range => range.startRecord < gap.start).reduce((sum, range) => sum + range.count, 0);
+      const after = recordsDecoded - before;
+      if (before >= MIN_WRAP_RECORDS && after >= MIN_WRAP_RECORDS) {
+        Object.assign(wrapAround, {
+          detected: true,
+          method: 'erased-gap',
+          oldestRecord: gap.start + gap.count,
+          note: `Single erased gap at records ${gap.start}-${gap.start + gap.count - 1} taken as the write pointer`,
+        });
+      } else {
+        wrapAround.note = 'Erased gap too close to the start or end of the data to be a write pointer';
+      }
+    } else {
+      wrapAround.note = gaps.length === 0
+        ? 'No erased gap inside the data and no record clock'
+        : `${gaps.length} erased gaps inside the data - read as unwritten sectors, not a wrap`;
+    }
+  }
+
+  // Oldest records first: everything from the wrap point on, then the start of the file
+  let ranges = fileOrder;
+  if (wrapAround.detected && wrapAround.oldestRecord !== null) {
+    const oldest = wrapAround.oldestRecord;
+    const newer: RecordRange[] = [];
+    const older: RecordRange[] = [];
+    for (const range of fileOrder) {
+      const end = range.startRecord + range.count;
+      if (end <= oldest) {
+        newer.push(range);
+      } else if (range.startRecord >= oldest) {
+        older.push(range);
+      } else {
+        newer.push({ startRecord: range.startRecord, count: oldest - range.startRecord });
+        older.push({ startRecord: oldest, count: end - oldest });
+      }
+    }
+    ranges = [...older, ...newer];
+  }
+
+  return {
+    diagnostics: {
+      fileSize,
+      layoutId: layout.id,
+      headerBytes,
+      recordSize,
+      bytesConsumed: headerBytes + recordsDecoded * recordSize,
+      recordsDecoded,
+      recordsSkipped: { erased, zeroFill },
+      truncatedBytes,
+      wrapAround,
+      regions,
+    },
+    ranges,
+  };
+}
@@ -0,0 +1,38 @@
+import { parentPort } from 'worker_threads';
+import { processDump, type ProcessJob } from './dumpProcessor';
+import type { WorkerReply, WorkerRequest } from './parseWorkerPool';
+
+// Worker thread entry: runs one dump at a time for the pool. Each batch of sensor columns
+// is posted to the main thread, which stores it and acknowledges before the next is sent.
+if (!parentPort) {
+  throw new Error('parseWorker must be started by ParseWorkerPool');
+}
+const port = parentPort;
+
+let releaseBatch: (() => void) | null = null;
+
+function send(reply: WorkerReply) {
+  port.postMessage(reply);
+}
+
+async function run(job: ProcessJob) {
+  try {
+    const result = await processDump(job, (columns, batchIndex) => new Promise<void>(resolve => {
+      releaseBatch = resolve;
+      send({ type: 'batch', columns, batchIndex });
+    }));
+    send({ type: 'done', result });
+  } catch (error: any) {
+    send({ type: 'failed', message: error?.message || String(error) });
+  }
+}
+
+port.on('message', (request: WorkerRequest) => {
+  if (request.type === 'job') {
+    run(request.job);
+  } else if (request.type === 'batch-stored' && releaseBatch) {
+    const release = releaseBatch;
+    releaseBatch = null;
+    release();
+  }
+});
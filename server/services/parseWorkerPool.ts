@@ -0,0 +1,145 @@
+import fs from 'fs';
+import { createRequire } from 'module';
+import os from 'os';
+import path from 'path';
+import { pathToFileURL } from 'url';
+import { Worker } from 'worker_threads';
+import { processDump, type ProcessJob, type ProcessResult } from './dumpProcessor';
+import { SensorColumns, type SensorColumnsData } from './sensorColumns';
+
+// Messages between the pool (main thread) and parseWorker
+export type WorkerRequest =
+  | { type: 'job'; job: ProcessJob }
+  | { type: 'batch-stored' };
+
+export type WorkerReply =
+  | { type: 'batch'; columns: SensorColumnsData; batchIndex: number }
+  | { type: 'done'; result: ProcessResult }
+  | { type: 'failed'; message: string };
+
+type BatchHandler = (columns: SensorColumns, batchIndex: number) => Promise<void>;
+
+interface PoolTask {
+  job: ProcessJob;
+  onBatch: BatchHandler;
+  resolve: (result: ProcessResult) => void;
+  reject: (error: Error) => void;
+}
+
+// Under tsx the worker runs from source and needs the TypeScript loader registered in its
+// own thread. The loader and tsconfig are resolved from this module, not the working
+// directory, so the server can start from anywhere. The production build emits the worker
+// next to the bundle as services/parseWorker.js
+function startWorker(): Worker {
+  const source = path.join(import.meta.dirname, 'parseWorker.ts');
+  if (fs.existsSync(source)) {
+    const url = JSON.stringify(pathToFileURL(source).href);
+    const loader = JSON.stringify(pathToFileURL(createRequire(import.meta.url).resolve('tsx/esm/api')).href);
+    const tsconfig = JSON.stringify(path.resolve(import.meta.dirname, '..', '..', 'tsconfig.json'));
+    return new Worker(
+      `import(${loader}).then(({ register }) => { register({ tsconfig: ${tsconfig} }); return import(${url}); })`,
+      { eval: true }
+    );
+  }
+  return new Worker(path.join(import.meta.dirname, 'services', 'parseWorker.js'));
+}
+
+// Runs dump parsing and analysis on worker threads so the HTTP server stays responsive.
+// Jobs beyond the pool size wait in a FIFO queue; sensor columns come back batch by batch
+// and the worker waits until each batch has been stored before decoding the next.
+export class ParseWorkerPool {
+  private idle: Worker[] = [];
+  private workers = 0;
+  private queue: PoolTask[] = [];
+
+  constructor(readonly size: number) {}
+
+  // PARSE_WORKERS sets the pool size (default: one less than the CPU count, at least 1);
+  // 0 parses on the main thread
+  static fromEnv(env: NodeJS.ProcessEnv = process.env): ParseWorkerPool {
+    const fallback = Math.max(1, os.cpus().length - 1);
+    const raw = env.PARSE_WORKERS;
+    const value = raw !== undefined && raw !== '' ? Number(raw) : fallback;
+    if (!Number.isInteger(value) || value < 0) {
+      console.warn(`⚠️ Ignoring invalid PARSE_WORKERS=${raw}, using ${fallback}`);
+      return new ParseWorkerPool(fallback);
+    }
+    return new ParseWorkerPool(value);
+  }
+
+  get pending(): number {
+    return this.queue.length;
+  }
+
+  run(job: ProcessJob, onBatch: BatchHandler): Promise<ProcessResult> {
+    if (this.size === 0) {
+      return processDump(job, onBatch);
+    }
+    return new Promise((resolve, reject) => {
+      this.queue.push({ job, onBatch, resolve, reject });
+      this.dispatch();
+    });
+  }
+
+  private dispatch() {
+    while (this.queue.length > 0 && (this.idle.length > 0 || this.workers < this.size)) {
+      const task = this.queue.shift()!;
+      let worker = this.idle.pop();
+      if (!worker) {
+        worker = startWorker();
+        this.workers++;
+      }
+      this.execute(worker, task);
+    }
+  }
+
+  private execute(worker: Worker, task: PoolTask) {
+    let settled = false;
+
+    // A worker that failed mid-job (or whose batch could not be stored) is discarded
+    const finish = (error: Error | null, result: ProcessResult | null, reusable: boolean) => {
+      if (settled) return;
+      settled = true;
+      worker.off('message', onMessage);
+      worker.off('error', onError);
+      worker.off('exit', onExit);
+      if (reusable) {
+        this.idle.push(worker);
+      } else {
+        this.workers--;
+        worker.terminate().catch(() => {});
+      }
+      if (error) task.reject(error);
+      else task.resolve(result!);
+      this.dispatch();
+    };
+
+    const onMessage = async (reply: WorkerReply) => {
+      switch (reply.type) {
+        case 'batch':
+          try {
+            await task.onBatch(SensorColumns.from(reply.columns), reply.batchIndex);
+            if (!settled) worker.postMessage({ type: 'batch-stored' } satisfies WorkerRequest);
+          } catch (error: any) {
+            finish(error instanceof Error ? error : new Error(String(error)), null, false);
+          }
+          break;
+        case 'done':
+          finish(null, reply.result, true);
+          break;
+        case 'failed':
+          finish(new Error(reply.message), null, true);
+          break;
+      }
+    };
+    const onError = (error: Error) => finish(error, null, false);
+    const onExit = (code: number) => finish(new Error(`Parse worker exited with code ${code}`), null, false);
+
+    worker.on('message', onMessage);
+    worker.on('error', onError);
+    worker.on('exit', onExit);
+    worker.postMessage({ type: 'job', job: task.job } satisfies WorkerRequest);
+  }
+}
+
+export const parseWorkerPool = ParseWorkerPool.fromEnv();
@@ -1,35 +1,72 @@
-import { SensorData } from '@shared/schema';
+import { DeviceReportField, DeviceReportProvenance, FieldProvenance, ParseDiagnostics, ParseRegion, SensorHealthSummary } from '@shared/schema';
 import { Issue } from './analysisEngine';
+import type { ChannelName, SensorColumns } from './sensorColumns';
 
 export interface ReportData {
   filename: string;
+  fileType?: string;
   processedAt: Date;
+  contentHash?: string | null; // SHA-256 of the original .bin file
+  parseDiagnostics?: ParseDiagnostics | null;
   overallStatus: string;
   criticalIssues: number;
   warnings: number;
   issues: Issue[];
-  sensorData: SensorData[];
+  sensorHealth?: SensorHealthSummary | null;
+  // Every record of the dump; stats and record counts cover all of them
+  columns: SensorColumns;
+  // Whole-dump chart values from the aggregate pyramid, by sensor data column; charts fall
+  // back to the column readings for channels without one
+  chartSeries?: Partial<Record<string, number[]>>;
   deviceReport?: {
-    mpSerialNumber?: string;
-    mpFirmwareVersion?: string;
-    mpMaxTempFahrenheit?: number;
-    mpMaxTempCelsius?: number;
-    circulationHours?: number;
-    numberOfPulses?: number;
-    motorOnTimeMinutes?: number;
-    commErrorsTimeMinutes?: number;
-    commErrorsPercent?: number;
-    hallStatusTimeMinutes?: number;
-    hallStatusPercent?: number;
-    mdgSerialNumber?: string;
-    mdgFirmwareVersion?: string;
-    mdgMaxTempFahrenheit?: number;
-    mdgMaxTempCelsius?: number;
-    mdgEdtTotalHours?: number;
-    mdgExtremeShockIndex?: number;
+    mpSerialNumber?: string | null;
+    mpFirmwareVersion?: string | null;
+    mpMaxTempFahrenheit?: number | null;
+    mpMaxTempCelsius?: number | null;
+    circulationHours?: number | null;
+    numberOfPulses?: number | null;
+    motorOnTimeMinutes?: number | null;
+    commErrorsTimeMinutes?: number | null;
+    commErrorsPercent?: number | null;
+    hallStatusTimeMinutes?: number | null;
+    hallStatusPercent?: number | null;
+    mdgSerialNumber?: string | null;
+    mdgFirmwareVersion?: string | null;
+    mdgMaxTempFahrenheit?: number | null;
+    mdgMaxTempCelsius?: number | null;
+    mdgEdtTotalHours?: number | null;
+    mdgExtremeShockIndex?: number | null;
+    provenance?: DeviceReportProvenance | null;
   };
 }
 
+// Device report fields in the order they appear in the value-source listing
+const DEVICE_FIELD_LABELS: [DeviceReportField, string][] = [
+  ['mpSerialNumber', 'MP Serial Number'],
+  ['mpFirmwareVersion', 'MP Firmware'],
+  ['mpMaxTempFahrenheit', 'MP Max Temperature'],
+  ['mdgSerialNumber', 'MDG Serial Number'],
+  ['mdgFirmwareVersion', 'MDG Firmware'],
+  ['mdgMaxTempFahrenheit', 'MDG Max Temperature'],
+  ['circulationHours', 'Circulation Hours'],
+  ['numberOfPulses', 'Number of Pulses'],
+  ['motorOnTimeMinutes', 'Motor On Time'],
+  ['commErrorsTimeMinutes', 'Comm Errors (min)'],
+  ['commErrorsPercent', 'Comm Errors (%)'],
+  ['hallStatusTimeMinutes', 'Hall Status (min)'],
+  ['hallStatusPercent', 'Hall Status (%)'],
+  ['mdgEdtTotalHours', 'MDG EDT Hours'],
+  ['mdgExtremeShockIndex', 'MDG Extreme Shock Index'],
+];
+
+const REGION_LABELS: Record<ParseRegion['kind'], string> = {
+  'header': 'Header',
+  'records': 'Decoded records',
+  'erased': 'Erased flash (0xFF)',
+  'zero-fill': 'Zero fill',
+  'truncated': 'Truncated record',
+};
+
 export class PDFGenerator {
   static async generateReport(reportData: ReportData): Promise<Buffer> {
     // Import jsPDF dynamically
@@ -192,8 +229,8 @@ export class PDFGenerator {
         return;
       }
 
-      const maxVal = Math.max(...values);
-      const minVal = Math.min(...values);
+      const maxVal = values.reduce((max, value) => Math.max(max, value), -Infinity);
+      const minVal = values.reduce((min, value) => Math.min(min, value), Infinity);
       const range = maxVal - minVal || 1;
 
       // Sample data for visualization (limit to ~50 points)
@@ -277,7 +314,7 @@ export class PDFGenerator {
 
     addDataCard('Critical Issues', reportData.criticalIssues.toString(), 'alerts', colors.danger, 75);
     addDataCard('Warnings', reportData.warnings.toString(), 'notices', colors.warning, 125);
-    addDataCard('Data Points', reportData.sensorData.length.toLocaleString(), 'records', colors.primary, 175, 30);
+    addDataCard('Data Points', reportData.columns.length.toLocaleString(), 'records', colors.primary, 175, 30);
 
     yPos += 30;
 
@@ -291,7 +328,7 @@ export class PDFGenerator {
     const fileInfo = [
       ['File Name:', reportData.filename],
       ['Processing Date:', reportData.processedAt.toLocaleString()],
-      ['Total Records:', reportData.sensorData.length.toLocaleString()],
+      ['Total Records:', reportData.columns.length.toLocaleString()],
       ['Analysis Engine:', 'Advanced AI Pattern Recognition v2.0'],
       ['Report Type:', 'Comprehensive Health Analysis']
     ];
@@ -304,6 +341,17 @@ export class PDFGenerator {
       yPos += 6;
     });
 
+    // SHA-256 fingerprint of the source file - monospace so it can be compared by eye
+    if (reportData.contentHash) {
+      pdf.setFont('helvetica', 'bold');
+      pdf.text('SHA-256:', 25, yPos);
+      pdf.setFont('courier', 'normal');
+      pdf.setFontSize(8);
+      pdf.text(reportData.contentHash, 80, yPos);
+      pdf.setFontSize(11);
+      yPos += 6;
+    }
+
     yPos += 10;
 
     // Device Information Section
@@ -311,7 +359,7 @@ export class PDFGenerator {
       addSectionHeader('🔧 Device Information & Performance Metrics');
 
       // MP Device Info
-      if (reportData.deviceReport.mpSerialNumber || reportData.deviceReport.mpFirmwareVersion) {
+      if (reportData.fileType === 'MP' || reportData.deviceReport.mpSerialNumber || reportData.deviceReport.mpFirmwareVersion) {
         pdf.setFont('helvetica', 'bold');
         pdf.setFontSize(12);
         pdf.setTextColor(colors.accent[0], colors.accent[1], colors.accent[2]);
@@ -346,7 +394,7 @@ export class PDFGenerator {
 
         // Additional MP metrics
         const mpMetrics = [];
-        if (reportData.deviceReport.circulationHours !== undefined) {
+        if (reportData.deviceReport.circulationHours != null) {
           const days = Math.floor(reportData.deviceReport.circulationHours / 24);
           const hours = Math.round(reportData.deviceReport.circulationHours % 24);
           mpMetrics.push(['Circulation Time', `${days}d ${hours}h`, 'runtime']);
@@ -354,7 +402,7 @@ export class PDFGenerator {
         if (reportData.deviceReport.numberOfPulses) {
           mpMetrics.push(['Pulses', reportData.deviceReport.numberOfPulses.toLocaleString(), 'cycles']);
         }
-        if (reportData.deviceReport.motorOnTimeMinutes !== undefined) {
+        if (reportData.deviceReport.motorOnTimeMinutes != null) {
           const hours = Math.floor(reportData.deviceReport.motorOnTimeMinutes / 60);
           const mins = Math.round(reportData.deviceReport.motorOnTimeMinutes % 60);
           mpMetrics.push(['Motor Time', `${hours}h ${mins}m`, 'operation']);
@@ -371,7 +419,7 @@ export class PDFGenerator {
       }
 
       // MDG Device Info
-      if (reportData.deviceReport.mdgSerialNumber || reportData.deviceReport.mdgFirmwareVersion) {
+      if (reportData.fileType === 'MDG' || reportData.deviceReport.mdgSerialNumber || reportData.deviceReport.mdgFirmwareVersion) {
         checkNewPage(40);
 
         pdf.setFont('helvetica', 'bold');
@@ -404,6 +452,31 @@ export class PDFGenerator {
 
         if (mdgCards.length > 0) yPos += 25;
       }
+
+      // Where every value came from - customers must be able to tell decoded from computed
+      const provenance = reportData.deviceReport.provenance;
+      if (provenance) {
+        checkNewPage(20);
+        pdf.setFont('helvetica', 'bold');
+        pdf.setFontSize(10);
+        pdf.setTextColor(colors.text[0], colors.text[1], colors.text[2]);
+        pdf.text('Value Sources', 25, yPos);
+        yPos += 6;
+
+        pdf.setFontSize(8);
+        DEVICE_FIELD_LABELS.forEach(([field, label]) => {
+          if (!provenance[field]) return;
+          checkNewPage(5);
+          pdf.setFont('helvetica', 'bold');
+          pdf.text(label, 25, yPos);
+          pdf.setFont('helvetica', 'normal');
+          const source = pdf.splitTextToSize(PDFGenerator.describeProvenance(provenance[field]), 120);
+          pdf.text(source, 70, yPos);
+          yPos += 4 * source.length;
+        });
+        pdf.setFontSize(11);
+        yPos += 4;
+      }
     }
 
     // Page 2: AI Analysis Results
@@ -515,21 +588,23 @@ export class PDFGenerator {
     addHeader('📊 Comprehensive Data Visualizations', 'Interactive Chart Analysis & Trends');
 
     // Prepare data for visualizations
-    const validSensorData = reportData.sensorData.filter(d => d && typeof d === 'object');
+    const { columns } = reportData;
+    const overview = (column: string, keep: (value: number) => boolean) => {
+      const values = reportData.chartSeries?.[column]?.filter(keep);
+      return values && values.length > 0 ? values : null;
+    };
 
-    if (validSensorData.length > 0) {
+    if (columns.length > 0) {
       // Temperature Analysis
-      const tempData = validSensorData
-        .map(d => d.tempMP)
-        .filter(t => t !== null && t !== undefined && !isNaN(t as number) && isFinite(t as number) && (t as number) > -40 && (t as number) < 400) as number[];
+      const tempData = PDFGenerator.readings(columns, t => t > -40 && t < 400, 'TempMP');
 
       if (tempData.length > 0) {
-        addChart('Temperature Analysis (°F)', tempData, 'area');
+        addChart('Temperature Analysis (°F)', overview('tempMP', t => t > -40 && t < 400) ?? tempData, 'area');
 
         // Temperature statistics
         const avgTemp = tempData.reduce((a, b) => a + b, 0) / tempData.length;
-        const maxTemp = Math.max(...tempData);
-        const minTemp = Math.min(...tempData);
+        const maxTemp = tempData.reduce((max, temp) => Math.max(max, temp), -Infinity);
+        const minTemp = tempData.reduce((min, temp) => Math.min(min, temp), Infinity);
 
         addDataCard('Avg Temp', avgTemp.toFixed(1), '°F', colors.primary, 25);
         addDataCard('Max Temp', maxTemp.toFixed(1), '°F', colors.danger, 75);
@@ -540,15 +615,13 @@ export class PDFGenerator {
       }
 
       // Shock Analysis
-      const shockData = validSensorData
-        .map(d => d.shockZ !== null && Math.abs(d.shockZ as number) < 100 ? Math.abs(d.shockZ as number) : null)
-        .filter(s => s !== null) as number[];
+      const shockData = PDFGenerator.readings(columns, s => Math.abs(s) < 100, 'ShockZ').map(Math.abs);
 
       if (shockData.length > 0) {
         checkNewPage(90);
-        addChart('Shock Analysis (g-force)', shockData, 'line');
+        addChart('Shock Analysis (g-force)', overview('shockZ', s => s < 100) ?? shockData, 'line');
 
-        const maxShock = Math.max(...shockData);
+        const maxShock = shockData.reduce((max, shock) => Math.max(max, shock), -Infinity);
         const avgShock = shockData.reduce((a, b) => a + b, 0) / shockData.length;
         const highShockEvents = shockData.filter(s => s > 10).length;
 
@@ -561,18 +634,15 @@ export class PDFGenerator {
       }
 
       // Battery Voltage Analysis
-      const batteryData = validSensorData
-        .map(d => (d.vBatt !== null && (d.vBatt as number) > 0 && (d.vBatt as number) < 50) ? d.vBatt as number : 
-                  (d.batteryVoltMP !== null && (d.batteryVoltMP as number) > 0 && (d.batteryVoltMP as number) < 50) ? d.batteryVoltMP as number : null)
-        .filter(v => v !== null) as number[];
+      const batteryData = PDFGenerator.readings(columns, v => v > 0 && v < 50, 'VBatt', 'BatteryVoltMP');
 
       if (batteryData.length > 0) {
         checkNewPage(90);
-        addChart('Battery Voltage Analysis (V)', batteryData, 'area');
+        addChart('Battery Voltage Analysis (V)', overview('vBatt', v => v > 0 && v < 50) ?? overview('batteryVoltMP', v => v > 0 && v < 50) ?? batteryData, 'area');
 
         const avgVoltage = batteryData.reduce((a, b) => a + b, 0) / batteryData.length;
-        const minVoltage = Math.min(...batteryData);
-        const maxVoltage = Math.max(...batteryData);
+        const minVoltage = batteryData.reduce((min, volt) => Math.min(min, volt), Infinity);
+        const maxVoltage = batteryData.reduce((max, volt) => Math.max(max, volt), -Infinity);
         const healthyReadings = batteryData.filter(v => v > 11.5 && v < 15.5).length;
         const healthPercent = (healthyReadings / batteryData.length) * 100;
 
@@ -585,16 +655,13 @@ export class PDFGenerator {
       }
 
       // RPM Analysis
-      const rpmData = validSensorData
-        .map(d => (d.rotRpmAvg !== null && (d.rotRpmAvg as number) > 0 && (d.rotRpmAvg as number) < 50000) ? d.rotRpmAvg as number : 
-                  (d.rotRpmMax !== null && (d.rotRpmMax as number) > 0 && (d.rotRpmMax as number) < 50000) ? d.rotRpmMax as number : null)
-        .filter(r => r !== null) as number[];
+      const rpmData = PDFGenerator.readings(columns, r => r > 0 && r < 50000, 'RotRpmAvg', 'RotRpmMax');
 
       if (rpmData.length > 0) {
         checkNewPage(90);
-        addChart('Rotation Speed Analysis (RPM)', rpmData, 'line');
+        addChart('Rotation Speed Analysis (RPM)', overview('rotRpmAvg', r => r > 0 && r < 50000) ?? rpmData, 'line');
 
-        const maxRpm = Math.max(...rpmData);
+        const maxRpm = rpmData.reduce((max, rpm) => Math.max(max, rpm), -Infinity);
         const avgRpm = rpmData.reduce((a, b) => a + b, 0) / rpmData.length;
         const highRpmEvents = rpmData.filter(r => r > 4000).length;
 
@@ -607,15 +674,13 @@ export class PDFGenerator {
       }
 
       // Motor Current Analysis
-      const motorData = validSensorData
-        .map(d => (d.motorAvg !== null && (d.motorAvg as number) >= 0 && (d.motorAvg as number) < 100) ? d.motorAvg as number : null)
-        .filter(m => m !== null) as number[];
+      const motorData = PDFGenerator.readings(columns, m => m >= 0 && m < 100, 'MotorAvg');
 
       if (motorData.length > 0) {
         checkNewPage(90);
-        addChart('Motor Current Analysis (A)', motorData, 'area');
+        addChart('Motor Current Analysis (A)', overview('motorAvg', m => m >= 0 && m < 100) ?? motorData, 'area');
 
-        const maxCurrent = Math.max(...motorData);
+        const maxCurrent = motorData.reduce((max, motor) => Math.max(max, motor), -Infinity);
         const avgCurrent = motorData.reduce((a, b) => a + b, 0) / motorData.length;
         const overCurrentEvents = motorData.filter(m => m > 2.0).length;
 
@@ -628,15 +693,13 @@ export class PDFGenerator {
       }
 
       // Gamma Radiation Analysis
-      const gammaData = validSensorData
-        .map(d => (d.gamma !== null && (d.gamma as number) >= 0 && (d.gamma as number) < 10000) ? d.gamma as number : null)
-        .filter(g => g !== null) as number[];
+      const gammaData = PDFGenerator.readings(columns, g => g >= 0 && g < 10000, 'Gamma');
 
       if (gammaData.length > 0) {
         checkNewPage(90);
-        addChart('Gamma Radiation Analysis (cps)', gammaData, 'bar');
+        addChart('Gamma Radiation Analysis (cps)', overview('gamma', g => g >= 0 && g < 10000) ?? gammaData, 'bar');
 
-        const maxGamma = Math.max(...gammaData);
+        const maxGamma = gammaData.reduce((max, gamma) => Math.max(max, gamma), -Infinity);
         const avgGamma = gammaData.reduce((a, b) => a + b, 0) / gammaData.length;
         const anomalousCounts = gammaData.filter(g => g < 15 || g > 45).length;
 
@@ -714,11 +777,11 @@ export class PDFGenerator {
       });
     }
 
-    if (validSensorData.length > 50000) {
+    if (columns.length > 50000) {
       recommendations.push({
         priority: 'MEDIUM',
         action: 'Data Archive',
-        description: `Large dataset (${validSensorData.length.toLocaleString()} records) - consider archiving for historical analysis.`,
+        description: `Large dataset (${columns.length.toLocaleString()} records) - consider archiving for historical analysis.`,
         color: colors.primary
       });
     }
@@ -759,6 +822,92 @@ export class PDFGenerator {
       yPos += 20;
     });
 
+    // Appendix: per-channel sensor health, flagged channels first
+    const sensorHealth = reportData.sensorHealth;
+    if (sensorHealth && sensorHealth.channels.length > 0) {
+      pdf.addPage();
+      currentPage++;
+      yPos = 20;
+      addHeader('🩺 Appendix: Sensor Health', `${sensorHealth.channels.length} channels checked for stuck values, flatlines, resolution, offset steps and drift`);
+
+      addSectionHeader('📊 Channel Status');
+      addDataCard('Good', sensorHealth.good.toString(), 'channels', colors.accent, 25);
+      addDataCard('Suspect', sensorHealth.suspect.toString(), 'channels', colors.warning, 70);
+      addDataCard('Failed', sensorHealth.failed.toString(), 'channels', colors.danger, 115);
+      yPos += 28;
+
+      addSectionHeader('🔎 Channel Findings');
+      const statusOrder = { failed: 0, suspect: 1, good: 2 };
+      const channels = [...sensorHealth.channels].sort((a, b) => statusOrder[a.status] - statusOrder[b.status]);
+      pdf.setTextColor(colors.text[0], colors.text[1], colors.text[2]);
+      pdf.setFontSize(9);
+      pdf.setFont('helvetica', 'bold');
+      ['Channel', 'Status', 'Readings', 'Findings'].forEach((heading, i) => pdf.text(heading, [25, 65, 85, 110][i], yPos));
+      yPos += 6;
+      pdf.setFont('helvetica', 'normal');
+      channels.forEach(channel => {
+        const findings: string[] = pdf.splitTextToSize(channel.findings.join('; ') || '-', 85);
+        checkNewPage(5 * findings.length + 1);
+        const statusColor = channel.status === 'failed' ? colors.danger : channel.status === 'suspect' ? colors.warning : colors.accent;
+        pdf.setTextColor(colors.text[0], colors.text[1], colors.text[2]);
+        pdf.text(channel.channel, 25, yPos);
+        pdf.text(channel.readings.toLocaleString(), 85, yPos);
+        findings.forEach((line, i) => pdf.text(line, 110, yPos + i * 5));
+        pdf.setTextColor(statusColor[0], statusColor[1], statusColor[2]);
+        pdf.text(channel.status.toUpperCase(), 65, yPos);
+        yPos += 5 * findings.length;
+      });
+    }
+
+    // Appendix: how the file was read
+    const diagnostics = reportData.parseDiagnostics;
+    if (diagnostics) {
+      pdf.addPage();
+      currentPage++;
+      yPos = 20;
+      addHeader('🧭 Appendix: Parse Diagnostics', `${diagnostics.layoutId} layout • ${diagnostics.recordSize}-byte records`);
+
+      addSectionHeader('📦 File Coverage');
+      addDataCard('File Size', diagnostics.fileSize.toLocaleString(), 'bytes', colors.primary, 25);
+      addDataCard('Decoded', diagnostics.recordsDecoded.toLocaleString(), 'records', colors.accent, 70);
+      addDataCard('Skipped', (diagnostics.recordsSkipped.erased + diagnostics.recordsSkipped.zeroFill).toLocaleString(), 'records', colors.warning, 115);
+      addDataCard('Truncated', diagnostics.truncatedBytes.toLocaleString(), 'bytes', diagnostics.truncatedBytes > 0 ? colors.danger : colors.secondary, 160, 35);
+      yPos += 28;
+
+      pdf.setTextColor(colors.text[0], colors.text[1], colors.text[2]);
+      pdf.setFont('helvetica', 'normal');
+      pdf.setFontSize(10);
+      PDFGenerator.describeParseDiagnostics(diagnostics).forEach(line => {
+        pdf.splitTextToSize(line, 160).forEach((part: string) => {
+          checkNewPage(6);
+          pdf.text(part, 25, yPos);
+          yPos += 6;
+        });
+      });
+      yPos += 4;
+
+      addSectionHeader('🗂️ Byte Regions');
+      pdf.setFontSize(9);
+      pdf.setFont('helvetica', 'bold');
+      ['Region', 'Start byte', 'End byte', 'Records'].forEach((heading, i) => pdf.text(heading, [25, 85, 120, 155][i], yPos));
+      yPos += 6;
+      pdf.setFont('helvetica', 'normal');
+      // Badly fragmented files can have thousands of regions; list the first ones only
+      const maxRegions = 60;
+      diagnostics.regions.slice(0, maxRegions).forEach(region => {
+        checkNewPage(6);
+        pdf.text(REGION_LABELS[region.kind], 25, yPos);
+        pdf.text(region.startByte.toLocaleString(), 85, yPos);
+        pdf.text(region.endByte.toLocaleString(), 120, yPos);
+        pdf.text(region.records > 0 ? region.records.toLocaleString() : '-', 155, yPos);
+        yPos += 5;
+      });
+      if (diagnostics.regions.length > maxRegions) {
+        pdf.setFont('helvetica', 'italic');
+        pdf.text(`… ${diagnostics.regions.length - maxRegions} more regions`, 25, yPos);
+      }
+    }
+
     // Footer on last page
     yPos = 280;
     pdf.setFillColor(colors.secondary[0], colors.secondary[1], colors.secondary[2]);
@@ -773,6 +922,55 @@ export class PDFGenerator {
     return Buffer.from(pdf.output('arraybuffer'));
   }
 
+  // Human-readable source of a device report value, e.g. "Header offset 32 (f32)"
+  // Readings of every record that pass `keep`, in logging order; with several channels a
+  // record gives the first of them that passes
+  private static readings(columns: SensorColumns, keep: (value: number) => boolean, ...names: ChannelName[]): number[] {
+    const values: number[] = [];
+    for (let i = 0; i < columns.length; i++) {
+      for (const name of names) {
+        const value = columns.value(name, i);
+        if (value !== null && keep(value)) {
+          values.push(value);
+          break;
+        }
+      }
+    }
+    return values;
+  }
+
+  static describeProvenance(provenance?: FieldProvenance): string {
+    if (!provenance) return 'Not recorded';
+    switch (provenance.source) {
+      case 'header':
+        return provenance.type === 'version'
+          ? `Header offsets ${provenance.offset}-${provenance.offset + 2} (major.minor.patch)`
+          : `Header offset ${provenance.offset} (${provenance.type})`;
+      case 'inferred':
+        return `Inferred (unverified): header offset ${provenance.offset} (${provenance.type}), first plausible of offsets ${provenance.candidates.join(', ')}`;
+      case 'computed':
+        return `Computed from sensor data: ${provenance.method}`;
+      case 'unavailable':
+        return `Unavailable: ${provenance.reason}`;
+    }
+  }
+
+  // Summary sentences for the parse diagnostics appendix
+  static describeParseDiagnostics(diagnostics: ParseDiagnostics): string[] {
+    const { recordsSkipped, wrapAround } = diagnostics;
+    const lines = [
+      `${diagnostics.bytesConsumed.toLocaleString()} of ${diagnostics.fileSize.toLocaleString()} bytes decoded (${diagnostics.headerBytes} header bytes)`,
+      `Skipped ${recordsSkipped.erased.toLocaleString()} erased and ${recordsSkipped.zeroFill.toLocaleString()} zero-filled record slots`,
+    ];
+    if (diagnostics.truncatedBytes > 0) {
+      lines.push(`Last ${diagnostics.truncatedBytes} bytes are shorter than a record and were not decoded`);
+    }
+    lines.push(wrapAround.detected
+      ? `Circular memory wrapped: oldest record at slot ${wrapAround.oldestRecord} (${wrapAround.method}) - ${wrapAround.note}`
+      : `No wrap-around: ${wrapAround.note}`);
+    return lines;
+  }
+
   static getReportMimeType(): string {
     return 'application/pdf';
   }
@@ -796,10 +994,13 @@ export class PDFGenerator {
     lines.push('─'.repeat(50));
     lines.push(`📄 File Name: ${data.filename}`);
     lines.push(`📅 Generated: ${data.processedAt.toLocaleString()}`);
+    if (data.contentHash) {
+      lines.push(`🔑 SHA-256: ${data.contentHash}`);
+    }
     lines.push(`🔍 Overall Status: ${data.overallStatus.toUpperCase()}`);
     lines.push(`⚠️  Critical Issues: ${data.criticalIssues}`);
     lines.push(`⚡ Warnings: ${data.warnings}`);
-    lines.push(`📊 Total Data Points: ${data.sensorData.length}`);
+    lines.push(`📊 Total Data Points: ${data.columns.length}`);
     lines.push('');
 
     // Device Information
@@ -808,7 +1009,7 @@ export class PDFGenerator {
       lines.push('─'.repeat(50));
 
       // MP Device
-      if (data.deviceReport.mpSerialNumber || data.deviceReport.mpFirmwareVersion) {
+      if (data.fileType === 'MP' || data.deviceReport.mpSerialNumber || data.deviceReport.mpFirmwareVersion) {
         lines.push('');
         lines.push('💻 MP Device:');
         if (data.deviceReport.mpSerialNumber) {
@@ -832,7 +1033,7 @@ export class PDFGenerator {
       }
 
       // MDG Device
-      if (data.deviceReport.mdgSerialNumber || data.deviceReport.mdgFirmwareVersion) {
+      if (data.fileType === 'MDG' || data.deviceReport.mdgSerialNumber || data.deviceReport.mdgFirmwareVersion) {
         lines.push('');
         lines.push('🎛️  MDG Device:');
         if (data.deviceReport.mdgSerialNumber) {
@@ -847,10 +1048,21 @@ export class PDFGenerator {
         if (data.deviceReport.mdgEdtTotalHours) {
           lines.push(`   • EDT Total Hours: ${data.deviceReport.mdgEdtTotalHours.toFixed(1)} hrs`);
         }
-        if (data.deviceReport.mdgExtremeShockIndex) {
-          lines.push(`   • Extreme Shock Index: ${data.deviceReport.mdgExtremeShockIndex.toFixed(1)}`);
+        if (data.deviceReport.mdgExtremeShockIndex != null) {
+          lines.push(`   • Extreme Shock Index: ${data.deviceReport.mdgExtremeShockIndex.toFixed(3)}`);
         }
       }
+
+      const provenance = data.deviceReport.provenance;
+      if (provenance) {
+        lines.push('');
+        lines.push('🧾 Value Sources:');
+        DEVICE_FIELD_LABELS.forEach(([field, label]) => {
+          if (provenance[field]) {
+            lines.push(`   • ${label}: ${PDFGenerator.describeProvenance(provenance[field])}`);
+          }
+        });
+      }
       lines.push('');
     }
 
@@ -884,16 +1096,16 @@ export class PDFGenerator {
     }
 
     // Data Analytics Summary
-    if (data.sensorData.length > 0) {
+    if (data.columns.length > 0) {
       lines.push('');
       lines.push('📊 SENSOR DATA ANALYTICS');
       lines.push('─'.repeat(50));
 
-      const tempData = data.sensorData.filter(d => d.tempMP !== null).map(d => d.tempMP!);
-      const voltageData = data.sensorData.filter(d => d.batteryVoltMP !== null).map(d => d.batteryVoltMP!);
-      const shockData = data.sensorData.filter(d => d.shockZ !== null).map(d => d.shockZ!);
-      const motorData = data.sensorData.filter(d => d.motorAvg !== null).map(d => d.motorAvg!);
-      const gammaData = data.sensorData.filter(d => d.gamma !== null).map(d => d.gamma!);
+      const tempData = PDFGenerator.readings(data.columns, isFinite, 'TempMP');
+      const voltageData = PDFGenerator.readings(data.columns, isFinite, 'BatteryVoltMP');
+      const shockData = PDFGenerator.readings(data.columns, isFinite, 'ShockZ');
+      const motorData = PDFGenerator.readings(data.columns, isFinite, 'MotorAvg');
+      const gammaData = PDFGenerator.readings(data.columns, isFinite, 'Gamma');
 
       if (tempData.length > 0) {
         const avgTemp = tempData.reduce((a, b) => a + b) / tempData.length;
@@ -971,6 +1183,27 @@ export class PDFGenerator {
       lines.push('   • Archive this report for historical analysis');
     }
 
+    if (data.sensorHealth && data.sensorHealth.channels.length > 0) {
+      lines.push('');
+      lines.push('🩺 APPENDIX: SENSOR HEALTH');
+      lines.push('─'.repeat(50));
+      lines.push(`   ${data.sensorHealth.good} good, ${data.sensorHealth.suspect} suspect, ${data.sensorHealth.failed} failed`);
+      data.sensorHealth.channels.forEach(channel => {
+        lines.push(`   ${channel.channel.padEnd(20)} ${channel.status.toUpperCase().padEnd(8)} ${channel.findings.join('; ')}`);
+      });
+    }
+
+    if (data.parseDiagnostics) {
+      lines.push('');
+      lines.push('🧭 APPENDIX: PARSE DIAGNOSTICS');
+      lines.push('─'.repeat(50));
+      PDFGenerator.describeParseDiagnostics(data.parseDiagnostics).forEach(line => lines.push(`   • ${line}`));
+      lines.push('');
+      data.parseDiagnostics.regions.forEach(region => {
+        lines.push(`   ${REGION_LABELS[region.kind].padEnd(20)} bytes ${region.startByte}-${region.endByte}${region.records > 0 ? ` (${region.records} records)` : ''}`);
+      });
+    }
+
     // Footer
     lines.push('');
     lines.push('═'.repeat(80));
@@ -0,0 +1,228 @@
+import type { SampleQuality } from '@shared/schema';
+import { recordLayouts } from './layouts';
+import type { ChannelName } from './sensorColumns';
+
+export type { ChannelName };
+export type FieldType = 'f32' | 'u8' | 'u16' | 'u32';
+
+// One value inside a fixed-size record. Decoded as `raw * scale + bias`, then
+// nulled when it falls outside `validRange`.
+export interface LayoutField {
+  name: ChannelName;
+  offset: number;          // byte offset from the start of the record
+  type: FieldType;         // all multi-byte values are little-endian
+  scale?: number;          // default 1
+  bias?: number;           // default 0, applied after scaling (e.g. 32 for °C → °F)
+  validRange?: [number, number];
+  unit?: string;
+  states?: [string, string]; // [off, on] labels for status bytes (raw 0 = off)
+}
+
+// Values the firmware does not log per record, such as configured thresholds. They are
+// reported with the dump's data quality summary rather than repeated in every record.
+export interface LayoutConstant {
+  name: ChannelName;
+  value: number;
+  unit?: string;
+}
+
+export interface RecordLayout {
+  id: string;
+  description: string;
+  toolType: 'MP' | 'MDG';
+  // Inclusive firmware range this layout applies to; omit both bounds for the fallback layout
+  firmware: { min?: string; max?: string };
+  header: {
+    size: number;
+    firmwareVersionOffset: number; // major, minor, patch as three u8
+    signature?: { offset: number; hex: string }; // fixed bytes that identify the tool type
+  };
+  recordSize: number;
+  recordIntervalMs: number; // nominal spacing between records, overridable per upload
+  // Clocks the firmware stores, as u32 seconds since the Unix epoch (UTC). Without
+  // either, record times are derived from a start time and recordIntervalMs.
+  time?: {
+    headerStartOffset?: number;      // start of logging, in the header
+    recordTimestampOffset?: number;  // time of each record, inside the record
+  };
+  fields: LayoutField[];
+  constants?: LayoutConstant[];
+}
+
+const FIELD_SIZES: Record<FieldType, number> = { f32: 4, u8: 1, u16: 2, u32: 4 };
+
+// Read major.minor.patch from a dump header, or null when the bytes are not a plausible version
+export function readFirmwareVersion(header: Buffer, offset: number): string | null {
+  if (offset + 3 > header.length) return null;
+  const [major, minor, patch] = [header[offset], header[offset + 1], header[offset + 2]];
+  if (major > 0 && major < 20 && minor < 20 && patch < 20) {
+    return `${major}.${minor}.${patch}`;
+  }
+  return null;
+}
+
+export function compareVersions(a: string, b: string): number {
+  const pa = a.split('.').map(Number);
+  const pb = b.split('.').map(Number);
+  for (let i = 0; i < Math.max(pa.length, pb.length); i++) {
+    const diff = (pa[i] || 0) - (pb[i] || 0);
+    if (diff !== 0) return diff;
+  }
+  return 0;
+}
+
+function matchesFirmware(layout: RecordLayout, version: string): boolean {
+  const { min, max } = layout.firmware;
+  return (min === undefined || compareVersions(version, min) >= 0) &&
+         (max === undefined || compareVersions(version, max) <= 0);
+}
+
+// Pick the layout for a tool type from the dump header: a layout whose firmware range
+// contains the version in the header wins, otherwise the tool's fallback layout is used.
+export function selectRecordLayout(
+  toolType: string,
+  header: Buffer,
+  layouts: RecordLayout[] = recordLayouts
+): { layout: RecordLayout; firmwareVersion: string | null } | null {
+  const candidates = layouts.filter(layout => layout.toolType === toolType);
+
+  for (const layout of candidates) {
+    const version = readFirmwareVersion(header, layout.header.firmwareVersionOffset);
+    const ranged = layout.firmware.min !== undefined || layout.firmware.max !== undefined;
+    if (ranged && version && matchesFirmware(layout, version)) {
+      return { layout, firmwareVersion: version };
+    }
+  }
+
+  const fallback = candidates.find(layout =>
+    layout.firmware.min === undefined && layout.firmware.max === undefined
+  );
+  if (!fallback) return null;
+
+  return {
+    layout: fallback,
+    firmwareVersion: readFirmwareVersion(header, fallback.header.firmwareVersionOffset),
+  };
+}
+
+// Reject layouts that would read past the end of a record or define a channel twice
+export function validateRecordLayout(layout: RecordLayout): string[] {
+  const problems: string[] = [];
+  const seen = new Set<string>();
+
+  for (const field of [...layout.fields, ...(layout.constants || [])]) {
+    if (seen.has(field.name)) {
+      problems.push(`${layout.id}: channel ${field.name} is defined more than once`);
+    }
+    seen.add(field.name);
+  }
+
+  for (const field of layout.fields) {
+    if (field.offset < 0 || field.offset + FIELD_SIZES[field.type] > layout.recordSize) {
+      problems.push(`${layout.id}: ${field.name} (${field.type} at +${field.offset}) does not fit in a ${layout.recordSize}-byte record`);
+    }
+    if (field.validRange && field.validRange[0] > field.validRange[1]) {
+      problems.push(`${layout.id}: ${field.name} has an empty valid range`);
+    }
+  }
+
+  const signature = layout.header.signature;
+  if (signature && (!/^([0-9a-f]{2})+$/i.test(signature.hex) || signature.offset + signature.hex.length / 2 > layout.header.size)) {
+    problems.push(`${layout.id}: header signature must be hex bytes inside the header`);
+  }
+
+  if (layout.header.firmwareVersionOffset + 3 > layout.header.size) {
+    problems.push(`${layout.id}: firmware version offset lies outside the ${layout.header.size}-byte header`);
+  }
+
+  const time = layout.time;
+  if (time?.headerStartOffset !== undefined && time.headerStartOffset + 4 > layout.header.size) {
+    problems.push(`${layout.id}: header start time offset lies outside the ${layout.header.size}-byte header`);
+  }
+  if (time?.recordTimestampOffset !== undefined && time.recordTimestampOffset + 4 > layout.recordSize) {
+    problems.push(`${layout.id}: record timestamp does not fit in a ${layout.recordSize}-byte record`);
+  }
+  if (!(layout.recordIntervalMs > 0)) {
+    problems.push(`${layout.id}: record interval must be positive`);
+  }
+
+  return problems;
+}
+
+export function headerSignatureMatches(layout: RecordLayout, header: Buffer): boolean | null {
+  const signature = layout.header.signature;
+  if (!signature) return null;
+  const expected = Buffer.from(signature.hex, 'hex');
+  if (signature.offset + expected.length > header.length) return false;
+  return header.subarray(signature.offset, signature.offset + expected.length).equals(expected);
+}
+
+// Raw, unscaled value of a field; NaN when the record is too short to hold it
+export function readRawField(buffer: Buffer, recordOffset: number, field: LayoutField): number {
+  const offset = recordOffset + field.offset;
+  if (offset + FIELD_SIZES[field.type] > buffer.length) return NaN;
+
+  switch (field.type) {
+    case 'f32': return buffer.readFloatLE(offset);
+    case 'u8': return buffer.readUInt8(offset);
+    case 'u16': return buffer.readUInt16LE(offset);
+    case 'u32': return buffer.readUInt32LE(offset);
+  }
+}
+
+export interface DecodedField {
+  value: number | string | null; // null unless quality is 'valid'
+  quality: SampleQuality;
+}
+
+// A record of nothing but 0x00 bytes is filler written before the tool logged anything
+export function isPaddingRecord(buffer: Buffer, recordOffset: number, recordSize: number): boolean {
+  const end = Math.min(buffer.length, recordOffset + recordSize);
+  for (let i = recordOffset; i < end; i++) {
+    if (buffer[i] !== 0x00) return false;
+  }
+  return true;
+}
+
+// Decode one field of the record starting at `recordOffset` and classify the sample:
+// erased flash (all 0xFF), a non-finite float, a value outside the field's valid range,
+// padding (the record is filler or too short to hold the field) or a valid reading
+export function decodeLayoutField(
+  buffer: Buffer,
+  recordOffset: number,
+  field: LayoutField,
+  paddingRecord = false
+): DecodedField {
+  const start = recordOffset + field.offset;
+  const size = FIELD_SIZES[field.type];
+  if (paddingRecord || start + size > buffer.length) return { value: null, quality: 'padding' };
+
+  let erased = true;
+  for (let i = start; i < start + size; i++) {
+    if (buffer[i] !== 0xff) { erased = false; break; }
+  }
+  if (erased) return { value: null, quality: 'erased' };
+
+  const raw = readRawField(buffer, recordOffset, field);
+  if (!isFinite(raw)) return { value: null, quality: 'nan' };
+
+  if (field.states) {
+    return { value: raw > 0 ? field.states[1] : field.states[0], quality: 'valid' };
+  }
+
+  const value = raw * (field.scale ?? 1) + (field.bias ?? 0);
+  if (field.validRange && (value < field.validRange[0] || value > field.validRange[1])) {
+    return { value: null, quality: 'out-of-range' };
+  }
+  return { value, quality: 'valid' };
+}
+
+// Fail fast on a malformed layout file instead of silently decoding garbage
+const layoutProblems = recordLayouts.flatMap(validateRecordLayout);
+const layoutIds = recordLayouts.map(layout => layout.id);
+layoutIds.forEach((id, index) => {
+  if (layoutIds.indexOf(id) !== index) layoutProblems.push(`Duplicate record layout id ${id}`);
+});
+if (layoutProblems.length > 0) {
+  throw new Error(`Invalid record layouts:\n${layoutProblems.join('\n')}`);
+}
@@ -0,0 +1,275 @@
+import { CHANNEL_NAMES, columnKey, type ChannelName, type SensorColumns } from './sensorColumns';
+
+export type FilterOp = 'eq' | 'ne' | 'gt' | 'gte' | 'lt' | 'lte';
+
+const FILTER_OPS: FilterOp[] = ['eq', 'ne', 'gt', 'gte', 'lt', 'lte'];
+
+// `rtd` filters and sorts on the record time; anything else names a channel
+export interface RecordFilter {
+  column: ChannelName | 'rtd';
+  op: FilterOp;
+  value: number | string;
+}
+
+export interface RecordQuery {
+  columns: ChannelName[];
+  filters: RecordFilter[];
+  sort: ChannelName | 'rtd' | null; // null keeps logging order
+  order: 'asc' | 'desc';
+  offset: number;
+  limit: number;
+  cursor: RecordCursor | null;
+}
+
+// Position after the last row of a page: its sort value and record index, where the next
+// page starts among the matching records, and for stores that page by key, the stored row
+export interface RecordCursor {
+  sort: string | null;
+  order: 'asc' | 'desc';
+  value: number | string | null;
+  record: number;
+  offset: number;
+  row?: { rtd: number; id: number };
+}
+
+export interface RecordRow {
+  record: number;
+  rtd: string;
+  [column: string]: number | string | null;
+}
+
+export interface RecordPage {
+  totalRecords: number; // records in the dump
+  total: number;        // records matching the filters
+  offset: number;
+  limit: number;
+  columns: string[];
+  rows: RecordRow[];
+  nextCursor: string | null;
+}
+
+export const MAX_PAGE_SIZE = 1000;
+
+// The channels a dump logs, which is all a query is read against
+export interface RecordChannels {
+  logged: ChannelName[];
+  status: ChannelName[]; // those holding state labels, such as FlowStatus
+}
+
+export function recordChannels(columns: SensorColumns): RecordChannels {
+  const logged = CHANNEL_NAMES.filter(name => columns.has(name));
+  return { logged, status: logged.filter(name => columns.channels[name]!.labels) };
+}
+
+function channelNamed(key: string): ChannelName | undefined {
+  return CHANNEL_NAMES.find(name => columnKey(name) === key);
+}
+
+function parseTime(text: string): number {
+  return /^-?\d+$/.test(text) ? Number(text) : Date.parse(text);
+}
+
+// Cursor for the page after the given row
+export function encodeCursor(query: RecordQuery, position: Omit<RecordCursor, 'sort' | 'order'>): string {
+  const cursor: RecordCursor = { sort: query.sort && columnKeyOf(query.sort), order: query.order, ...position };
+  return Buffer.from(JSON.stringify(cursor)).toString('base64url');
+}
+
+function decodeCursor(text: string): RecordCursor | null {
+  try {
+    const cursor = JSON.parse(Buffer.from(text, 'base64url').toString('utf8'));
+    return typeof cursor?.record === 'number' && Number.isInteger(cursor?.offset) && cursor.offset >= 0 ? cursor : null;
+  } catch {
+    return null;
+  }
+}
+
+// Read a records query string against the channels a dump logs:
+//   columns=tempMP,maxX                  channels to return (default: all logged)
+//   filter=tempMP:gte:150,flowStatus:eq:On,rtd:lt:2025-07-21T20:00:00Z
+//   sort=tempMP&order=desc               default: logging order
+//   offset=0&limit=50  or  cursor=<nextCursor of the previous page>
+// Returns an error message for anything it cannot use.
+export function parseRecordQuery(query: Record<string, unknown>, channels: RecordChannels): RecordQuery | string {
+  const logged = (name: ChannelName | undefined): name is ChannelName => name !== undefined && channels.logged.includes(name);
+  let selected = [...channels.logged];
+  if (query.columns !== undefined && query.columns !== '') {
+    selected = [];
+    for (const key of String(query.columns).split(',').map(key => key.trim()).filter(Boolean)) {
+      const name = channelNamed(key);
+      if (!logged(name)) return `Unknown column for this dump: ${key}`;
+      selected.push(name);
+    }
+  }
+
+  const filters: RecordFilter[] = [];
+  if (query.filter !== undefined && query.filter !== '') {
+    for (const term of String(query.filter).split(',').filter(Boolean)) {
+      // The value may itself contain ':' (ISO times), so only the first two colons separate
+      const [key, op, ...rest] = term.split(':');
+      const text = rest.join(':');
+      if (!FILTER_OPS.includes(op as FilterOp) || text === '') {
+        return `Invalid filter '${term}' - use column:op:value with op one of ${FILTER_OPS.join(', ')}`;
+      }
+      if (key === 'rtd') {
+        const time = parseTime(text);
+        if (isNaN(time)) return `Invalid time in filter '${term}'`;
+        filters.push({ column: 'rtd', op: op as FilterOp, value: time });
+        continue;
+      }
+      const name = channelNamed(key);
+      if (!logged(name)) return `Unknown column in filter '${term}'`;
+      if (channels.status.includes(name)) {
+        if (op !== 'eq' && op !== 'ne') return `Status column ${key} only supports eq and ne`;
+        filters.push({ column: name, op: op as FilterOp, value: text });
+      } else {
+        const value = Number(text);
+        if (!isFinite(value)) return `Invalid number in filter '${term}'`;
+        filters.push({ column: name, op: op as FilterOp, value });
+      }
+    }
+  }
+
+  let sort: RecordQuery['sort'] = null;
+  if (query.sort !== undefined && query.sort !== '') {
+    const key = String(query.sort);
+    const name = key === 'rtd' ? 'rtd' : channelNamed(key);
+    if (name !== 'rtd' && !logged(name)) return `Unknown sort column for this dump: ${key}`;
+    sort = name;
+  }
+
+  const order = query.order === undefined ? 'asc' : String(query.order);
+  if (order !== 'asc' && order !== 'desc') return "order must be asc or desc";
+
+  const limit = query.limit === undefined ? 50 : Number(query.limit);
+  if (!Number.isInteger(limit) || limit < 1 || limit > MAX_PAGE_SIZE) {
+    return `limit must be a whole number from 1 to ${MAX_PAGE_SIZE}`;
+  }
+  const offset = query.offset === undefined ? 0 : Number(query.offset);
+  if (!Number.isInteger(offset) || offset < 0) return "offset must be a whole number of records";
+
+  let cursor: RecordCursor | null = null;
+  if (query.cursor !== undefined && query.cursor !== '') {
+    cursor = decodeCursor(String(query.cursor));
+    if (!cursor) return "Invalid cursor";
+    if (cursor.sort !== (sort && columnKeyOf(sort)) || cursor.order !== order) {
+      return "The cursor belongs to a different sort - start again without a cursor";
+    }
+  }
+
+  return { columns: selected, filters, sort, order, offset, limit, cursor };
+}
+
+function columnKeyOf(column: ChannelName | 'rtd'): string {
+  return column === 'rtd' ? 'rtd' : columnKey(column);
+}
+
+function sortValue(columns: SensorColumns, column: ChannelName | 'rtd' | null, index: number): number | string | null {
+  if (column === null) return index;
+  if (column === 'rtd') return columns.time[index];
+  return columns.output(column, index);
+}
+
+// Sort order of two rows; samples without a value go last whatever the direction,
+// and the record index breaks ties so pages and cursors are stable
+function compareRows(
+  a: { value: number | string | null; record: number },
+  b: { value: number | string | null; record: number },
+  order: 'asc' | 'desc'
+): number {
+  if (a.value !== b.value) {
+    if (a.value === null) return 1;
+    if (b.value === null) return -1;
+    const difference = typeof a.value === 'number' && typeof b.value === 'number'
+      ? a.value - b.value
+      : String(a.value).localeCompare(String(b.value));
+    if (difference !== 0) return order === 'asc' ? difference : -difference;
+  }
+  return a.record - b.record;
+}
+
+function matches(columns: SensorColumns, filter: RecordFilter, index: number): boolean {
+  // Served values, so eq 75.2 matches a float32 reading that prints as 75.2
+  const actual = sortValue(columns, filter.column, index);
+  if (actual === null) return false;
+  if (filter.op === 'eq') return actual === filter.value;
+  if (filter.op === 'ne') return actual !== filter.value;
+
+  // Range filters are only accepted on numeric columns and record time
+  const value = actual as number;
+  const bound = filter.value as number;
+  switch (filter.op) {
+    case 'gt': return value > bound;
+    case 'gte': return value >= bound;
+    case 'lt': return value < bound;
+    case 'lte': return value <= bound;
+  }
+}
+
+// Indexes of the records matching the filters, in sort order
+function matchingRecords(columns: SensorColumns, query: RecordQuery): number[] {
+  const indexes: number[] = [];
+  for (let i = 0; i < columns.length; i++) {
+    if (query.filters.every(filter => matches(columns, filter, i))) indexes.push(i);
+  }
+  if (query.sort === null && query.order === 'asc') return indexes;
+
+  const keyed = indexes.map(record => ({ record, value: sortValue(columns, query.sort, record) }));
+  keyed.sort((a, b) => compareRows(a, b, query.order));
+  return keyed.map(row => row.record);
+}
+
+function buildRow(columns: SensorColumns, selected: ChannelName[], index: number): RecordRow {
+  const row: RecordRow = { record: index, rtd: new Date(columns.time[index]).toISOString() };
+  for (const name of selected) {
+    row[columnKey(name)] = columns.output(name, index);
+  }
+  return row;
+}
+
+// One page of a records query. With a cursor the page starts after the cursor row and
+// `offset` is ignored, so pages stay consistent while the client scrolls.
+export function queryRecords(columns: SensorColumns, query: RecordQuery): RecordPage {
+  const ordered = matchingRecords(columns, query);
+
+  let start = query.offset;
+  if (query.cursor) {
+    const after = { value: query.cursor.value, record: query.cursor.record };
+    let low = 0;
+    let high = ordered.length;
+    while (low < high) {
+      const middle = (low + high) >> 1;
+      const row = { record: ordered[middle], value: sortValue(columns, query.sort, ordered[middle]) };
+      if (compareRows(row, after, query.order) <= 0) low = middle + 1;
+      else high = middle;
+    }
+    start = low;
+  }
+
+  const pageIndexes = ordered.slice(start, start + query.limit);
+  const last = pageIndexes[pageIndexes.length - 1];
+  const nextCursor = start + query.limit < ordered.length && last !== undefined
+    ? encodeCursor(query, { value: sortValue(columns, query.sort, last), record: last, offset: start + query.limit })
+    : null;
+
+  return {
+    totalRecords: columns.length,
+    total: ordered.length,
+    offset: start,
+    limit: query.limit,
+    columns: ['record', 'rtd', ...query.columns.map(columnKey)],
+    rows: pageIndexes.map(index => buildRow(columns, query.columns, index)),
+    nextCursor,
+  };
+}
+
+// Every record matching the query, ignoring pagination, as CSV
+export function recordsToCsv(columns: SensorColumns, query: RecordQuery): string {
+  const header = ['record', 'rtd', ...query.columns.map(columnKey)];
+  const lines = [header.join(',')];
+  for (const index of matchingRecords(columns, query)) {
+    const row = buildRow(columns, query.columns, index);
+    lines.push(header.map(key => row[key] ?? '').join(','));
+  }
+  return lines.join('\r\n');
+}
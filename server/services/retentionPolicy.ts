@@ -0,0 +1,99 @@
+import type { MemoryDump } from '@shared/schema';
+import type { IStorage } from '../storage';
+
+export interface RetentionLimits {
+  maxCount: number | null;     // keep at most this many dumps
+  maxAgeDays: number | null;   // drop dumps uploaded longer ago than this
+  maxDiskBytes: number | null; // keep the summed upload size under this budget
+}
+
+export interface RetentionSweep {
+  deletedIds: number[];
+  retained: number;
+}
+
+// Replaces the old "purge everything on upload" behaviour: the dump library keeps
+// growing and only the oldest dumps are evicted once one of the limits is exceeded.
+export class RetentionPolicy {
+  constructor(readonly limits: RetentionLimits) {}
+
+  // DUMP_RETENTION_MAX_COUNT, DUMP_RETENTION_MAX_AGE_DAYS and DUMP_RETENTION_MAX_DISK_MB
+  // override the defaults; a value of 0 disables that limit.
+  static fromEnv(env: NodeJS.ProcessEnv = process.env): RetentionPolicy {
+    const read = (name: string, fallback: number): number | null => {
+      const raw = env[name];
+      const value = raw !== undefined && raw !== '' ? Number(raw) : fallback;
+      if (!isFinite(value) || value < 0) {
+        console.warn(`⚠️ Ignoring invalid ${name}=${raw}, using ${fallback}`);
+        return fallback > 0 ? fallback : null;
+      }
+      return value > 0 ? value : null;
+    };
+
+    const maxDiskMb = read('DUMP_RETENTION_MAX_DISK_MB', 5120);
+    return new RetentionPolicy({
+      maxCount: read('DUMP_RETENTION_MAX_COUNT', 200),
+      maxAgeDays: read('DUMP_RETENTION_MAX_AGE_DAYS', 90),
+      maxDiskBytes: maxDiskMb !== null ? maxDiskMb * 1024 * 1024 : null,
+    });
+  }
+
+  // Pick the dumps to evict, oldest first. Dumps still being processed are never evicted.
+  selectExpired(dumps: MemoryDump[], now: Date = new Date()): MemoryDump[] {
+    const { maxCount, maxAgeDays, maxDiskBytes } = this.limits;
+    const newestFirst = [...dumps].sort((a, b) =>
+      new Date(b.uploadedAt).getTime() - new Date(a.uploadedAt).getTime() || b.id - a.id
+    );
+
+    const expired: MemoryDump[] = [];
+    let kept = 0;
+    let keptBytes = 0;
+
+    for (const dump of newestFirst) {
+      if (dump.status === 'pending' || dump.status === 'processing') {
+        kept++;
+        keptBytes += dump.fileSize ?? 0;
+        continue;
+      }
+
+      const ageDays = (now.getTime() - new Date(dump.uploadedAt).getTime()) / (24 * 60 * 60 * 1000);
+      const size = dump.fileSize ?? 0;
+      const overCount = maxCount !== null && kept >= maxCount;
+      const overAge = maxAgeDays !== null && ageDays > maxAgeDays;
+      const overDisk = maxDiskBytes !== null && keptBytes + size > maxDiskBytes;
+
+      if (overCount || overAge || overDisk) {
+        expired.push(dump);
+      } else {
+        kept++;
+        keptBytes += size;
+      }
+    }
+
+    return expired;
+  }
+
+  // `remove` lets callers release anything else owned by a dump (e.g. its archived blob)
+  async enforce(
+    storage: IStorage,
+    remove: (dump: MemoryDump) => Promise<boolean> = dump => storage.deleteMemoryDump(dump.id)
+  ): Promise<RetentionSweep> {
+    const dumps = await storage.getMemoryDumps();
+    const expired = this.selectExpired(dumps);
+    const deletedIds: number[] = [];
+
+    for (const dump of expired) {
+      if (await remove(dump)) {
+        deletedIds.push(dump.id);
+      }
+    }
+
+    if (deletedIds.length > 0) {
+      console.log(`🗑️ Retention policy evicted ${deletedIds.length} dump(s): ${deletedIds.join(', ')}`);
+    }
+
+    return { deletedIds, retained: dumps.length - deletedIds.length };
+  }
+}
+
+export const retentionPolicy = RetentionPolicy.fromEnv();
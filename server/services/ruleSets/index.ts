@@ -0,0 +1,10 @@
+import type { RuleSetDefinition } from '@shared/schema';
+import { mpDefault } from './mpDefault';
+import { mdgDefault } from './mdgDefault';
+
+// Rule sets that ship with the application. Each tool type is analyzed with the first one
+// listed for it until a rule set stored through the API is activated.
+export const builtInRuleSets: RuleSetDefinition[] = [
+  mpDefault,
+  mdgDefault,
+];
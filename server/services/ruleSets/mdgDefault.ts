@@ -0,0 +1,137 @@
+import type { AnalysisRule, RuleSetDefinition } from '@shared/schema';
+
+// One instability rule per supply rail: more than 10% coefficient of variation, counting
+// readings over two standard deviations from the mean
+const railRules: AnalysisRule[] = ['v3_3VA_DI', 'v5VD', 'v3_3VD', 'v1_9VD', 'v1_5VD', 'v1_8VA', 'v3_3VA'].map((metric): AnalysisRule => ({
+  id: `${metric.toLowerCase().replace(/_/g, '-')}-instability`,
+  metric,
+  condition: { op: 'deviates', sigma: 2 },
+  require: [{ stat: 'population', op: 'gt', value: 10 }, { stat: 'cv', op: 'gt', value: 10 }],
+  severity: 'warning',
+  escalate: [{ when: [{ stat: 'cv', op: 'gt', value: 20 }], severity: 'critical' }],
+  message: `${metric} voltage instability detected (CV: {cv:1}%)`,
+  explanation: 'Power supply fluctuations or electrical faults detected using statistical analysis.',
+}));
+
+// Limits the analysis engine used before rule sets existed, for MDG (directional
+// module) dumps; 1.1.0 grades stick-slip by level in place of the RPM variability check.
+// Shocks are g, voltages V.
+export const mdgDefault: RuleSetDefinition = {
+  name: 'mdg-default',
+  version: '1.1.0',
+  description: 'Built-in MDG limits: shocks over mean + 2σ (at least 8 g), gamma 15-45, 10% supply rail CV, 4000 / 500 RPM, stick-slip index 0.5 / 1.0 / 1.5',
+  toolTypes: ['MDG'],
+  rules: [
+    {
+      id: 'reset-frequency',
+      metric: 'resetMP',
+      condition: { op: 'eq', value: 1 },
+      require: [{ stat: 'share', op: 'gt', value: 10 }],
+      severity: 'critical',
+      message: 'High reset frequency: {count} resets',
+      explanation: 'Firmware instability detected.',
+    },
+    {
+      id: 'shock',
+      metric: 'shockMagnitude',
+      condition: { op: 'above-mean', sigma: 2, floor: 8 },
+      require: [{ stat: 'population', op: 'gt', value: 10 }],
+      severity: 'warning',
+      escalate: [
+        {
+          when: [{ stat: 'peak', op: 'gt', value: 20 }],
+          severity: 'critical',
+          explanation: 'AI detected {count} significant shock events above statistical threshold ({threshold:1}g). CRITICAL: Peak shock {peak:1}g exceeds equipment limits. Immediate inspection recommended.',
+        },
+        {
+          when: [{ stat: 'share', op: 'gt', value: 5 }],
+          severity: 'critical',
+          explanation: 'AI detected {count} significant shock events above statistical threshold ({threshold:1}g). CRITICAL: {share:1} shocks per 100 samples exceeds equipment limits. Immediate inspection recommended.',
+        },
+        {
+          when: [{ stat: 'share', op: 'gt', value: 2 }],
+          severity: 'warning',
+          explanation: 'AI detected {count} significant shock events above statistical threshold ({threshold:1}g). High frequency shock pattern suggests ongoing mechanical issue.',
+        },
+      ],
+      message: 'VALIDATED Shock Analysis: {count} events, peak {peak:1}g',
+      explanation: 'AI detected {count} significant shock events above statistical threshold ({threshold:1}g). Isolated shock events within acceptable range but monitoring recommended.',
+    },
+    {
+      id: 'gamma-low',
+      metric: 'gamma',
+      condition: { op: 'lt', value: 15 },
+      severity: 'info',
+      message: '{count} low gamma count readings',
+      explanation: 'Possible calibration or shielding issue.',
+    },
+    {
+      id: 'gamma-high',
+      metric: 'gamma',
+      condition: { op: 'gt', value: 45 },
+      severity: 'warning',
+      message: '{count} high gamma count readings',
+      explanation: 'Contamination or unexpected formation detected.',
+    },
+    ...railRules,
+    {
+      id: 'rpm-high',
+      metric: 'rotRpmMax',
+      where: [{ metric: 'rotRpmMax', condition: { op: 'gt', value: 0 } }],
+      condition: { op: 'gt', value: 4000 },
+      require: [{ stat: 'population', op: 'gt', value: 10 }],
+      severity: 'warning',
+      escalate: [
+        {
+          when: [{ stat: 'peak', op: 'gt', value: 4500 }],
+          severity: 'critical',
+          explanation: 'AI detected {count} high-speed events (>{threshold} RPM, {share:1}% of operation). CRITICAL: Peak RPM {peak:0} exceeds safe operating limits. Risk of mechanical failure, cavitation, or bearing damage.',
+        },
+        {
+          when: [{ stat: 'share', op: 'gt', value: 10 }],
+          severity: 'critical',
+          explanation: 'AI detected {count} high-speed events (>{threshold} RPM, {share:1}% of operation). CRITICAL: Peak RPM {peak:0} exceeds safe operating limits. Risk of mechanical failure, cavitation, or bearing damage.',
+        },
+      ],
+      message: 'High rotation speed detected: Peak {peak:0} RPM',
+      explanation: 'AI detected {count} high-speed events (>{threshold} RPM, {share:1}% of operation). Operating near maximum design limits. Monitor for mechanical stress indicators.',
+    },
+    {
+      id: 'rpm-low',
+      metric: 'rotRpmMax',
+      where: [{ metric: 'rotRpmMax', condition: { op: 'gt', value: 0 } }],
+      condition: { op: 'lt', value: 500 },
+      require: [{ stat: 'population', op: 'gt', value: 10 }, { stat: 'share', op: 'gt', value: 15 }],
+      severity: 'warning',
+      message: 'Low rotation speed operation: {share:1}% below optimal',
+      explanation: 'AI detected {count} low-speed events (<{threshold} RPM). May indicate motor issues, high viscosity, blockages, or insufficient power supply. Reduced pumping efficiency expected.',
+    },
+    {
+      id: 'stick-slip-moderate',
+      metric: 'stickSlipIndex',
+      where: [{ metric: 'stickSlipIndex', condition: { op: 'lt', value: 1 } }],
+      condition: { op: 'gte', value: 0.5 },
+      require: [{ stat: 'share', op: 'gt', value: 5 }],
+      severity: 'info',
+      message: 'Moderate stick-slip: {count} records at index 0.5-1.0 in {events} events',
+      explanation: 'Mean index {matchedMean:2} over {share:1}% of the rotating records under index 1. The bit kept turning, but torsional oscillation loads the BHA and reduces drilling efficiency.',
+    },
+    {
+      id: 'stick-slip-high',
+      metric: 'stickSlipIndex',
+      where: [{ metric: 'stickSlipIndex', condition: { op: 'lt', value: 1.5 } }],
+      condition: { op: 'gte', value: 1 },
+      severity: 'warning',
+      message: 'High stick-slip: {count} records at index 1.0-1.5 in {events} events',
+      explanation: 'The slowest rotation logged reached zero: the bit stopped and released. Longest run {longest:0}s. Adjust WOB / RPM or use a torsional damper to limit bit and MWD damage.',
+    },
+    {
+      id: 'stick-slip-severe',
+      metric: 'stickSlipIndex',
+      condition: { op: 'gte', value: 1.5 },
+      severity: 'critical',
+      message: 'Severe stick-slip: peak index {peak:2} over {count} records in {events} events',
+      explanation: 'Full stick followed by slip above 2.5 times the average rotation. Longest run {longest:0}s. Severe torsional vibration damages bits, electronics and connections - change drilling parameters immediately.',
+    },
+  ],
+};
@@ -0,0 +1,207 @@
+import type { RuleSetDefinition } from '@shared/schema';
+
+// Limits the analysis engine used before rule sets existed, for MP (mud pulser) dumps;
+// 1.1.0 grades stick-slip by level in place of the RPM variability check.
+// Temperatures are °F, voltages V, currents A.
+export const mpDefault: RuleSetDefinition = {
+  name: 'mp-default',
+  version: '1.1.0',
+  description: 'Built-in MP limits: 200°F critical / 160°F warning / 50°F low, 11.5-15.5 V battery, 4000 / 500 RPM, stick-slip index 0.5 / 1.0 / 1.5',
+  toolTypes: ['MP'],
+  rules: [
+    {
+      id: 'temperature-sustained',
+      metric: 'tempMP',
+      condition: { op: 'gt', value: 200 },
+      duration: 5,
+      severity: 'critical',
+      message: 'CRITICAL: Sustained high temperature - Peak {peak:1}°F ({peakC:1}°C)',
+      explanation: 'AI detected {events} sustained thermal event(s) above {threshold}°F. Longest event: {longest:0}s with {count} readings in sustained events. Risk of equipment damage or failure. Immediate inspection required.',
+    },
+    {
+      id: 'temperature-spikes',
+      metric: 'tempMP',
+      condition: { op: 'gt', value: 200 },
+      require: [{ stat: 'longest', op: 'lt', value: 5 }],
+      severity: 'warning',
+      message: 'WARNING: Transient temperature spikes - Peak {peak:1}°F ({peakC:1}°C)',
+      explanation: 'AI detected {events} brief temperature spike(s) above {threshold}°F. Events were transient (under 5 s) suggesting possible sensor noise or brief thermal events. Monitor for pattern development.',
+    },
+    {
+      id: 'temperature-elevated',
+      metric: 'tempMP',
+      condition: { op: 'between', min: 160, max: 200 },
+      require: [{ stat: 'share', op: 'gt', value: 5 }],
+      severity: 'warning',
+      message: 'Elevated operating temperature - Average {matchedMean:1}°F ({matchedMeanC:1}°C)',
+      explanation: 'AI analysis shows {count} readings ({share:1}%) in warning range ({low}-{high}°F). Indicates elevated thermal stress - recommend checking ventilation and cooling systems.',
+    },
+    {
+      id: 'temperature-low',
+      metric: 'tempMP',
+      condition: { op: 'lt', value: 50 },
+      require: [{ stat: 'share', op: 'gt', value: 10 }],
+      severity: 'info',
+      message: 'Low temperature operation - Minimum {lowest:1}°F ({lowestC:1}°C)',
+      explanation: 'AI detected {count} readings ({share:1}%) below optimal operating range (<{threshold}°F). Average low temp: {matchedMean:1}°F. May indicate cold environment affecting viscosity and performance.',
+    },
+    {
+      id: 'temperature-integrity',
+      metric: 'tempMP',
+      condition: { op: 'missing' },
+      require: [{ stat: 'share', op: 'lt', value: 100 }],
+      severity: 'info',
+      escalate: [
+        {
+          when: [{ stat: 'share', op: 'gt', value: 20 }],
+          severity: 'critical',
+          explanation: 'AI detected {count} invalid temperature readings ({share:1}% of total data). HIGH FAILURE RATE - Sensor malfunction or communication errors likely. Immediate calibration required.',
+        },
+        {
+          when: [{ stat: 'share', op: 'gt', value: 5 }],
+          severity: 'warning',
+          explanation: 'AI detected {count} invalid temperature readings ({share:1}% of total data). Moderate sensor issues detected. Consider sensor maintenance.',
+        },
+      ],
+      message: 'Temperature sensor integrity: {count} invalid readings',
+      explanation: 'AI detected {count} invalid temperature readings ({share:1}% of total data). Occasional sensor anomalies - within acceptable range but monitor trend.',
+    },
+    {
+      id: 'temperature-failure',
+      metric: 'tempMP',
+      condition: { op: 'missing' },
+      require: [{ stat: 'share', op: 'gte', value: 100 }],
+      severity: 'critical',
+      message: 'Temperature sensor failure: No valid readings',
+      explanation: 'CRITICAL: AI analysis found zero valid temperature readings from {population} total records. Complete sensor failure or severe communication issues. Immediate replacement required.',
+    },
+    {
+      id: 'battery-low',
+      metric: 'batteryVoltMP',
+      condition: { op: 'lt', value: 11.5 },
+      severity: 'critical',
+      message: 'Low battery voltage: {lowest:2}V',
+      explanation: 'Risk of shutdown or system instability.',
+    },
+    {
+      id: 'battery-high',
+      metric: 'batteryVoltMP',
+      condition: { op: 'gt', value: 15.5 },
+      severity: 'warning',
+      message: 'High battery voltage: {peak:2}V',
+      explanation: 'Possible charging fault or damage risk.',
+    },
+    {
+      id: 'reset-frequency',
+      metric: 'resetMP',
+      condition: { op: 'eq', value: 1 },
+      require: [{ stat: 'share', op: 'gt', value: 10 }],
+      severity: 'critical',
+      message: 'High reset frequency: {count} resets',
+      explanation: 'Firmware instability detected.',
+    },
+    {
+      id: 'motor-spikes',
+      metric: 'motorMax',
+      condition: { op: 'gt', value: 2 },
+      severity: 'warning',
+      message: '{count} motor current spikes',
+      explanation: 'Overcurrent risk detected.',
+    },
+    {
+      id: 'pump-off-motor',
+      metric: 'motorAvg',
+      where: [{ metric: 'flowStatus', condition: { op: 'eq', value: 'Off' } }],
+      condition: { op: 'gt', value: 1.2 },
+      severity: 'warning',
+      message: '{count} pump-off high motor events',
+      explanation: 'Electrical or sensor fault detected.',
+    },
+    {
+      id: 'vibration',
+      metric: 'vibrationMagnitude',
+      condition: { op: 'above-mean', factor: 1.5 },
+      require: [{ stat: 'population', op: 'gt', value: 10 }, { stat: 'share', op: 'gt', value: 5 }],
+      severity: 'warning',
+      message: 'Excessive vibration detected: {count} high-magnitude events',
+      explanation: 'AI pattern analysis indicates mechanical wear or imbalance.',
+    },
+    {
+      id: 'rpm-high',
+      metric: 'rotRpmMax',
+      where: [{ metric: 'rotRpmMax', condition: { op: 'gt', value: 0 } }],
+      condition: { op: 'gt', value: 4000 },
+      require: [{ stat: 'population', op: 'gt', value: 10 }],
+      severity: 'warning',
+      escalate: [
+        {
+          when: [{ stat: 'peak', op: 'gt', value: 4500 }],
+          severity: 'critical',
+          explanation: 'AI detected {count} high-speed events (>{threshold} RPM, {share:1}% of operation). CRITICAL: Peak RPM {peak:0} exceeds safe operating limits. Risk of mechanical failure, cavitation, or bearing damage.',
+        },
+        {
+          when: [{ stat: 'share', op: 'gt', value: 10 }],
+          severity: 'critical',
+          explanation: 'AI detected {count} high-speed events (>{threshold} RPM, {share:1}% of operation). CRITICAL: Peak RPM {peak:0} exceeds safe operating limits. Risk of mechanical failure, cavitation, or bearing damage.',
+        },
+      ],
+      message: 'High rotation speed detected: Peak {peak:0} RPM',
+      explanation: 'AI detected {count} high-speed events (>{threshold} RPM, {share:1}% of operation). Operating near maximum design limits. Monitor for mechanical stress indicators.',
+    },
+    {
+      id: 'rpm-low',
+      metric: 'rotRpmMax',
+      where: [{ metric: 'rotRpmMax', condition: { op: 'gt', value: 0 } }],
+      condition: { op: 'lt', value: 500 },
+      require: [{ stat: 'population', op: 'gt', value: 10 }, { stat: 'share', op: 'gt', value: 15 }],
+      severity: 'warning',
+      message: 'Low rotation speed operation: {share:1}% below optimal',
+      explanation: 'AI detected {count} low-speed events (<{threshold} RPM). May indicate motor issues, high viscosity, blockages, or insufficient power supply. Reduced pumping efficiency expected.',
+    },
+    {
+      id: 'stick-slip-moderate',
+      metric: 'stickSlipIndex',
+      where: [{ metric: 'stickSlipIndex', condition: { op: 'lt', value: 1 } }],
+      condition: { op: 'gte', value: 0.5 },
+      require: [{ stat: 'share', op: 'gt', value: 5 }],
+      severity: 'info',
+      message: 'Moderate stick-slip: {count} records at index 0.5-1.0 in {events} events',
+      explanation: 'Mean index {matchedMean:2} over {share:1}% of the rotating records under index 1. The bit kept turning, but torsional oscillation loads the BHA and reduces drilling efficiency.',
+    },
+    {
+      id: 'stick-slip-high',
+      metric: 'stickSlipIndex',
+      where: [{ metric: 'stickSlipIndex', condition: { op: 'lt', value: 1.5 } }],
+      condition: { op: 'gte', value: 1 },
+      severity: 'warning',
+      message: 'High stick-slip: {count} records at index 1.0-1.5 in {events} events',
+      explanation: 'The slowest rotation logged reached zero: the bit stopped and released. Longest run {longest:0}s. Adjust WOB / RPM or use a torsional damper to limit bit and MWD damage.',
+    },
+    {
+      id: 'stick-slip-severe',
+      metric: 'stickSlipIndex',
+      condition: { op: 'gte', value: 1.5 },
+      severity: 'critical',
+      message: 'Severe stick-slip: peak index {peak:2} over {count} records in {events} events',
+      explanation: 'Full stick followed by slip above 2.5 times the average rotation. Longest run {longest:0}s. Severe torsional vibration damages bits, electronics and connections - change drilling parameters immediately.',
+    },
+    {
+      id: 'motor-degradation',
+      metric: 'motorEfficiency',
+      require: [{ stat: 'population', op: 'gt', value: 50 }, { stat: 'trend', op: 'lt', value: -15 }],
+      severity: 'warning',
+      escalate: [{ when: [{ stat: 'trend', op: 'lt', value: -25 }], severity: 'critical' }],
+      message: 'Motor performance degradation: {trend:1}% efficiency change',
+      explanation: 'AI trend analysis predicts accelerated wear. Consider maintenance scheduling.',
+    },
+    {
+      id: 'temperature-anomalies',
+      metric: 'tempMP',
+      condition: { op: 'iqr', k: 1.5 },
+      require: [{ stat: 'population', op: 'gt', value: 100 }],
+      severity: 'info',
+      message: '{count} temperature anomalies detected by AI',
+      explanation: 'Statistical outlier detection found unusual temperature patterns outside {low:1}-{high:1}°F.',
+    },
+  ],
+};
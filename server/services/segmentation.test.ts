@@ -0,0 +1,40 @@
+import assert from 'node:assert/strict';
+import { test } from 'node:test';
+import type { InsertSensorData } from '@shared/schema';
+import { segmentRecords } from './segmentation';
+import { SensorColumns } from './sensorColumns';
+
+const START = Date.UTC(2025, 6, 29);
+
+// Records one second apart from START, with the reset counter unchanged; `gapAfter`
+// moves the clock forward by `gapMs` after that many records
+function records(length: number, gapAfter: number[] = [], gapMs = 60_000): SensorColumns {
+  let offset = 0;
+  return SensorColumns.fromRecords(Array.from({ length }, (_, i) => {
+    if (gapAfter.includes(i)) offset += gapMs;
+    return { dumpId: 1, rtd: new Date(START + i * 1000 + offset), resetMP: 7, tempMP: 100 } as InsertSensorData;
+  }));
+}
+
+test('a clock gap starts a new power segment', () => {
+  const segments = segmentRecords(1, records(300, [100, 200]), 1000);
+  assert.deepEqual(segments.map(s => [s.startRecord, s.endRecord, s.startReason]), [
+    [0, 99, 'start'],
+    [100, 199, 'clock-gap'],
+    [200, 299, 'clock-gap'],
+  ]);
+  assert.ok(segments.every(s => s.kind === 'power' && s.state === '7' && s.durationSeconds === 100));
+});
+
+test('a step back in the record clock is a gap too', () => {
+  const segments = segmentRecords(1, records(200, [100], -3_600_000), 1000);
+  assert.deepEqual(segments.map(s => s.startReason), ['start', 'clock-gap']);
+});
+
+test('steps within the allowed intervals do not split', () => {
+  // 4 s between records at a 1 s interval is under the default 5 interval limit
+  const segments = segmentRecords(1, records(200, [50, 150], 3000), 1000);
+  assert.equal(segments.length, 1);
+  assert.equal(segments[0].endRecord, 199);
+  assert.equal(segments[0].stats.tempMP?.count, 200);
+});
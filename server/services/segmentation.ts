@@ -0,0 +1,205 @@
+import type { InsertDumpSegment, SegmentStats } from '@shared/schema';
+import { columnKey, type ChannelName, type SensorColumns } from './sensorColumns';
+
+export type SegmentKind = 'power' | 'circulation';
+export type SegmentStartReason = 'start' | 'reset' | 'clock-gap' | 'flow-change';
+
+export interface SegmentationOptions {
+  // A new reset counter or FlowStatus must hold for this many records before it starts a
+  // segment, so single corrupt bytes do not split a run
+  minRecords: number;
+  // A jump between record times of more than this many logging intervals (or backwards)
+  // means the tool was off in between
+  maxGapIntervals: number;
+}
+
+export const DEFAULT_SEGMENTATION_OPTIONS: SegmentationOptions = {
+  minRecords: 3,
+  maxGapIntervals: 5,
+};
+
+// Channels summarised per segment; channels without readings in a segment are left out
+const STAT_CHANNELS: ChannelName[] = [
+  'TempMP', 'BatteryVoltMP', 'BatteryCurrMP', 'MotorAvg', 'MotorHall', 'ActuationTime',
+  'MaxX', 'MaxY', 'MaxZ', 'RotRpmAvg', 'VBatt', 'IBatt',
+  'AccelAX', 'AccelAY', 'AccelAZ', 'ShockX', 'ShockY', 'ShockZ', 'Gamma',
+];
+
+// 0xFF is what an erased / never-written reset byte reads as
+const ERASED_RESET = 255;
+
+interface ChannelAccumulator { min: number; max: number; sum: number; count: number }
+
+interface Run {
+  state: string | null;
+  startReason: SegmentStartReason;
+  startRecord: number;
+  endRecord: number;
+  startTime: number;
+  endTime: number;
+  stats: Map<ChannelName, ChannelAccumulator>;
+}
+
+function addToRun(run: Run, index: number, columns: SensorColumns) {
+  run.endRecord = index;
+  run.endTime = columns.time[index];
+  for (const channel of STAT_CHANNELS) {
+    const value = columns.value(channel, index);
+    if (value === null || !isFinite(value)) continue;
+    const acc = run.stats.get(channel);
+    if (acc) {
+      acc.min = Math.min(acc.min, value);
+      acc.max = Math.max(acc.max, value);
+      acc.sum += value;
+      acc.count++;
+    } else {
+      run.stats.set(channel, { min: value, max: value, sum: value, count: 1 });
+    }
+  }
+}
+
+function mergeRuns(into: Run, from: Run) {
+  into.endRecord = from.endRecord;
+  into.endTime = from.endTime;
+  from.stats.forEach((acc, channel) => {
+    const target = into.stats.get(channel);
+    if (target) {
+      target.min = Math.min(target.min, acc.min);
+      target.max = Math.max(target.max, acc.max);
+      target.sum += acc.sum;
+      target.count += acc.count;
+    } else {
+      into.stats.set(channel, { ...acc });
+    }
+  });
+}
+
+// Follows one state (reset counter or FlowStatus) through the records and cuts a
+// segment wherever it changes for at least `minRecords` records or the clock jumps
+class StateTracker {
+  private current: Run | null = null;
+  private pending: Run | null = null;
+  private closed: Run[] = [];
+
+  constructor(private readonly changeReason: SegmentStartReason, private readonly minRecords: number) {}
+
+  push(index: number, columns: SensorColumns, state: string | null, clockGap: boolean) {
+    if (!this.current || clockGap) {
+      const reason = this.current ? 'clock-gap' : 'start';
+      const carried = state ?? this.current?.state ?? null;
+      this.closeCurrent();
+      this.current = this.startRun(index, columns, carried, reason);
+      return;
+    }
+
+    // Unknown state: keep extending whatever run is open
+    if (state === null || state === this.current.state) {
+      if (state !== null && this.pending) {
+        mergeRuns(this.current, this.pending);
+        this.pending = null;
+      }
+      addToRun(this.pending ?? this.current, index, columns);
+      return;
+    }
+
+    if (this.current.state === null) {
+      // The run started without a known state - adopt the first one seen
+      this.current.state = state;
+      addToRun(this.current, index, columns);
+      return;
+    }
+
+    if (this.pending && this.pending.state !== state) {
+      mergeRuns(this.current, this.pending);
+      this.pending = null;
+    }
+    if (this.pending) {
+      addToRun(this.pending, index, columns);
+    } else {
+      this.pending = this.startRun(index, columns, state, this.changeReason);
+    }
+
+    if (this.pending.endRecord - this.pending.startRecord + 1 >= this.minRecords) {
+      this.closed.push(this.current);
+      this.current = this.pending;
+      this.pending = null;
+    }
+  }
+
+  finish(): Run[] {
+    this.closeCurrent();
+    return this.closed;
+  }
+
+  private closeCurrent() {
+    if (!this.current) return;
+    if (this.pending) {
+      mergeRuns(this.current, this.pending);
+      this.pending = null;
+    }
+    this.closed.push(this.current);
+    this.current = null;
+  }
+
+  private startRun(index: number, columns: SensorColumns, state: string | null, startReason: SegmentStartReason): Run {
+    const run: Run = {
+      state, startReason,
+      startRecord: index, endRecord: index,
+      startTime: columns.time[index], endTime: columns.time[index],
+      stats: new Map(),
+    };
+    addToRun(run, index, columns);
+    return run;
+  }
+}
+
+function toSegment(dumpId: number, kind: SegmentKind, run: Run, sequence: number, intervalMs: number): InsertDumpSegment {
+  const stats: SegmentStats = {};
+  run.stats.forEach((acc, channel) => {
+    stats[columnKey(channel)] = { min: acc.min, max: acc.max, mean: acc.sum / acc.count, count: acc.count };
+  });
+
+  return {
+    dumpId,
+    kind,
+    sequence,
+    startTime: new Date(run.startTime),
+    endTime: new Date(run.endTime),
+    durationSeconds: (run.endTime - run.startTime + intervalMs) / 1000,
+    startRecord: run.startRecord,
+    endRecord: run.endRecord,
+    state: run.state,
+    startReason: run.startReason,
+    stats,
+  };
+}
+
+// Split a dump into power-cycle segments (reset counter changes and clock gaps) and
+// circulation periods (FlowStatus transitions). Records must be in logging order.
+export function segmentRecords(
+  dumpId: number,
+  columns: SensorColumns,
+  intervalMs: number,
+  options: SegmentationOptions = DEFAULT_SEGMENTATION_OPTIONS
+): InsertDumpSegment[] {
+  const power = new StateTracker('reset', options.minRecords);
+  const circulation = new StateTracker('flow-change', options.minRecords);
+  const hasFlowStatus = columns.countValid('FlowStatus') > 0;
+  const maxGapMs = intervalMs * options.maxGapIntervals;
+
+  for (let index = 0; index < columns.length; index++) {
+    const step = index > 0 ? columns.time[index] - columns.time[index - 1] : 0;
+    const clockGap = index > 0 && (step < 0 || step > maxGapMs);
+
+    const reset = columns.value('ResetMP', index);
+    power.push(index, columns, reset === null || reset === ERASED_RESET ? null : String(reset), clockGap);
+    if (hasFlowStatus) {
+      circulation.push(index, columns, columns.label('FlowStatus', index), clockGap);
+    }
+  }
+
+  return [
+    ...power.finish().map((run, i) => toSegment(dumpId, 'power', run, i, intervalMs)),
+    ...circulation.finish().map((run, i) => toSegment(dumpId, 'circulation', run, i, intervalMs)),
+  ];
+}
@@ -0,0 +1,278 @@
+import type { InsertSensorData, SampleQuality, SampleQualityMask } from '@shared/schema';
+import type { LayoutField, RecordLayout } from './recordLayout';
+
+// Every channel a record layout can log, in sensor data column order
+export const CHANNEL_NAMES = [
+  'TempMP', 'ResetMP', 'BatteryCurrMP', 'BatteryVoltMP', 'FlowStatus',
+  'MaxX', 'MaxY', 'MaxZ', 'Threshold', 'MotorMin', 'MotorAvg', 'MotorMax',
+  'MotorHall', 'ActuationTime', 'AccelAX', 'AccelAY', 'AccelAZ', 'ShockZ',
+  'ShockX', 'ShockY', 'ShockCountAxial50', 'ShockCountAxial100', 'ShockCountLat50',
+  'ShockCountLat100', 'RotRpmMax', 'RotRpmAvg', 'RotRpmMin', 'V3_3VA_DI', 'V5VD',
+  'V3_3VD', 'V1_9VD', 'V1_5VD', 'V1_8VA', 'V3_3VA', 'VBatt', 'I5VD', 'I3_3VD',
+  'IBatt', 'Gamma', 'AccelStabX', 'AccelStabY', 'AccelStabZ', 'AccelStabZH',
+  'SurveyTGF', 'SurveyTMF', 'SurveyDipA', 'SurveyINC', 'SurveyCINC', 'SurveyAZM',
+  'SurveyCAZM',
+] as const;
+
+export type ChannelName = typeof CHANNEL_NAMES[number];
+
+// Sensor data column a channel is stored and served under, e.g. TempMP -> tempMP
+export type SensorColumnKey = Uncapitalize<ChannelName>;
+
+export function columnKey(name: ChannelName): SensorColumnKey {
+  return (name.charAt(0).toLowerCase() + name.slice(1)) as SensorColumnKey;
+}
+
+export type ColumnKind = 'f32' | 'u8' | 'u16' | 'u32';
+export type ColumnArray = Float32Array | Uint8Array | Uint16Array | Uint32Array;
+
+export interface ChannelColumn {
+  kind: ColumnKind;
+  values: ColumnArray;        // the value, or the index into `labels` for status channels
+  valid: Uint8Array;          // validity bitmap: bit i is set when sample i has a value
+  reasons: Uint8Array | null; // quality code of each sample without a value, allocated on the first one
+  labels?: string[];
+}
+
+// Plain shape of a SensorColumns, as it survives postMessage between threads
+export interface SensorColumnsData {
+  length: number;
+  time: Float64Array; // record times, ms since the Unix epoch (UTC)
+  channels: Partial<Record<ChannelName, ChannelColumn>>;
+}
+
+// Position in this list is the code stored in ChannelColumn.reasons
+const QUALITY_CODES: SampleQuality[] = ['valid', 'out-of-range', 'nan', 'erased', 'padding'];
+
+// Columns read back from sensor rows that only ever hold whole numbers
+const INTEGER_CHANNELS = new Set<ChannelName>([
+  'ResetMP', 'ShockCountAxial50', 'ShockCountAxial100', 'ShockCountLat50', 'ShockCountLat100', 'Gamma',
+]);
+
+const ARRAYS: Record<ColumnKind, new (length: number) => ColumnArray> = {
+  f32: Float32Array,
+  u8: Uint8Array,
+  u16: Uint16Array,
+  u32: Uint32Array,
+};
+
+// Scaled values need a float whatever width the raw field has
+function kindForField(field: LayoutField): ColumnKind {
+  if (field.states) return 'u8';
+  const scaled = (field.scale ?? 1) !== 1 || (field.bias ?? 0) !== 0;
+  return scaled || field.type === 'f32' ? 'f32' : field.type;
+}
+
+function allocateColumn(kind: ColumnKind, capacity: number, labels?: string[]): ChannelColumn {
+  return {
+    kind,
+    values: new ARRAYS[kind](capacity),
+    valid: new Uint8Array(Math.ceil(capacity / 8)),
+    reasons: null,
+    labels: labels && [...labels],
+  };
+}
+
+// Float32 holds about 7 significant digits; print no more than that so 75.2 does not
+// come out as 75.19999694824219
+function outputValue(column: ChannelColumn, index: number): number | string {
+  const value = column.values[index];
+  if (column.labels) return column.labels[value];
+  return column.kind === 'f32' ? Number(value.toPrecision(7)) : value;
+}
+
+// Decoded sensor records held as one typed array per channel with a validity bitmap,
+// instead of one object per record. Objects are only built by toRecords / pickRecords,
+// for API responses and database rows.
+export class SensorColumns implements SensorColumnsData {
+  length: number;
+  readonly time: Float64Array;
+  readonly channels: Partial<Record<ChannelName, ChannelColumn>>;
+
+  private constructor(data: SensorColumnsData) {
+    this.length = data.length;
+    this.time = data.time;
+    this.channels = data.channels;
+  }
+
+  // Re-attach the methods to columns received from a worker thread
+  static from(data: SensorColumnsData): SensorColumns {
+    return data instanceof SensorColumns ? data : new SensorColumns(data);
+  }
+
+  // Room for `length` records of every channel the layout logs per record
+  static forLayout(layout: RecordLayout, length: number): SensorColumns {
+    const channels: Partial<Record<ChannelName, ChannelColumn>> = {};
+    for (const field of layout.fields) {
+      channels[field.name] = allocateColumn(kindForField(field), length, field.states);
+    }
+    return new SensorColumns({ length, time: new Float64Array(length), channels });
+  }
+
+  // Columns for sensor rows read back from the database
+  static fromRecords(records: InsertSensorData[]): SensorColumns {
+    const length = records.length;
+    const channels: Partial<Record<ChannelName, ChannelColumn>> = {};
+    const columns = new SensorColumns({ length, time: new Float64Array(length), channels });
+
+    for (const name of CHANNEL_NAMES) {
+      const key = columnKey(name);
+      if (!records.some(record => record[key] != null || record.quality?.[key])) continue;
+      channels[name] = name === 'FlowStatus'
+        ? allocateColumn('u8', length, [])
+        : allocateColumn(INTEGER_CHANNELS.has(name) ? 'u32' : 'f32', length);
+    }
+
+    records.forEach((record, i) => {
+      columns.time[i] = new Date(record.rtd).getTime();
+      for (const name of Object.keys(channels) as ChannelName[]) {
+        const key = columnKey(name);
+        const value = record[key];
+        columns.setSample(name, i, value ?? null, value != null ? 'valid' : record.quality?.[key] ?? 'valid');
+      }
+    });
+    return columns;
+  }
+
+  // One set of columns holding `parts` back to back
+  static concat(parts: SensorColumns[]): SensorColumns {
+    if (parts.length === 1) return parts[0];
+    const length = parts.reduce((sum, part) => sum + part.length, 0);
+    const channels: Partial<Record<ChannelName, ChannelColumn>> = {};
+    const result = new SensorColumns({ length, time: new Float64Array(length), channels });
+
+    let offset = 0;
+    for (const part of parts) {
+      result.time.set(part.time.subarray(0, part.length), offset);
+      for (const name of Object.keys(part.channels) as ChannelName[]) {
+        const source = part.channels[name]!;
+        const target = channels[name] ??= allocateColumn(source.kind, length, source.labels);
+        // Status labels are per part; map them onto the combined list
+        const labelMap = source.labels?.map(label => {
+          let index = target.labels!.indexOf(label);
+          if (index === -1) index = target.labels!.push(label) - 1;
+          return index;
+        });
+        for (let i = 0; i < part.length; i++) {
+          if (!part.isValid(name, i)) {
+            const reason = source.reasons?.[i] ?? 0;
+            if (reason !== 0) result.setSample(name, offset + i, null, QUALITY_CODES[reason]);
+            continue;
+          }
+          target.values[offset + i] = labelMap ? labelMap[source.values[i]] : source.values[i];
+          target.valid[(offset + i) >> 3] |= 1 << ((offset + i) & 7);
+        }
+      }
+      offset += part.length;
+    }
+    return result;
+  }
+
+  has(name: ChannelName): boolean {
+    return this.channels[name] !== undefined;
+  }
+
+  // Store one decoded sample; anything but a valid value leaves the sample empty and
+  // records why
+  setSample(name: ChannelName, index: number, value: number | string | null, quality: SampleQuality) {
+    const column = this.channels[name];
+    if (!column) return;
+    if (quality === 'valid' && value !== null) {
+      if (typeof value === 'string') {
+        const labels = column.labels ??= [];
+        let code = labels.indexOf(value);
+        if (code === -1) code = labels.push(value) - 1;
+        column.values[index] = code;
+      } else {
+        column.values[index] = value;
+      }
+      column.valid[index >> 3] |= 1 << (index & 7);
+      return;
+    }
+    column.valid[index >> 3] &= ~(1 << (index & 7));
+    if (quality !== 'valid') {
+      column.reasons ??= new Uint8Array(column.values.length);
+      column.reasons[index] = QUALITY_CODES.indexOf(quality);
+    }
+  }
+
+  isValid(name: ChannelName, index: number): boolean {
+    const column = this.channels[name];
+    return column !== undefined && (column.valid[index >> 3] & (1 << (index & 7))) !== 0;
+  }
+
+  // Numeric value of a sample, or null when it has none
+  value(name: ChannelName, index: number): number | null {
+    return this.isValid(name, index) ? this.channels[name]!.values[index] : null;
+  }
+
+  // State label of a status channel sample, e.g. FlowStatus "On"
+  label(name: ChannelName, index: number): string | null {
+    const column = this.channels[name];
+    if (!column?.labels || !this.isValid(name, index)) return null;
+    return column.labels[column.values[index]];
+  }
+
+  // Value of a sample as served to clients: the state label of status channels, floats
+  // rounded to float32 precision, or null when it has none
+  output(name: ChannelName, index: number): number | string | null {
+    return this.isValid(name, index) ? outputValue(this.channels[name]!, index) : null;
+  }
+
+  countValid(name: ChannelName): number {
+    let count = 0;
+    this.forEachValid(name, () => { count++; });
+    return count;
+  }
+
+  // Visit every sample of a channel that has a value
+  forEachValid(name: ChannelName, visit: (value: number, index: number) => void) {
+    const column = this.channels[name];
+    if (!column) return;
+    const { values, valid } = column;
+    for (let i = 0; i < this.length; i++) {
+      if (valid[i >> 3] & (1 << (i & 7))) visit(values[i], i);
+    }
+  }
+
+  // Channels without a value in this record, keyed by sensor data column
+  qualityMask(index: number): SampleQualityMask | null {
+    let mask: SampleQualityMask | null = null;
+    for (const name of Object.keys(this.channels) as ChannelName[]) {
+      const code = this.channels[name]!.reasons?.[index] ?? 0;
+      if (code !== 0 && !this.isValid(name, index)) {
+        mask = mask || {};
+        mask[columnKey(name)] = QUALITY_CODES[code] as Exclude<SampleQuality, 'valid'>;
+      }
+    }
+    return mask;
+  }
+
+  // Sensor data rows for records start..end-1
+  toRecords(dumpId: number, start = 0, end = this.length): InsertSensorData[] {
+    const records: InsertSensorData[] = [];
+    for (let i = start; i < Math.min(end, this.length); i++) {
+      records.push(this.record(dumpId, i));
+    }
+    return records;
+  }
+
+  // Sensor data rows for the given record indexes only
+  pickRecords(dumpId: number, indexes: ArrayLike<number>): InsertSensorData[] {
+    const records: InsertSensorData[] = [];
+    for (let i = 0; i < indexes.length; i++) {
+      records.push(this.record(dumpId, indexes[i]));
+    }
+    return records;
+  }
+
+  private record(dumpId: number, index: number): InsertSensorData {
+    const record: Record<string, unknown> = { dumpId, rtd: new Date(this.time[index]) };
+    for (const name of CHANNEL_NAMES) {
+      const column = this.channels[name];
+      record[columnKey(name)] = column && this.isValid(name, index) ? outputValue(column, index) : null;
+    }
+    record.quality = this.qualityMask(index);
+    return record as InsertSensorData;
+  }
+}
@@ -0,0 +1,219 @@
+import type { ChannelHealth, SensorHealthStatus, SensorHealthSummary } from '@shared/schema';
+import { CHANNEL_NAMES, columnKey, type ChannelName, type SensorColumns } from './sensorColumns';
+
+// Identical consecutive readings that make a sensor stuck, and readings held at the
+// channel's highest or lowest value that make a flatline at its rail
+const STUCK_READINGS = 60;
+const FLATLINE_READINGS = 10;
+// Share of the readings stuck or flatlined (%) at which the sensor has failed
+const FAILED_PERCENT = 50;
+// Share of the records with a reading (%) below which the channel is suspect
+const MIN_VALID_PERCENT = 50;
+// Readings the statistical checks need
+const MIN_READINGS = 100;
+// Fewer distinct readings than this from a float sensor means lost resolution
+const MIN_LEVELS = 8;
+// Readings either side of an offset step, and its size in noise standard deviations
+const STEP_WINDOW = 30;
+const STEP_SIGMA = 10;
+const MAX_STEPS_LISTED = 10;
+// Parts the run is split into for drift, the share of them that must move the same way,
+// and the change (in the first part's noise σ, and % of the level) that counts as drift
+const DRIFT_PARTS = 20;
+const DRIFT_MONOTONIC = 0.8;
+const DRIFT_SIGMA = 5;
+const DRIFT_PERCENT = 2;
+
+// Channels expected to hold steady through a run - regulated supply rails and static
+// accelerations - so a slow change is the sensor drifting, not the process
+const DRIFT_CHANNELS = new Set<ChannelName>([
+  'V3_3VA_DI', 'V5VD', 'V3_3VD', 'V1_9VD', 'V1_5VD', 'V1_8VA', 'V3_3VA',
+  'AccelAX', 'AccelAY', 'AccelAZ', 'AccelStabX', 'AccelStabY', 'AccelStabZ', 'AccelStabZH',
+]);
+
+function median(values: number[]): number {
+  const sorted = [...values].sort((a, b) => a - b);
+  const middle = sorted.length >> 1;
+  return sorted.length % 2 ? sorted[middle] : (sorted[middle - 1] + sorted[middle]) / 2;
+}
+
+// Robust standard deviation: 1.4826 × median absolute deviation
+function robustSigma(values: number[]): number {
+  const center = median(values);
+  return 1.4826 * median(values.map(value => Math.abs(value - center)));
+}
+
+const format = (value: number) => Number(value.toPrecision(4)).toString();
+
+interface Run {
+  value: number;
+  start: number; // position in the readings
+  length: number;
+}
+
+// Runs of identical consecutive readings
+function identicalRuns(values: number[]): Run[] {
+  const runs: Run[] = [];
+  for (let i = 0; i < values.length; ) {
+    let end = i + 1;
+    while (end < values.length && values[end] === values[i]) end++;
+    runs.push({ value: values[i], start: i, length: end - i });
+    i = end;
+  }
+  return runs;
+}
+
+// Sudden shifts in level: a jump between two readings of at least STEP_SIGMA noise
+// deviations (σ from the first differences) after which the level stays shifted, with
+// quiet readings on both sides
+function offsetSteps(values: number[], indexes: number[]): ChannelHealth['offsetSteps'] {
+  const differences = values.slice(1).map((value, i) => value - values[i]);
+  let noise = robustSigma(differences) / Math.SQRT2;
+  if (noise === 0) {
+    const smallest = differences.reduce((min, d) => d !== 0 && Math.abs(d) < min ? Math.abs(d) : min, Infinity);
+    noise = isFinite(smallest) ? smallest : 0;
+  }
+  if (noise === 0) return [];
+
+  const steps: ChannelHealth['offsetSteps'] = [];
+  for (let i = STEP_WINDOW; i + STEP_WINDOW <= values.length; i++) {
+    const jump = values[i] - values[i - 1];
+    if (Math.abs(jump) < STEP_SIGMA * noise) continue;
+    const before = values.slice(i - STEP_WINDOW, i);
+    const after = values.slice(i, i + STEP_WINDOW);
+    const from = median(before);
+    const to = median(after);
+    const shift = to - from;
+    if (Math.abs(shift) < STEP_SIGMA * noise || Math.abs(jump) < 0.8 * Math.abs(shift)) continue;
+    if (Math.max(robustSigma(before), robustSigma(after)) > Math.abs(shift) / 5) continue;
+    steps.push({ record: indexes[i], from, to });
+    i += STEP_WINDOW - 1;
+  }
+  return steps;
+}
+
+// Level change from the first to the last part of the run when the part medians move
+// steadily one way, or null when they do not
+function drift(values: number[]): number | null {
+  const size = Math.floor(values.length / DRIFT_PARTS);
+  if (size < 2) return null;
+  const parts = Array.from({ length: DRIFT_PARTS }, (_, i) => values.slice(i * size, (i + 1) * size));
+  const levels = parts.map(median);
+  const moves = levels.slice(1).map((level, i) => Math.sign(level - levels[i])).filter(sign => sign !== 0);
+  const direction = Math.sign(levels[levels.length - 1] - levels[0]);
+  if (direction === 0 || moves.filter(sign => sign === direction).length < DRIFT_MONOTONIC * (DRIFT_PARTS - 1)) return null;
+
+  const change = levels[levels.length - 1] - levels[0];
+  const noise = robustSigma(parts[0]);
+  if (Math.abs(change) < DRIFT_SIGMA * noise) return null;
+  if (Math.abs(change) < (DRIFT_PERCENT / 100) * Math.abs(median(values))) return null;
+  return change;
+}
+
+function assessChannel(columns: SensorColumns, name: ChannelName): ChannelHealth {
+  const column = columns.channels[name]!;
+  const values: number[] = [];
+  const indexes: number[] = [];
+  columns.forEachValid(name, (value, index) => {
+    if (!isFinite(value)) return;
+    values.push(value);
+    indexes.push(index);
+  });
+
+  const health: ChannelHealth = {
+    channel: columnKey(name),
+    status: 'good',
+    readings: values.length,
+    validPercent: columns.length > 0 ? (values.length / columns.length) * 100 : 0,
+    longestStuck: null,
+    stuckPercent: 0,
+    flatlinePercent: 0,
+    levels: null,
+    offsetSteps: [],
+    drift: null,
+    findings: [],
+  };
+  const failed = (finding: string) => { health.status = 'failed'; health.findings.push(finding); };
+  const suspect = (finding: string) => {
+    if (health.status === 'good') health.status = 'suspect';
+    health.findings.push(finding);
+  };
+
+  if (values.length === 0) {
+    failed('No valid readings');
+    return health;
+  }
+  if (health.validPercent < MIN_VALID_PERCENT) {
+    suspect(`Only ${health.validPercent.toFixed(1)}% of records have a valid reading`);
+  }
+  // Counters (resets, shock counts, gamma) are whole numbers that sit still between events
+  if (column.kind !== 'f32') return health;
+
+  // Stuck: identical readings, other than zero (a resting reading: no rotation, no current)
+  const runs = identicalRuns(values);
+  const stuck = runs.filter(run => run.value !== 0 && run.length >= STUCK_READINGS);
+  const longest = stuck.reduce<Run | null>((best, run) => !best || run.length > best.length ? run : best, null);
+  if (longest) {
+    health.longestStuck = { value: longest.value, readings: longest.length, startRecord: indexes[longest.start] };
+    health.stuckPercent = (stuck.reduce((sum, run) => sum + run.length, 0) / values.length) * 100;
+    const finding = `Stuck at ${format(longest.value)} for ${longest.length} readings from record ${indexes[longest.start]} (${health.stuckPercent.toFixed(1)}% of readings stuck)`;
+    if (health.stuckPercent >= FAILED_PERCENT) failed(finding); else suspect(finding);
+  }
+
+  // Flatline: held at the highest or lowest reading the channel reached, where it clips
+  let highest = -Infinity;
+  let lowest = Infinity;
+  for (const value of values) {
+    if (value > highest) highest = value;
+    if (value < lowest) lowest = value;
+  }
+  if (highest > lowest) {
+    const rails = [highest, lowest].filter(rail => rail !== 0);
+    const flat = runs.filter(run => rails.includes(run.value) && run.length >= FLATLINE_READINGS);
+    if (flat.length > 0) {
+      health.flatlinePercent = (flat.reduce((sum, run) => sum + run.length, 0) / values.length) * 100;
+      const railValues = Array.from(new Set(flat.map(run => format(run.value)))).join(' / ');
+      const finding = `Flatlined at its rail (${railValues}) for ${health.flatlinePercent.toFixed(1)}% of readings`;
+      if (health.flatlinePercent >= FAILED_PERCENT) failed(finding); else suspect(finding);
+    }
+  } else if (highest !== 0 && values.length >= STUCK_READINGS) {
+    // Every reading identical is already reported as stuck
+  } else if (values.length >= MIN_READINGS) {
+    suspect('Reads zero throughout');
+  }
+
+  if (values.length < MIN_READINGS) return health;
+
+  // Quantization: a float sensor that only ever reports a handful of values
+  health.levels = new Set(values).size;
+  if (health.levels > 1 && health.levels < MIN_LEVELS) {
+    suspect(`Only ${health.levels} distinct readings in ${values.length} - resolution lost`);
+  }
+
+  health.offsetSteps = offsetSteps(values, indexes).slice(0, MAX_STEPS_LISTED);
+  if (health.offsetSteps.length > 0) {
+    const first = health.offsetSteps[0];
+    suspect(`${health.offsetSteps.length === MAX_STEPS_LISTED ? `${MAX_STEPS_LISTED}+` : health.offsetSteps.length} sudden offset step(s), first at record ${first.record} (${format(first.from)} → ${format(first.to)})`);
+  }
+
+  if (DRIFT_CHANNELS.has(name)) {
+    health.drift = drift(values);
+    if (health.drift !== null) {
+      suspect(`Drifted ${health.drift > 0 ? '+' : ''}${format(health.drift)} from the start to the end of the run`);
+    }
+  }
+
+  return health;
+}
+
+// Health of every numeric channel the dump logs: failed when it has no readings or is
+// stuck or flatlined for at least half of them; suspect for shorter stuck runs and
+// flatlines, sparse readings, lost resolution, sudden offset steps or drift on a channel
+// that should hold steady; good otherwise. Status channels such as FlowStatus are left out.
+export function assessSensorHealth(columns: SensorColumns): SensorHealthSummary {
+  const channels = CHANNEL_NAMES
+    .filter(name => columns.has(name) && !columns.channels[name]!.labels)
+    .map(name => assessChannel(columns, name));
+  const count = (status: SensorHealthStatus) => channels.filter(channel => channel.status === status).length;
+  return { good: count('good'), suspect: count('suspect'), failed: count('failed'), channels };
+}
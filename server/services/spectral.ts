@@ -0,0 +1,257 @@
+import type { ChannelName, SensorColumns } from './sensorColumns';
+import { MIN_ROTATING_RPM } from './stickSlip';
+
+// Channels the spectrum can be taken of: vibration maxima, accelerations and rotation
+export const SPECTRAL_CHANNELS: ChannelName[] = [
+  'MaxX', 'MaxY', 'MaxZ', 'AccelAX', 'AccelAY', 'AccelAZ', 'RotRpmMax', 'RotRpmAvg', 'RotRpmMin',
+];
+
+export const SEGMENT_LENGTHS = [64, 128, 256, 512, 1024];
+
+// Share of a segment's readings that may be missing; they are interpolated linearly between
+// the valid readings either side
+const MAX_MISSING_SHARE = 0.5;
+
+// Iterative radix-2 FFT of re + i·im in place; the length must be a power of two
+function fft(re: Float64Array, im: Float64Array) {
+  const n = re.length;
+  for (let i = 1, j = 0; i < n; i++) {
+    let bit = n >> 1;
+    for (; j & bit; bit >>= 1) j ^= bit;
+    j ^= bit;
+    if (i < j) {
+      [re[i], re[j]] = [re[j], re[i]];
+      [im[i], im[j]] = [im[j], im[i]];
+    }
+  }
+  for (let size = 2; size <= n; size <<= 1) {
+    const angle = (-2 * Math.PI) / size;
+    const wRe = Math.cos(angle);
+    const wIm = Math.sin(angle);
+    for (let start = 0; start < n; start += size) {
+      let uRe = 1;
+      let uIm = 0;
+      for (let k = 0; k < size / 2; k++) {
+        const a = start + k;
+        const b = a + size / 2;
+        const tRe = re[b] * uRe - im[b] * uIm;
+        const tIm = re[b] * uIm + im[b] * uRe;
+        re[b] = re[a] - tRe;
+        im[b] = im[a] - tIm;
+        re[a] += tRe;
+        im[a] += tIm;
+        const next = uRe * wRe - uIm * wIm;
+        uIm = uRe * wIm + uIm * wRe;
+        uRe = next;
+      }
+    }
+  }
+}
+
+function hann(length: number): Float64Array {
+  const window = new Float64Array(length);
+  for (let i = 0; i < length; i++) window[i] = 0.5 - 0.5 * Math.cos((2 * Math.PI * i) / (length - 1));
+  return window;
+}
+
+// Welch estimate of the one-sided power spectral density (units²/Hz) over records
+// first..last: Hann-windowed segments overlapping by half, each with its mean removed.
+// Segments across a clock gap or reset, or with more than half their readings missing, are
+// skipped; `interpolated` counts the readings filled in the segments used.
+function welch(
+  columns: SensorColumns,
+  channel: ChannelName,
+  first: number,
+  last: number,
+  segmentLength: number,
+  intervalMs: number,
+  window: Float64Array
+): { psd: Float64Array; segments: number; interpolated: number } {
+  const bins = segmentLength / 2 + 1;
+  const psd = new Float64Array(bins);
+  const sampleRate = 1000 / intervalMs;
+  const windowPower = window.reduce((sum, w) => sum + w * w, 0);
+  const re = new Float64Array(segmentLength);
+  const im = new Float64Array(segmentLength);
+  let segments = 0;
+  let interpolated = 0;
+
+  for (let start = first; start + segmentLength - 1 <= last; start += segmentLength / 2) {
+    let sum = 0;
+    let valid = 0;
+    let contiguous = true;
+    for (let i = 0; i < segmentLength; i++) {
+      const index = start + i;
+      const step = i > 0 ? columns.time[index] - columns.time[index - 1] : intervalMs;
+      if (step <= 0 || step > 1.5 * intervalMs) contiguous = false;
+      const value = columns.value(channel, index);
+      re[i] = value !== null && isFinite(value) ? value : NaN;
+      if (!isNaN(re[i])) {
+        sum += re[i];
+        valid++;
+      }
+    }
+    if (!contiguous || valid < segmentLength * (1 - MAX_MISSING_SHARE)) continue;
+
+    // Fill each missing run from the readings either side (the nearest one at the edges)
+    for (let i = 0; i < segmentLength; i++) {
+      if (!isNaN(re[i])) continue;
+      let next = i;
+      while (next < segmentLength && isNaN(re[next])) next++;
+      const before = i > 0 ? re[i - 1] : re[next];
+      const after = next < segmentLength ? re[next] : before;
+      for (let j = i; j < next; j++) re[j] = before + ((after - before) * (j - i + 1)) / (next - i + 1);
+      sum += re.subarray(i, next).reduce((total, value) => total + value, 0);
+      interpolated += next - i;
+      i = next;
+    }
+
+    const mean = sum / segmentLength;
+    for (let i = 0; i < segmentLength; i++) {
+      re[i] = (re[i] - mean) * window[i];
+      im[i] = 0;
+    }
+    fft(re, im);
+    for (let k = 0; k < bins; k++) {
+      const power = (re[k] * re[k] + im[k] * im[k]) / (sampleRate * windowPower);
+      psd[k] += k === 0 || k === bins - 1 ? power : 2 * power;
+    }
+    segments++;
+  }
+
+  if (segments > 0) for (let k = 0; k < bins; k++) psd[k] /= segments;
+  return { psd, segments, interpolated };
+}
+
+export interface SpectralBand {
+  from: number; // Hz, inclusive
+  to: number;   // Hz, exclusive except at the Nyquist frequency
+}
+
+function bandEnergies(psd: Float64Array, resolution: number, bands: SpectralBand[]): number[] {
+  return bands.map(band => {
+    let energy = 0;
+    for (let k = 1; k < psd.length; k++) {
+      const frequency = k * resolution;
+      const last = k === psd.length - 1;
+      if (frequency >= band.from && (frequency < band.to || (last && frequency <= band.to))) energy += psd[k] * resolution;
+    }
+    return energy;
+  });
+}
+
+// Strongest bin above DC
+function dominant(psd: Float64Array, resolution: number): { frequency: number; power: number } | null {
+  let best = 1;
+  for (let k = 2; k < psd.length; k++) if (psd[k] > psd[best]) best = k;
+  return best < psd.length && psd[best] > 0 ? { frequency: best * resolution, power: psd[best] } : null;
+}
+
+const round = (value: number) => Number(value.toPrecision(4));
+
+export interface SpectrogramFrame {
+  start: number; // ms since the Unix epoch
+  end: number;
+  psd: number[] | null; // null when no segment in the frame was usable
+  dominantHz: number | null;
+  rotationHz: number | null; // mean RotRpmAvg / 60 while rotating, to compare peaks with
+  bandEnergies: number[] | null;
+}
+
+export interface SpectralAnalysis {
+  channel: ChannelName;
+  sampleRateHz: number;
+  nyquistHz: number;
+  segmentLength: number;
+  resolutionHz: number;
+  frequencies: number[];
+  psd: number[];
+  segments: number;
+  interpolatedPercent: number; // of the readings in the segments used
+  dominant: { frequency: number; power: number } | null;
+  bands: (SpectralBand & { energy: number; share: number })[];
+  spectrogram: { frameRecords: number; frames: SpectrogramFrame[] };
+}
+
+export interface SpectralOptions {
+  segmentLength: number;
+  maxFrames: number;
+  first?: number;
+  last?: number;
+  bands?: SpectralBand[]; // default: four equal bands up to the Nyquist frequency
+}
+
+// Spectrum of one channel over records first..last: the Welch PSD of the whole range with
+// its dominant frequency and band energies (the variance in each band), and a spectrogram
+// of up to maxFrames frames, each the Welch PSD of its own records. Frequencies are in Hz
+// of the logging rate, so nothing above half of it (the Nyquist frequency) is resolved.
+// Null when the range is shorter than one segment.
+export function spectralAnalysis(
+  columns: SensorColumns,
+  channel: ChannelName,
+  intervalMs: number,
+  options: SpectralOptions
+): SpectralAnalysis | null {
+  const { segmentLength, maxFrames } = options;
+  const first = options.first ?? 0;
+  const last = options.last ?? columns.length - 1;
+  const records = last - first + 1;
+  if (records < segmentLength) return null;
+
+  const sampleRateHz = 1000 / intervalMs;
+  const nyquistHz = sampleRateHz / 2;
+  const resolutionHz = sampleRateHz / segmentLength;
+  const bands = options.bands ?? [0, 1, 2, 3].map(i => ({ from: (nyquistHz * i) / 4, to: (nyquistHz * (i + 1)) / 4 }));
+  const window = hann(segmentLength);
+
+  const overall = welch(columns, channel, first, last, segmentLength, intervalMs, window);
+  const overallEnergies = bandEnergies(overall.psd, resolutionHz, bands);
+  const totalEnergy = bandEnergies(overall.psd, resolutionHz, [{ from: 0, to: nyquistHz }])[0];
+
+  const frameRecords = Math.max(segmentLength, Math.ceil(records / maxFrames));
+  const frames: SpectrogramFrame[] = [];
+  for (let start = first; start + segmentLength - 1 <= last; start += frameRecords) {
+    const end = Math.min(last, start + frameRecords - 1);
+    const frame = welch(columns, channel, start, end, segmentLength, intervalMs, window);
+
+    let rotation = 0;
+    let rotating = 0;
+    if (columns.has('RotRpmAvg')) {
+      for (let i = start; i <= end; i++) {
+        const rpm = columns.value('RotRpmAvg', i);
+        if (rpm !== null && rpm >= MIN_ROTATING_RPM) {
+          rotation += rpm;
+          rotating++;
+        }
+      }
+    }
+
+    frames.push({
+      start: columns.time[start],
+      end: columns.time[end] + intervalMs,
+      psd: frame.segments > 0 ? Array.from(frame.psd, round) : null,
+      dominantHz: frame.segments > 0 ? dominant(frame.psd, resolutionHz)?.frequency ?? null : null,
+      rotationHz: rotating > 0 ? rotation / rotating / 60 : null,
+      bandEnergies: frame.segments > 0 ? bandEnergies(frame.psd, resolutionHz, bands).map(round) : null,
+    });
+  }
+
+  return {
+    channel,
+    sampleRateHz,
+    nyquistHz,
+    segmentLength,
+    resolutionHz,
+    frequencies: Array.from({ length: segmentLength / 2 + 1 }, (_, k) => k * resolutionHz),
+    psd: Array.from(overall.psd, round),
+    segments: overall.segments,
+    interpolatedPercent: overall.segments > 0 ? (overall.interpolated / (overall.segments * segmentLength)) * 100 : 0,
+    dominant: overall.segments > 0 ? dominant(overall.psd, resolutionHz) : null,
+    bands: bands.map((band, i) => ({
+      ...band,
+      energy: overallEnergies[i],
+      share: totalEnergy > 0 ? (overallEnergies[i] / totalEnergy) * 100 : 0,
+    })),
+    spectrogram: { frameRecords, frames },
+  };
+}
@@ -0,0 +1,102 @@
+import type { SensorColumns } from './sensorColumns';
+
+// Average rotation below which the string counts as not rotating, in RPM; the index of a
+// near-stationary string is noise over a near-zero average
+export const MIN_ROTATING_RPM = 10;
+
+export interface StickSlipLevel {
+  level: number;
+  name: string;
+  min: number; // lowest index at this level
+}
+
+// Severity levels by stick-slip index: above 1 the slowest rotation logged is zero, so the
+// bit stopped; above 1.5 the slip phase spins it at over 2.5 times the average
+export const STICK_SLIP_LEVELS: StickSlipLevel[] = [
+  { level: 0, name: 'low', min: 0 },
+  { level: 1, name: 'moderate', min: 0.5 },
+  { level: 2, name: 'high', min: 1 },
+  { level: 3, name: 'severe', min: 1.5 },
+];
+
+// Stick-slip index (max − min) / (2 · avg) of one set of rotation readings, or null when
+// the string is not rotating or a reading is missing
+export function stickSlipIndex(max: number | null, min: number | null, avg: number | null): number | null {
+  if (max === null || min === null || avg === null) return null;
+  if (!isFinite(max) || !isFinite(min) || !(avg >= MIN_ROTATING_RPM)) return null;
+  return Math.max(0, max - min) / (2 * avg);
+}
+
+export function stickSlipLevel(index: number): StickSlipLevel {
+  let found = STICK_SLIP_LEVELS[0];
+  for (const level of STICK_SLIP_LEVELS) {
+    if (index >= level.min) found = level;
+  }
+  return found;
+}
+
+export interface StickSlipWindow {
+  start: number; // ms since the Unix epoch
+  end: number;
+  index: number;
+  level: number;
+  records: number; // rotating records in the window
+}
+
+export interface StickSlipSummary {
+  windowSeconds: number;
+  levels: StickSlipLevel[];
+  windows: StickSlipWindow[];
+  // Rotating time at each level, from the windows' rotating records
+  totals: { level: number; name: string; seconds: number; percent: number }[];
+  rotatingSeconds: number;
+  peak: StickSlipWindow | null;
+}
+
+// Stick-slip index per window of windowSeconds from the start of the dump: the spread
+// between the fastest (RotRpmMax) and slowest (RotRpmMin) rotation logged in the window's
+// rotating records over twice their mean RotRpmAvg. Windows without a rotating record are
+// left out. Null when the dump does not log all three rotation channels.
+export function stickSlipWindows(columns: SensorColumns, intervalMs: number, windowSeconds: number): StickSlipSummary | null {
+  if (!columns.has('RotRpmMax') || !columns.has('RotRpmMin') || !columns.has('RotRpmAvg')) return null;
+  const windowMs = windowSeconds * 1000;
+  const origin = columns.length > 0 ? columns.time[0] : 0;
+  const windows: StickSlipWindow[] = [];
+
+  let current: { slot: number; max: number; min: number; sum: number; records: number } | null = null;
+  const close = () => {
+    if (!current || current.records === 0) return;
+    const index = stickSlipIndex(current.max, current.min, current.sum / current.records);
+    if (index === null) return;
+    const start = origin + current.slot * windowMs;
+    windows.push({ start, end: start + windowMs, index, level: stickSlipLevel(index).level, records: current.records });
+  };
+
+  for (let i = 0; i < columns.length; i++) {
+    const max = columns.value('RotRpmMax', i);
+    const min = columns.value('RotRpmMin', i);
+    const avg = columns.value('RotRpmAvg', i);
+    if (stickSlipIndex(max, min, avg) === null) continue;
+    const slot = Math.floor((columns.time[i] - origin) / windowMs);
+    if (!current || current.slot !== slot) {
+      close();
+      current = { slot, max: -Infinity, min: Infinity, sum: 0, records: 0 };
+    }
+    current.max = Math.max(current.max, max!);
+    current.min = Math.min(current.min, min!);
+    current.sum += avg!;
+    current.records++;
+  }
+  close();
+
+  const rotatingSeconds = windows.reduce((sum, window) => sum + window.records, 0) * intervalMs / 1000;
+  const totals = STICK_SLIP_LEVELS.map(level => {
+    const seconds = windows
+      .filter(window => window.level === level.level)
+      .reduce((sum, window) => sum + window.records, 0) * intervalMs / 1000;
+    return { level: level.level, name: level.name, seconds, percent: rotatingSeconds > 0 ? (seconds / rotatingSeconds) * 100 : 0 };
+  });
+  const peak = windows.reduce<StickSlipWindow | null>((best, window) => !best || window.index > best.index ? window : best, null);
+
+  return { windowSeconds, levels: STICK_SLIP_LEVELS, windows, totals, rotatingSeconds, peak };
+}
@@ -0,0 +1,126 @@
+import type { RecordLayout } from './recordLayout';
+
+// Where the timestamps of a parsed dump came from, in order of preference
+export type TimeSource = 'override' | 'record' | 'header' | 'filename';
+
+// Per-upload overrides supplied by the user
+export interface TimeOptions {
+  startTime?: Date;   // time of the first record, already resolved to UTC
+  timezone?: string;  // IANA zone the tool clock / filename time is in
+  intervalMs?: number;
+}
+
+export interface TimeBase {
+  source: TimeSource;
+  startTime: Date;
+  intervalMs: number;
+  timezone: string;
+}
+
+export class TimeBaseError extends Error {}
+
+// DUMP_TIMEZONE sets the zone filename times are read in when an upload does not say; default UTC
+export const DEFAULT_TIMEZONE = process.env.DUMP_TIMEZONE || 'UTC';
+
+// Seconds between 1970-01-01 and 2000-01-01; anything earlier is an unset clock
+const MIN_PLAUSIBLE_EPOCH_S = 946684800;
+
+export function isValidTimezone(timeZone: string): boolean {
+  try {
+    new Intl.DateTimeFormat('en-US', { timeZone });
+    return true;
+  } catch {
+    return false;
+  }
+}
+
+// Milliseconds the wall clock in `timeZone` is ahead of UTC at the given instant
+function zoneOffsetMs(instant: number, timeZone: string): number {
+  const parts = new Intl.DateTimeFormat('en-US', {
+    timeZone,
+    hourCycle: 'h23',
+    year: 'numeric', month: 'numeric', day: 'numeric',
+    hour: 'numeric', minute: 'numeric', second: 'numeric',
+  }).formatToParts(new Date(instant));
+  const get = (type: string) => Number(parts.find(part => part.type === type)?.value);
+  const wall = Date.UTC(get('year'), get('month') - 1, get('day'), get('hour'), get('minute'), get('second'));
+  return wall - Math.floor(instant / 1000) * 1000;
+}
+
+// Convert a wall-clock time in `timeZone` to the UTC instant it denotes
+export function zonedTimeToUtc(
+  year: number, month: number, day: number,
+  hour: number, minute: number, second: number,
+  timeZone: string
+): Date {
+  const wall = Date.UTC(year, month - 1, day, hour, minute, second);
+  let utc = wall - zoneOffsetMs(wall, timeZone);
+  // Re-check once in case the first guess landed on the other side of a DST change
+  const corrected = wall - zoneOffsetMs(utc, timeZone);
+  if (corrected !== utc) utc = corrected;
+  return new Date(utc);
+}
+
+// Accept an ISO 8601 instant with an offset ("2025-07-21T19:22:50Z") or a bare
+// wall-clock time ("2025-07-21T19:22:50") that is read in `timeZone`
+export function parseStartTime(value: string, timeZone: string): Date | null {
+  const wallClock = value.trim().match(/^(\d{4})-(\d{2})-(\d{2})[T ](\d{2}):(\d{2})(?::(\d{2})(?:\.\d+)?)?$/);
+  if (wallClock) {
+    const [, y, mo, d, h, mi, s] = wallClock;
+    return zonedTimeToUtc(+y, +mo, +d, +h, +mi, +(s ?? 0), timeZone);
+  }
+  if (!/(Z|[+-]\d{2}:?\d{2})$/i.test(value.trim())) return null;
+  const date = new Date(value);
+  return isNaN(date.getTime()) ? null : date;
+}
+
+// Start time encoded as YYYYMMDD_HHMMSS in the original filename, read in `timeZone`
+export function filenameStartTime(filename: string, timeZone: string): Date | null {
+  const match = filename.match(/(\d{4})(\d{2})(\d{2})_(\d{2})(\d{2})(\d{2})/);
+  if (!match) return null;
+  const [y, mo, d, h, mi, s] = match.slice(1).map(Number);
+  if (mo < 1 || mo > 12 || d < 1 || d > 31 || h > 23 || mi > 59 || s > 59) return null;
+  return zonedTimeToUtc(y, mo, d, h, mi, s, timeZone);
+}
+
+// Seconds-since-epoch clock value, or null for an unset / erased clock
+export function epochSecondsToDate(seconds: number): Date | null {
+  if (!isFinite(seconds) || seconds < MIN_PLAUSIBLE_EPOCH_S || seconds === 0xFFFFFFFF) return null;
+  return new Date(seconds * 1000);
+}
+
+// Decide the time of the first record and the spacing between records. A start time
+// supplied with the upload wins, then a clock stored in the records or header, then
+// the filename. There is deliberately no "now" fallback: a dump without any time base
+// fails with a message asking for a start time.
+export function resolveTimeBase(
+  layout: RecordLayout,
+  header: Buffer,
+  firstRecordTime: Date | null,
+  filename: string,
+  options: TimeOptions = {}
+): TimeBase {
+  const timezone = options.timezone ?? DEFAULT_TIMEZONE;
+  const intervalMs = options.intervalMs ?? layout.recordIntervalMs;
+
+  if (options.startTime) {
+    return { source: 'override', startTime: options.startTime, intervalMs, timezone };
+  }
+
+  if (firstRecordTime) {
+    return { source: 'record', startTime: firstRecordTime, intervalMs, timezone };
+  }
+
+  const headerClock = layout.time?.headerStartOffset;
+  if (headerClock !== undefined && headerClock + 4 <= header.length) {
+    const startTime = epochSecondsToDate(header.readUInt32LE(headerClock));
+    if (startTime) return { source: 'header', startTime, intervalMs, timezone };
+  }
+
+  const fromFilename = filenameStartTime(filename, timezone);
+  if (fromFilename) {
+    return { source: 'filename', startTime: fromFilename, intervalMs, timezone };
+  }
+
+  throw new TimeBaseError('No start time found in the file or its name - set a start time and reprocess the dump');
+}
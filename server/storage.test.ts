@@ -0,0 +1,79 @@
+import assert from 'node:assert/strict';
+import { createRequire } from 'module';
+import { before, test } from 'node:test';
+import { PGlite } from '@electric-sql/pglite';
+import { drizzle } from 'drizzle-orm/pglite';
+import * as schema from '@shared/schema';
+import { parseRecordQuery, type RecordRow } from './services/recordQuery';
+import { SensorColumns } from './services/sensorColumns';
+import { DatabaseStorage, MemStorage, type IStorage } from './storage';
+
+// drizzle-kit's API is CommonJS and only loads through require
+const { generateDrizzleJson, generateMigration } = createRequire(import.meta.url)('drizzle-kit/api');
+
+const START = Date.UTC(2025, 6, 29);
+
+// Two records per clock second, so paging has to break ties on the stored row; tempMP
+// repeats every 50 records and is missing from every seventh
+const records = SensorColumns.fromRecords(Array.from({ length: 1200 }, (_, i) => ({
+  dumpId: 1,
+  rtd: new Date(START + Math.floor(i / 2) * 1000),
+  tempMP: i % 7 === 0 ? null : (i % 50) + 0.5,
+  flowStatus: i % 300 < 120 ? 'On' : 'Off',
+}) as schema.InsertSensorData));
+
+const stores: Record<string, { storage: IStorage; dumpId: number }> = {};
+
+before(async () => {
+  const client = new PGlite();
+  for (const statement of await generateMigration(generateDrizzleJson({}), generateDrizzleJson(schema))) {
+    await client.exec(statement);
+  }
+  const db = drizzle(client, { schema }) as unknown as ConstructorParameters<typeof DatabaseStorage>[0];
+
+  for (const [name, storage] of Object.entries({ memory: new MemStorage(), database: new DatabaseStorage(db) })) {
+    const dump = await storage.createMemoryDump({ filename: 'paging.bin', fileType: 'MP', fileSize: 0 });
+    await storage.appendSensorColumns(dump.id, records);
+    stores[name] = { storage, dumpId: dump.id };
+  }
+});
+
+// Every page of a query, following next cursors from the first page
+async function readAll({ storage, dumpId }: { storage: IStorage; dumpId: number }, params: Record<string, string>) {
+  const channels = (await storage.getRecordChannels(dumpId))!;
+  const pages: { total: number; totalRecords: number; rows: RecordRow[] }[] = [];
+  let cursor: string | null = null;
+  do {
+    const query = parseRecordQuery(cursor ? { ...params, cursor } : params, channels);
+    assert.ok(typeof query !== 'string', query as string);
+    const page = await storage.getRecordPage(dumpId, query);
+    pages.push({ total: page.total, totalRecords: page.totalRecords, rows: page.rows });
+    cursor = page.nextCursor;
+  } while (cursor && pages.length < 100);
+  return pages;
+}
+
+const queries: Record<string, string>[] = [
+  { limit: '100' },
+  { limit: '100', order: 'desc' },
+  { limit: '100', offset: '250' },
+  { limit: '90', sort: 'tempMP' },
+  { limit: '90', sort: 'tempMP', order: 'desc' },
+  { limit: '70', sort: 'rtd', order: 'desc', filter: 'tempMP:gte:20' },
+  { limit: '70', filter: 'flowStatus:eq:On,tempMP:lt:30', columns: 'tempMP' },
+];
+
+for (const params of queries) {
+  test(`cursor pages match between stores for ${new URLSearchParams(params)}`, async () => {
+    const memory = await readAll(stores.memory, params);
+    const database = await readAll(stores.database, params);
+    assert.ok(memory.length > 1);
+    assert.deepEqual(database, memory);
+  });
+}
+
+test('every record is read exactly once across the pages', async () => {
+  const pages = await readAll(stores.database, { limit: '90', sort: 'tempMP' });
+  const seen = pages.flatMap(page => page.rows.map(row => row.record)).sort((a, b) => a - b);
+  assert.deepEqual(seen, Array.from({ length: records.length }, (_, i) => i));
+});
@@ -1,18 +1,29 @@
-import { memoryDumps, sensorData, analysisResults, deviceReports, type MemoryDump, type InsertMemoryDump, type SensorData, type InsertSensorData, type AnalysisResults, type InsertAnalysisResults, type DeviceReport, type InsertDeviceReport } from "@shared/schema";
-import { db, pool } from "./db";
-import { eq, desc } from "drizzle-orm";
+import { memoryDumps, sensorData, analysisResults, deviceReports, dumpSegments, sensorAggregates, analysisRuleSets, analysisEvents, batteryPacks, type MemoryDump, type InsertMemoryDump, type SensorData, type AnalysisResults, type InsertAnalysisResults, type DeviceReport, type InsertDeviceReport, type DumpSegment, type InsertDumpSegment, type SensorAggregate, type SensorAggregateLevel, type InsertSensorAggregate, type AnalysisRuleSet, type InsertAnalysisRuleSet, type AnalysisEvent, type InsertAnalysisEvent, type BatteryPack, type InsertBatteryPack, type ToolType } from "@shared/schema";
+import { db as defaultDb, pool } from "./db";
+import { eq, desc, and, ne, gte, lte, inArray, asc, count, sql, type SQL } from "drizzle-orm";
+import { CHANNEL_NAMES, columnKey, type ChannelName, SensorColumns } from "./services/sensorColumns";
+import { encodeCursor, queryRecords, recordChannels, type RecordChannels, type RecordFilter, type RecordPage, type RecordQuery, type RecordRow } from "./services/recordQuery";
 
 export interface IStorage {
   // Memory Dumps
   createMemoryDump(dump: InsertMemoryDump): Promise<MemoryDump>;
   getMemoryDump(id: number): Promise<MemoryDump | undefined>;
+  getMemoryDumpByContentHash(contentHash: string): Promise<MemoryDump | undefined>;
   updateMemoryDumpStatus(id: number, status: string, errorMessage?: string): Promise<void>;
+  updateMemoryDump(id: number, updates: Partial<Omit<MemoryDump, "id">>): Promise<void>;
   getMemoryDumps(): Promise<MemoryDump[]>;
+  deleteMemoryDump(id: number): Promise<boolean>;
+  clearDumpResults(dumpId: number): Promise<void>;
   clearAllMemoryDumps(): Promise<void>;
 
-  // Sensor Data
-  createSensorData(data: InsertSensorData[]): Promise<void>;
+  // Sensor Data - written as columns; rows are only built for responses that need them
+  appendSensorColumns(dumpId: number, columns: SensorColumns): Promise<void>;
+  getSensorColumnsByDumpId(dumpId: number): Promise<SensorColumns | undefined>;
   getSensorDataByDumpId(dumpId: number, limit?: number): Promise<SensorData[]>;
+  // Records queries (see recordQuery.ts), run where the rows are kept: the channels a dump
+  // logs, undefined without sensor data, and one page of a query
+  getRecordChannels(dumpId: number): Promise<RecordChannels | undefined>;
+  getRecordPage(dumpId: number, query: RecordQuery): Promise<RecordPage>;
 
   // Analysis Results
   createAnalysisResults(results: InsertAnalysisResults): Promise<AnalysisResults>;
@@ -21,13 +32,67 @@ export interface IStorage {
   // Device Reports
   createDeviceReport(report: InsertDeviceReport): Promise<DeviceReport>;
   getDeviceReportByDumpId(dumpId: number): Promise<DeviceReport | undefined>;
+
+  // Segments
+  createDumpSegments(segments: InsertDumpSegment[]): Promise<void>;
+  getDumpSegmentsByDumpId(dumpId: number): Promise<DumpSegment[]>;
+
+  // Aggregate pyramid: the levels of a dump without their buckets, and one level in full
+  createSensorAggregates(aggregates: InsertSensorAggregate[]): Promise<void>;
+  getSensorAggregateLevels(dumpId: number): Promise<SensorAggregateLevel[]>;
+  getSensorAggregate(dumpId: number, channel: string, bucketSeconds: number): Promise<SensorAggregate | undefined>;
+
+  // Analysis events, in start order; the filter keeps events overlapping from-to, and
+  // `total` counts them all while `events` holds the page from offset up to limit
+  createAnalysisEvents(events: InsertAnalysisEvent[]): Promise<void>;
+  getAnalysisEvents(dumpId: number, filter: AnalysisEventFilter, offset: number, limit: number): Promise<{ total: number; events: AnalysisEvent[] }>;
+
+  // Analysis rule sets added through the API - not dump data, so clearing dumps keeps them
+  createAnalysisRuleSet(ruleSet: InsertAnalysisRuleSet): Promise<AnalysisRuleSet>;
+  getAnalysisRuleSets(): Promise<AnalysisRuleSet[]>;
+  // Analyze new dumps of these tool types with the rule set, taking them from any other;
+  // null hands them back to the built-in rule sets
+  activateAnalysisRuleSet(id: number | null, toolTypes: ToolType[]): Promise<void>;
+
+  // Battery packs for the depletion forecast - configuration, kept when dumps are cleared
+  createBatteryPack(pack: InsertBatteryPack): Promise<BatteryPack>;
+  getBatteryPacks(): Promise<BatteryPack[]>;
+  getBatteryPack(id: number): Promise<BatteryPack | undefined>;
+  updateBatteryPack(id: number, pack: InsertBatteryPack): Promise<BatteryPack | undefined>;
+}
+
+export interface AnalysisEventFilter {
+  channels?: string[];
+  severities?: string[];
+  from?: Date;
+  to?: Date;
+}
+
+// Active tool types of a rule set after `toolTypes` were given to the set `activeId`
+function reassignActive(ruleSet: AnalysisRuleSet, activeId: number | null, toolTypes: ToolType[]): ToolType[] {
+  const kept = ruleSet.activeFor.filter(toolType => !toolTypes.includes(toolType));
+  return ruleSet.id === activeId ? [...kept, ...toolTypes] : kept;
+}
+
+// Sensor columns of one dump. Appended batches are joined on first read; each batch
+// takes a block of row ids so rows built from the columns keep stable ids.
+interface StoredColumns {
+  parts: SensorColumns[];
+  idBlocks: { start: number; firstId: number }[];
 }
 
 export class MemStorage implements IStorage {
   private memoryDumps: Map<number, MemoryDump>;
-  private sensorData: Map<number, SensorData[]>;
+  private sensorData: Map<number, StoredColumns>;
   private analysisResults: Map<number, AnalysisResults>;
   private deviceReports: Map<number, DeviceReport>;
+  private dumpSegments: Map<number, DumpSegment[]>;
+  private sensorAggregates: Map<number, SensorAggregate[]>;
+  private analysisRuleSets: Map<number, AnalysisRuleSet>;
+  private analysisEvents: Map<number, AnalysisEvent[]>;
+  private batteryPacks: Map<number, BatteryPack>;
+  // Dump IDs come from their own sequence so they are never reused, even after a clear
+  private currentDumpId: number;
   private currentId: number;
 
   constructor() {
@@ -35,14 +100,32 @@ export class MemStorage implements IStorage {
     this.sensorData = new Map();
     this.analysisResults = new Map();
     this.deviceReports = new Map();
+    this.dumpSegments = new Map();
+    this.sensorAggregates = new Map();
+    this.analysisRuleSets = new Map();
+    this.analysisEvents = new Map();
+    this.batteryPacks = new Map();
+    this.currentDumpId = 1;
     this.currentId = 1;
   }
 
   async createMemoryDump(insertDump: InsertMemoryDump): Promise<MemoryDump> {
-    const id = this.currentId++;
+    const id = this.currentDumpId++;
     const dump: MemoryDump = {
       ...insertDump,
       id,
+      detectedFileType: insertDump.detectedFileType ?? null,
+      detectionConfidence: insertDump.detectionConfidence ?? null,
+      fileSize: insertDump.fileSize ?? null,
+      contentHash: insertDump.contentHash ?? null,
+      startTimeOverride: insertDump.startTimeOverride ?? null,
+      timezone: insertDump.timezone ?? null,
+      sampleIntervalMs: insertDump.sampleIntervalMs ?? null,
+      timeSource: null,
+      dataQuality: null,
+      parseDiagnostics: null,
+      parserVersion: null,
+      analysisVersion: null,
       uploadedAt: new Date(),
       processedAt: null,
       status: "pending",
@@ -56,6 +139,13 @@ export class MemStorage implements IStorage {
     return this.memoryDumps.get(id);
   }
 
+  // Most recent dump with the same bytes that did not fail processing
+  async getMemoryDumpByContentHash(contentHash: string): Promise<MemoryDump | undefined> {
+    return (await this.getMemoryDumps()).find(dump =>
+      dump.contentHash === contentHash && dump.status !== "error"
+    );
+  }
+
   async updateMemoryDumpStatus(id: number, status: string, errorMessage?: string): Promise<void> {
     const dump = this.memoryDumps.get(id);
     if (dump) {
@@ -68,90 +158,84 @@ export class MemStorage implements IStorage {
     }
   }
 
+  async updateMemoryDump(id: number, updates: Partial<Omit<MemoryDump, "id">>): Promise<void> {
+    const dump = this.memoryDumps.get(id);
+    if (dump) {
+      this.memoryDumps.set(id, { ...dump, ...updates });
+    }
+  }
+
   async getMemoryDumps(): Promise<MemoryDump[]> {
     return Array.from(this.memoryDumps.values()).sort((a, b) => 
       new Date(b.uploadedAt).getTime() - new Date(a.uploadedAt).getTime()
     );
   }
 
+  async deleteMemoryDump(id: number): Promise<boolean> {
+    await this.clearDumpResults(id);
+    return this.memoryDumps.delete(id);
+  }
+
+  async clearDumpResults(dumpId: number): Promise<void> {
+    this.sensorData.delete(dumpId);
+    this.analysisResults.delete(dumpId);
+    this.deviceReports.delete(dumpId);
+    this.dumpSegments.delete(dumpId);
+    this.sensorAggregates.delete(dumpId);
+    this.analysisEvents.delete(dumpId);
+  }
+
   async clearAllMemoryDumps(): Promise<void> {
     this.memoryDumps.clear();
     this.sensorData.clear();
     this.analysisResults.clear();
     this.deviceReports.clear();
-    this.currentId = 1;
+    this.dumpSegments.clear();
+    this.sensorAggregates.clear();
+    this.analysisEvents.clear();
   }
 
-  async createSensorData(data: InsertSensorData[]): Promise<void> {
-    data.forEach(entry => {
-      const dumpId = entry.dumpId;
-      if (!this.sensorData.has(dumpId)) {
-        this.sensorData.set(dumpId, []);
-      }
-      const sensorEntry: SensorData = {
-        ...entry,
-        id: this.currentId++,
-        tempMP: entry.tempMP ?? null,
-        resetMP: entry.resetMP ?? null,
-        batteryCurrMP: entry.batteryCurrMP ?? null,
-        batteryVoltMP: entry.batteryVoltMP ?? null,
-        flowStatus: entry.flowStatus ?? null,
-        maxX: entry.maxX ?? null,
-        maxY: entry.maxY ?? null,
-        maxZ: entry.maxZ ?? null,
-        threshold: entry.threshold ?? null,
-        motorMin: entry.motorMin ?? null,
-        motorAvg: entry.motorAvg ?? null,
-        motorMax: entry.motorMax ?? null,
-        motorHall: entry.motorHall ?? null,
-        actuationTime: entry.actuationTime ?? null,
-        accelAX: entry.accelAX ?? null,
-        accelAY: entry.accelAY ?? null,
-        accelAZ: entry.accelAZ ?? null,
-        shockZ: entry.shockZ ?? null,
-        shockX: entry.shockX ?? null,
-        shockY: entry.shockY ?? null,
-        shockCountAxial50: entry.shockCountAxial50 ?? null,
-        shockCountAxial100: entry.shockCountAxial100 ?? null,
-        shockCountLat50: entry.shockCountLat50 ?? null,
-        shockCountLat100: entry.shockCountLat100 ?? null,
-        rotRpmMax: entry.rotRpmMax ?? null,
-        rotRpmAvg: entry.rotRpmAvg ?? null,
-        rotRpmMin: entry.rotRpmMin ?? null,
-        v3_3VA_DI: entry.v3_3VA_DI ?? null,
-        v5VD: entry.v5VD ?? null,
-        v3_3VD: entry.v3_3VD ?? null,
-        v1_9VD: entry.v1_9VD ?? null,
-        v1_5VD: entry.v1_5VD ?? null,
-        v1_8VA: entry.v1_8VA ?? null,
-        v3_3VA: entry.v3_3VA ?? null,
-        vBatt: entry.vBatt ?? null,
-        i5VD: entry.i5VD ?? null,
-        i3_3VD: entry.i3_3VD ?? null,
-        iBatt: entry.iBatt ?? null,
-        gamma: entry.gamma ?? null,
-        accelStabX: entry.accelStabX ?? null,
-        accelStabY: entry.accelStabY ?? null,
-        accelStabZ: entry.accelStabZ ?? null,
-        accelStabZH: entry.accelStabZH ?? null,
-        surveyTGF: entry.surveyTGF ?? null,
-        surveyTMF: entry.surveyTMF ?? null,
-        surveyDipA: entry.surveyDipA ?? null,
-        surveyINC: entry.surveyINC ?? null,
-        surveyCINC: entry.surveyCINC ?? null,
-        surveyAZM: entry.surveyAZM ?? null,
-        surveyCAZM: entry.surveyCAZM ?? null,
-      };
-      this.sensorData.get(dumpId)!.push(sensorEntry);
-    });
+  async appendSensorColumns(dumpId: number, columns: SensorColumns): Promise<void> {
+    if (columns.length === 0) return;
+    if (!this.sensorData.has(dumpId)) {
+      this.sensorData.set(dumpId, { parts: [], idBlocks: [] });
+    }
+    const stored = this.sensorData.get(dumpId)!;
+    const start = stored.parts.reduce((sum, part) => sum + part.length, 0);
+    stored.parts.push(columns);
+    stored.idBlocks.push({ start, firstId: this.currentId });
+    this.currentId += columns.length;
+  }
+
+  async getSensorColumnsByDumpId(dumpId: number): Promise<SensorColumns | undefined> {
+    const stored = this.sensorData.get(dumpId);
+    if (!stored) return undefined;
+    if (stored.parts.length > 1) {
+      stored.parts = [SensorColumns.concat(stored.parts)];
+    }
+    return stored.parts[0];
   }
 
   async getSensorDataByDumpId(dumpId: number, limit?: number): Promise<SensorData[]> {
-    const dumpSensorData = this.sensorData.get(dumpId);
-    if (!dumpSensorData) return [];
+    const columns = await this.getSensorColumnsByDumpId(dumpId);
+    if (!columns) return [];
+
+    const { idBlocks } = this.sensorData.get(dumpId)!;
+    let block = 0;
+    return columns.toRecords(dumpId, 0, limit ?? columns.length).map((record, index) => {
+      while (block + 1 < idBlocks.length && idBlocks[block + 1].start <= index) block++;
+      return { ...record, id: idBlocks[block].firstId + index - idBlocks[block].start } as SensorData;
+    });
+  }
 
-    const data = Array.from(this.sensorData.get(dumpId)!.values());
-    return limit ? data.slice(0, limit) : data;
+  async getRecordChannels(dumpId: number): Promise<RecordChannels | undefined> {
+    const columns = await this.getSensorColumnsByDumpId(dumpId);
+    return columns && recordChannels(columns);
+  }
+
+  async getRecordPage(dumpId: number, query: RecordQuery): Promise<RecordPage> {
+    const columns = await this.getSensorColumnsByDumpId(dumpId);
+    return queryRecords(columns ?? SensorColumns.fromRecords([]), query);
   }
 
   async createAnalysisResults(insertResults: InsertAnalysisResults): Promise<AnalysisResults> {
@@ -161,6 +245,9 @@ export class MemStorage implements IStorage {
       id,
       criticalIssues: insertResults.criticalIssues ?? 0,
       warnings: insertResults.warnings ?? 0,
+      ruleSetName: insertResults.ruleSetName ?? null,
+      ruleSetVersion: insertResults.ruleSetVersion ?? null,
+      sensorHealth: insertResults.sensorHealth ?? null,
       generatedAt: new Date(),
     };
     this.analysisResults.set(insertResults.dumpId, results);
@@ -191,9 +278,12 @@ export class MemStorage implements IStorage {
       hallStatusTimeMinutes: insertReport.hallStatusTimeMinutes ?? null,
       hallStatusPercent: insertReport.hallStatusPercent ?? null,
       mdgMaxTempFahrenheit: insertReport.mdgMaxTempFahrenheit ?? null,
+      batteryAmpHours: insertReport.batteryAmpHours ?? null,
+      batteryWattHours: insertReport.batteryWattHours ?? null,
       mdgMaxTempCelsius: insertReport.mdgMaxTempCelsius ?? null,
       mdgEdtTotalHours: insertReport.mdgEdtTotalHours ?? null,
       mdgExtremeShockIndex: insertReport.mdgExtremeShockIndex ?? null,
+      provenance: insertReport.provenance ?? null,
     };
     this.deviceReports.set(insertReport.dumpId, report);
     return report;
@@ -203,6 +293,124 @@ export class MemStorage implements IStorage {
     return this.deviceReports.get(dumpId);
   }
 
+  async createDumpSegments(segments: InsertDumpSegment[]): Promise<void> {
+    segments.forEach(segment => {
+      if (!this.dumpSegments.has(segment.dumpId)) {
+        this.dumpSegments.set(segment.dumpId, []);
+      }
+      this.dumpSegments.get(segment.dumpId)!.push({
+        ...segment,
+        id: this.currentId++,
+        state: segment.state ?? null,
+        ampHours: segment.ampHours ?? null,
+        wattHours: segment.wattHours ?? null,
+      });
+    });
+  }
+
+  async getDumpSegmentsByDumpId(dumpId: number): Promise<DumpSegment[]> {
+    return [...(this.dumpSegments.get(dumpId) || [])].sort((a, b) =>
+      a.kind.localeCompare(b.kind) || a.sequence - b.sequence
+    );
+  }
+
+  async createSensorAggregates(aggregates: InsertSensorAggregate[]): Promise<void> {
+    aggregates.forEach(aggregate => {
+      if (!this.sensorAggregates.has(aggregate.dumpId)) {
+        this.sensorAggregates.set(aggregate.dumpId, []);
+      }
+      this.sensorAggregates.get(aggregate.dumpId)!.push({ ...aggregate, id: this.currentId++ });
+    });
+  }
+
+  async getSensorAggregateLevels(dumpId: number): Promise<SensorAggregateLevel[]> {
+    return (this.sensorAggregates.get(dumpId) || [])
+      .map(({ buckets, ...level }) => level)
+      .sort((a, b) => a.channel.localeCompare(b.channel) || a.bucketSeconds - b.bucketSeconds);
+  }
+
+  async getSensorAggregate(dumpId: number, channel: string, bucketSeconds: number): Promise<SensorAggregate | undefined> {
+    return (this.sensorAggregates.get(dumpId) || [])
+      .find(aggregate => aggregate.channel === channel && aggregate.bucketSeconds === bucketSeconds);
+  }
+
+  async createAnalysisEvents(events: InsertAnalysisEvent[]): Promise<void> {
+    events.forEach(event => {
+      if (!this.analysisEvents.has(event.dumpId)) {
+        this.analysisEvents.set(event.dumpId, []);
+      }
+      this.analysisEvents.get(event.dumpId)!.push({
+        ...event,
+        id: this.currentId++,
+        peakValue: event.peakValue ?? null,
+        peakTime: event.peakTime ?? null,
+      });
+    });
+  }
+
+  async getAnalysisEvents(dumpId: number, filter: AnalysisEventFilter, offset: number, limit: number): Promise<{ total: number; events: AnalysisEvent[] }> {
+    const matching = (this.analysisEvents.get(dumpId) || [])
+      .filter(event =>
+        (!filter.channels || filter.channels.includes(event.channel)) &&
+        (!filter.severities || filter.severities.includes(event.severity)) &&
+        (!filter.from || event.endTime >= filter.from) &&
+        (!filter.to || event.startTime <= filter.to)
+      )
+      .sort((a, b) => a.startTime.getTime() - b.startTime.getTime() || a.id - b.id);
+    return { total: matching.length, events: matching.slice(offset, offset + limit) };
+  }
+
+  async createAnalysisRuleSet(insertRuleSet: InsertAnalysisRuleSet): Promise<AnalysisRuleSet> {
+    const id = this.currentId++;
+    const ruleSet: AnalysisRuleSet = {
+      ...insertRuleSet,
+      id,
+      description: insertRuleSet.description ?? null,
+      activeFor: [],
+      createdAt: new Date(),
+    };
+    this.analysisRuleSets.set(id, ruleSet);
+    return ruleSet;
+  }
+
+  async getAnalysisRuleSets(): Promise<AnalysisRuleSet[]> {
+    return Array.from(this.analysisRuleSets.values());
+  }
+
+  async activateAnalysisRuleSet(id: number | null, toolTypes: ToolType[]): Promise<void> {
+    for (const ruleSet of Array.from(this.analysisRuleSets.values())) {
+      ruleSet.activeFor = reassignActive(ruleSet, id, toolTypes);
+    }
+  }
+
+  async createBatteryPack(insertPack: InsertBatteryPack): Promise<BatteryPack> {
+    const id = this.currentId++;
+    const pack: BatteryPack = {
+      ...insertPack,
+      id,
+      description: insertPack.description ?? null,
+      createdAt: new Date(),
+    };
+    this.batteryPacks.set(id, pack);
+    return pack;
+  }
+
+  async getBatteryPacks(): Promise<BatteryPack[]> {
+    return Array.from(this.batteryPacks.values());
+  }
+
+  async getBatteryPack(id: number): Promise<BatteryPack | undefined> {
+    return this.batteryPacks.get(id);
+  }
+
+  async updateBatteryPack(id: number, update: InsertBatteryPack): Promise<BatteryPack | undefined> {
+    const existing = this.batteryPacks.get(id);
+    if (!existing) return undefined;
+    const pack: BatteryPack = { ...existing, ...update, description: update.description ?? null };
+    this.batteryPacks.set(id, pack);
+    return pack;
+  }
+
   // Additional methods needed by routes
   async getSensorData(dumpId: number, limit?: number): Promise<SensorData[]> {
     return this.getSensorDataByDumpId(dumpId, limit);
@@ -217,37 +425,147 @@ export class MemStorage implements IStorage {
   }
 }
 
+// Dumps whose built sensor columns DatabaseStorage keeps, so chart, table and spectrum
+// requests do not reload every row; the least recently used is dropped first
+const MAX_CACHED_DUMPS = 3;
+
+// Loaded aggregate levels DatabaseStorage keeps, each one channel at one bucket size
+const MAX_CACHED_LEVELS = 64;
+
+const COMPARISONS: Record<RecordFilter['op'], string> = { eq: '=', ne: '<>', gt: '>', gte: '>=', lt: '<', lte: '<=' };
+
+function channelColumn(name: ChannelName) {
+  return sensorData[columnKey(name)];
+}
+
+// A sensor_data column records queries filter or sort on: the record time or a channel
+function recordColumn(column: ChannelName | 'rtd'): SQL {
+  return sql`${column === 'rtd' ? sensorData.rtd : channelColumn(column)}`;
+}
+
+// A value to compare a column with, in the column's type: float32 for real columns so eq
+// matches the served value, as the in-memory query does
+function recordValue(column: ChannelName | 'rtd', value: number | string): SQL {
+  if (column === 'rtd') return sql`to_timestamp(${value}::float8 / 1000)`;
+  if (channelColumn(column).columnType === 'PgReal') return sql`${value}::real`;
+  return sql`${value}`;
+}
+
+// Rows after the cursor row in the query's order, by the key of the stored row: logging
+// order is (rtd, id), which the sensor_data index serves directly, and a sort column
+// comes first with rows without a value last
+function afterCursor(query: RecordQuery): SQL {
+  const row = query.cursor?.row;
+  if (!row) return sql`TRUE`;
+  const key = sql`(${sensorData.rtd}, ${sensorData.id})`;
+  const cursorKey = sql`(to_timestamp(${row.rtd}::float8 / 1000), ${row.id}::int)`;
+  if (query.sort === null) return sql`${key} ${sql.raw(query.order === 'asc' ? '>' : '<')} ${cursorKey}`;
+
+  const { value } = query.cursor!;
+  const column = recordColumn(query.sort);
+  if (value === null) return sql`(${column} IS NULL AND ${key} > ${cursorKey})`;
+  const bound = recordValue(query.sort, value);
+  return sql`(${column} ${sql.raw(query.order === 'asc' ? '>' : '<')} ${bound} OR (${column} = ${bound} AND ${key} > ${cursorKey}) OR ${column} IS NULL)`;
+}
+
 export class DatabaseStorage implements IStorage {
+  // Built sensor columns by dump and loaded aggregate levels by dump, channel and bucket
+  // size, most recently used last, and a count per dump bumped whenever its rows change so
+  // a load that raced a change is not kept
+  private columnCache = new Map<number, SensorColumns>();
+  private aggregateCache = new Map<string, SensorAggregate>();
+  private columnVersions = new Map<number, number>();
+
+  // Postgres at DATABASE_URL unless another drizzle database is handed in
+  constructor(private readonly db: typeof defaultDb = defaultDb) {
+    if (db === defaultDb && !process.env.DATABASE_URL) {
+      throw new Error(
+        "DATABASE_URL must be set. Did you forget to provision a database?",
+      );
+    }
+  }
+
   async createMemoryDump(insertDump: InsertMemoryDump): Promise<MemoryDump> {
-    const [dump] = await db.insert(memoryDumps).values(insertDump).returning();
+    const [dump] = await this.db.insert(memoryDumps).values(insertDump).returning();
     return dump;
   }
 
   async getMemoryDump(id: number): Promise<MemoryDump | undefined> {
-    const [dump] = await db.select().from(memoryDumps).where(eq(memoryDumps.id, id));
+    const [dump] = await this.db.select().from(memoryDumps).where(eq(memoryDumps.id, id));
+    return dump;
+  }
+
+  async getMemoryDumpByContentHash(contentHash: string): Promise<MemoryDump | undefined> {
+    const [dump] = await this.db.select().from(memoryDumps)
+      .where(and(eq(memoryDumps.contentHash, contentHash), ne(memoryDumps.status, "error")))
+      .orderBy(desc(memoryDumps.uploadedAt))
+      .limit(1);
     return dump;
   }
 
   async updateMemoryDumpStatus(id: number, status: string, errorMessage?: string): Promise<void> {
-    const updateData: any = { status };
-    if (errorMessage) updateData.errorMessage = errorMessage;
+    const updateData: Partial<typeof memoryDumps.$inferInsert> = { status, errorMessage: errorMessage ?? null };
     if (status === "completed") updateData.processedAt = new Date();
 
-    await db.update(memoryDumps)
+    await this.db.update(memoryDumps)
       .set(updateData)
       .where(eq(memoryDumps.id, id));
   }
 
+  async updateMemoryDump(id: number, updates: Partial<Omit<MemoryDump, "id">>): Promise<void> {
+    await this.db.update(memoryDumps)
+      .set(updates)
+      .where(eq(memoryDumps.id, id));
+  }
+
   async getMemoryDumps(): Promise<MemoryDump[]> {
-    return await db.select().from(memoryDumps).orderBy(desc(memoryDumps.uploadedAt));
+    return await this.db.select().from(memoryDumps).orderBy(desc(memoryDumps.uploadedAt));
+  }
+
+  private invalidateCaches(dumpId?: number) {
+    const dumpIds = dumpId === undefined ? Array.from(this.columnVersions.keys()) : [dumpId];
+    for (const id of dumpIds) this.columnVersions.set(id, (this.columnVersions.get(id) ?? 0) + 1);
+    if (dumpId === undefined) this.columnCache.clear();
+    else this.columnCache.delete(dumpId);
+    for (const key of Array.from(this.aggregateCache.keys())) {
+      if (dumpId === undefined || key.startsWith(`${dumpId}:`)) this.aggregateCache.delete(key);
+    }
+  }
+
+  async deleteMemoryDump(id: number): Promise<boolean> {
+    this.invalidateCaches(id);
+    return await this.db.transaction(async (tx) => {
+      await tx.delete(sensorData).where(eq(sensorData.dumpId, id));
+      await tx.delete(analysisResults).where(eq(analysisResults.dumpId, id));
+      await tx.delete(deviceReports).where(eq(deviceReports.dumpId, id));
+      await tx.delete(dumpSegments).where(eq(dumpSegments.dumpId, id));
+      await tx.delete(sensorAggregates).where(eq(sensorAggregates.dumpId, id));
+      await tx.delete(analysisEvents).where(eq(analysisEvents.dumpId, id));
+      const deleted = await tx.delete(memoryDumps).where(eq(memoryDumps.id, id)).returning({ id: memoryDumps.id });
+      return deleted.length > 0;
+    });
+  }
+
+  async clearDumpResults(dumpId: number): Promise<void> {
+    this.invalidateCaches(dumpId);
+    await this.db.transaction(async (tx) => {
+      await tx.delete(sensorData).where(eq(sensorData.dumpId, dumpId));
+      await tx.delete(analysisResults).where(eq(analysisResults.dumpId, dumpId));
+      await tx.delete(deviceReports).where(eq(deviceReports.dumpId, dumpId));
+      await tx.delete(dumpSegments).where(eq(dumpSegments.dumpId, dumpId));
+      await tx.delete(sensorAggregates).where(eq(sensorAggregates.dumpId, dumpId));
+      await tx.delete(analysisEvents).where(eq(analysisEvents.dumpId, dumpId));
+    });
   }
 
   async clearAllMemoryDumps(): Promise<void> {
-    // Use raw SQL to handle cascading deletes more efficiently
+    // Use raw SQL to handle cascading deletes more efficiently. Identities are
+    // deliberately not restarted so dump IDs are never handed out twice.
+    this.invalidateCaches();
     const client = await pool.connect();
     try {
       await client.query('BEGIN');
-      await client.query('TRUNCATE sensor_data, analysis_results, device_reports, memory_dumps RESTART IDENTITY CASCADE');
+      await client.query('TRUNCATE sensor_data, analysis_results, device_reports, dump_segments, sensor_aggregates, analysis_events, memory_dumps CASCADE');
       await client.query('COMMIT');
     } catch (error) {
       await client.query('ROLLBACK');
@@ -257,23 +575,24 @@ export class DatabaseStorage implements IStorage {
     }
   }
 
-  async createSensorData(data: InsertSensorData[]): Promise<void> {
-    if (data.length === 0) return;
-    
+  async appendSensorColumns(dumpId: number, columns: SensorColumns): Promise<void> {
+    if (columns.length === 0) return;
+    this.invalidateCaches(dumpId);
+
     // Smaller batch size for reliability - prevent timeouts
     const RELIABLE_BATCH_SIZE = 500; // Smaller batches to prevent timeout issues
     
     try {
-      // Process in smaller batches with individual transactions
-      for (let i = 0; i < data.length; i += RELIABLE_BATCH_SIZE) {
-        const batch = data.slice(i, i + RELIABLE_BATCH_SIZE);
+      // Rows are built one insert batch at a time, each in its own transaction
+      for (let i = 0; i < columns.length; i += RELIABLE_BATCH_SIZE) {
+        const batch = columns.toRecords(dumpId, i, i + RELIABLE_BATCH_SIZE);
         
-        await db.transaction(async (tx) => {
+        await this.db.transaction(async (tx) => {
           await tx.insert(sensorData).values(batch);
         });
         
         // Small delay to prevent overwhelming the database
-        if (i + RELIABLE_BATCH_SIZE < data.length) {
+        if (i + RELIABLE_BATCH_SIZE < columns.length) {
           await new Promise(resolve => setTimeout(resolve, 10));
         }
       }
@@ -283,37 +602,266 @@ export class DatabaseStorage implements IStorage {
     }
   }
 
+  async getSensorColumnsByDumpId(dumpId: number): Promise<SensorColumns | undefined> {
+    const cached = this.columnCache.get(dumpId);
+    if (cached) {
+      this.columnCache.delete(dumpId);
+      this.columnCache.set(dumpId, cached);
+      return cached;
+    }
+
+    const version = this.columnVersions.get(dumpId) ?? 0;
+    const rows = await this.getSensorDataByDumpId(dumpId);
+    if (rows.length === 0) return undefined;
+    const columns = SensorColumns.fromRecords(rows);
+    if ((this.columnVersions.get(dumpId) ?? 0) === version) {
+      this.columnCache.set(dumpId, columns);
+      if (this.columnCache.size > MAX_CACHED_DUMPS) this.columnCache.delete(this.columnCache.keys().next().value!);
+    }
+    return columns;
+  }
+
+  // A channel is logged when any row has a value or a quality flag for it, as in
+  // SensorColumns.fromRecords, counted in the database rather than by loading the rows
+  async getRecordChannels(dumpId: number): Promise<RecordChannels | undefined> {
+    const cached = this.columnCache.get(dumpId);
+    if (cached) return recordChannels(cached);
+
+    const counts = Object.fromEntries(CHANNEL_NAMES.map(name => [
+      name,
+      sql<number>`count(*) FILTER (WHERE ${channelColumn(name)} IS NOT NULL OR ${sensorData.quality} ? ${columnKey(name)})`.mapWith(Number),
+    ]));
+    const [row] = await this.db.select({ records: count(), ...counts }).from(sensorData).where(eq(sensorData.dumpId, dumpId));
+    if (!row || row.records === 0) return undefined;
+    const logged = CHANNEL_NAMES.filter(name => (row as Record<string, number>)[name] > 0);
+    return { logged, status: logged.filter(name => name === 'FlowStatus') };
+  }
+
+  // Filters, sort and paging run in SQL. Pages in logging order are read by key from the
+  // (dump_id, rtd, id) index after the cursor row; a filtered or sorted page numbers its
+  // rows from an index-only pass over the dump's keys.
+  async getRecordPage(dumpId: number, query: RecordQuery): Promise<RecordPage> {
+    const where = sql.join([sql`${sensorData.dumpId} = ${dumpId}`, ...query.filters.map(filter =>
+      sql`${recordColumn(filter.column)} ${sql.raw(COMPARISONS[filter.op])} ${recordValue(filter.column, filter.value)}`
+    )], sql` AND `);
+    const selected = query.columns.map(name => sql`${channelColumn(name)} AS ${sql.identifier(columnKey(name))}`);
+    const direction = sql.raw(query.order === 'asc' ? 'ASC' : 'DESC');
+    const order = query.sort === null
+      ? sql`${sensorData.rtd} ${direction}, ${sensorData.id} ${direction}`
+      : sql`${recordColumn(query.sort)} ${direction} NULLS LAST, ${sensorData.rtd} ASC, ${sensorData.id} ASC`;
+    const keyed = !!query.cursor?.row;
+    const start = query.cursor ? query.cursor.offset : query.offset;
+
+    const [counts, page] = await Promise.all([
+      this.db.execute(sql`SELECT count(*)::int AS "totalRecords",
+          (count(*) FILTER (WHERE ${where}))::int AS total
+        FROM ${sensorData} WHERE ${sensorData.dumpId} = ${dumpId}`),
+      this.db.execute(sql`SELECT ${sql.join([
+          sql`${sensorData.id} AS id`,
+          sql`(extract(epoch FROM ${sensorData.rtd}) * 1000)::float8 AS rtd`,
+          ...selected,
+        ], sql`, `)}
+        FROM ${sensorData}
+        WHERE ${where} AND ${afterCursor(query)}
+        ORDER BY ${order}
+        LIMIT ${query.limit} OFFSET ${keyed ? 0 : start}`),
+    ]);
+
+    const { totalRecords, total } = counts.rows[0] as { totalRecords: number; total: number };
+    const stored = page.rows as ({ id: number; rtd: number } & Record<string, number | string | null>)[];
+
+    // Record indexes: consecutive in an unfiltered logging-order page, otherwise looked up
+    let records: number[];
+    if (query.filters.length === 0 && query.sort === null) {
+      records = stored.map((_, i) => query.order === 'asc' ? start + i : totalRecords - 1 - start - i);
+    } else if (stored.length === 0) {
+      records = [];
+    } else {
+      const numbered = await this.db.execute(sql`SELECT id, record FROM (
+          SELECT ${sensorData.id} AS id, (row_number() OVER (ORDER BY ${sensorData.rtd}, ${sensorData.id}) - 1)::int AS record
+          FROM ${sensorData} WHERE ${sensorData.dumpId} = ${dumpId}
+        ) keys WHERE id IN (${sql.join(stored.map(row => sql`${row.id}`), sql`, `)})`);
+      const byId = new Map((numbered.rows as { id: number; record: number }[]).map(row => [row.id, row.record]));
+      records = stored.map(row => byId.get(row.id)!);
+    }
+
+    const rows: RecordRow[] = stored.map(({ id, rtd, ...values }, i) => ({
+      record: records[i],
+      rtd: new Date(rtd).toISOString(),
+      ...values,
+    }));
+    const last = stored[stored.length - 1];
+    const sortValue = (row: RecordRow) =>
+      query.sort === null ? row.record : query.sort === 'rtd' ? Date.parse(row.rtd) : row[columnKey(query.sort)];
+
+    return {
+      totalRecords,
+      total,
+      offset: start,
+      limit: query.limit,
+      columns: ['record', 'rtd', ...query.columns.map(columnKey)],
+      rows,
+      nextCursor: start + query.limit < total && last
+        ? encodeCursor(query, {
+            value: sortValue(rows[rows.length - 1]),
+            record: rows[rows.length - 1].record,
+            offset: start + query.limit,
+            row: { rtd: last.rtd, id: last.id },
+          })
+        : null,
+    };
+  }
+
   async getSensorDataByDumpId(dumpId: number, limit?: number): Promise<SensorData[]> {
-    const query = db.select().from(sensorData).where(eq(sensorData.dumpId, dumpId)).orderBy(sensorData.rtd);
+    const query = this.db.select().from(sensorData).where(eq(sensorData.dumpId, dumpId)).orderBy(sensorData.rtd, sensorData.id);
     if (limit) {
-      const sensorDataResult = await query.limit(limit);
-      return sensorDataResult;
+      return await query.limit(limit);
     }
-    // For visualization, limit to 5000 records for performance
-    const sensorDataResult = await query.limit(5000);
-    return sensorDataResult;
+    return await query;
   }
 
   async createAnalysisResults(insertResults: InsertAnalysisResults): Promise<AnalysisResults> {
-    const [results] = await db.insert(analysisResults).values(insertResults).returning();
+    const [results] = await this.db.insert(analysisResults).values(insertResults).returning();
     return results;
   }
 
   async getAnalysisResultsByDumpId(dumpId: number): Promise<AnalysisResults | undefined> {
-    const [results] = await db.select().from(analysisResults).where(eq(analysisResults.dumpId, dumpId));
+    const [results] = await this.db.select().from(analysisResults).where(eq(analysisResults.dumpId, dumpId));
     return results;
   }
 
   async createDeviceReport(insertReport: InsertDeviceReport): Promise<DeviceReport> {
-    const [report] = await db.insert(deviceReports).values(insertReport).returning();
+    const [report] = await this.db.insert(deviceReports).values(insertReport).returning();
     return report;
   }
 
   async getDeviceReportByDumpId(dumpId: number): Promise<DeviceReport | undefined> {
-    const [report] = await db.select().from(deviceReports).where(eq(deviceReports.dumpId, dumpId));
+    const [report] = await this.db.select().from(deviceReports).where(eq(deviceReports.dumpId, dumpId));
     return report;
   }
 
+  async createDumpSegments(segments: InsertDumpSegment[]): Promise<void> {
+    const BATCH_SIZE = 500;
+    for (let i = 0; i < segments.length; i += BATCH_SIZE) {
+      await this.db.insert(dumpSegments).values(segments.slice(i, i + BATCH_SIZE));
+    }
+  }
+
+  async getDumpSegmentsByDumpId(dumpId: number): Promise<DumpSegment[]> {
+    return await this.db.select().from(dumpSegments)
+      .where(eq(dumpSegments.dumpId, dumpId))
+      .orderBy(dumpSegments.kind, dumpSegments.sequence);
+  }
+
+  async createSensorAggregates(aggregates: InsertSensorAggregate[]): Promise<void> {
+    for (const dumpId of Array.from(new Set(aggregates.map(aggregate => aggregate.dumpId)))) this.invalidateCaches(dumpId);
+    // Fine levels of long channels are large; insert a few rows at a time
+    const BATCH_SIZE = 10;
+    for (let i = 0; i < aggregates.length; i += BATCH_SIZE) {
+      await this.db.insert(sensorAggregates).values(aggregates.slice(i, i + BATCH_SIZE));
+    }
+  }
+
+  async getSensorAggregateLevels(dumpId: number): Promise<SensorAggregateLevel[]> {
+    return await this.db.select({
+      id: sensorAggregates.id,
+      dumpId: sensorAggregates.dumpId,
+      channel: sensorAggregates.channel,
+      bucketSeconds: sensorAggregates.bucketSeconds,
+      startTime: sensorAggregates.startTime,
+      endTime: sensorAggregates.endTime,
+    }).from(sensorAggregates)
+      .where(eq(sensorAggregates.dumpId, dumpId))
+      .orderBy(sensorAggregates.channel, sensorAggregates.bucketSeconds);
+  }
+
+  async getSensorAggregate(dumpId: number, channel: string, bucketSeconds: number): Promise<SensorAggregate | undefined> {
+    const key = `${dumpId}:${channel}:${bucketSeconds}`;
+    const cached = this.aggregateCache.get(key);
+    if (cached) {
+      this.aggregateCache.delete(key);
+      this.aggregateCache.set(key, cached);
+      return cached;
+    }
+
+    const version = this.columnVersions.get(dumpId) ?? 0;
+    const [aggregate] = await this.db.select().from(sensorAggregates)
+      .where(and(
+        eq(sensorAggregates.dumpId, dumpId),
+        eq(sensorAggregates.channel, channel),
+        eq(sensorAggregates.bucketSeconds, bucketSeconds),
+      ))
+      .limit(1);
+    if (aggregate && (this.columnVersions.get(dumpId) ?? 0) === version) {
+      this.aggregateCache.set(key, aggregate);
+      if (this.aggregateCache.size > MAX_CACHED_LEVELS) this.aggregateCache.delete(this.aggregateCache.keys().next().value!);
+    }
+    return aggregate;
+  }
+
+  async createAnalysisEvents(events: InsertAnalysisEvent[]): Promise<void> {
+    const BATCH_SIZE = 500;
+    for (let i = 0; i < events.length; i += BATCH_SIZE) {
+      await this.db.insert(analysisEvents).values(events.slice(i, i + BATCH_SIZE));
+    }
+  }
+
+  async getAnalysisEvents(dumpId: number, filter: AnalysisEventFilter, offset: number, limit: number): Promise<{ total: number; events: AnalysisEvent[] }> {
+    const conditions: SQL[] = [eq(analysisEvents.dumpId, dumpId)];
+    if (filter.channels) conditions.push(inArray(analysisEvents.channel, filter.channels));
+    if (filter.severities) conditions.push(inArray(analysisEvents.severity, filter.severities));
+    if (filter.from) conditions.push(gte(analysisEvents.endTime, filter.from));
+    if (filter.to) conditions.push(lte(analysisEvents.startTime, filter.to));
+    const [[{ total }], events] = await Promise.all([
+      this.db.select({ total: count() }).from(analysisEvents).where(and(...conditions)),
+      this.db.select().from(analysisEvents)
+        .where(and(...conditions))
+        .orderBy(asc(analysisEvents.startTime), asc(analysisEvents.id))
+        .offset(offset)
+        .limit(limit),
+    ]);
+    return { total, events };
+  }
+
+  async createAnalysisRuleSet(insertRuleSet: InsertAnalysisRuleSet): Promise<AnalysisRuleSet> {
+    const [ruleSet] = await this.db.insert(analysisRuleSets).values(insertRuleSet).returning();
+    return ruleSet;
+  }
+
+  async getAnalysisRuleSets(): Promise<AnalysisRuleSet[]> {
+    return await this.db.select().from(analysisRuleSets).orderBy(analysisRuleSets.id);
+  }
+
+  async activateAnalysisRuleSet(id: number | null, toolTypes: ToolType[]): Promise<void> {
+    await this.db.transaction(async (tx) => {
+      for (const ruleSet of await tx.select().from(analysisRuleSets)) {
+        const activeFor = reassignActive(ruleSet, id, toolTypes);
+        if (activeFor.join() !== ruleSet.activeFor.join()) {
+          await tx.update(analysisRuleSets).set({ activeFor }).where(eq(analysisRuleSets.id, ruleSet.id));
+        }
+      }
+    });
+  }
+
+  async createBatteryPack(insertPack: InsertBatteryPack): Promise<BatteryPack> {
+    const [pack] = await this.db.insert(batteryPacks).values(insertPack).returning();
+    return pack;
+  }
+
+  async getBatteryPacks(): Promise<BatteryPack[]> {
+    return await this.db.select().from(batteryPacks).orderBy(batteryPacks.id);
+  }
+
+  async getBatteryPack(id: number): Promise<BatteryPack | undefined> {
+    const [pack] = await this.db.select().from(batteryPacks).where(eq(batteryPacks.id, id));
+    return pack;
+  }
+
+  async updateBatteryPack(id: number, update: InsertBatteryPack): Promise<BatteryPack | undefined> {
+    const [pack] = await this.db.update(batteryPacks).set(update).where(eq(batteryPacks.id, id)).returning();
+    return pack;
+  }
+
   // Additional methods needed by routes
   async getSensorData(dumpId: number, limit?: number): Promise<SensorData[]> {
     return this.getSensorDataByDumpId(dumpId, limit);
@@ -328,4 +876,15 @@ export class DatabaseStorage implements IStorage {
   }
 }
 
-export const storage = new DatabaseStorage();
\ No newline at end of file
+// Select the storage backend: Postgres whenever a database is provisioned, the
+// in-memory store otherwise. STORAGE_BACKEND=memory|database forces a choice.
+function createStorage(): IStorage {
+  const backend = process.env.STORAGE_BACKEND || (process.env.DATABASE_URL ? "database" : "memory");
+  if (backend === "memory") {
+    console.warn("⚠️ Using in-memory storage - processed dumps will not survive a restart");
+    return new MemStorage();
+  }
+  return new DatabaseStorage();
+}
+
+export const storage: IStorage = createStorage();
@@ -1,4 +1,4 @@
-import { pgTable, text, serial, integer, boolean, real, timestamp, jsonb } from "drizzle-orm/pg-core";
+import { pgTable, text, serial, integer, boolean, real, timestamp, jsonb, index, uniqueIndex } from "drizzle-orm/pg-core";
 import { relations } from "drizzle-orm";
 import { createInsertSchema } from "drizzle-zod";
 import { z } from "zod";
@@ -6,17 +6,31 @@ import { z } from "zod";
 export const memoryDumps = pgTable("memory_dumps", {
   id: serial("id").primaryKey(),
   filename: text("filename").notNull(),
-  fileType: text("file_type").notNull(), // 'MDG' or 'MP'
+  fileType: text("file_type").notNull(), // 'MDG', 'MP' or 'UNKNOWN' - detected from content unless overridden
+  detectedFileType: text("detected_file_type"), // what BinaryParser.detectToolType classified the upload as
+  detectionConfidence: real("detection_confidence"), // 0-1 confidence of that classification
+  fileSize: integer("file_size"), // bytes of the uploaded .bin, counted against the disk retention budget
+  contentHash: text("content_hash"), // SHA-256 hex of the uploaded bytes, used for deduplication
   uploadedAt: timestamp("uploaded_at").defaultNow().notNull(),
   processedAt: timestamp("processed_at"),
   status: text("status").notNull().default("pending"), // 'pending', 'processing', 'completed', 'error'
   errorMessage: text("error_message"),
-});
+  parserVersion: text("parser_version"), // BinaryParser.VERSION that produced the stored sensor data
+  analysisVersion: text("analysis_version"), // analysis version that produced the stored results
+  startTimeOverride: timestamp("start_time_override", { withTimezone: true }), // user-supplied time of the first record
+  timezone: text("timezone"), // IANA zone of the tool clock and filename time; DUMP_TIMEZONE when null
+  sampleIntervalMs: integer("sample_interval_ms"), // user-supplied spacing between records; layout default when null
+  timeSource: text("time_source"), // 'override', 'record', 'header' or 'filename' - what the stored RTD values derive from
+  dataQuality: jsonb("data_quality").$type<DataQualitySummary>(), // per-channel sample quality counts from the last parse
+  parseDiagnostics: jsonb("parse_diagnostics").$type<ParseDiagnostics>(), // which byte ranges were decoded or skipped, and why
+}, (table) => ({
+  contentHashIdx: index("memory_dumps_content_hash_idx").on(table.contentHash),
+}));
 
 export const sensorData = pgTable("sensor_data", {
   id: serial("id").primaryKey(),
   dumpId: integer("dump_id").references(() => memoryDumps.id).notNull(),
-  rtd: timestamp("rtd").notNull(),
+  rtd: timestamp("rtd", { withTimezone: true }).notNull(), // always UTC
   tempMP: real("temp_mp"),
   resetMP: integer("reset_mp"),
   batteryCurrMP: real("battery_curr_mp"),
@@ -67,7 +81,11 @@ export const sensorData = pgTable("sensor_data", {
   surveyCINC: real("survey_cinc"),
   surveyAZM: real("survey_azm"),
   surveyCAZM: real("survey_cazm"),
-});
+  quality: jsonb("quality").$type<SampleQualityMask>(), // channels whose value is null because the sample was not valid
+}, (table) => ({
+  // Logging order within a dump, which records queries page through by key
+  dumpRtdIdx: index("sensor_data_dump_id_rtd_id_idx").on(table.dumpId, table.rtd, table.id),
+}));
 
 export const analysisResults = pgTable("analysis_results", {
   id: serial("id").primaryKey(),
@@ -76,6 +94,9 @@ export const analysisResults = pgTable("analysis_results", {
   criticalIssues: integer("critical_issues").notNull().default(0),
   warnings: integer("warnings").notNull().default(0),
   issues: jsonb("issues").notNull(),
+  ruleSetName: text("rule_set_name"), // analysis rule set that produced the issues
+  ruleSetVersion: text("rule_set_version"),
+  sensorHealth: jsonb("sensor_health").$type<SensorHealthSummary>(), // per-channel sensor health from the same pass
   generatedAt: timestamp("generated_at").defaultNow().notNull(),
 });
 
@@ -99,15 +120,259 @@ export const deviceReports = pgTable("device_reports", {
   mdgExtremeShockIndex: real("mdg_extreme_shock_index"),
   mdgMaxTempCelsius: real("mdg_max_temp_celsius"),
   mdgMaxTempFahrenheit: real("mdg_max_temp_fahrenheit"),
+  batteryAmpHours: real("battery_amp_hours"), // charge drawn from the battery over the dump
+  batteryWattHours: real("battery_watt_hours"),
+  provenance: jsonb("provenance"), // DeviceReportProvenance - where every value above came from
   generatedAt: timestamp("generated_at").defaultNow().notNull(),
 });
 
+// Why a sample is not a usable reading. Valid samples carry a value and no flag; every
+// other sample is stored as null with its flag in the record's quality mask, so a real 0
+// is never confused with a corrupt one.
+export type SampleQuality = 'valid' | 'out-of-range' | 'nan' | 'erased' | 'padding';
+
+// Sensor data column -> flag, holding only the channels that are not valid
+export type SampleQualityMask = Partial<Record<string, Exclude<SampleQuality, 'valid'>>>;
+
+export interface DataQualitySummary {
+  records: number;
+  paddingRecords: number; // records that are entirely 0x00 filler
+  channels: Record<string, Record<SampleQuality, number>>; // per sensor data column logged by the layout
+  // Values the firmware does not log per record (e.g. the MP vibration threshold)
+  constants: Record<string, { value: number; unit?: string }>;
+}
+
+export type SensorHealthStatus = 'good' | 'suspect' | 'failed';
+
+// Whether a channel's readings look like a working sensor, from the analysis pass
+export interface ChannelHealth {
+  channel: string; // sensor data column
+  status: SensorHealthStatus;
+  readings: number;
+  validPercent: number; // of the dump's records
+  longestStuck: { value: number; readings: number; startRecord: number } | null; // identical non-zero readings
+  stuckPercent: number; // of the readings, in stuck runs
+  flatlinePercent: number; // of the readings, held at the channel's highest or lowest reading
+  levels: number | null; // distinct readings; null for counters, which are whole numbers anyway
+  offsetSteps: { record: number; from: number; to: number }[]; // level before and after, first 10
+  drift: number | null; // level change from the first to the last part of the run, for channels expected to hold steady
+  findings: string[];
+}
+
+export interface SensorHealthSummary {
+  good: number;
+  suspect: number;
+  failed: number;
+  channels: ChannelHealth[];
+}
+
+// A contiguous byte range of a dump file and what the parser made of it
+export interface ParseRegion {
+  kind: 'header' | 'records' | 'erased' | 'zero-fill' | 'truncated';
+  startByte: number;
+  endByte: number; // exclusive
+  records: number; // record slots in the region; 0 for the header and a truncated tail
+}
+
+export interface ParseDiagnostics {
+  fileSize: number;
+  layoutId: string;
+  headerBytes: number;
+  recordSize: number;
+  bytesConsumed: number; // header plus every decoded record
+  recordsDecoded: number;
+  recordsSkipped: {
+    erased: number;   // all-0xFF slots: flash that was never written since the last erase
+    zeroFill: number; // all-0x00 slots before the first or after the last logged record
+  };
+  truncatedBytes: number; // trailing bytes too short to hold a whole record
+  wrapAround: {
+    detected: boolean;
+    method: 'record-clock' | 'erased-gap' | null;
+    oldestRecord: number | null; // file record index decoding starts from when wrapped
+    note: string;
+  };
+  regions: ParseRegion[]; // in file order
+}
+
+// Runs of records between power cycles ('power') or with a constant FlowStatus ('circulation')
+export const dumpSegments = pgTable("dump_segments", {
+  id: serial("id").primaryKey(),
+  dumpId: integer("dump_id").references(() => memoryDumps.id).notNull(),
+  kind: text("kind").notNull(), // 'power' or 'circulation'
+  sequence: integer("sequence").notNull(), // 0-based position among the dump's segments of this kind
+  startTime: timestamp("start_time", { withTimezone: true }).notNull(),
+  endTime: timestamp("end_time", { withTimezone: true }).notNull(), // time of the last record
+  durationSeconds: real("duration_seconds").notNull(), // includes the last record's logging interval
+  startRecord: integer("start_record").notNull(),
+  endRecord: integer("end_record").notNull(), // inclusive
+  state: text("state"), // reset counter for power segments, 'On' / 'Off' for circulation
+  startReason: text("start_reason").notNull(), // 'start', 'reset', 'clock-gap' or 'flow-change'
+  stats: jsonb("stats").$type<SegmentStats>().notNull(), // per-channel statistics of the records in the segment
+  ampHours: real("amp_hours"), // battery charge drawn during the segment; null when current is not logged
+  wattHours: real("watt_hours"), // null when voltage or current is not logged
+}, (table) => ({
+  dumpIdIdx: index("dump_segments_dump_id_idx").on(table.dumpId),
+}));
+
+export interface SegmentChannelStats {
+  min: number;
+  max: number;
+  mean: number;
+  count: number;
+}
+
+export type SegmentStats = Record<string, SegmentChannelStats>;
+
+// Per-channel min/max/mean/count over fixed time buckets, one row per channel and bucket
+// size, built at ingest so charts over long windows need not scan the raw records
+export const sensorAggregates = pgTable("sensor_aggregates", {
+  id: serial("id").primaryKey(),
+  dumpId: integer("dump_id").references(() => memoryDumps.id).notNull(),
+  channel: text("channel").notNull(), // sensor data column, e.g. tempMP
+  bucketSeconds: integer("bucket_seconds").notNull(), // 1, 10, 60, 600 or 3600
+  startTime: timestamp("start_time", { withTimezone: true }).notNull(), // first sample aggregated
+  endTime: timestamp("end_time", { withTimezone: true }).notNull(), // last sample aggregated
+  buckets: jsonb("buckets").$type<AggregateBuckets>().notNull(),
+}, (table) => ({
+  dumpIdIdx: index("sensor_aggregates_dump_id_idx").on(table.dumpId),
+}));
+
+// Non-empty buckets in time order; t is the bucket start, ms since the Unix epoch,
+// aligned to a multiple of the bucket size
+export interface AggregateBuckets {
+  t: number[];
+  min: number[];
+  max: number[];
+  mean: number[];
+  count: number[];
+}
+
+// Discrete events behind the analysis issues: each run of consecutive records matching a
+// rule's condition, with where it peaked
+export const analysisEvents = pgTable("analysis_events", {
+  id: serial("id").primaryKey(),
+  dumpId: integer("dump_id").references(() => memoryDumps.id).notNull(),
+  rule: text("rule").notNull(), // id of the rule, within the dump's rule set, that matched
+  channel: text("channel").notNull(), // metric the rule reads: a sensor data column or a derived metric such as shockMagnitude
+  severity: text("severity").notNull(), // severity of the issue the event belongs to
+  startTime: timestamp("start_time", { withTimezone: true }).notNull(),
+  endTime: timestamp("end_time", { withTimezone: true }).notNull(), // time of the last matching record
+  durationSeconds: real("duration_seconds").notNull(), // includes the last record's logging interval
+  startRecord: integer("start_record").notNull(),
+  endRecord: integer("end_record").notNull(), // inclusive
+  count: integer("count").notNull(), // matching records
+  peakValue: real("peak_value"), // most extreme reading in the rule's direction; null for status channels and missing readings
+  peakTime: timestamp("peak_time", { withTimezone: true }),
+}, (table) => ({
+  dumpIdIdx: index("analysis_events_dump_id_idx").on(table.dumpId),
+}));
+
+// Battery packs the depletion forecast is modelled on, configured through the API
+export const batteryPacks = pgTable("battery_packs", {
+  id: serial("id").primaryKey(),
+  name: text("name").notNull().unique(),
+  toolType: text("tool_type").notNull(), // 'MP' or 'MDG'
+  ratedCapacityAh: real("rated_capacity_ah").notNull(),
+  cutoffVoltage: real("cutoff_voltage").notNull(), // the tool shuts down below this
+  description: text("description"),
+  createdAt: timestamp("created_at").defaultNow().notNull(),
+});
+
+// Analysis rule sets added through the API; the built-in sets live in code. A name and
+// version pair is never changed once stored - new limits mean a new version.
+export const analysisRuleSets = pgTable("analysis_rule_sets", {
+  id: serial("id").primaryKey(),
+  name: text("name").notNull(),
+  version: text("version").notNull(), // major.minor.patch
+  description: text("description"),
+  toolTypes: jsonb("tool_types").$type<ToolType[]>().notNull(), // tool types the rules are written for
+  rules: jsonb("rules").$type<AnalysisRule[]>().notNull(),
+  activeFor: jsonb("active_for").$type<ToolType[]>().notNull().default([]), // tool types new dumps are analyzed with it for
+  createdAt: timestamp("created_at").defaultNow().notNull(),
+}, (table) => ({
+  nameVersionIdx: uniqueIndex("analysis_rule_sets_name_version_idx").on(table.name, table.version),
+}));
+
+export type ToolType = 'MP' | 'MDG';
+
+export type RuleSeverity = 'critical' | 'warning' | 'info';
+export type RuleComparison = 'gt' | 'gte' | 'lt' | 'lte' | 'eq' | 'ne';
+
+// Which readings of a metric a rule matches. Statistical conditions compare each reading
+// with the statistics of all readings the rule looks at.
+export type RuleCondition =
+  | { op: RuleComparison; value: number | string }    // strings only for status metrics (eq / ne)
+  | { op: 'between' | 'outside'; min: number; max: number } // bounds inclusive
+  | { op: 'above-mean'; factor?: number; sigma?: number; floor?: number } // > max(floor, factor × mean + sigma × σ)
+  | { op: 'deviates'; sigma: number }                 // |reading - mean| > sigma × σ
+  | { op: 'iqr'; k: number }                         // outside [Q1 - k × IQR, Q3 + k × IQR]
+  | { op: 'missing' };                               // the channel logged no valid reading
+
+// Statistics a rule can test and fill its message with:
+//   count, share (% of the readings looked at), events (runs of matching readings),
+//   longest (s), peak, lowest, matchedMean - of the matching readings
+//   population, mean, stdDev, cv (%), trend (% change of the last quarter's mean from the
+//   first quarter's) - of every reading looked at
+export type RuleStatistic =
+  | 'count' | 'share' | 'events' | 'longest' | 'peak' | 'lowest' | 'matchedMean'
+  | 'population' | 'mean' | 'stdDev' | 'cv' | 'trend';
+
+export interface RuleGate {
+  stat: RuleStatistic;
+  op: 'gt' | 'gte' | 'lt' | 'lte';
+  value: number;
+}
+
+export interface AnalysisRule {
+  id: string;                  // unique within the rule set
+  metric: string;              // sensor data column (tempMP) or derived metric (shockMagnitude)
+  where?: { metric: string; condition: RuleCondition }[]; // only look at readings meeting all of these
+  condition?: RuleCondition;   // omitted: every reading looked at matches
+  duration?: number;           // seconds a run of matching readings must last to count
+  mergeGapSeconds?: number;    // counted runs this close join one event (default 30)
+  require?: RuleGate[];        // all must hold to raise the issue, besides at least one match
+  severity: RuleSeverity;
+  escalate?: { when: RuleGate[]; severity: RuleSeverity; explanation?: string }[]; // first match wins
+  message: string;             // templates: {stat} or {stat:decimals}; {statC} converts °F to °C
+  explanation: string;
+}
+
+// A rule set as written in JSON, stored or built in
+export interface RuleSetDefinition {
+  name: string;
+  version: string;
+  description?: string | null;
+  toolTypes: ToolType[];
+  rules: AnalysisRule[];
+}
+
+// Where a device report value came from. Nothing is invented: a value that can neither be
+// decoded from the header nor computed from the sensor records is null and 'unavailable'.
+export type FieldProvenance =
+  | { source: 'header'; offset: number; type: 'u8' | 'u16' | 'u32' | 'f32' | 'version' }
+  // Read from the first of several candidate header offsets that held a plausible value;
+  // no layout documents the offset, so the value is unverified
+  | { source: 'inferred'; offset: number; type: 'u16' | 'u32' | 'f32'; candidates: number[] }
+  | { source: 'computed'; method: string }
+  | { source: 'unavailable'; reason: string };
+
+export type DeviceReportField = Exclude<
+  keyof typeof deviceReports.$inferSelect,
+  'id' | 'dumpId' | 'provenance' | 'generatedAt'
+>;
+
+export type DeviceReportProvenance = Partial<Record<DeviceReportField, FieldProvenance>>;
+
 export const insertMemoryDumpSchema = createInsertSchema(memoryDumps).omit({
   id: true,
   uploadedAt: true,
   processedAt: true,
   status: true,
   errorMessage: true,
+  timeSource: true,
+  dataQuality: true,
+  parseDiagnostics: true,
 });
 
 export const insertSensorDataSchema = createInsertSchema(sensorData).omit({
@@ -119,6 +384,29 @@ export const insertAnalysisResultsSchema = createInsertSchema(analysisResults).o
   generatedAt: true,
 });
 
+export const insertDumpSegmentSchema = createInsertSchema(dumpSegments).omit({
+  id: true,
+});
+
+export const insertSensorAggregateSchema = createInsertSchema(sensorAggregates).omit({
+  id: true,
+});
+
+export const insertAnalysisEventSchema = createInsertSchema(analysisEvents).omit({
+  id: true,
+});
+
+export const insertBatteryPackSchema = createInsertSchema(batteryPacks).omit({
+  id: true,
+  createdAt: true,
+});
+
+export const insertAnalysisRuleSetSchema = createInsertSchema(analysisRuleSets).omit({
+  id: true,
+  activeFor: true,
+  createdAt: true,
+});
+
 export const insertDeviceReportSchema = createInsertSchema(deviceReports).omit({
   id: true,
   generatedAt: true,
@@ -128,16 +416,32 @@ export type InsertMemoryDump = z.infer<typeof insertMemoryDumpSchema>;
 export type MemoryDump = typeof memoryDumps.$inferSelect;
 export type InsertSensorData = z.infer<typeof insertSensorDataSchema>;
 export type SensorData = typeof sensorData.$inferSelect;
-export type InsertAnalysisResults = z.infer<typeof insertAnalysisResultsSchema>;
+export type InsertAnalysisResults = Omit<z.infer<typeof insertAnalysisResultsSchema>, 'sensorHealth'> & { sensorHealth?: SensorHealthSummary | null };
 export type AnalysisResults = typeof analysisResults.$inferSelect;
 export type InsertDeviceReport = z.infer<typeof insertDeviceReportSchema>;
 export type DeviceReport = typeof deviceReports.$inferSelect;
+export type InsertDumpSegment = z.infer<typeof insertDumpSegmentSchema>;
+export type DumpSegment = typeof dumpSegments.$inferSelect;
+// drizzle-zod cannot see through the jsonb $type of the bucket arrays
+export type InsertSensorAggregate = Omit<z.infer<typeof insertSensorAggregateSchema>, 'buckets'> & { buckets: AggregateBuckets };
+export type SensorAggregate = typeof sensorAggregates.$inferSelect;
+export type SensorAggregateLevel = Omit<SensorAggregate, 'buckets'>;
+export type InsertAnalysisEvent = z.infer<typeof insertAnalysisEventSchema>;
+export type AnalysisEvent = typeof analysisEvents.$inferSelect;
+export type InsertBatteryPack = z.infer<typeof insertBatteryPackSchema>;
+export type BatteryPack = typeof batteryPacks.$inferSelect;
+// Same drizzle-zod limitation for the rule arrays
+export type InsertAnalysisRuleSet = Omit<z.infer<typeof insertAnalysisRuleSetSchema>, 'toolTypes' | 'rules'> & RuleSetDefinition;
+export type AnalysisRuleSet = typeof analysisRuleSets.$inferSelect;
 
 // Relations
 export const memoryDumpsRelations = relations(memoryDumps, ({ many }) => ({
   sensorData: many(sensorData),
   analysisResults: many(analysisResults),
   deviceReports: many(deviceReports),
+  dumpSegments: many(dumpSegments),
+  sensorAggregates: many(sensorAggregates),
+  analysisEvents: many(analysisEvents),
 }));
 
 export const sensorDataRelations = relations(sensorData, ({ one }) => ({
@@ -160,3 +464,24 @@ export const deviceReportsRelations = relations(deviceReports, ({ one }) => ({
     references: [memoryDumps.id],
   }),
 }));
+
+export const dumpSegmentsRelations = relations(dumpSegments, ({ one }) => ({
+  memoryDump: one(memoryDumps, {
+    fields: [dumpSegments.dumpId],
+    references: [memoryDumps.id],
+  }),
+}));
+
+export const sensorAggregatesRelations = relations(sensorAggregates, ({ one }) => ({
+  memoryDump: one(memoryDumps, {
+    fields: [sensorAggregates.dumpId],
+    references: [memoryDumps.id],
+  }),
+}));
+
+export const analysisEventsRelations = relations(analysisEvents, ({ one }) => ({
+  memoryDump: one(memoryDumps, {
+    fields: [analysisEvents.dumpId],
+    references: [memoryDumps.id],
+  }),
+}));